@@ -24,11 +24,16 @@ import Receipts from "@/pages/receipts";             // Управление п
 import Costs from "@/pages/costs";                   // Управление расходами
 import Funds from "@/pages/funds";                   // Управление фондами
 import FundTransfers from "@/pages/fund-transfers";  // Переводы между фондами
+import MoneyAccounts from "@/pages/money-accounts";  // Счета: касса, банк, карта
+import BankImport from "@/pages/bank-import";        // Импорт банковской выписки
+import BankReconciliation from "@/pages/bank-reconciliation"; // Сверка выписок с документами
+import SpreadsheetImport from "@/pages/spreadsheet-import"; // Импорт из CSV/XLSX
 import FundDistributions from "@/pages/fund-distributions"; // Распределение по фондам
 import IncomeSources from "@/pages/income-sources";  // Источники доходов
 import Nomenclature from "@/pages/nomenclature";     // Номенклатура расходов
 import ExpenseCategories from "@/pages/expense-categories"; // Категории расходов
 import Reports from "@/pages/reports";               // Отчеты и аналитика
+import Integrity from "@/pages/integrity";           // Проверка целостности данных
 import NotFound from "@/pages/not-found";            // Страница 404
 
 // Импорт компонентов layout
@@ -80,11 +85,16 @@ function Router() {
               <Route path="/costs" component={Costs} />                     {/* Расходы */}
               <Route path="/funds" component={Funds} />                     {/* Фонды */}
               <Route path="/fund-transfers" component={FundTransfers} />    {/* Переводы между фондами */}
+              <Route path="/money-accounts" component={MoneyAccounts} />    {/* Счета и перемещения */}
+              <Route path="/bank-import" component={BankImport} />          {/* Импорт выписки 1С */}
+              <Route path="/bank-reconciliation" component={BankReconciliation} /> {/* Сверка с банком */}
+              <Route path="/spreadsheet-import" component={SpreadsheetImport} /> {/* Импорт из таблиц */}
               <Route path="/fund-distributions" component={FundDistributions} /> {/* Распределение */}
               <Route path="/income-sources" component={IncomeSources} />    {/* Источники доходов */}
               <Route path="/nomenclature" component={Nomenclature} />       {/* Номенклатура */}
               <Route path="/expense-categories" component={ExpenseCategories} /> {/* Категории расходов */}
               <Route path="/reports" component={Reports} />                 {/* Отчеты */}
+              <Route path="/integrity" component={Integrity} />             {/* Проверка данных */}
               <Route component={NotFound} />                                {/* 404 для неизвестных маршрутов */}
             </Switch>
           </div>
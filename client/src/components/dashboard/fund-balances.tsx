@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { PiggyBank } from "lucide-react";
 import type { Fund } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 interface FundBalance {
   id: string;
@@ -14,13 +15,6 @@ export default function FundBalances() {
     retry: false,
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(amount);
-  };
-
   if (isLoading) {
     return (
       <div className="financial-card animate-pulse">
@@ -48,7 +42,7 @@ export default function FundBalances() {
                 </div>
               </div>
               <span className="font-semibold text-blue-800 dark:text-blue-400">
-                {formatCurrency(fund.balance)}
+                {formatMoney(fund.balance)}
               </span>
             </div>
           ))
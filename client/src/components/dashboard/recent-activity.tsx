@@ -3,6 +3,7 @@ import { Plus, Minus, PiggyBank } from "lucide-react";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
 import type { Receipt, Cost } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 interface RecentActivity {
   recentReceipts: (Receipt & { sponsorName?: string; incomeSourceName?: string })[];
@@ -26,13 +27,6 @@ export default function RecentActivity() {
     retry: false,
   });
 
-  const formatCurrency = (amount: string) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(parseFloat(amount));
-  };
-
   if (isLoading || fundBalancesLoading) {
     return (
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -74,7 +68,7 @@ export default function RecentActivity() {
                   </div>
                   <div className="text-right flex-shrink-0 ml-2">
                     <span className="font-semibold text-secondary text-sm whitespace-nowrap">
-                      +{formatCurrency(receipt.amount)}
+                      +{formatMoney(receipt.amount)}
                     </span>
                   </div>
                 </div>
@@ -111,7 +105,7 @@ export default function RecentActivity() {
                   </div>
                   <div className="text-right flex-shrink-0 ml-2">
                     <span className="font-semibold text-destructive text-sm whitespace-nowrap">
-                      -{formatCurrency(cost.totalAmount)}
+                      -{formatMoney(cost.totalAmount)}
                     </span>
                   </div>
                 </div>
@@ -146,7 +140,7 @@ export default function RecentActivity() {
                         currency: 'RUB',
                         minimumFractionDigits: 0,
                         maximumFractionDigits: 0,
-                      }).format(parseFloat(fund.balance.toString()))}
+                      }).format(fund.balance)}
                     </span>
                   </div>
                 </div>
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { TrendingUp, TrendingDown, BarChart3, Handshake, PiggyBank } from "lucide-react";
+import { formatMoney } from "@shared/money";
 
 interface DashboardStats {
   totalReceipts: number;
@@ -16,13 +17,6 @@ export default function StatsCards() {
     retry: false,
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(amount);
-  };
-
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -38,21 +32,21 @@ export default function StatsCards() {
   const cards = [
     {
       title: "Общие поступления",
-      value: formatCurrency(stats?.totalReceipts || 0),
+      value: formatMoney(stats?.totalReceipts || 0),
       icon: TrendingUp,
       color: "text-secondary",
       bgColor: "bg-secondary/10",
     },
     {
       title: "Общие расходы",
-      value: formatCurrency(stats?.totalCosts || 0),
+      value: formatMoney(stats?.totalCosts || 0),
       icon: TrendingDown,
       color: "text-destructive",
       bgColor: "bg-destructive/10",
     },
     {
       title: "Чистый баланс",
-      value: formatCurrency(stats?.netBalance || 0),
+      value: formatMoney(stats?.netBalance || 0),
       icon: BarChart3,
       color: "text-blue-800 dark:text-blue-400", // Темно-синий цвет
       bgColor: "bg-blue-50 dark:bg-blue-950",
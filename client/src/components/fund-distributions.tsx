@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { PiggyBank } from "lucide-react";
+import { formatMoney, fromKopecks, sumMoney, toKopecks } from "@shared/money";
 
 interface FundDistribution {
   id: string;
@@ -58,7 +59,7 @@ export default function FundDistributions({ receiptId, receiptAmount }: FundDist
     );
   }
 
-  const totalDistributed = distributions.reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+  const totalDistributed = sumMoney(distributions.map(dist => dist.amount));
 
   return (
     <Card>
@@ -82,7 +83,7 @@ export default function FundDistributions({ receiptId, receiptAmount }: FundDist
             </div>
             <div className="text-right">
               <div className="font-medium">
-                {parseFloat(distribution.amount).toLocaleString('ru-RU')} ₽
+                {formatMoney(distribution.amount)}
               </div>
               <Badge variant="outline" className="text-xs">
                 {parseFloat(distribution.percentage).toFixed(2)}%
@@ -94,16 +95,16 @@ export default function FundDistributions({ receiptId, receiptAmount }: FundDist
         <div className="pt-3 border-t border-border">
           <div className="flex items-center justify-between font-medium">
             <span>Total Distributed</span>
-            <span>{totalDistributed.toLocaleString('ru-RU')} ₽</span>
+            <span>{formatMoney(fromKopecks(totalDistributed))}</span>
           </div>
           <div className="flex items-center justify-between text-sm text-muted-foreground">
             <span>Receipt Amount</span>
-            <span>{parseFloat(receiptAmount).toLocaleString('ru-RU')} ₽</span>
+            <span>{formatMoney(receiptAmount)}</span>
           </div>
-          {totalDistributed !== parseFloat(receiptAmount) && (
+          {totalDistributed !== toKopecks(receiptAmount) && (
             <div className="flex items-center justify-between text-sm text-amber-600 dark:text-amber-400">
               <span>Difference</span>
-              <span>{(parseFloat(receiptAmount) - totalDistributed).toLocaleString('ru-RU')} ₽</span>
+              <span>{formatMoney(fromKopecks(toKopecks(receiptAmount) - totalDistributed))}</span>
             </div>
           )}
         </div>
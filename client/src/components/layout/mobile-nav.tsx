@@ -7,12 +7,14 @@ import {
   Receipt, 
   CreditCard, 
   PiggyBank, 
+  Wallet, 
   TrendingUp, 
   ArrowLeftRight, 
   Calculator, 
   FileText, 
   Tags, 
   FileBarChart,
+  ShieldCheck,
   Menu,
   X
 } from "lucide-react";
@@ -45,11 +47,13 @@ const navigation = [
     icon: PiggyBank,
     children: [
       { name: "Фонды", href: "/funds", icon: PiggyBank },
+      { name: "Счета", href: "/money-accounts", icon: Wallet },
       { name: "Переводы фондов", href: "/fund-transfers", icon: ArrowLeftRight },
       { name: "Распределение фондов", href: "/fund-distributions", icon: Calculator },
     ]
   },
   { name: "Отчеты", href: "/reports", icon: FileBarChart },
+  { name: "Проверка данных", href: "/integrity", icon: ShieldCheck },
 ];
 
 export default function MobileNav() {
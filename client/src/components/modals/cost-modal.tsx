@@ -1,11 +1,13 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { insertCostSchema, type Cost, type Fund, type ExpenseCategory, type ExpenseNomenclature } from "@shared/schema";
+import { costFundShareAmounts, insertCostSchema, type Cost, type CostFundShare, type CostItem, type CostSplitMode, type Fund, type FundExpenseCategory, type MoneyAccount, type ExpenseCategory, type ExpenseNomenclature, type PaymentMethod } from "@shared/schema";
+import { type Kopecks, formatMoney, fromKopecks, multiplyMoney, normalizeMoney, sumMoney, tryToKopecks } from "@shared/money";
+import { fundAllowsCategory } from "@shared/fundCategoryRules";
 import { z } from "zod";
 import {
   Dialog,
@@ -30,15 +32,75 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Plus, Split, Trash2 } from "lucide-react";
+import { paymentMethodLabels } from "@/lib/paymentMethods";
 
+interface CostItemRow {
+  expenseNomenclatureId: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+/** Сумма позиции в копейках или null, пока количество и цена не введены */
+const itemAmount = (item: CostItemRow): Kopecks | null => {
+  const quantity = Number(item.quantity.replace(",", "."));
+  const price = tryToKopecks(item.unitPrice);
+  if (!item.quantity || !Number.isFinite(quantity) || quantity <= 0 || price === null || price <= 0) return null;
+  return multiplyMoney(item.unitPrice, item.quantity);
+};
+
+/** Итог по позициям в копейках - сумма, которую сервер запишет в расход */
+const sumItemAmounts = (items: CostItemRow[]): Kopecks =>
+  items.reduce((sum, item) => sum + (itemAmount(item) ?? 0), 0);
+
+/** Позиции расхода для API: сумма расхода считается сервером по ним */
+const toCostItems = (items: CostItemRow[]) =>
+  items.map(item => ({
+    expenseNomenclatureId: item.expenseNomenclatureId,
+    quantity: item.quantity.replace(",", "."),
+    unitPrice: normalizeMoney(item.unitPrice),
+  }));
+
+interface FundShareRow {
+  fundId: string;
+  value: string;           // Сумма или процент доли - по способу разделения
+}
+
+/** Доли фондов в сумме расхода или null, пока доли не введены или не сходятся с суммой */
+const resolveFundShares = (mode: CostSplitMode, rows: FundShareRow[], totalAmount: string) => {
+  if (tryToKopecks(totalAmount) === null) return null;
+  if (rows.some(row => !row.fundId || (tryToKopecks(row.value) ?? 0) <= 0)) return null;
+  return costFundShareAmounts(totalAmount, { mode, shares: rows.map(row => ({ fundId: row.fundId, value: normalizeMoney(row.value) })) });
+};
 
+/** Введенная сумма долей: в копейках или в сотых долях процента */
+const sumShareValues = (rows: FundShareRow[]): Kopecks =>
+  rows.reduce((sum, row) => sum + Math.max(tryToKopecks(row.value) ?? 0, 0), 0);
+
+// Ответ GET /api/expense-nomenclature/:id/cost-suggestion
+type SuggestionSource = "nomenclature" | "history";
+type SuggestedField = "expenseCategoryId" | "fundId";
+
+interface CostSuggestion {
+  expenseCategoryId: string | null;
+  fundId: string | null;
+  sources: Record<SuggestedField, SuggestionSource | null>;
+}
+
+const suggestionHints: Record<SuggestionSource, string> = {
+  nomenclature: "По умолчанию для номенклатуры",
+  history: "Как в прошлых расходах",
+};
 
 const formSchema = z.object({
   date: z.string().min(1, "Дата обязательна"),
   expenseNomenclatureId: z.string().min(1, "Выбор номенклатуры обязателен"),
-  totalAmount: z.string().min(1, "Сумма обязательна"),
+  totalAmount: z.string(), // С позициями сумма считается по ним
   expenseCategoryId: z.string().min(1, "Выбор категории обязателен"),
-  fundId: z.string().min(1, "Выбор фонда обязателен"),
+  fundId: z.string(), // У разделенного расхода фонды указываются в долях
+  paymentMethod: z.string(), // "none" - способ оплаты не указан
+  moneyAccountId: z.string().min(1, "Выбор счета обязателен"),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -52,11 +114,20 @@ interface CostModalProps {
 export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [items, setItems] = useState<CostItemRow[]>([]); // Пусто - сумма расхода вводится целиком
+  const [suggested, setSuggested] = useState<Partial<Record<SuggestedField, SuggestionSource>>>({}); // Подставленные подсказкой поля
+  const [splitMode, setSplitMode] = useState<CostSplitMode | null>(null); // null - расход списывается с одного фонда
+  const [shareRows, setShareRows] = useState<FundShareRow[]>([]);
 
   const { data: funds = [] } = useQuery<Fund[]>({
     queryKey: ["/api/funds-with-balances"],
   });
 
+  const { data: moneyAccounts = [] } = useQuery<(MoneyAccount & { balance: number })[]>({
+    queryKey: ["/api/money-accounts"],
+  });
+  const activeMoneyAccounts = moneyAccounts.filter(account => account.isActive || account.id === cost?.moneyAccountId);
+
   const { data: expenseCategories = [] } = useQuery<ExpenseCategory[]>({
     queryKey: ["/api/expense-categories"],
   });
@@ -65,6 +136,11 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
     queryKey: ["/api/expense-nomenclature"],
   });
 
+  // Фонды с целевым назначением оплачивают только разрешенные статьи
+  const { data: fundCategories = [] } = useQuery<FundExpenseCategory[]>({
+    queryKey: ["/api/fund-expense-categories"],
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -73,11 +149,50 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
       totalAmount: "",
       expenseCategoryId: "",
       fundId: "",
+      paymentMethod: "none",
+      moneyAccountId: "",
     },
   });
 
+  // Позиции расхода при редактировании
+  const { data: storedItems } = useQuery<CostItem[]>({
+    queryKey: ["/api/costs", cost?.id, "items"],
+    enabled: isOpen && !!cost?.id,
+    retry: false,
+  });
+
+  // Доли фондов разделенного расхода при редактировании
+  const { data: storedShares } = useQuery<CostFundShare[]>({
+    queryKey: ["/api/costs", cost?.id, "fund-shares"],
+    enabled: isOpen && !!cost?.id,
+    retry: false,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const shares = cost && storedShares ? storedShares : [];
+    const byPercentage = shares.length > 0 && shares[0].percentage !== null;
+    setSplitMode(shares.length > 0 ? (byPercentage ? "percentage" : "amount") : null);
+    setShareRows(shares.map(share => ({
+      fundId: share.fundId,
+      value: byPercentage ? String(Number(share.percentage)) : share.amount,
+    })));
+  }, [cost, isOpen, storedShares]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // У позиций, введенных до появления количества, количество 1 и цена - их сумма
+    setItems(cost && storedItems ? storedItems.map(item => ({
+      expenseNomenclatureId: item.expenseNomenclatureId,
+      quantity: item.quantity ? String(Number(item.quantity)) : "1",
+      unitPrice: item.unitPrice ?? item.amount,
+    })) : []);
+  }, [cost, isOpen, storedItems]);
+
   useEffect(() => {
     if (isOpen) {
+      setSuggested({});
       if (cost) {
         form.reset({
           date: cost.date.toISOString().split('T')[0],
@@ -85,6 +200,8 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
           totalAmount: cost.totalAmount.toString(),
           expenseCategoryId: cost.expenseCategoryId,
           fundId: cost.fundId,
+          paymentMethod: cost.paymentMethod || "none",
+          moneyAccountId: cost.moneyAccountId,
         });
       } else {
         form.reset({
@@ -93,21 +210,38 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
           totalAmount: "",
           expenseCategoryId: "",
           fundId: "",
+          paymentMethod: "none",
+          moneyAccountId: "",
         });
       }
     }
   }, [cost, form, isOpen]);
 
+  // Новый расход по умолчанию оплачивается с первого активного счета
+  useEffect(() => {
+    if (isOpen && !cost && form.getValues("moneyAccountId") === "" && activeMoneyAccounts.length > 0) {
+      form.setValue("moneyAccountId", activeMoneyAccounts[0].id);
+    }
+  }, [cost, form, isOpen, moneyAccounts]);
+
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
       const url = cost ? `/api/costs/${cost.id}` : "/api/costs";
       const method = cost ? "PUT" : "POST";
-      return await apiRequest(url, method, data);
+      return await apiRequest(url, method, {
+        ...data,
+        ...(items.length > 0 && { totalAmount: fromKopecks(sumItemAmounts(items)), items: toCostItems(items) }),
+        ...(splitMode
+          ? { fundId: shareRows[0].fundId, fundSplit: { mode: splitMode, shares: shareRows.map(row => ({ fundId: row.fundId, value: normalizeMoney(row.value) })) } }
+          : cost && { fundSplit: null }),
+        paymentMethod: data.paymentMethod === "none" ? null : data.paymentMethod,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/costs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
       toast({
         title: "Успешно",
         description: `Расход ${cost ? "обновлен" : "создан"} успешно`,
@@ -135,17 +269,116 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
   });
 
   const onSubmit = (data: FormData) => {
+    if (items.length > 0) {
+      if (items.some(item => !item.expenseNomenclatureId || itemAmount(item) === null)) {
+        toast({
+          title: "Ошибка",
+          description: "Укажите номенклатуру, количество и цену в каждой позиции",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!data.totalAmount) {
+      form.setError("totalAmount", { message: "Сумма обязательна" });
+      return;
+    }
+    if (!splitMode && !data.fundId) {
+      form.setError("fundId", { message: "Выбор фонда обязателен" });
+      return;
+    }
+    if (splitMode) {
+      const totalAmount = items.length > 0 ? fromKopecks(sumItemAmounts(items)) : data.totalAmount;
+      const fundIds = shareRows.map(row => row.fundId);
+      if (new Set(fundIds).size !== fundIds.length || !resolveFundShares(splitMode, shareRows, totalAmount)) {
+        toast({
+          title: "Ошибка",
+          description: splitMode === "percentage"
+            ? "Укажите разные фонды и проценты, в сумме дающие 100%"
+            : "Укажите разные фонды и суммы, в сумме дающие сумму расхода",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
     mutation.mutate(data);
   };
 
   const handleClose = () => {
     form.reset();
+    setItems([]);
+    setSplitMode(null);
+    setShareRows([]);
     onClose();
   };
 
+  // Новый расход: статья и фонд подставляются по выбранной номенклатуре.
+  // Выбранное пользователем вручную не перезаписывается, прежняя подсказка - да
+  const applySuggestion = async (nomenclatureId: string) => {
+    if (cost || !nomenclatureId) return;
+    let suggestion: CostSuggestion;
+    try {
+      suggestion = await queryClient.fetchQuery<CostSuggestion>({
+        queryKey: ["/api/expense-nomenclature", nomenclatureId, "cost-suggestion"],
+        staleTime: 0,
+      });
+    } catch {
+      return; // Без подсказки поля заполняются вручную
+    }
+    if (form.getValues("expenseNomenclatureId") !== nomenclatureId) return;
+
+    const next: Partial<Record<SuggestedField, SuggestionSource>> = {};
+    for (const field of ["expenseCategoryId", "fundId"] as const) {
+      const value = suggestion[field];
+      const source = suggestion.sources[field];
+      if (value && source && (!form.getValues(field) || suggested[field])) {
+        form.setValue(field, value, { shouldValidate: true });
+        next[field] = source;
+      }
+    }
+    setSuggested(next);
+  };
+
+  const addItem = () => {
+    setItems([...items, { expenseNomenclatureId: form.getValues("expenseNomenclatureId"), quantity: "", unitPrice: "" }]);
+  };
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
+  const updateItem = (index: number, field: keyof CostItemRow, value: string) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  // Разделение начинается с выбранного фонда и еще одной пустой доли
+  const startSplit = () => {
+    setSplitMode("amount");
+    setShareRows([{ fundId: form.getValues("fundId"), value: "" }, { fundId: "", value: "" }]);
+  };
+
+  const cancelSplit = () => {
+    form.setValue("fundId", shareRows[0]?.fundId ?? "");
+    setSplitMode(null);
+    setShareRows([]);
+  };
+
+  const updateShareRow = (index: number, field: keyof FundShareRow, value: string) => {
+    setShareRows(shareRows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const splitTotal = items.length > 0 ? fromKopecks(sumItemAmounts(items)) : form.watch("totalAmount");
+  const resolvedShares = splitMode ? resolveFundShares(splitMode, shareRows, splitTotal) : null;
+
+  const selectedCategoryId = form.watch("expenseCategoryId");
+  const fundAllowed = (fundId: string) =>
+    !selectedCategoryId || fundAllowsCategory(fundId, selectedCategoryId, fundCategories, expenseCategories);
+
+  const unitOf = (nomenclatureId: string) =>
+    expenseNomenclature.find(nomenclature => nomenclature.id === nomenclatureId)?.unit ?? "";
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={items.length > 0 ? "sm:max-w-2xl" : "sm:max-w-md"}>
         <DialogHeader>
           <DialogTitle>{cost ? "Редактировать расход" : "Добавить расход"}</DialogTitle>
         </DialogHeader>
@@ -172,7 +405,13 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Номенклатура расходов *</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      applySuggestion(value);
+                    }}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Выберите номенклатуру расходов" />
@@ -197,7 +436,13 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Категория расходов</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      setSuggested(current => ({ ...current, expenseCategoryId: undefined }));
+                    }}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Выберите категорию расходов" />
@@ -211,27 +456,148 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
                       ))}
                     </SelectContent>
                   </Select>
+                  {suggested.expenseCategoryId && (
+                    <p className="text-xs text-muted-foreground">{suggestionHints[suggested.expenseCategoryId]}</p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {splitMode ? (
+              <div className="space-y-2 rounded-md border p-3">
+                <div className="flex justify-between items-center">
+                  <Label>Фонды для списания</Label>
+                  <Button type="button" variant="ghost" size="sm" onClick={cancelSplit}>
+                    Один фонд
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  {(["amount", "percentage"] as const).map((mode) => (
+                    <Button
+                      key={mode}
+                      type="button"
+                      size="sm"
+                      variant={splitMode === mode ? "default" : "outline"}
+                      onClick={() => setSplitMode(mode)}
+                    >
+                      {mode === "amount" ? "Суммами" : "Процентами"}
+                    </Button>
+                  ))}
+                </div>
+                {shareRows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-6">
+                      <Select value={row.fundId} onValueChange={(value) => updateShareRow(index, "fundId", value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Фонд" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {funds.map((fund) => (
+                            <SelectItem key={fund.id} value={fund.id} disabled={!fundAllowed(fund.id)}>
+                              {fund.name} ({formatMoney((fund as any).balance)}){!fundAllowed(fund.id) && " — статья не разрешена"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-3">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder={splitMode === "amount" ? "Сумма" : "%"}
+                        value={row.value}
+                        onChange={(e) => updateShareRow(index, "value", e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-2 text-right text-sm whitespace-nowrap">
+                      {splitMode === "percentage" && resolvedShares ? formatMoney(resolvedShares[index].amount) : ""}
+                    </div>
+                    <div className="col-span-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShareRows(shareRows.filter((_, i) => i !== index))}
+                        disabled={shareRows.length <= 2}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setShareRows([...shareRows, { fundId: "", value: "" }])}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Добавить фонд
+                  </Button>
+                  <span className={`text-sm ${resolvedShares ? "text-muted-foreground" : "text-destructive"}`}>
+                    {splitMode === "amount"
+                      ? `Распределено ${formatMoney(fromKopecks(sumShareValues(shareRows)))} из ${formatMoney(splitTotal || 0)}`
+                      : `Распределено ${sumShareValues(shareRows) / 100}% из 100%`}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="fundId"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex justify-between items-center">
+                      <FormLabel>Фонд для списания</FormLabel>
+                      <Button type="button" variant="ghost" size="sm" onClick={startSplit}>
+                        <Split className="h-4 w-4 mr-2" />
+                        Разделить между фондами
+                      </Button>
+                    </div>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        setSuggested(current => ({ ...current, fundId: undefined }));
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Выберите фонд" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {funds.map((fund) => (
+                          <SelectItem key={fund.id} value={fund.id} disabled={!fundAllowed(fund.id)}>
+                            {fund.name} ({formatMoney((fund as any).balance)}){!fundAllowed(fund.id) && " — статья не разрешена"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {suggested.fundId && (
+                      <p className="text-xs text-muted-foreground">{suggestionHints[suggested.fundId]}</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
-              name="fundId"
+              name="moneyAccountId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Фонд для списания</FormLabel>
+                  <FormLabel>Счет оплаты</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Выберите фонд" />
+                        <SelectValue placeholder={activeMoneyAccounts.length > 0 ? "Выберите счет" : "Сначала добавьте счет"} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {funds.map((fund) => (
-                        <SelectItem key={fund.id} value={fund.id}>
-                          {fund.name} ({(fund as any).balance?.toLocaleString('ru-RU')}₽)
+                      {activeMoneyAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name} ({formatMoney(account.balance)})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -243,30 +609,138 @@ export default function CostModal({ isOpen, onClose, cost }: CostModalProps) {
 
             <FormField
               control={form.control}
-              name="totalAmount"
+              name="paymentMethod"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Общая сумма</FormLabel>
-                  <FormControl>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        ₽
-                      </span>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        placeholder="0.00"
-                        className="pl-8"
-                        {...field}
-                      />
-                    </div>
-                  </FormControl>
+                  <FormLabel>Способ оплаты</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Не указан</SelectItem>
+                      {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {paymentMethodLabels[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label>Позиции</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addItem}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Добавить позицию
+                </Button>
+              </div>
+              {items.length > 0 && (
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <div className="col-span-5">
+                        <Select
+                          value={item.expenseNomenclatureId}
+                          onValueChange={(value) => updateItem(index, "expenseNomenclatureId", value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Номенклатура" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {expenseNomenclature.map((nomenclature) => (
+                              <SelectItem key={nomenclature.id} value={nomenclature.id}>
+                                {nomenclature.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2 relative">
+                        <Input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          placeholder="Кол-во"
+                          value={item.quantity}
+                          onChange={(e) => updateItem(index, "quantity", e.target.value)}
+                          className={unitOf(item.expenseNomenclatureId) ? "pr-8" : undefined}
+                        />
+                        {unitOf(item.expenseNomenclatureId) && (
+                          <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-muted-foreground">
+                            {unitOf(item.expenseNomenclatureId)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="col-span-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Цена"
+                          value={item.unitPrice}
+                          onChange={(e) => updateItem(index, "unitPrice", e.target.value)}
+                        />
+                      </div>
+                      <div className="col-span-2 text-right text-sm whitespace-nowrap">
+                        {itemAmount(item) !== null ? formatMoney(fromKopecks(itemAmount(item)!)) : "—"}
+                      </div>
+                      <div className="col-span-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeItem(index)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {items.length > 0 ? (
+              <div className="flex justify-between items-center rounded-md border p-3">
+                <span className="font-medium">Общая сумма</span>
+                <span className="text-lg font-bold">{formatMoney(fromKopecks(sumItemAmounts(items)))}</span>
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="totalAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Общая сумма</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                          ₽
+                        </span>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="0.00"
+                          className="pl-8"
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex space-x-2 pt-4">
               <Button
                 type="button"
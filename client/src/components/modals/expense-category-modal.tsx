@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
@@ -9,6 +9,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -24,10 +31,12 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { insertExpenseCategorySchema, type ExpenseCategory } from "@shared/schema";
+import { buildCategoryTree, categoryDescendantIds, flattenCategoryTree } from "@shared/expenseCategoryTree";
 import { z } from "zod";
 
 const formSchema = insertExpenseCategorySchema.extend({
   isActive: z.boolean().default(true),
+  parentId: z.string(), // "none" - статья верхнего уровня
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -36,21 +45,34 @@ interface ExpenseCategoryModalProps {
   isOpen: boolean;
   onClose: () => void;
   category?: ExpenseCategory | null;
+  parentId?: string | null;              // Родитель новой статьи ("Добавить подстатью")
 }
 
 export default function ExpenseCategoryModal({ 
   isOpen, 
   onClose, 
-  category 
+  category,
+  parentId,
 }: ExpenseCategoryModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+
+  const { data: categories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+    retry: false,
+  });
+
+  // Статью нельзя вложить в саму себя или в свою подстатью
+  const excludedParentIds = category ? categoryDescendantIds(categories, category.id) : new Set<string>();
+  const parentOptions = flattenCategoryTree(buildCategoryTree(categories))
+    .filter(option => !excludedParentIds.has(option.id));
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       description: "",
+      parentId: "none",
       isActive: true,
     },
   });
@@ -60,16 +82,18 @@ export default function ExpenseCategoryModal({
       form.reset({
         name: category.name,
         description: category.description || "",
+        parentId: category.parentId || "none",
         isActive: category.isActive,
       });
     } else {
       form.reset({
         name: "",
         description: "",
+        parentId: parentId || "none",
         isActive: true,
       });
     }
-  }, [category, form]);
+  }, [category, parentId, form]);
 
   const mutation = useMutation({
     mutationFn: async (data: FormValues) => {
@@ -78,7 +102,10 @@ export default function ExpenseCategoryModal({
         : "/api/expense-categories";
       const method = category ? "PUT" : "POST";
       
-      return await apiRequest(url, method, data);
+      return await apiRequest(url, method, {
+        ...data,
+        parentId: data.parentId !== "none" ? data.parentId : null,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expense-categories"] });
@@ -145,6 +172,32 @@ export default function ExpenseCategoryModal({
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Родительская статья</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Нет - статья верхнего уровня</SelectItem>
+                      {parentOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          <span style={{ paddingLeft: `${option.depth}rem` }}>{option.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
@@ -23,11 +23,21 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { insertExpenseNomenclatureSchema, type ExpenseNomenclature } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { insertExpenseNomenclatureSchema, type ExpenseCategory, type ExpenseNomenclature, type Fund } from "@shared/schema";
+import { buildCategoryTree, flattenCategoryTree } from "@shared/expenseCategoryTree";
 import { z } from "zod";
 
 const formSchema = insertExpenseNomenclatureSchema.extend({
   isActive: z.boolean().default(true),
+  expenseCategoryId: z.string(), // "none" - статья по умолчанию не задана
+  fundId: z.string(),            // "none" - фонд по умолчанию не задан
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -45,12 +55,26 @@ export default function ExpenseNomenclatureModal({
 }: ExpenseNomenclatureModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+
+  const { data: categories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+  });
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories))
+    .filter(category => category.isActive || category.id === nomenclature?.expenseCategoryId);
+
+  const { data: funds = [] } = useQuery<Fund[]>({
+    queryKey: ["/api/funds"],
+  });
+  const fundOptions = funds.filter(fund => fund.isActive || fund.id === nomenclature?.fundId);
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       description: "",
+      unit: "",
+      expenseCategoryId: "none",
+      fundId: "none",
       isActive: true,
     },
   });
@@ -60,12 +84,18 @@ export default function ExpenseNomenclatureModal({
       form.reset({
         name: nomenclature.name,
         description: nomenclature.description || "",
+        unit: nomenclature.unit || "",
+        expenseCategoryId: nomenclature.expenseCategoryId || "none",
+        fundId: nomenclature.fundId || "none",
         isActive: nomenclature.isActive,
       });
     } else {
       form.reset({
         name: "",
         description: "",
+        unit: "",
+        expenseCategoryId: "none",
+        fundId: "none",
         isActive: true,
       });
     }
@@ -78,7 +108,11 @@ export default function ExpenseNomenclatureModal({
         : "/api/expense-nomenclature";
       const method = nomenclature ? "PUT" : "POST";
       
-      return await apiRequest(url, method, data);
+      return await apiRequest(url, method, {
+        ...data,
+        expenseCategoryId: data.expenseCategoryId === "none" ? null : data.expenseCategoryId,
+        fundId: data.fundId === "none" ? null : data.fundId,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expense-nomenclature"] });
@@ -145,6 +179,77 @@ export default function ExpenseNomenclatureModal({
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="unit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Единица измерения</FormLabel>
+                  <FormControl>
+                    <Input 
+                      placeholder="кг, шт, л (необязательно)" 
+                      maxLength={20}
+                      {...field} 
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expenseCategoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Статья расходов по умолчанию</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Не задана</SelectItem>
+                      {categoryOptions.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          <span style={{ paddingLeft: `${category.depth}rem` }}>{category.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="fundId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Фонд по умолчанию</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Не задан</SelectItem>
+                      {fundOptions.map((fund) => (
+                        <SelectItem key={fund.id} value={fund.id}>
+                          {fund.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
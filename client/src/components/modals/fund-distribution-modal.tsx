@@ -1,54 +1,108 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Calculator, AlertCircle, DollarSign } from "lucide-react";
+import { Calculator, AlertCircle, AlertTriangle, DollarSign } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
 import { apiRequest } from "@/lib/queryClient";
-import type { Fund, Receipt, IncomeSourceFundDistribution, IncomeSource } from "@shared/schema";
+import { formatMoney, kopecksToRubles, sumMoney } from "@shared/money";
+
+/** Отбор поступлений для распределения (пустые поля - без ограничения) */
+export interface DistributionFilter {
+  fromDate: string;
+  toDate: string;
+  incomeSourceId: string;
+}
 
 interface FundDistributionModalProps {
   isOpen: boolean;
   onClose: () => void;
+  filter?: DistributionFilter;
 }
 
-interface DistributionPreview {
-  fundId: string;
-  fundName: string;
-  percentage: number;
+interface PreviewReceipt {
+  receiptId: string;
+  date: string;
+  description: string;
+  incomeSourceId: string;
+  incomeSourceName: string;
   amount: number;
 }
 
-export default function FundDistributionModal({ isOpen, onClose }: FundDistributionModalProps) {
-  const [distributionPreviews, setDistributionPreviews] = useState<DistributionPreview[]>([]);
-  const [totalToDistribute, setTotalToDistribute] = useState<number>(0);
-  
+// Ответ GET /api/distribute-unallocated-funds/preview - ровно то, что будет записано
+interface DistributionPreview {
+  unallocatedAmount: number;
+  totalAmount: number;
+  receipts: (PreviewReceipt & {
+    allocations: { fundId: string; fundName: string; percentage: string; amount: number }[];
+  })[];
+  skipped: PreviewReceipt[];
+  funds: { fundId: string; fundName: string; amount: number }[];
+}
+
+export default function FundDistributionModal({ isOpen, onClose, filter }: FundDistributionModalProps) {
+  const [selectedReceiptIds, setSelectedReceiptIds] = useState<Set<string>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: funds = [] } = useQuery<Fund[]>({
-    queryKey: ["/api/funds"],
-  });
+  const filterParams = {
+    ...(filter?.fromDate && { fromDate: filter.fromDate }),
+    ...(filter?.toDate && { toDate: filter.toDate }),
+    ...(filter?.incomeSourceId && { incomeSourceId: filter.incomeSourceId }),
+  };
 
-  const { data: receiptsData } = useQuery<{ data: Receipt[]; pagination: any }>({
-    queryKey: ["/api/receipts"],
+  // Предварительный расчет на сервере (dry-run), пересчитывается при каждом открытии
+  const { data: preview, isLoading: previewLoading } = useQuery<DistributionPreview>({
+    queryKey: ["/api/distribute-unallocated-funds/preview", filterParams],
+    queryFn: async () => {
+      const params = new URLSearchParams(filterParams);
+      const response = await apiRequest(`/api/distribute-unallocated-funds/preview?${params}`, "GET");
+      return await response.json();
+    },
+    enabled: isOpen,
+    staleTime: 0,
   });
-  
-  const receipts = receiptsData?.data || [];
 
-  const { data: incomeSources = [] } = useQuery<IncomeSource[]>({
-    queryKey: ["/api/income-sources"],
-  });
+  // По умолчанию распределяются все поступления из предварительного расчета
+  useEffect(() => {
+    setSelectedReceiptIds(new Set(preview?.receipts.map(receipt => receipt.receiptId) ?? []));
+  }, [preview]);
 
-  const { data: unallocatedData } = useQuery<{ unallocatedAmount: number }>({
-    queryKey: ["/api/unallocated-funds"],
-  });
+  const toggleReceipt = (receiptId: string, checked: boolean) => {
+    setSelectedReceiptIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(receiptId);
+      else next.delete(receiptId);
+      return next;
+    });
+  };
+
+  const selectedReceipts = preview?.receipts.filter(receipt => selectedReceiptIds.has(receipt.receiptId)) ?? [];
+
+  // Итоги по фондам для отмеченных поступлений (суммы уже округлены сервером до копейки)
+  const selectedFunds = (preview?.funds ?? [])
+    .map(fund => ({
+      ...fund,
+      amount: kopecksToRubles(sumMoney(selectedReceipts.flatMap(receipt =>
+        receipt.allocations.filter(allocation => allocation.fundId === fund.fundId).map(allocation => allocation.amount)
+      ))),
+    }))
+    .filter(fund => fund.amount !== 0);
+  const selectedTotal = kopecksToRubles(sumMoney(selectedFunds.map(fund => fund.amount)));
 
   const distributeMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("/api/distribute-unallocated-funds", "POST");
+      const allSelected = selectedReceipts.length === preview?.receipts.length;
+      await apiRequest("/api/distribute-unallocated-funds", "POST", {
+        ...filterParams,
+        ...(!allSelected && { receiptIds: selectedReceipts.map(receipt => receipt.receiptId) }),
+      });
     },
     onSuccess: () => {
       toast({
@@ -59,8 +113,9 @@ export default function FundDistributionModal({ isOpen, onClose }: FundDistribut
       queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
       queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribute-unallocated-funds/preview"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
-      handleClose();
+      onClose();
     },
     onError: (error) => {
       console.error("Error distributing funds:", error);
@@ -72,108 +127,12 @@ export default function FundDistributionModal({ isOpen, onClose }: FundDistribut
     },
   });
 
-  const handleClose = () => {
-    setDistributionPreviews([]);
-    setTotalToDistribute(0);
-    onClose();
-  };
-
-  // Calculate distribution preview when modal opens
-  useEffect(() => {
-    if (isOpen && unallocatedData?.unallocatedAmount && unallocatedData.unallocatedAmount > 0) {
-      calculateDistributionPreview();
-    }
-  }, [isOpen, unallocatedData, receipts, funds, incomeSources]);
-
-  const calculateDistributionPreview = async () => {
-    // Если есть нераспределенные средства, показываем возможность распределения
-    if (!unallocatedData?.unallocatedAmount || unallocatedData.unallocatedAmount <= 0) {
-      setDistributionPreviews([]);
-      setTotalToDistribute(0);
-      return;
-    }
-
-    // Создаем превью для автоматического распределения нераспределенных средств
-    const previews: DistributionPreview[] = [];
-    const totalAmount = unallocatedData.unallocatedAmount;
-
-    // Получаем все поступления без распределений и их источники доходов
-    const undistributedReceipts = receipts.filter(receipt => receipt.incomeSourceId);
-    
-    if (undistributedReceipts.length > 0) {
-      const fundDistributionMap = new Map<string, { percentage: number; amount: number }>();
-
-      // Рассчитываем распределение для каждого поступления
-      for (const receipt of undistributedReceipts) {
-        if (!receipt.incomeSourceId) continue;
-
-        const receiptAmount = parseFloat(receipt.amount);
-
-        // Получаем настройки распределения для источника дохода
-        try {
-          const response = await apiRequest(`/api/income-sources/${receipt.incomeSourceId}/fund-distributions`, "GET");
-          const distributions = await response.json() as IncomeSourceFundDistribution[];
-          
-          for (const distribution of distributions) {
-            const distributionAmount = (receiptAmount * parseFloat(distribution.percentage)) / 100;
-            
-            if (fundDistributionMap.has(distribution.fundId)) {
-              const existing = fundDistributionMap.get(distribution.fundId)!;
-              existing.amount += distributionAmount;
-            } else {
-              fundDistributionMap.set(distribution.fundId, {
-                percentage: parseFloat(distribution.percentage),
-                amount: distributionAmount
-              });
-            }
-          }
-        } catch (error) {
-          console.error("Error fetching fund distributions:", error);
-        }
-      }
-
-      // Конвертируем в формат для отображения
-      fundDistributionMap.forEach((data, fundId) => {
-        const fund = funds.find(f => f.id === fundId);
-        if (fund) {
-          previews.push({
-            fundId,
-            fundName: fund.name,
-            percentage: Math.round((data.amount / totalAmount) * 100 * 100) / 100,
-            amount: data.amount
-          });
-        }
-      });
-    }
-
-    // Если нет настроек распределения, показываем что средства готовы к ручному распределению
-    if (previews.length === 0) {
-      previews.push({
-        fundId: "manual",
-        fundName: "Требует ручного распределения",
-        percentage: 100,
-        amount: totalAmount
-      });
-    }
-
-    setDistributionPreviews(previews);
-    setTotalToDistribute(totalAmount);
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(amount);
-  };
-
-  const handleDistribute = () => {
-    distributeMutation.mutate();
-  };
+  const hasDistribution = !!preview && preview.totalAmount > 0;
+  const hasSelection = selectedTotal > 0;
 
   return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-2xl">
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <Calculator className="h-5 w-5" />
@@ -192,47 +151,92 @@ export default function FundDistributionModal({ isOpen, onClose }: FundDistribut
                 </span>
               </div>
               <span className="font-bold text-blue-900 dark:text-blue-100">
-                {formatCurrency(unallocatedData?.unallocatedAmount || 0)}
+                {formatMoney(preview?.unallocatedAmount || 0)}
               </span>
             </div>
           </CardContent>
         </Card>
 
-        {/* Distribution Preview */}
-        {distributionPreviews.length > 0 ? (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Предварительный расчёт распределения</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Фонд</TableHead>
-                    <TableHead className="text-right">Процент</TableHead>
-                    <TableHead className="text-right">Сумма</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {distributionPreviews.map((preview) => (
-                    <TableRow key={preview.fundId}>
-                      <TableCell className="font-medium">{preview.fundName}</TableCell>
-                      <TableCell className="text-right">{preview.percentage.toFixed(2)}%</TableCell>
-                      <TableCell className="text-right font-semibold">
-                        {formatCurrency(preview.amount)}
-                      </TableCell>
+        {previewLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-pulse text-muted-foreground">Расчёт распределения...</div>
+          </div>
+        ) : hasDistribution ? (
+          <>
+            {/* Per-receipt allocations */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Поступления к распределению</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8"></TableHead>
+                      <TableHead>Поступление</TableHead>
+                      <TableHead>Фонды</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-              <div className="mt-4 pt-4 border-t">
-                <div className="flex justify-between items-center font-bold text-lg">
-                  <span>Итого:</span>
-                  <span>{formatCurrency(totalToDistribute)}</span>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.receipts.map((receipt) => (
+                      <TableRow key={receipt.receiptId}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedReceiptIds.has(receipt.receiptId)}
+                            onCheckedChange={(checked) => toggleReceipt(receipt.receiptId, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{receipt.description}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(receipt.date), 'd MMMM yyyy', { locale: ru })} · {receipt.incomeSourceName}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {receipt.allocations.map((allocation) => (
+                              <Badge key={allocation.fundId} variant="secondary" className="text-xs">
+                                {allocation.fundName} ({Number(allocation.percentage)}%): {formatMoney(allocation.amount)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatMoney(receipt.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Fund totals */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Итого по фондам</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {selectedFunds.map((fund) => (
+                      <TableRow key={fund.fundId}>
+                        <TableCell className="font-medium">{fund.fundName}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatMoney(fund.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="mt-4 pt-4 border-t">
+                  <div className="flex justify-between items-center font-bold text-lg">
+                    <span>Итого:</span>
+                    <span>{formatMoney(selectedTotal)}</span>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          </>
         ) : (
           <Card>
             <CardContent className="p-6 text-center">
@@ -244,19 +248,41 @@ export default function FundDistributionModal({ isOpen, onClose }: FundDistribut
           </Card>
         )}
 
+        {/* Receipts without distribution rules stay unallocated */}
+        {preview && preview.skipped.length > 0 && (
+          <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800">
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center space-x-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                <span className="text-sm font-medium text-amber-900 dark:text-amber-100">
+                  Будут пропущены - у источника нет правил распределения на дату поступления:
+                </span>
+              </div>
+              {preview.skipped.map((receipt) => (
+                <div key={receipt.receiptId} className="flex justify-between text-sm text-amber-900 dark:text-amber-100">
+                  <span>
+                    {receipt.description} · {receipt.incomeSourceName} · {format(new Date(receipt.date), 'd MMM yyyy', { locale: ru })}
+                  </span>
+                  <span className="font-semibold">{formatMoney(receipt.amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <div className="flex justify-end space-x-2 pt-4">
-          <Button variant="outline" onClick={handleClose}>
+          <Button variant="outline" onClick={onClose}>
             Отмена
           </Button>
-          <Button 
-            onClick={handleDistribute}
-            disabled={distributeMutation.isPending || distributionPreviews.length === 0}
+          <Button
+            onClick={() => distributeMutation.mutate()}
+            disabled={distributeMutation.isPending || !hasSelection}
             className="bg-primary hover:bg-primary/90"
           >
-            {distributeMutation.isPending ? "Распределение..." : "Распределить"}
+            {distributeMutation.isPending ? "Распределение..." : "Подтвердить распределение"}
           </Button>
         </div>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
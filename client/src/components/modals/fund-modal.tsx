@@ -1,7 +1,7 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
 
 import {
@@ -22,12 +22,15 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { insertFundSchema } from "@shared/schema";
-import type { Fund } from "@shared/schema";
+import type { ExpenseCategory, Fund, FundExpenseCategory } from "@shared/schema";
+import { buildCategoryTree, flattenCategoryTree } from "@shared/expenseCategoryTree";
 
 const formSchema = insertFundSchema.extend({
   initialBalance: z.string().refine((val) => {
@@ -47,6 +50,23 @@ interface FundModalProps {
 export default function FundModal({ open, onClose, fund }: FundModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [allowedCategoryIds, setAllowedCategoryIds] = useState<string[]>([]); // Пусто - фонд оплачивает любые статьи
+
+  const { data: categories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+  });
+
+  const { data: fundCategories } = useQuery<FundExpenseCategory[]>({
+    queryKey: ["/api/fund-expense-categories"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const storedCategoryIds = (fundCategories ?? [])
+    .filter(rule => rule.fundId === fund?.id)
+    .map(rule => rule.expenseCategoryId);
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories))
+    .filter(category => category.isActive || storedCategoryIds.includes(category.id));
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -78,15 +98,28 @@ export default function FundModal({ open, onClose, fund }: FundModalProps) {
     }
   }, [fund, form, open]);
 
+  useEffect(() => {
+    if (open) {
+      setAllowedCategoryIds(fund ? storedCategoryIds : []);
+    }
+  }, [fund, open, fundCategories]);
+
+  const toggleCategory = (id: string, checked: boolean) => {
+    setAllowedCategoryIds(current => checked ? [...current, id] : current.filter(categoryId => categoryId !== id));
+  };
+
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
       const endpoint = fund ? `/api/funds/${fund.id}` : "/api/funds";
       const method = fund ? "PUT" : "POST";
       
-      return await apiRequest(endpoint, method, data);
+      const saved: Fund = await (await apiRequest(endpoint, method, data)).json();
+      await apiRequest(`/api/funds/${saved.id}/expense-categories`, "PUT", { expenseCategoryIds: allowedCategoryIds });
+      return saved;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fund-expense-categories"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
       toast({
         title: "Успешно",
@@ -189,7 +222,27 @@ export default function FundModal({ open, onClose, fund }: FundModalProps) {
               )}
             />
 
-
+            {categoryOptions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Разрешенные статьи расходов</Label>
+                <div className="max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                  {categoryOptions.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: `${category.depth}rem` }}>
+                      <Checkbox
+                        checked={allowedCategoryIds.includes(category.id)}
+                        onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {allowedCategoryIds.length > 0
+                    ? "Фонд оплачивает только отмеченные статьи и их подстатьи"
+                    : "Ничего не отмечено - фонд оплачивает любые статьи"}
+                </p>
+              </div>
+            )}
 
             <FormField
               control={form.control}
@@ -14,6 +14,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { insertFundTransferSchema } from "@shared/schema";
 import type { Fund } from "@shared/schema";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { normalizeMoney } from "@shared/money";
 
 interface FundTransferModalProps {
   open: boolean;
@@ -61,7 +62,7 @@ export default function FundTransferModal({ open, onClose, funds }: FundTransfer
     mutationFn: async (data: FormData) => {
       await apiRequest("/api/fund-transfers", "POST", {
         ...data,
-        amount: parseFloat(data.amount),
+        amount: normalizeMoney(data.amount),
       });
     },
     onSuccess: () => {
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, History, ArrowUp, ArrowDown } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
 import {
   Dialog,
   DialogContent,
@@ -17,10 +19,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
-import { type IncomeSource, type Fund, type IncomeSourceFundDistribution } from "@shared/schema";
+import {
+  type IncomeSource,
+  type Fund,
+  type IncomeSourceFundDistribution,
+  type DistributionRuleStep,
+  type DistributionRuleType,
+  distributesWholeReceipt,
+} from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { useToast } from "@/hooks/use-toast";
 
 interface IncomeSourceFundDistributionModalProps {
@@ -30,115 +40,260 @@ interface IncomeSourceFundDistributionModalProps {
   onClose: () => void;
 }
 
+type DistributionRule = IncomeSourceFundDistribution & { fundName: string };
+
+type DraftRule = DistributionRuleStep;
+
+const ruleTypeLabels: Record<DistributionRuleType, string> = {
+  fixed: "Фиксированная сумма",
+  percentage: "Процент",
+  capped: "Процент с месячным лимитом",
+  remainder: "Остаток",
+};
+
+// Краткое описание шага каскада: "20%", "10 000 ₽", "20%, не более 5 000 ₽ в месяц", "остаток"
+function describeRule(rule: Pick<DraftRule, "ruleType" | "percentage" | "amount">): string {
+  switch (rule.ruleType) {
+    case "fixed":
+      return formatMoney(rule.amount ?? 0);
+    case "capped":
+      return `${parseFloat(rule.percentage ?? "0").toFixed(2)}%, не более ${formatMoney(rule.amount ?? 0)} в месяц`;
+    case "remainder":
+      return "остаток";
+    default:
+      return `${parseFloat(rule.percentage ?? "0").toFixed(2)}%`;
+  }
+}
+
+// Версия правил: строки истории с одинаковой датой начала действия
+interface RuleVersion {
+  validFrom: string;
+  validTo: string | null;
+  rules: DistributionRule[];
+}
+
+function groupVersions(history: DistributionRule[]): RuleVersion[] {
+  const versions = new Map<string, RuleVersion>();
+  for (const rule of history) {
+    const key = new Date(rule.validFrom).toISOString();
+    const version = versions.get(key) ?? {
+      validFrom: key,
+      validTo: rule.validTo ? new Date(rule.validTo).toISOString() : null,
+      rules: [],
+    };
+    version.rules.push(rule);
+    versions.set(key, version);
+  }
+  return Array.from(versions.values()).sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+}
+
+function formatValidDate(date: string): string {
+  // Правила, перенесенные из версии без дат, действуют с начала учета
+  return new Date(date).getTime() === 0 ? "начала учета" : format(new Date(date), "d MMM yyyy", { locale: ru });
+}
+
 export function IncomeSourceFundDistributionModal({
   incomeSource,
   funds,
   isOpen,
   onClose,
 }: IncomeSourceFundDistributionModalProps) {
+  const [draftRules, setDraftRules] = useState<DraftRule[]>([]);
+  const [validFrom, setValidFrom] = useState<string>(format(new Date(), "yyyy-MM-dd"));
   const [selectedFundId, setSelectedFundId] = useState<string>("");
+  const [ruleType, setRuleType] = useState<DistributionRuleType>("percentage");
   const [percentage, setPercentage] = useState<string>("");
+  const [amount, setAmount] = useState<string>("");
+  const [roundingFundId, setRoundingFundId] = useState<string | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const { data: distributions = [], isLoading } = useQuery<(IncomeSourceFundDistribution & { fundName: string })[]>({
+  const { data: distributions, isLoading } = useQuery<DistributionRule[]>({
     queryKey: ["/api/income-sources", incomeSource?.id, "fund-distributions"],
     enabled: !!incomeSource?.id,
   });
 
-  const createDistributionMutation = useMutation({
-    mutationFn: async ({ fundId, percentage }: { fundId: string; percentage: string }) => {
-      return await apiRequest(`/api/income-sources/${incomeSource!.id}/fund-distributions`, "POST", { fundId, percentage });
+  const { data: history = [] } = useQuery<DistributionRule[]>({
+    queryKey: ["/api/income-sources", incomeSource?.id, "fund-distributions", "history"],
+    enabled: !!incomeSource?.id,
+  });
+
+  useEffect(() => {
+    setRoundingFundId(incomeSource?.roundingFundId ?? null);
+  }, [incomeSource]);
+
+  // Новая версия по умолчанию начинается с действующих правил
+  useEffect(() => {
+    if (isOpen && distributions) {
+      setDraftRules(distributions.map(d => ({
+        fundId: d.fundId,
+        ruleType: d.ruleType as DistributionRuleType,
+        percentage: d.percentage,
+        amount: d.amount,
+      })));
+      setValidFrom(format(new Date(), "yyyy-MM-dd"));
+    }
+  }, [isOpen, distributions]);
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["/api/income-sources", incomeSource?.id, "fund-distributions"],
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/distribute-unallocated-funds/preview"] });
+  };
+
+  const saveVersionMutation = useMutation({
+    mutationFn: async () => {
+      // Дата начала действия - начало выбранного дня по местному времени, как и даты поступлений
+      return await apiRequest(`/api/income-sources/${incomeSource!.id}/fund-distributions`, "POST", {
+        validFrom: new Date(`${validFrom}T00:00:00`).toISOString(),
+        rules: draftRules,
+      });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/income-sources", incomeSource?.id, "fund-distributions"],
+      invalidateRules();
+      resetNewRule();
+      toast({
+        title: "Успешно",
+        description: "Новая версия правил сохранена",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить правила распределения",
+        variant: "destructive",
       });
-      setSelectedFundId("");
-      setPercentage("");
+    },
+  });
+
+  const roundingFundMutation = useMutation({
+    mutationFn: async (roundingFundId: string | null) => {
+      return await apiRequest(`/api/income-sources/${incomeSource!.id}`, "PUT", { roundingFundId });
+    },
+    onSuccess: (_response, roundingFundId) => {
+      setRoundingFundId(roundingFundId);
+      queryClient.invalidateQueries({ queryKey: ["/api/income-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribute-unallocated-funds/preview"] });
       toast({
         title: "Успешно",
-        description: "Распределение добавлено",
+        description: "Фонд округления сохранен",
       });
     },
     onError: () => {
       toast({
         title: "Ошибка",
-        description: "Не удалось добавить распределение",
+        description: "Не удалось сохранить фонд округления",
         variant: "destructive",
       });
     },
   });
 
-  const deleteAllDistributionsMutation = useMutation({
+  const endRulesMutation = useMutation({
     mutationFn: async () => {
       return await apiRequest(`/api/income-sources/${incomeSource!.id}/fund-distributions`, "DELETE");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/income-sources", incomeSource?.id, "fund-distributions"],
-      });
+      invalidateRules();
       toast({
         title: "Успешно",
-        description: "Все распределения удалены",
+        description: "Действие правил прекращено, история сохранена",
       });
     },
     onError: () => {
       toast({
         title: "Ошибка",
-        description: "Не удалось удалить распределения",
+        description: "Не удалось прекратить действие правил",
         variant: "destructive",
       });
     },
   });
 
   const activeFunds = funds.filter(fund => fund.isActive);
-  const usedFundIds = distributions.map((d: IncomeSourceFundDistribution & { fundName: string }) => d.fundId);
+  const usedFundIds = draftRules.map(rule => rule.fundId);
   const availableFunds = activeFunds.filter(fund => !usedFundIds.includes(fund.id));
+  const fundName = (fundId: string) => funds.find(fund => fund.id === fundId)?.name || "Unknown Fund";
 
-  const totalPercentage = distributions.reduce(
-    (sum: number, d: IncomeSourceFundDistribution & { fundName: string }) => sum + parseFloat(d.percentage),
-    0
-  );
+  const usesPercentage = ruleType === "percentage" || ruleType === "capped";
+  const usesAmount = ruleType === "fixed" || ruleType === "capped";
+  const hasRemainder = draftRules.some(rule => rule.ruleType === "remainder");
+  const totalPercentage = draftRules
+    .filter(rule => rule.ruleType === "percentage" || rule.ruleType === "capped")
+    .reduce((sum, rule) => sum + parseFloat(rule.percentage ?? "0"), 0);
+  const versions = groupVersions(history);
 
-  const handleAddDistribution = () => {
-    if (!selectedFundId || !percentage) {
-      toast({
-        title: "Ошибка",
-        description: "Выберите фонд и укажите процент",
-        variant: "destructive",
-      });
+  const resetNewRule = () => {
+    setSelectedFundId("");
+    setRuleType("percentage");
+    setPercentage("");
+    setAmount("");
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: "Ошибка",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleAddRule = () => {
+    if (!selectedFundId) {
+      showError("Выберите фонд");
       return;
     }
 
-    const percentageNum = parseFloat(percentage);
-    if (percentageNum <= 0 || percentageNum > 100) {
-      toast({
-        title: "Ошибка",
-        description: "Процент должен быть от 0.01 до 100",
-        variant: "destructive",
-      });
-      return;
+    if (usesPercentage) {
+      const percentageNum = parseFloat(percentage);
+      if (!(percentageNum > 0 && percentageNum <= 100)) {
+        showError("Процент должен быть от 0.01 до 100");
+        return;
+      }
+      if (totalPercentage + percentageNum > 100) {
+        showError(`Общий процент не должен превышать 100%. Доступно: ${(100 - totalPercentage).toFixed(2)}%`);
+        return;
+      }
     }
 
-    if (totalPercentage + percentageNum > 100) {
-      toast({
-        title: "Ошибка",
-        description: `Общий процент не должен превышать 100%. Доступно: ${(100 - totalPercentage).toFixed(2)}%`,
-        variant: "destructive",
-      });
+    if (usesAmount && !(parseFloat(amount) > 0)) {
+      showError(ruleType === "capped" ? "Укажите месячный лимит" : "Укажите сумму");
       return;
     }
 
-    createDistributionMutation.mutate({
+    const rule: DraftRule = {
       fundId: selectedFundId,
-      percentage,
-    });
+      ruleType,
+      percentage: usesPercentage ? percentage : null,
+      amount: usesAmount ? amount : null,
+    };
+    // Остаток всегда последний шаг, новые шаги добавляются перед ним
+    setDraftRules(hasRemainder
+      ? [...draftRules.slice(0, -1), rule, draftRules[draftRules.length - 1]]
+      : [...draftRules, rule]);
+    resetNewRule();
   };
 
-  const handleDeleteAll = () => {
-    if (confirm("Вы уверены, что хотите удалить все распределения?")) {
-      deleteAllDistributionsMutation.mutate();
+  const handleSaveVersion = () => {
+    if (draftRules.length > 0 && !distributesWholeReceipt(draftRules)) {
+      showError("Проценты должны составлять ровно 100% или последним шагом должен быть остаток");
+      return;
+    }
+    saveVersionMutation.mutate();
+  };
+
+  const handleRemoveRule = (fundId: string) => {
+    setDraftRules(draftRules.filter(rule => rule.fundId !== fundId));
+  };
+
+  const handleMoveRule = (index: number, offset: number) => {
+    const next = [...draftRules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraftRules(next);
+  };
+
+  const handleEndRules = () => {
+    if (confirm("Прекратить действие правил? Новые поступления этого источника останутся нераспределенными.")) {
+      endRulesMutation.mutate();
     }
   };
 
@@ -146,7 +301,7 @@ export function IncomeSourceFundDistributionModal({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             Распределение по фондам: {incomeSource.name}
@@ -154,19 +309,19 @@ export function IncomeSourceFundDistributionModal({
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* Current distributions */}
+          {/* New version of the rules */}
           <div>
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold">Текущие распределения</h3>
-              {distributions.length > 0 && (
+              <h3 className="text-lg font-semibold">Правила распределения</h3>
+              {!!distributions?.length && (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={handleDeleteAll}
-                  disabled={deleteAllDistributionsMutation.isPending}
+                  onClick={handleEndRules}
+                  disabled={endRulesMutation.isPending}
                 >
                   <Trash2 className="h-4 w-4 mr-2" />
-                  Удалить все
+                  Прекратить действие
                 </Button>
               )}
             </div>
@@ -175,7 +330,7 @@ export function IncomeSourceFundDistributionModal({
               <div className="text-center py-4">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
               </div>
-            ) : distributions.length === 0 ? (
+            ) : draftRules.length === 0 ? (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-6">
                   <p className="text-muted-foreground">Нет настроенных распределений</p>
@@ -183,23 +338,45 @@ export function IncomeSourceFundDistributionModal({
               </Card>
             ) : (
               <div className="space-y-2">
-                {distributions.map((distribution: IncomeSourceFundDistribution & { fundName: string }) => (
-                  <Card key={distribution.id}>
+                {draftRules.map((rule, index) => (
+                  <Card key={rule.fundId}>
                     <CardContent className="flex items-center justify-between py-3">
                       <div>
-                        <span className="font-medium">{distribution.fundName}</span>
+                        <span className="font-medium">{index + 1}. {fundName(rule.fundId)}</span>
+                        <div className="text-xs text-muted-foreground">{ruleTypeLabels[rule.ruleType]}</div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary">
+                          {describeRule(rule)}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMoveRule(index, -1)}
+                          disabled={index === 0 || rule.ruleType === "remainder"}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMoveRule(index, 1)}
+                          disabled={index === draftRules.length - 1 || draftRules[index + 1].ruleType === "remainder"}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveRule(rule.fundId)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Badge variant="secondary">
-                        {parseFloat(distribution.percentage).toFixed(2)}%
-                      </Badge>
                     </CardContent>
                   </Card>
                 ))}
                 <Card className="border-primary/20">
                   <CardContent className="flex items-center justify-between py-3">
-                    <span className="font-semibold">Общий процент:</span>
-                    <Badge variant={totalPercentage === 100 ? "default" : "secondary"}>
-                      {totalPercentage.toFixed(2)}%
+                    <span className="font-semibold">Процентные шаги:</span>
+                    <Badge variant={totalPercentage === 100 || hasRemainder ? "default" : "secondary"}>
+                      {totalPercentage.toFixed(2)}%{hasRemainder ? " + остаток" : ""}
                     </Badge>
                   </CardContent>
                 </Card>
@@ -207,10 +384,10 @@ export function IncomeSourceFundDistributionModal({
             )}
           </div>
 
-          {/* Add new distribution */}
-          {availableFunds.length > 0 && totalPercentage < 100 && (
+          {/* Add a step to the new version */}
+          {availableFunds.length > 0 && (
             <div>
-              <h3 className="text-lg font-semibold mb-4">Добавить распределение</h3>
+              <h3 className="text-lg font-semibold mb-4">Добавить шаг</h3>
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="fund">Фонд</Label>
@@ -229,34 +406,72 @@ export function IncomeSourceFundDistributionModal({
                 </div>
 
                 <div>
-                  <Label htmlFor="percentage">
-                    Процент (доступно: {(100 - totalPercentage).toFixed(2)}%)
-                  </Label>
-                  <Input
-                    id="percentage"
-                    type="number"
-                    min="0.01"
-                    max={100 - totalPercentage}
-                    step="0.01"
-                    value={percentage}
-                    onChange={(e) => setPercentage(e.target.value)}
-                    placeholder="0.00"
-                  />
+                  <Label>Тип шага</Label>
+                  <Select value={ruleType} onValueChange={(value) => setRuleType(value as DistributionRuleType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ruleTypeLabels) as DistributionRuleType[])
+                        .filter(type => type !== "remainder" || !hasRemainder)
+                        .map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {ruleTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
+                {usesPercentage && (
+                  <div>
+                    <Label htmlFor="percentage">
+                      Процент (доступно: {(100 - totalPercentage).toFixed(2)}%)
+                    </Label>
+                    <Input
+                      id="percentage"
+                      type="number"
+                      min="0.01"
+                      max={100 - totalPercentage}
+                      step="0.01"
+                      value={percentage}
+                      onChange={(e) => setPercentage(e.target.value)}
+                      placeholder="0.00"
+                    />
+                  </div>
+                )}
+
+                {usesAmount && (
+                  <div>
+                    <Label htmlFor="amount">
+                      {ruleType === "capped" ? "Лимит в месяц, ₽" : "Сумма, ₽"}
+                    </Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0.00"
+                    />
+                  </div>
+                )}
+
                 <Button
-                  onClick={handleAddDistribution}
-                  disabled={!selectedFundId || !percentage || createDistributionMutation.isPending}
+                  variant="outline"
+                  onClick={handleAddRule}
+                  disabled={!selectedFundId}
                   className="w-full"
                 >
                   <Plus className="h-4 w-4 mr-2" />
-                  {createDistributionMutation.isPending ? "Добавление..." : "Добавить распределение"}
+                  Добавить шаг
                 </Button>
               </div>
             </div>
           )}
 
-          {availableFunds.length === 0 && totalPercentage < 100 && (
+          {availableFunds.length === 0 && (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-6">
                 <p className="text-muted-foreground text-center">
@@ -266,6 +481,84 @@ export function IncomeSourceFundDistributionModal({
             </Card>
           )}
 
+          {/* Save as a new version */}
+          <div className="flex items-end gap-4">
+            <div className="flex-1">
+              <Label htmlFor="validFrom">Действует с</Label>
+              <Input
+                id="validFrom"
+                type="date"
+                value={validFrom}
+                onChange={(e) => setValidFrom(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleSaveVersion}
+              disabled={!validFrom || saveVersionMutation.isPending}
+            >
+              {saveVersionMutation.isPending ? "Сохранение..." : "Сохранить новую версию"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Шаги применяются к поступлению по порядку: фиксированные суммы, затем проценты
+            от оставшейся суммы, остаток - последним шагом. Поступления распределяются по правилам,
+            действовавшим на дату поступления. Версии, начинающиеся с выбранной даты или позже, будут заменены.
+          </p>
+
+          {/* Rounding fund */}
+          <div>
+            <Label>Фонд для копеек округления</Label>
+            <Select
+              value={roundingFundId ?? "none"}
+              onValueChange={(value) => roundingFundMutation.mutate(value === "none" ? null : value)}
+              disabled={roundingFundMutation.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Не задан - по наибольшему остатку</SelectItem>
+                {activeFunds.map((fund) => (
+                  <SelectItem key={fund.id} value={fund.id}>
+                    {fund.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Доли фондов всегда в сумме равны распределяемой сумме; копейки, оставшиеся после округления, получает этот фонд.
+            </p>
+          </div>
+
+          {/* Rule history */}
+          {versions.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                История правил
+              </h3>
+              <div className="space-y-2">
+                {versions.map((version) => (
+                  <Card key={version.validFrom}>
+                    <CardContent className="py-3 space-y-2">
+                      <div className="text-sm text-muted-foreground">
+                        с {formatValidDate(version.validFrom)}{" "}
+                        {version.validTo ? `до ${formatValidDate(version.validTo)}` : "по настоящее время"}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {version.rules.map((rule) => (
+                          <Badge key={rule.id} variant={version.validTo ? "outline" : "secondary"}>
+                            {rule.fundName}: {describeRule({ ...rule, ruleType: rule.ruleType as DistributionRuleType })}
+                          </Badge>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end">
             <Button onClick={onClose}>Закрыть</Button>
           </div>
@@ -273,4 +566,4 @@ export function IncomeSourceFundDistributionModal({
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
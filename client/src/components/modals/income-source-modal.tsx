@@ -47,6 +47,7 @@ export function IncomeSourceModal({ incomeSource, isOpen, onClose }: IncomeSourc
       name: "",
       description: "",
       isActive: true,
+      distributionMode: "manual",
     },
   });
 
@@ -57,12 +58,14 @@ export function IncomeSourceModal({ incomeSource, isOpen, onClose }: IncomeSourc
           name: incomeSource.name,
           description: incomeSource.description || "",
           isActive: incomeSource.isActive,
+          distributionMode: incomeSource.distributionMode === "auto" ? "auto" : "manual",
         });
       } else {
         form.reset({
           name: "",
           description: "",
           isActive: true,
+          distributionMode: "manual",
         });
       }
     }
@@ -183,6 +186,27 @@ export function IncomeSourceModal({ incomeSource, isOpen, onClose }: IncomeSourc
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="distributionMode"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Распределять автоматически</FormLabel>
+                    <div className="text-[0.8rem] text-muted-foreground">
+                      Поступления распределяются по фондам сразу при создании и изменении
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value === "auto"}
+                      onCheckedChange={(checked) => field.onChange(checked ? "auto" : "manual")}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
                 Отмена
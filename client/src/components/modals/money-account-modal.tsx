@@ -0,0 +1,245 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { moneyAccountKindLabels } from "@/lib/moneyAccounts";
+import { moneyAccountKinds } from "@shared/schema";
+import type { MoneyAccount } from "@shared/schema";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Укажите название счета"),
+  kind: z.enum(moneyAccountKinds),
+  description: z.string().optional(),
+  initialBalance: z.string().refine((val) => !isNaN(parseFloat(val)), "Сумма должна быть числом"),
+  isActive: z.boolean(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface MoneyAccountModalProps {
+  open: boolean;
+  onClose: () => void;
+  account?: MoneyAccount | null;
+}
+
+export default function MoneyAccountModal({ open, onClose, account }: MoneyAccountModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      kind: "cash",
+      description: "",
+      initialBalance: "0",
+      isActive: true,
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: account?.name ?? "",
+        kind: (account?.kind as FormData["kind"]) ?? "cash",
+        description: account?.description || "",
+        initialBalance: account?.initialBalance || "0",
+        isActive: account?.isActive ?? true,
+      });
+    }
+  }, [account, form, open]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const endpoint = account ? `/api/money-accounts/${account.id}` : "/api/money-accounts";
+      const method = account ? "PUT" : "POST";
+
+      return await apiRequest(endpoint, method, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      toast({
+        title: "Успешно",
+        description: account ? "Счет обновлен!" : "Счет создан!",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Неавторизован",
+          description: "Вы вышли из системы. Выполняется повторный вход...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Ошибка",
+        description: account ? "Не удалось обновить счет" : "Не удалось создать счет",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{account ? "Редактировать счет" : "Создать счет"}</DialogTitle>
+          <DialogDescription>
+            Касса, банковский счет или карта, на которых физически лежат деньги.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Название счета</FormLabel>
+                  <FormControl>
+                    <Input placeholder="например, Касса, Расчетный счет..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Вид счета</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {moneyAccountKinds.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {moneyAccountKindLabels[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Описание (необязательно)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Банк, номер счета или карты..."
+                      className="resize-none"
+                      rows={2}
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="initialBalance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Начальный остаток</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        placeholder="0"
+                        step="0.01"
+                        {...field}
+                      />
+                      <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                        ₽
+                      </div>
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Активный</FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Счет будет доступен в поступлениях и расходах
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Отмена
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Сохранение..." : account ? "Обновить счет" : "Создать счет"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import type { MoneyAccount } from "@shared/schema";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { normalizeMoney } from "@shared/money";
+
+interface MoneyAccountTransferModalProps {
+  open: boolean;
+  onClose: () => void;
+  accounts: MoneyAccount[];
+}
+
+const formSchema = z.object({
+  fromAccountId: z.string().min(1, "Выберите счет списания"),
+  toAccountId: z.string().min(1, "Выберите счет зачисления"),
+  amount: z.string().min(1, "Сумма обязательна").refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Сумма должна быть положительным числом",
+  }),
+  date: z.string().min(1, "Укажите дату"),
+  description: z.string().optional(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+/**
+ * Перемещение денег между счетами (например, сдача наличных в банк)
+ *
+ * Фонды не меняются: деньги остаются теми же, меняется только место хранения.
+ */
+export default function MoneyAccountTransferModal({ open, onClose, accounts }: MoneyAccountTransferModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      fromAccountId: "",
+      toAccountId: "",
+      amount: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      description: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        fromAccountId: "",
+        toAccountId: "",
+        amount: "",
+        date: format(new Date(), "yyyy-MM-dd"),
+        description: "",
+      });
+    }
+  }, [open, form]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      await apiRequest("/api/money-account-transfers", "POST", {
+        ...data,
+        amount: normalizeMoney(data.amount),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/money-account-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      toast({
+        title: "Успешно",
+        description: "Перемещение создано",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Неавторизован",
+          description: "Вы вышли из системы. Выполняется повторный вход...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Ошибка",
+        description: "Не удалось создать перемещение",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    createMutation.mutate(data);
+  };
+
+  const activeAccounts = accounts.filter(account => account.isActive);
+  const fromAccountId = form.watch("fromAccountId");
+  const availableToAccounts = activeAccounts.filter(account => account.id !== fromAccountId);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Перемещение между счетами</DialogTitle>
+          <DialogDescription>
+            Переместите деньги с одного счета на другой, например сдайте наличные в банк
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fromAccountId">Со счета</Label>
+            <Select
+              value={fromAccountId}
+              onValueChange={(value) => {
+                form.setValue("fromAccountId", value);
+                if (form.getValues("toAccountId") === value) {
+                  form.setValue("toAccountId", "");
+                }
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Выберите счет списания" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {form.formState.errors.fromAccountId && (
+              <p className="text-sm text-destructive">{form.formState.errors.fromAccountId.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="toAccountId">На счет</Label>
+            <Select
+              value={form.watch("toAccountId")}
+              onValueChange={(value) => form.setValue("toAccountId", value)}
+              disabled={!fromAccountId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Выберите счет зачисления" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableToAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {form.formState.errors.toAccountId && (
+              <p className="text-sm text-destructive">{form.formState.errors.toAccountId.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Сумма (₽)</Label>
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                {...form.register("amount")}
+              />
+              {form.formState.errors.amount && (
+                <p className="text-sm text-destructive">{form.formState.errors.amount.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date">Дата</Label>
+              <Input id="date" type="date" {...form.register("date")} />
+              {form.formState.errors.date && (
+                <p className="text-sm text-destructive">{form.formState.errors.date.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Описание (необязательно)</Label>
+            <Textarea
+              id="description"
+              placeholder="Например, сдача выручки в банк..."
+              {...form.register("description")}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? "Создание..." : "Переместить"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney, fromKopecks, percentageOf, sumMoney, toKopecks } from "@shared/money";
+import type { ExpenseNomenclature } from "@shared/schema";
+import { formatQuantity } from "@/lib/quantity";
+
+// Ответ GET /api/expense-nomenclature/:id/price-history
+interface PricePoint {
+  costId: string;
+  costItemId: string;
+  date: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  description: string | null;
+}
+
+interface NomenclaturePriceHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nomenclature: ExpenseNomenclature | null;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("ru-RU");
+}
+
+export default function NomenclaturePriceHistoryModal({ isOpen, onClose, nomenclature }: NomenclaturePriceHistoryModalProps) {
+  const { data: points = [], isLoading } = useQuery<PricePoint[]>({
+    queryKey: ["/api/expense-nomenclature", nomenclature?.id, "price-history"],
+    enabled: isOpen && !!nomenclature,
+    retry: false,
+    staleTime: 0,
+  });
+
+  const unit = nomenclature?.unit;
+  const prices = points.map(point => toKopecks(point.unitPrice));
+  // Средняя цена взвешена по количеству: все потраченное, деленное на все купленное
+  const totalQuantity = points.reduce((total, point) => total + Number(point.quantity), 0);
+  const averagePrice = totalQuantity > 0 ? Math.round(sumMoney(points.map(point => point.amount)) / totalQuantity) : 0;
+
+  // Изменение цены считается к предыдущей покупке, показываем от новых к старым
+  const rows = points
+    .map((point, index) => {
+      const previous = index > 0 ? prices[index - 1] : null;
+      return { point, change: previous !== null ? prices[index] - previous : null, previous };
+    })
+    .reverse();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>История цен: {nomenclature?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse">
+            <div className="h-48 bg-muted rounded"></div>
+          </div>
+        ) : points.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Нет расходов с количеством и ценой по этой номенклатуре
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Последняя цена</div>
+                <div className="font-semibold">{formatMoney(points[points.length - 1].unitPrice)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Средняя цена</div>
+                <div className="font-semibold">{formatMoney(fromKopecks(averagePrice))}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Минимум</div>
+                <div className="font-semibold">{formatMoney(fromKopecks(Math.min(...prices)))}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Максимум</div>
+                <div className="font-semibold">{formatMoney(fromKopecks(Math.max(...prices)))}</div>
+              </div>
+            </div>
+            {unit && <div className="text-xs text-muted-foreground">Цены указаны за 1 {unit}</div>}
+
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Дата</TableHead>
+                    <TableHead className="text-right">Количество</TableHead>
+                    <TableHead className="text-right">Цена</TableHead>
+                    <TableHead className="text-right">Изменение</TableHead>
+                    <TableHead className="text-right">Сумма</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ point, change, previous }) => (
+                    <TableRow key={point.costItemId}>
+                      <TableCell className="whitespace-nowrap">{formatDate(point.date)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatQuantity(point.quantity, unit)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatMoney(point.unitPrice)}</TableCell>
+                      <TableCell className={`text-right whitespace-nowrap ${change && change > 0 ? "text-red-600" : change && change < 0 ? "text-green-600" : "text-muted-foreground"}`}>
+                        {change === null || previous === null
+                          ? "—"
+                          : change === 0
+                            ? "без изменений"
+                            : `${change > 0 ? "+" : "−"}${formatMoney(fromKopecks(Math.abs(change)))} (${percentageOf(Math.abs(change), previous)}%)`}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatMoney(point.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,8 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { type Receipt, type Sponsor, type IncomeSource } from "@shared/schema";
+import { type Receipt, type Sponsor, type IncomeSource, type MoneyAccount, type PaymentMethod } from "@shared/schema";
+import { formatMoney, fromKopecks, normalizeMoney, tryToKopecks, type Kopecks } from "@shared/money";
 import {
   Dialog,
   DialogContent,
@@ -36,16 +37,38 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Plus, Trash2, Calculator, Info } from "lucide-react";
+import { CalendarIcon, Plus, Trash2, Calculator, Info, AlertTriangle } from "lucide-react";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
 import { cn } from "@/lib/utils";
+import { paymentMethodLabels } from "@/lib/paymentMethods";
 
 interface SponsorItem {
   sponsorId: string;
+  payerName: string; // Плательщик для строки без спонсора (анонимное поступление)
+  paymentMethod: string; // PaymentMethod; пусто - способ оплаты не указан
   amount: string;
 }
 
+/** Сумма введена корректно и больше нуля */
+const isPositiveAmount = (amount: string) => (tryToKopecks(amount) ?? 0) > 0;
+
+/** Строка попадет в поступление: сумма больше нуля (строка без спонсора - анонимная) */
+const isCountedItem = (item: SponsorItem) => isPositiveAmount(item.amount);
+
+/** Итог по спонсорам в копейках - сумма, которую сервер запишет в поступление */
+const sumItemAmounts = (items: SponsorItem[]): Kopecks =>
+  items.filter(isCountedItem).reduce((sum, item) => sum + (tryToKopecks(item.amount) ?? 0), 0);
+
+/** Строки поступления для API: сумма поступления считается сервером по ним */
+const toReceiptItems = (items: SponsorItem[]) =>
+  items.filter(isCountedItem).map(item => ({
+    sponsorId: item.sponsorId || null,
+    payerName: item.sponsorId ? null : item.payerName.trim() || null,
+    paymentMethod: (item.paymentMethod || null) as PaymentMethod | null,
+    amount: normalizeMoney(item.amount),
+  }));
+
 interface SponsorComboboxProps {
   value: string;
   onChange: (value: string) => void;
@@ -61,9 +84,10 @@ interface ReceiptModalProps {
 
 export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalProps) {
   const [selectedIncomeSourceId, setSelectedIncomeSourceId] = useState<string>("");
+  const [selectedMoneyAccountId, setSelectedMoneyAccountId] = useState<string>(""); // Пусто - счет еще не выбран
   const [date, setDate] = useState<Date>(new Date());
   const [description, setDescription] = useState<string>("");
-  const [sponsorItems, setSponsorItems] = useState<SponsorItem[]>([{ sponsorId: "", amount: "" }]);
+  const [sponsorItems, setSponsorItems] = useState<SponsorItem[]>([{ sponsorId: "", payerName: "", paymentMethod: "", amount: "" }]);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
 
   // Сбрасываем все состояния при открытии модального окна
@@ -72,14 +96,16 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
       if (receipt) {
         // Заполняем данными для редактирования
         setSelectedIncomeSourceId(receipt.incomeSourceId || "");
+        setSelectedMoneyAccountId(receipt.moneyAccountId || "");
         setDate(new Date(receipt.date));
         setDescription(receipt.description || "");
       } else {
         // Сбрасываем к начальным значениям
         setSelectedIncomeSourceId("");
+        setSelectedMoneyAccountId("");
         setDate(new Date());
         setDescription("");
-        setSponsorItems([{ sponsorId: "", amount: "" }]);
+        setSponsorItems([{ sponsorId: "", payerName: "", paymentMethod: "", amount: "" }]);
         setIsCalendarOpen(false);
       }
     }
@@ -100,6 +126,20 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
     retry: false,
   });
 
+  const { data: moneyAccounts = [] } = useQuery<MoneyAccount[]>({
+    queryKey: ["/api/money-accounts"],
+    enabled: isOpen,
+    retry: false,
+  });
+  const activeMoneyAccounts = moneyAccounts.filter(account => account.isActive || account.id === receipt?.moneyAccountId);
+
+  // Новое поступление по умолчанию зачисляется на первый активный счет
+  useEffect(() => {
+    if (isOpen && !receipt && !selectedMoneyAccountId && activeMoneyAccounts.length > 0) {
+      setSelectedMoneyAccountId(activeMoneyAccounts[0].id);
+    }
+  }, [isOpen, receipt, moneyAccounts]);
+
   // Загружаем данные о receipt items при редактировании
   const { data: receiptItems = [] } = useQuery({
     queryKey: ["/api/receipts", receipt?.id, "items"],
@@ -111,7 +151,9 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
   useEffect(() => {
     if (Array.isArray(receiptItems) && receiptItems.length > 0) {
       const items = receiptItems.map((item: any) => ({
-        sponsorId: item.sponsorId,
+        sponsorId: item.sponsorId || "",
+        payerName: item.payerName || "",
+        paymentMethod: item.paymentMethod || "",
         amount: item.amount.toString()
       }));
       setSponsorItems(items);
@@ -121,40 +163,32 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
   const createMutation = useMutation({
     mutationFn: async (data: {
       incomeSourceId: string;
+      moneyAccountId: string;
       date: Date;
       description: string;
       sponsorItems: SponsorItem[];
     }) => {
-      const totalAmount = data.sponsorItems.reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0);
-      
-      // Create receipt
+      // Поступление и строки спонсоров создаются одним запросом
       const receiptData = {
         incomeSourceId: data.incomeSourceId,
+        moneyAccountId: data.moneyAccountId,
         date: data.date,
         description: data.description,
-        amount: totalAmount,
+        items: toReceiptItems(data.sponsorItems),
       };
       
       const response = await apiRequest("/api/receipts", "POST", receiptData);
-      const newReceipt = await response.json();
-      
-      // Create receipt items for each sponsor
-      for (const item of data.sponsorItems) {
-        if (item.sponsorId && item.amount && parseFloat(item.amount) > 0) {
-          await apiRequest(`/api/receipts/${newReceipt.id}/items`, "POST", {
-            sponsorId: item.sponsorId,
-            amount: parseFloat(item.amount),
-          });
-        }
-      }
-      
-      return newReceipt;
+      return await response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
       queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stale-distributions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/integrity/receipt-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
       toast({
         title: "Успешно",
         description: "Поступление создано успешно",
@@ -184,37 +218,23 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
   const updateMutation = useMutation({
     mutationFn: async (data: {
       incomeSourceId: string;
+      moneyAccountId: string;
       date: Date;
       description: string;
       sponsorItems: SponsorItem[];
     }) => {
       if (!receipt?.id) throw new Error("Receipt ID is required for update");
       
-      const totalAmount = data.sponsorItems.reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0);
-      
-      // Update receipt
+      // Строки спонсоров заменяются целиком, сумма поступления пересчитывается по ним
       const receiptData = {
         incomeSourceId: data.incomeSourceId,
+        moneyAccountId: data.moneyAccountId,
         date: data.date,
         description: data.description,
-        amount: totalAmount,
+        items: toReceiptItems(data.sponsorItems),
       };
       
       await apiRequest(`/api/receipts/${receipt.id}`, "PUT", receiptData);
-      
-      // Delete existing receipt items
-      await apiRequest(`/api/receipts/${receipt.id}/items`, "DELETE");
-      
-      // Create new receipt items
-      for (const item of data.sponsorItems) {
-        if (item.sponsorId && item.amount && parseFloat(item.amount) > 0) {
-          await apiRequest(`/api/receipts/${receipt.id}/items`, "POST", {
-            sponsorId: item.sponsorId,
-            amount: parseFloat(item.amount),
-          });
-        }
-      }
-      
       return receipt;
     },
     onSuccess: () => {
@@ -222,6 +242,10 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
       queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stale-distributions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/integrity/receipt-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
       toast({
         title: "Успешно",
         description: "Поступление обновлено успешно",
@@ -250,15 +274,16 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
 
   const handleClose = () => {
     setSelectedIncomeSourceId("");
+    setSelectedMoneyAccountId("");
     setDate(new Date());
     setDescription("");
-    setSponsorItems([{ sponsorId: "", amount: "" }]);
+    setSponsorItems([{ sponsorId: "", payerName: "", paymentMethod: "", amount: "" }]);
     setIsCalendarOpen(false);
     onClose();
   };
 
   const addSponsorItem = () => {
-    setSponsorItems([...sponsorItems, { sponsorId: "", amount: "" }]);
+    setSponsorItems([...sponsorItems, { sponsorId: "", payerName: "", paymentMethod: "", amount: "" }]);
   };
 
   const removeSponsorItem = (index: number) => {
@@ -285,12 +310,21 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
       return;
     }
 
-    const validItems = sponsorItems.filter(item => item.sponsorId && item.amount && parseFloat(item.amount) > 0);
+    if (!selectedMoneyAccountId) {
+      toast({
+        title: "Ошибка",
+        description: "Пожалуйста, выберите счет зачисления",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const validItems = sponsorItems.filter(isCountedItem);
     
     if (validItems.length === 0) {
       toast({
         title: "Ошибка",
-        description: "Добавьте хотя бы одного спонсора с суммой",
+        description: "Добавьте хотя бы одну строку с суммой",
         variant: "destructive",
       });
       return;
@@ -300,6 +334,7 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
       // Редактирование существующего поступления
       updateMutation.mutate({
         incomeSourceId: selectedIncomeSourceId,
+        moneyAccountId: selectedMoneyAccountId,
         date,
         description,
         sponsorItems: validItems,
@@ -308,6 +343,7 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
       // Создание нового поступления
       createMutation.mutate({
         incomeSourceId: selectedIncomeSourceId,
+        moneyAccountId: selectedMoneyAccountId,
         date,
         description,
         sponsorItems: validItems,
@@ -315,15 +351,8 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(amount);
-  };
-
   const getTotalAmount = () => {
-    return sponsorItems.reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0);
+    return sumItemAmounts(sponsorItems);
   };
 
   const getSponsorName = (sponsorId: string) => {
@@ -331,6 +360,10 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
     return sponsor?.name || "Неизвестный спонсор";
   };
 
+  // При редактировании сравниваем сохраненную сумму поступления с итогом по спонсорам
+  const storedAmount = receipt ? tryToKopecks(receipt.amount) ?? 0 : 0;
+  const amountDifference = receipt ? getTotalAmount() - storedAmount : 0;
+
   const activeSources = incomeSources.filter(source => source.isActive);
   const activeSponsors = sponsors.filter(sponsor => sponsor.isActive);
 
@@ -368,6 +401,22 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
             <CommandList>
               <CommandEmpty>Спонсор не найден.</CommandEmpty>
               <CommandGroup>
+                <CommandItem
+                  value="Без спонсора"
+                  onSelect={() => {
+                    onChange("");
+                    setOpen(false);
+                    setSearchValue("");
+                  }}
+                >
+                  <Check
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      !value ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                  Без спонсора (анонимно)
+                </CommandItem>
                 {filteredSponsors.map((sponsor) => (
                   <CommandItem
                     key={sponsor.id}
@@ -397,14 +446,14 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <Plus className="h-5 w-5" />
             <span>{receipt ? "Редактировать поступление" : "Добавить поступление"}</span>
           </DialogTitle>
           <DialogDescription>
-            Выберите источник поступления и добавьте спонсоров с их суммами
+            Выберите источник поступления и добавьте спонсоров с их суммами. Строка без спонсора - анонимное поступление
           </DialogDescription>
         </DialogHeader>
 
@@ -426,6 +475,23 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
             </Select>
           </div>
 
+          {/* Money Account Selection */}
+          <div className="space-y-2">
+            <Label htmlFor="moneyAccount">Счет зачисления *</Label>
+            <Select value={selectedMoneyAccountId} onValueChange={setSelectedMoneyAccountId}>
+              <SelectTrigger>
+                <SelectValue placeholder={activeMoneyAccounts.length > 0 ? "Выберите счет" : "Сначала добавьте счет"} />
+              </SelectTrigger>
+              <SelectContent>
+                {activeMoneyAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Date Selection */}
           <div className="space-y-2">
             <Label htmlFor="date">Дата *</Label>
@@ -482,7 +548,7 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
                 onClick={addSponsorItem}
               >
                 <Plus className="h-4 w-4 mr-2" />
-                Добавить спонсора
+                Добавить строку
               </Button>
             </div>
 
@@ -491,7 +557,8 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Спонсор</TableHead>
+                      <TableHead>Спонсор или плательщик</TableHead>
+                      <TableHead>Способ оплаты</TableHead>
                       <TableHead>Сумма (RUB)</TableHead>
                       <TableHead className="w-12"></TableHead>
                     </TableRow>
@@ -504,8 +571,35 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
                             value={item.sponsorId}
                             onChange={(value) => updateSponsorItem(index, "sponsorId", value)}
                             sponsors={activeSponsors}
-                            placeholder="Выберите спонсора"
+                            placeholder="Без спонсора (анонимно)"
                           />
+                          {!item.sponsorId && (
+                            <Input
+                              className="mt-2"
+                              placeholder="Плательщик (необязательно)"
+                              maxLength={255}
+                              value={item.payerName}
+                              onChange={(e) => updateSponsorItem(index, "payerName", e.target.value)}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={item.paymentMethod || "none"}
+                            onValueChange={(value) => updateSponsorItem(index, "paymentMethod", value === "none" ? "" : value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Не указан</SelectItem>
+                              {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                                <SelectItem key={method} value={method}>
+                                  {paymentMethodLabels[method]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </TableCell>
                         <TableCell>
                           <Input
@@ -547,11 +641,33 @@ export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalP
                     </span>
                   </div>
                   <span className="text-xl font-bold text-green-900 dark:text-green-100">
-                    {formatCurrency(getTotalAmount())}
+                    {formatMoney(fromKopecks(getTotalAmount()))}
                   </span>
                 </div>
               </CardContent>
             </Card>
+
+            {/* Discrepancy with the stored receipt amount */}
+            {receipt && amountDifference !== 0 && (
+              <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800">
+                <CardContent className="p-4 space-y-1 text-sm text-amber-900 dark:text-amber-100">
+                  <div className="flex justify-between">
+                    <span>Сумма поступления сейчас:</span>
+                    <span className="font-semibold">{formatMoney(receipt.amount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Расхождение со спонсорами:</span>
+                    <span className="font-semibold">
+                      {amountDifference > 0 ? "+" : ""}{formatMoney(fromKopecks(amountDifference))}
+                    </span>
+                  </div>
+                  <p className="text-xs pt-1">
+                    После сохранения сумма поступления станет равной сумме по спонсорам.
+                    Если поступление уже распределено, распределение нужно будет пересчитать.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Submit Buttons */}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { formatMoney } from "@shared/money";
+import type { BankStatementDirection } from "@shared/schema";
+
+// Ответ GET /api/reports/bank-reconciliation
+interface UnmatchedLine {
+  id: string;
+  direction: BankStatementDirection;
+  documentNumber: string | null;
+  date: string;
+  amount: string;
+  counterpartyName: string | null;
+  purpose: string | null;
+  candidateCount: number;
+}
+
+interface UnmatchedDocument {
+  kind: "receipt" | "cost";
+  id: string;
+  date: string;
+  amount: string;
+  label: string;
+}
+
+interface BankReconciliationReportData {
+  lines: UnmatchedLine[];
+  receipts: UnmatchedDocument[];
+  costs: UnmatchedDocument[];
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("ru-RU");
+}
+
+export default function BankReconciliationReport() {
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [showReport, setShowReport] = useState(false);
+
+  const { data: reportData, isLoading } = useQuery<BankReconciliationReportData>({
+    queryKey: ["/api/reports/bank-reconciliation", dateFrom, dateTo],
+    enabled: Boolean(showReport && dateFrom && dateTo),
+    retry: false,
+    staleTime: 0,
+  });
+
+  const handleGenerateReport = () => {
+    if (dateFrom && dateTo) {
+      setShowReport(true);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setDateFrom("");
+    setDateTo("");
+    setShowReport(false);
+  };
+
+  const lines = reportData?.lines ?? [];
+  const documents = [...(reportData?.receipts ?? []), ...(reportData?.costs ?? [])]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Несверенные операции</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="reconciliation-date-from">Дата с</Label>
+            <Input
+              id="reconciliation-date-from"
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="reconciliation-date-to">Дата по</Label>
+            <Input
+              id="reconciliation-date-to"
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <Button onClick={handleGenerateReport} disabled={!dateFrom || !dateTo}>
+              Сформировать отчет
+            </Button>
+            <Button variant="outline" onClick={handleClearFilters}>
+              Сбросить
+            </Button>
+          </div>
+        </div>
+
+        {showReport && (
+          <div className="space-y-6">
+            {dateFrom && dateTo && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="text-sm text-muted-foreground">
+                  Период: {format(new Date(dateFrom), 'dd MMMM yyyy', { locale: ru })} — {format(new Date(dateTo), 'dd MMMM yyyy', { locale: ru })}
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/bank-reconciliation">Перейти к сверке</Link>
+                </Button>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="animate-pulse">
+                <div className="h-64 bg-muted rounded"></div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h3 className="font-medium">В выписке, но нет документа: {lines.length}</h3>
+                  {lines.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Дата</TableHead>
+                            <TableHead>Контрагент и назначение</TableHead>
+                            <TableHead className="text-right">Сумма</TableHead>
+                            <TableHead className="text-right">Подходящих документов</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lines.map((line) => (
+                            <TableRow key={line.id}>
+                              <TableCell className="whitespace-nowrap">{formatDate(line.date)}</TableCell>
+                              <TableCell className="max-w-xs">
+                                <div className="font-medium">{line.counterpartyName || "Без наименования"}</div>
+                                {line.purpose && (
+                                  <div className="text-xs text-muted-foreground truncate" title={line.purpose}>{line.purpose}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className={`text-right whitespace-nowrap ${line.direction === "incoming" ? "text-green-600" : "text-red-600"}`}>
+                                {line.direction === "incoming" ? "+" : "−"}{formatMoney(line.amount)}
+                              </TableCell>
+                              <TableCell className="text-right">{line.candidateCount}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">Все строки выписок сверены</div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="font-medium">Документы, которых нет в выписке: {documents.length}</h3>
+                  {documents.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Дата</TableHead>
+                            <TableHead>Документ</TableHead>
+                            <TableHead className="text-right">Сумма</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {documents.map((document) => (
+                            <TableRow key={`${document.kind}:${document.id}`}>
+                              <TableCell className="whitespace-nowrap">{formatDate(document.date)}</TableCell>
+                              <TableCell>
+                                <span className="text-muted-foreground">{document.kind === "receipt" ? "Поступление" : "Расход"}: </span>
+                                {document.label}
+                              </TableCell>
+                              <TableCell className={`text-right whitespace-nowrap ${document.kind === "receipt" ? "text-green-600" : "text-red-600"}`}>
+                                {document.kind === "receipt" ? "+" : "−"}{formatMoney(document.amount)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">Все безналичные документы периода есть в выписках</div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,13 +7,31 @@ import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { formatMoney, kopecksToRubles, sumMoney } from "@shared/money";
+
+// Ответ GET /api/reports/expenses: статьи деревом, total - подытог статьи с дочерними
+interface ExpenseReportNode {
+  categoryId: string;
+  categoryName: string;
+  depth: number;
+  total: number;
+  expenses: { name: string; amount: number }[];
+  children: ExpenseReportNode[];
+}
+
+function allNodeIds(nodes: ExpenseReportNode[]): string[] {
+  return nodes.flatMap(node => [node.categoryId, ...allNodeIds(node.children)]);
+}
 
 export default function ExpenseReport() {
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
   const [showReport, setShowReport] = useState(false);
 
-  const { data: reportData, isLoading } = useQuery({
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data: reportData, isLoading } = useQuery<ExpenseReportNode[]>({
     queryKey: ["/api/reports/expenses", dateFrom, dateTo],
     enabled: Boolean(showReport && dateFrom && dateTo),
     retry: false,
@@ -31,13 +49,54 @@ export default function ExpenseReport() {
     setShowReport(false);
   };
 
-  const displayData = reportData || [];
-  const dataArray = Array.isArray(displayData) ? displayData : [];
-  
-  const totalAmount = dataArray.reduce(
-    (total: number, category: any) => total + category.expenses.reduce((sum: number, expense: any) => sum + expense.amount, 0),
-    0
-  );
+  const dataArray = reportData ?? [];
+  const totalAmount = kopecksToRubles(sumMoney(dataArray.map(node => node.total)));
+  const percentOfTotal = (amount: number) => totalAmount > 0 ? (amount / totalAmount * 100).toFixed(1) : 0;
+
+  const toggle = (categoryId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(categoryId)) next.delete(categoryId);
+      else next.add(categoryId);
+      return next;
+    });
+  };
+
+  // Строка статьи с подытогом; развернутая статья показывает дочерние статьи и свои траты
+  const renderNode = (node: ExpenseReportNode): React.ReactElement[] => {
+    const isExpanded = expanded.has(node.categoryId);
+    const indent = { paddingLeft: `${node.depth * 1.5 + 0.5}rem` };
+    const rows = [
+      <TableRow key={node.categoryId} className={node.depth === 0 ? "bg-muted/50 font-semibold" : "font-medium"}>
+        <TableCell style={indent}>
+          <button
+            type="button"
+            className="flex items-center gap-1 text-left"
+            onClick={() => toggle(node.categoryId)}
+          >
+            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            {node.categoryName}
+          </button>
+        </TableCell>
+        <TableCell className="text-right">{formatMoney(node.total)}</TableCell>
+        <TableCell className="text-right">{percentOfTotal(node.total)}%</TableCell>
+      </TableRow>,
+    ];
+    if (!isExpanded) return rows;
+
+    const expenseIndent = { paddingLeft: `${(node.depth + 1) * 1.5 + 1.75}rem` };
+    return [
+      ...rows,
+      ...node.children.flatMap(child => renderNode(child)),
+      ...node.expenses.map((expense, expenseIndex) => (
+        <TableRow key={`${node.categoryId}:${expenseIndex}`}>
+          <TableCell style={expenseIndent} className="text-muted-foreground">{expense.name}</TableCell>
+          <TableCell className="text-right">{formatMoney(expense.amount)}</TableCell>
+          <TableCell className="text-right text-muted-foreground">{percentOfTotal(expense.amount)}%</TableCell>
+        </TableRow>
+      )),
+    ];
+  };
 
   return (
     <Card>
@@ -87,52 +146,35 @@ export default function ExpenseReport() {
                 <div className="h-64 bg-muted rounded"></div>
               </div>
             ) : dataArray.length > 0 ? (
-              <div className="space-y-6">
-                {dataArray.map((category: any, categoryIndex: number) => {
-                  const categoryTotal = category.expenses.reduce((sum: number, expense: any) => sum + expense.amount, 0);
-                  const categoryPercentage = totalAmount > 0 ? (categoryTotal / totalAmount * 100).toFixed(1) : 0;
-
-                  return (
-                    <div key={categoryIndex} className="border rounded-lg p-4">
-                      <div className="flex justify-between items-center mb-4 pb-2 border-b">
-                        <h3 className="text-lg font-semibold">{category.categoryName}</h3>
-                        <div className="text-right">
-                          <div className="font-medium">{categoryTotal.toLocaleString('ru-RU')} ₽</div>
-                          <div className="text-sm text-muted-foreground">{categoryPercentage}% от общих расходов</div>
-                        </div>
-                      </div>
-                      
-                      <div className="overflow-x-auto">
-                        <Table>
-                          <TableHeader>
-                            <TableRow>
-                              <TableHead>Название траты</TableHead>
-                              <TableHead className="text-right">Сумма</TableHead>
-                              <TableHead className="text-right">% от категории</TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {category.expenses.map((expense: any, expenseIndex: number) => {
-                              const expensePercentage = categoryTotal > 0 ? (expense.amount / categoryTotal * 100).toFixed(1) : 0;
-                              return (
-                                <TableRow key={expenseIndex}>
-                                  <TableCell>{expense.name}</TableCell>
-                                  <TableCell className="text-right">{expense.amount.toLocaleString('ru-RU')} ₽</TableCell>
-                                  <TableCell className="text-right">{expensePercentage}%</TableCell>
-                                </TableRow>
-                              );
-                            })}
-                          </TableBody>
-                        </Table>
-                      </div>
-                    </div>
-                  );
-                })}
+              <div className="space-y-4">
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setExpanded(new Set(allNodeIds(dataArray)))}>
+                    Развернуть все
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setExpanded(new Set())}>
+                    Свернуть все
+                  </Button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Статья / название траты</TableHead>
+                        <TableHead className="text-right">Сумма</TableHead>
+                        <TableHead className="text-right">% от общих расходов</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dataArray.flatMap(node => renderNode(node))}
+                    </TableBody>
+                  </Table>
+                </div>
 
                 <div className="border-t-2 pt-4">
                   <div className="flex justify-between items-center">
                     <h3 className="text-xl font-bold">Итого расходов за период:</h3>
-                    <div className="text-xl font-bold">{totalAmount.toLocaleString('ru-RU')} ₽</div>
+                    <div className="text-xl font-bold">{formatMoney(totalAmount)}</div>
                   </div>
                 </div>
               </div>
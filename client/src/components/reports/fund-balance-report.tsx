@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,6 +7,17 @@ import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
+import { formatMoney, kopecksToRubles, sumMoney } from "@shared/money";
+
+// Доля фонда в разделенном расходе из ответа GET /api/reports/fund-balance
+interface SplitCostLine {
+  costId: string;
+  date: string;
+  expenseNomenclatureName: string | null;
+  totalAmount: number;
+  shareAmount: number;
+  percentage: string | null;
+}
 
 export default function FundBalanceReport() {
   const [dateFrom, setDateFrom] = useState("");
@@ -33,15 +44,12 @@ export default function FundBalanceReport() {
 
   const displayData = reportData || [];
   const dataArray = Array.isArray(displayData) ? displayData : [];
-  const totals = dataArray.reduce(
-    (acc: any, fund: any) => ({
-      openingBalance: acc.openingBalance + fund.openingBalance,
-      income: acc.income + fund.income,
-      expenses: acc.expenses + fund.expenses,
-      currentBalance: acc.currentBalance + fund.currentBalance
-    }),
-    { openingBalance: 0, income: 0, expenses: 0, currentBalance: 0 }
-  );
+  const totals = {
+    openingBalance: kopecksToRubles(sumMoney(dataArray.map((fund: any) => fund.openingBalance))),
+    income: kopecksToRubles(sumMoney(dataArray.map((fund: any) => fund.income))),
+    expenses: kopecksToRubles(sumMoney(dataArray.map((fund: any) => fund.expenses))),
+    currentBalance: kopecksToRubles(sumMoney(dataArray.map((fund: any) => fund.currentBalance)))
+  };
 
   return (
     <Card>
@@ -104,35 +112,49 @@ export default function FundBalanceReport() {
                   </TableHeader>
                   <TableBody>
                     {dataArray.map((fund: any, index: number) => (
-                      <TableRow key={index}>
-                        <TableCell className="font-medium">{fund.fundName}</TableCell>
-                        <TableCell className="text-right">
-                          {fund.openingBalance.toLocaleString('ru-RU')} ₽
-                        </TableCell>
-                        <TableCell className="text-right text-green-600">
-                          +{fund.income.toLocaleString('ru-RU')} ₽
-                        </TableCell>
-                        <TableCell className="text-right text-red-600">
-                          -{fund.expenses.toLocaleString('ru-RU')} ₽
-                        </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {fund.currentBalance.toLocaleString('ru-RU')} ₽
-                        </TableCell>
-                      </TableRow>
+                      <Fragment key={index}>
+                        <TableRow>
+                          <TableCell className="font-medium">{fund.fundName}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(fund.openingBalance)}
+                          </TableCell>
+                          <TableCell className="text-right text-green-600">
+                            +{formatMoney(fund.income)}
+                          </TableCell>
+                          <TableCell className="text-right text-red-600">
+                            -{formatMoney(fund.expenses)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatMoney(fund.currentBalance)}
+                          </TableCell>
+                        </TableRow>
+                        {(fund.splitCosts ?? []).map((line: SplitCostLine) => (
+                          <TableRow key={`${index}:${line.costId}`} className="text-sm text-muted-foreground">
+                            <TableCell className="pl-8" colSpan={3}>
+                              {new Date(line.date).toLocaleDateString("ru-RU")} · {line.expenseNomenclatureName || "Расход"}: доля{" "}
+                              {line.percentage !== null ? `${Number(line.percentage)}% ` : ""}от {formatMoney(line.totalAmount)}
+                            </TableCell>
+                            <TableCell className="text-right text-red-600">
+                              -{formatMoney(line.shareAmount)}
+                            </TableCell>
+                            <TableCell />
+                          </TableRow>
+                        ))}
+                      </Fragment>
                     ))}
                     <TableRow className="border-t-2 font-medium">
                       <TableCell>ИТОГО</TableCell>
                       <TableCell className="text-right">
-                        {totals.openingBalance.toLocaleString('ru-RU')} ₽
+                        {formatMoney(totals.openingBalance)}
                       </TableCell>
                       <TableCell className="text-right text-green-600">
-                        +{totals.income.toLocaleString('ru-RU')} ₽
+                        +{formatMoney(totals.income)}
                       </TableCell>
                       <TableCell className="text-right text-red-600">
-                        -{totals.expenses.toLocaleString('ru-RU')} ₽
+                        -{formatMoney(totals.expenses)}
                       </TableCell>
                       <TableCell className="text-right font-bold">
-                        {totals.currentBalance.toLocaleString('ru-RU')} ₽
+                        {formatMoney(totals.currentBalance)}
                       </TableCell>
                     </TableRow>
                   </TableBody>
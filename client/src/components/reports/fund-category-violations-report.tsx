@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney, fromKopecks, sumMoney } from "@shared/money";
+
+// Ответ GET /api/reports/fund-category-violations
+interface FundCategoryViolation {
+  costId: string;
+  date: string;
+  expenseNomenclatureName: string | null;
+  expenseCategoryId: string;
+  expenseCategoryName: string | null;
+  fundId: string;
+  fundName: string | null;
+  amount: string;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("ru-RU");
+}
+
+export default function FundCategoryViolationsReport() {
+  const { data: violations = [], isLoading } = useQuery<FundCategoryViolation[]>({
+    queryKey: ["/api/reports/fund-category-violations"],
+    retry: false,
+    staleTime: 0,
+  });
+
+  const total = fromKopecks(sumMoney(violations.map(violation => violation.amount)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Расходы вне разрешенных статей фондов</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          Расходы, оплаченные фондом по статье, которая сейчас ему не разрешена.
+          Обычно это расходы, записанные до появления ограничения.
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        ) : violations.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Номенклатура</TableHead>
+                  <TableHead>Статья</TableHead>
+                  <TableHead>Фонд</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map((violation) => (
+                  <TableRow key={`${violation.costId}:${violation.fundId}`}>
+                    <TableCell className="whitespace-nowrap">{formatDate(violation.date)}</TableCell>
+                    <TableCell>{violation.expenseNomenclatureName || "—"}</TableCell>
+                    <TableCell>{violation.expenseCategoryName || "—"}</TableCell>
+                    <TableCell>{violation.fundName || "—"}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap text-red-600">
+                      {formatMoney(violation.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={4}>Итого: {violations.length}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatMoney(total)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">Нарушений нет</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
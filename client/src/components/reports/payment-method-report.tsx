@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { formatMoney, kopecksToRubles, sumMoney } from "@shared/money";
+import type { PaymentMethod } from "@shared/schema";
+import { paymentMethodLabel } from "@/lib/paymentMethods";
+
+// Ответ GET /api/reports/payment-methods
+interface PaymentMethodReportRow {
+  paymentMethod: PaymentMethod | null;
+  receiptsAmount: number;
+  costsAmount: number;
+  netAmount: number;
+}
+
+export default function PaymentMethodReport() {
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [showReport, setShowReport] = useState(false);
+
+  const { data: reportData = [], isLoading } = useQuery<PaymentMethodReportRow[]>({
+    queryKey: ["/api/reports/payment-methods", dateFrom, dateTo],
+    enabled: Boolean(showReport && dateFrom && dateTo),
+    retry: false,
+  });
+
+  const handleGenerateReport = () => {
+    if (dateFrom && dateTo) {
+      setShowReport(true);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setDateFrom("");
+    setDateTo("");
+    setShowReport(false);
+  };
+
+  const totalReceipts = kopecksToRubles(sumMoney(reportData.map(row => row.receiptsAmount)));
+  const totalCosts = kopecksToRubles(sumMoney(reportData.map(row => row.costsAmount)));
+  const totalNet = kopecksToRubles(sumMoney(reportData.map(row => row.netAmount)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Отчет по способам оплаты</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="payment-date-from">Дата с</Label>
+            <Input
+              id="payment-date-from"
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="payment-date-to">Дата по</Label>
+            <Input
+              id="payment-date-to"
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <Button onClick={handleGenerateReport} disabled={!dateFrom || !dateTo}>
+              Сформировать отчет
+            </Button>
+            <Button variant="outline" onClick={handleClearFilters}>
+              Сбросить
+            </Button>
+          </div>
+        </div>
+
+        {showReport && (
+          <div className="space-y-4">
+            {dateFrom && dateTo && (
+              <div className="text-sm text-muted-foreground">
+                Период: {format(new Date(dateFrom), 'dd MMMM yyyy', { locale: ru })} — {format(new Date(dateTo), 'dd MMMM yyyy', { locale: ru })}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="animate-pulse">
+                <div className="h-64 bg-muted rounded"></div>
+              </div>
+            ) : reportData.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Способ оплаты</TableHead>
+                      <TableHead className="text-right">Поступило</TableHead>
+                      <TableHead className="text-right">Оплачено</TableHead>
+                      <TableHead className="text-right">Разница</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reportData.map((row) => (
+                      <TableRow key={row.paymentMethod ?? "none"}>
+                        <TableCell className="font-medium">{paymentMethodLabel(row.paymentMethod)}</TableCell>
+                        <TableCell className="text-right text-green-600">{formatMoney(row.receiptsAmount)}</TableCell>
+                        <TableCell className="text-right text-red-600">{formatMoney(row.costsAmount)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(row.netAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="border-t-2 font-medium">
+                      <TableCell>ИТОГО</TableCell>
+                      <TableCell className="text-right font-bold">{formatMoney(totalReceipts)}</TableCell>
+                      <TableCell className="text-right font-bold">{formatMoney(totalCosts)}</TableCell>
+                      <TableCell className="text-right font-bold">{formatMoney(totalNet)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                Нет поступлений и расходов за выбранный период
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,13 +7,23 @@ import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
+import { formatMoney, kopecksToRubles, sumMoney } from "@shared/money";
+
+// Ответ GET /api/reports/sponsors: анонимные поступления отдельно от спонсоров
+interface SponsorReportData {
+  sponsors: { sponsorName: string; totalAmount: number }[];
+  anonymous: {
+    totalAmount: number;
+    payers: { payerName: string | null; totalAmount: number }[];
+  };
+}
 
 export default function SponsorReport() {
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
   const [showReport, setShowReport] = useState(false);
 
-  const { data: reportData, isLoading } = useQuery({
+  const { data: reportData, isLoading } = useQuery<SponsorReportData>({
     queryKey: ["/api/reports/sponsors", dateFrom, dateTo],
     enabled: Boolean(showReport && dateFrom && dateTo),
     retry: false,
@@ -31,12 +41,12 @@ export default function SponsorReport() {
     setShowReport(false);
   };
 
-  const displayData = reportData || [];
-  const dataArray = Array.isArray(displayData) ? displayData : [];
-  const totalAmount = dataArray.reduce((sum: number, sponsor: any) => sum + sponsor.totalAmount, 0);
+  const dataArray = reportData?.sponsors ?? [];
+  const totalAmount = kopecksToRubles(sumMoney(dataArray.map((sponsor) => sponsor.totalAmount)));
 
   // Sort by total amount descending
-  const sortedData = [...dataArray].sort((a: any, b: any) => b.totalAmount - a.totalAmount);
+  const sortedData = [...dataArray].sort((a, b) => b.totalAmount - a.totalAmount);
+  const anonymousPayers = [...(reportData?.anonymous.payers ?? [])].sort((a, b) => b.totalAmount - a.totalAmount);
 
   return (
     <Card>
@@ -85,9 +95,9 @@ export default function SponsorReport() {
               <div className="animate-pulse">
                 <div className="h-64 bg-muted rounded"></div>
               </div>
-            ) : sortedData.length > 0 ? (
+            ) : sortedData.length > 0 || anonymousPayers.length > 0 ? (
               <div className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                   <Card>
                     <CardContent className="pt-6">
                       <div className="text-2xl font-bold">{sortedData.length}</div>
@@ -97,45 +107,87 @@ export default function SponsorReport() {
                   <Card>
                     <CardContent className="pt-6">
                       <div className="text-2xl font-bold">
-                        {totalAmount.toLocaleString('ru-RU')} ₽
+                        {formatMoney(totalAmount)}
                       </div>
                       <p className="text-xs text-muted-foreground">Общая сумма пожертвований</p>
                     </CardContent>
                   </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-2xl font-bold">
+                        {formatMoney(reportData?.anonymous.totalAmount ?? 0)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Анонимные поступления</p>
+                    </CardContent>
+                  </Card>
                 </div>
 
-                <div className="overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Спонсор</TableHead>
-                        <TableHead className="text-right">Сумма пожертвований</TableHead>
-                        <TableHead className="text-right">% от общей суммы</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {sortedData.map((sponsor, index) => {
-                        const percentage = totalAmount > 0 ? (sponsor.totalAmount / totalAmount * 100).toFixed(1) : 0;
-                        return (
+                {sortedData.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Спонсор</TableHead>
+                          <TableHead className="text-right">Сумма пожертвований</TableHead>
+                          <TableHead className="text-right">% от общей суммы</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedData.map((sponsor, index) => {
+                          const percentage = totalAmount > 0 ? (sponsor.totalAmount / totalAmount * 100).toFixed(1) : 0;
+                          return (
+                            <TableRow key={index}>
+                              <TableCell className="font-medium">{sponsor.sponsorName}</TableCell>
+                              <TableCell className="text-right font-medium">
+                                {formatMoney(sponsor.totalAmount)}
+                              </TableCell>
+                              <TableCell className="text-right">{percentage}%</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                        <TableRow className="border-t-2 font-medium">
+                          <TableCell>ИТОГО</TableCell>
+                          <TableCell className="text-right font-bold">
+                            {formatMoney(totalAmount)}
+                          </TableCell>
+                          <TableCell className="text-right font-bold">100%</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {anonymousPayers.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <h3 className="font-semibold mb-2">Анонимные поступления</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Плательщик</TableHead>
+                          <TableHead className="text-right">Сумма</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {anonymousPayers.map((payer, index) => (
                           <TableRow key={index}>
-                            <TableCell className="font-medium">{sponsor.sponsorName}</TableCell>
+                            <TableCell className="font-medium">
+                              {payer.payerName || "Плательщик не указан"}
+                            </TableCell>
                             <TableCell className="text-right font-medium">
-                              {sponsor.totalAmount.toLocaleString('ru-RU')} ₽
+                              {formatMoney(payer.totalAmount)}
                             </TableCell>
-                            <TableCell className="text-right">{percentage}%</TableCell>
                           </TableRow>
-                        );
-                      })}
-                      <TableRow className="border-t-2 font-medium">
-                        <TableCell>ИТОГО</TableCell>
-                        <TableCell className="text-right font-bold">
-                          {totalAmount.toLocaleString('ru-RU')} ₽
-                        </TableCell>
-                        <TableCell className="text-right font-bold">100%</TableCell>
-                      </TableRow>
-                    </TableBody>
-                  </Table>
-                </div>
+                        ))}
+                        <TableRow className="border-t-2 font-medium">
+                          <TableCell>ИТОГО</TableCell>
+                          <TableCell className="text-right font-bold">
+                            {formatMoney(reportData?.anonymous.totalAmount ?? 0)}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
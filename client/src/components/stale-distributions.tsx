@@ -0,0 +1,134 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@shared/money";
+
+// Ответ GET /api/stale-distributions - поступления, измененные после распределения
+interface StaleDistributionPreview {
+  totalAmount: number;
+  receipts: {
+    receiptId: string;
+    date: string;
+    description: string;
+    incomeSourceName: string;
+    amount: number;
+    distributedAmount: number;
+    funds: { fundId: string; fundName: string; current: number; recalculated: number; delta: number }[];
+  }[];
+}
+
+/**
+ * Устаревшие распределения и их пересчет в одно действие
+ *
+ * Пересчет не переписывает прежние распределения: разница записывается
+ * корректирующим запуском в истории распределений. Без устаревших распределений ничего не показывает.
+ */
+export default function StaleDistributions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preview } = useQuery<StaleDistributionPreview>({
+    queryKey: ["/api/stale-distributions"],
+  });
+
+  const redistributeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("/api/stale-distributions/redistribute", "POST", {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Успешно",
+        description: "Распределения пересчитаны, корректировка записана в историю",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stale-distributions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+    },
+    onError: (error) => {
+      console.error("Error redistributing stale distributions:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось пересчитать распределения",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!preview || preview.receipts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-lg flex items-center gap-2 text-amber-900 dark:text-amber-100">
+            <AlertTriangle className="h-5 w-5" />
+            Устаревшие распределения
+          </CardTitle>
+          <Button
+            onClick={() => redistributeMutation.mutate()}
+            disabled={redistributeMutation.isPending}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {redistributeMutation.isPending ? "Пересчет..." : "Пересчитать распределение"}
+          </Button>
+        </div>
+        <p className="text-sm text-amber-800 dark:text-amber-200">
+          Сумма, дата или источник этих поступлений изменились после распределения.
+          Пересчет по действующим правилам запишет разницу корректировкой: {formatMoney(preview.totalAmount)}.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preview.receipts.map((receipt) => (
+          <div key={receipt.receiptId} className="rounded-lg border bg-background p-3">
+            <div className="flex justify-between text-sm mb-2">
+              <div>
+                <div className="font-medium">{receipt.description}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(new Date(receipt.date), 'd MMMM yyyy', { locale: ru })} · {receipt.incomeSourceName}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-semibold">{formatMoney(receipt.amount)}</div>
+                <div className="text-xs text-muted-foreground">
+                  распределено {formatMoney(receipt.distributedAmount)}
+                </div>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Фонд</TableHead>
+                  <TableHead className="text-right">Было</TableHead>
+                  <TableHead className="text-right">Станет</TableHead>
+                  <TableHead className="text-right">Разница</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receipt.funds.map((fund) => (
+                  <TableRow key={fund.fundId}>
+                    <TableCell>{fund.fundName}</TableCell>
+                    <TableCell className="text-right">{formatMoney(fund.current)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(fund.recalculated)}</TableCell>
+                    <TableCell className={`text-right font-semibold ${fund.delta < 0 ? "text-red-600" : fund.delta > 0 ? "text-green-600" : ""}`}>
+                      {fund.delta > 0 ? "+" : ""}{formatMoney(fund.delta)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
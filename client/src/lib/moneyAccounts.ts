@@ -0,0 +1,13 @@
+import type { MoneyAccountKind } from "@shared/schema";
+
+// Названия видов счетов для форм и страницы счетов
+export const moneyAccountKindLabels: Record<MoneyAccountKind, string> = {
+  cash: "Касса",
+  bank: "Банковский счет",
+  card: "Карта",
+};
+
+/** Название вида счета */
+export function moneyAccountKindLabel(kind: string): string {
+  return moneyAccountKindLabels[kind as MoneyAccountKind] ?? kind;
+}
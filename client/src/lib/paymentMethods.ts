@@ -0,0 +1,14 @@
+import type { PaymentMethod } from "@shared/schema";
+
+// Названия способов оплаты для форм, фильтров и отчетов
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Наличные",
+  card: "Карта",
+  bank: "Банковский перевод",
+  sbp: "СБП",
+};
+
+/** Название способа оплаты; пустой способ - "Не указан" */
+export function paymentMethodLabel(method: string | null | undefined): string {
+  return method ? paymentMethodLabels[method as PaymentMethod] ?? method : "Не указан";
+}
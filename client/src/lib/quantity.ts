@@ -0,0 +1,7 @@
+// Количество в позициях расходов хранится строкой с тремя знаками ("10.000")
+
+/** Количество с единицей измерения для отображения ("2,5 кг") */
+export function formatQuantity(quantity: string | number, unit?: string | null): string {
+  const formatted = Number(quantity).toLocaleString("ru-RU", { maximumFractionDigits: 3 });
+  return unit ? `${formatted} ${unit}` : formatted;
+}
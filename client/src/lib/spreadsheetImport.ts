@@ -0,0 +1,48 @@
+import type { SpreadsheetDateFormat, SpreadsheetImportField, SpreadsheetImportKind } from "@shared/schema";
+import { spreadsheetImportFields } from "@shared/schema";
+
+// Названия видов импорта из таблиц
+export const spreadsheetImportKindLabels: Record<SpreadsheetImportKind, string> = {
+  receipts: "Поступления",
+  costs: "Расходы",
+};
+
+// Названия полей, на которые сопоставляются колонки
+export const spreadsheetImportFieldLabels: Record<SpreadsheetImportField, string> = {
+  date: "Дата",
+  description: "Описание",
+  amount: "Сумма",
+  totalAmount: "Сумма",
+  incomeSourceId: "Источник дохода",
+  sponsorName: "Спонсор",
+  paymentMethod: "Способ оплаты",
+  moneyAccountId: "Счет",
+  expenseNomenclatureId: "Номенклатура",
+  expenseCategoryId: "Статья расходов",
+  fundId: "Фонд",
+};
+
+export const spreadsheetDateFormatLabels: Record<SpreadsheetDateFormat, string> = {
+  "dd.MM.yyyy": "31.12.2025",
+  "yyyy-MM-dd": "2025-12-31",
+  "dd/MM/yyyy": "31/12/2025",
+  "MM/dd/yyyy": "12/31/2025",
+  excel: "Дата Excel",
+};
+
+/**
+ * Сопоставление колонок по заголовкам: колонка, заголовок которой совпадает с названием поля
+ */
+export function guessSpreadsheetColumns(
+  kind: SpreadsheetImportKind,
+  headers: string[],
+): Partial<Record<SpreadsheetImportField, string>> {
+  const columns: Partial<Record<SpreadsheetImportField, string>> = {};
+  for (const field of spreadsheetImportFields(kind)) {
+    const label = spreadsheetImportFieldLabels[field].toLowerCase();
+    const header = headers.find(header => header.trim().toLowerCase() === label)
+      ?? headers.find(header => header.trim().toLowerCase().startsWith(label));
+    if (header) columns[field] = header;
+  }
+  return columns;
+}
@@ -0,0 +1,461 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { BankStatementDirection, ExpenseCategory, ExpenseNomenclature, Fund, IncomeSource, MoneyAccount, Sponsor } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+// Черновик из ответа POST /api/bank-import/1c/preview
+interface BankImportDraft {
+  externalId: string;
+  direction: BankStatementDirection;
+  documentNumber: string | null;
+  date: string;
+  amount: string;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  counterpartyAccount: string | null;
+  purpose: string | null;
+  duplicate: boolean;
+  incomeSourceId: string | null;
+  sponsorId: string | null;
+  expenseNomenclatureId: string | null;
+  expenseCategoryId: string | null;
+  fundId: string | null;
+  suggestedFrom: "history" | "sponsor" | null;
+}
+
+interface BankImportPreview {
+  accounts: string[];
+  dateFrom: string | null;
+  dateTo: string | null;
+  moneyAccountId: string | null;
+  drafts: BankImportDraft[];
+  ignoredDocuments: number;
+}
+
+// Итог по строке из ответа POST /api/bank-import/1c/confirm
+interface BankImportResult {
+  externalId: string;
+  status: "created" | "skipped" | "duplicate" | "failed";
+  message?: string;
+}
+
+type DraftRow = BankImportDraft & { selected: boolean };
+
+/**
+ * Текст выписки: банки выгружают 1CClientBankExchange в UTF-8 или Windows-1251
+ */
+async function readStatementFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1251").decode(buffer);
+  }
+}
+
+/** Строку можно создать, когда выбраны все обязательные поля документа */
+function isComplete(row: DraftRow): boolean {
+  return row.direction === "incoming"
+    ? Boolean(row.incomeSourceId)
+    : Boolean(row.expenseNomenclatureId && row.expenseCategoryId && row.fundId);
+}
+
+/**
+ * Импорт банковской выписки в формате 1CClientBankExchange
+ *
+ * Файл разбирается на сервере в черновики: поступления на счет становятся
+ * поступлениями, списания - расходами. Подсказки берутся из прошлых импортов,
+ * ничего не создается, пока пользователь не подтвердит выбранные строки.
+ */
+export default function BankImport() {
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<BankImportPreview | null>(null);
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const [moneyAccountId, setMoneyAccountId] = useState("");
+  const [results, setResults] = useState<BankImportResult[] | null>(null);
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: moneyAccounts = [] } = useQuery<MoneyAccount[]>({
+    queryKey: ["/api/money-accounts"],
+    retry: false,
+  });
+  const { data: incomeSources = [] } = useQuery<IncomeSource[]>({
+    queryKey: ["/api/income-sources"],
+    retry: false,
+  });
+  const { data: sponsors = [] } = useQuery<Sponsor[]>({
+    queryKey: ["/api/sponsors"],
+    retry: false,
+  });
+  const { data: nomenclature = [] } = useQuery<ExpenseNomenclature[]>({
+    queryKey: ["/api/expense-nomenclature"],
+    retry: false,
+  });
+  const { data: categories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+    retry: false,
+  });
+  const { data: funds = [] } = useQuery<Fund[]>({
+    queryKey: ["/api/funds"],
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Ошибка",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("/api/bank-import/1c/preview", "POST", { content });
+      return await response.json() as BankImportPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setResults(null);
+      setMoneyAccountId(data.moneyAccountId ?? "");
+      // Уже загруженные строки и строки без подсказки не отмечаются
+      setRows(data.drafts.map(draft => ({ ...draft, selected: !draft.duplicate && isComplete({ ...draft, selected: true }) })));
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось прочитать выписку. Проверьте, что это файл 1CClientBankExchange.");
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const lines = rows
+        .filter(row => !row.duplicate)
+        .map(({ selected, duplicate, suggestedFrom, ...row }) => ({ ...row, action: selected ? "create" : "skip" }));
+      const response = await apiRequest("/api/bank-import/1c/confirm", "POST", {
+        moneyAccountId,
+        lines,
+      });
+      return await response.json() as BankImportResult[];
+    },
+    onSuccess: (data) => {
+      setResults(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/costs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      const createdCount = data.filter(result => result.status === "created").length;
+      const failedCount = data.filter(result => result.status === "failed").length;
+      toast({
+        title: failedCount > 0 ? "Импорт завершен с ошибками" : "Успешно",
+        description: `Создано документов: ${createdCount}${failedCount > 0 ? `, ошибок: ${failedCount}` : ""}`,
+        variant: failedCount > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось импортировать выписку");
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    previewMutation.mutate(await readStatementFile(file));
+  };
+
+  const updateRow = (externalId: string, patch: Partial<DraftRow>) => {
+    setRows(current => current.map(row => row.externalId === externalId ? { ...row, ...patch } : row));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const activeMoneyAccounts = moneyAccounts.filter(account => account.isActive);
+  const selectedRows = rows.filter(row => row.selected);
+  const canConfirm = Boolean(moneyAccountId) && rows.some(row => !row.duplicate) && selectedRows.every(isComplete) && !results;
+  const resultsById = new Map((results ?? []).map(result => [result.externalId, result]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Импорт банковской выписки</h1>
+          <p className="text-muted-foreground">
+            Файл 1CClientBankExchange: поступления на счет станут поступлениями, списания - расходами
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/money-accounts">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            К счетам
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Файл выписки</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement-file">Выписка из банка (.txt)</Label>
+            <Input id="statement-file" type="file" accept=".txt" onChange={handleFileChange} />
+            {previewMutation.isPending && (
+              <div className="text-sm text-muted-foreground flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Чтение {fileName}...
+              </div>
+            )}
+          </div>
+          {preview && (
+            <div className="space-y-2">
+              <Label>Счет, на который загружается выписка</Label>
+              <Select value={moneyAccountId} onValueChange={setMoneyAccountId} disabled={!!results}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Выберите счет" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeMoneyAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-muted-foreground">
+                Расчетный счет в файле: {preview.accounts.join(", ") || "не указан"}
+                {preview.dateFrom && preview.dateTo && (
+                  <> · период {new Date(preview.dateFrom).toLocaleDateString("ru-RU")} — {new Date(preview.dateTo).toLocaleDateString("ru-RU")}</>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Проверьте документы</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Отмеченные строки будут созданы, остальные только запомнятся, чтобы не загружать их повторно.
+              {preview.ignoredDocuments > 0 && ` Платежей не по счету выписки пропущено: ${preview.ignoredDocuments}.`}
+            </div>
+
+            {rows.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                В выписке нет платежей по счету
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Дата</TableHead>
+                      <TableHead>Контрагент и назначение</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
+                      <TableHead>Документ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const result = resultsById.get(row.externalId);
+                      const incoming = row.direction === "incoming";
+                      return (
+                        <TableRow key={row.externalId} className={row.duplicate ? "opacity-60" : undefined}>
+                          <TableCell>
+                            <Checkbox
+                              checked={row.selected}
+                              disabled={row.duplicate || !!results}
+                              onCheckedChange={(checked) => updateRow(row.externalId, { selected: checked === true })}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(row.date).toLocaleDateString("ru-RU")}
+                            {row.documentNumber && (
+                              <div className="text-xs text-muted-foreground">№ {row.documentNumber}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs">
+                            <div className="font-medium">{row.counterpartyName || "Без наименования"}</div>
+                            {row.counterpartyInn && (
+                              <div className="text-xs text-muted-foreground">ИНН {row.counterpartyInn}</div>
+                            )}
+                            {row.purpose && (
+                              <div className="text-xs text-muted-foreground truncate" title={row.purpose}>{row.purpose}</div>
+                            )}
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {row.duplicate && <Badge variant="secondary">Уже загружено</Badge>}
+                              {row.suggestedFrom === "history" && <Badge variant="outline">По прошлым импортам</Badge>}
+                              {row.suggestedFrom === "sponsor" && <Badge variant="outline">Спонсор найден по имени</Badge>}
+                              {result?.status === "created" && <Badge>Создано</Badge>}
+                              {result?.status === "failed" && (
+                                <Badge variant="destructive" title={result.message}>Ошибка</Badge>
+                              )}
+                            </div>
+                            {result?.status === "failed" && result.message && (
+                              <div className="text-xs text-destructive mt-1">{result.message}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className={`text-right font-medium whitespace-nowrap ${incoming ? "text-green-600" : "text-red-600"}`}>
+                            {incoming ? "+" : "−"}{formatMoney(row.amount)}
+                          </TableCell>
+                          <TableCell className="min-w-[220px]">
+                            {row.duplicate ? null : incoming ? (
+                              <div className="space-y-2">
+                                <Select
+                                  value={row.incomeSourceId ?? ""}
+                                  onValueChange={(value) => updateRow(row.externalId, { incomeSourceId: value })}
+                                  disabled={!!results}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Источник дохода" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {incomeSources.map((source) => (
+                                      <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Select
+                                  value={row.sponsorId ?? "none"}
+                                  onValueChange={(value) => updateRow(row.externalId, { sponsorId: value === "none" ? null : value })}
+                                  disabled={!!results}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="none">Без спонсора</SelectItem>
+                                    {sponsors.filter(sponsor => sponsor.isActive !== false).map((sponsor) => (
+                                      <SelectItem key={sponsor.id} value={sponsor.id}>{sponsor.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ) : (
+                              <div className="space-y-2">
+                                <Select
+                                  value={row.expenseNomenclatureId ?? ""}
+                                  onValueChange={(value) => updateRow(row.externalId, { expenseNomenclatureId: value })}
+                                  disabled={!!results}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Номенклатура" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {nomenclature.filter(item => item.isActive !== false).map((item) => (
+                                      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Select
+                                  value={row.expenseCategoryId ?? ""}
+                                  onValueChange={(value) => updateRow(row.externalId, { expenseCategoryId: value })}
+                                  disabled={!!results}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Статья расходов" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {categories.filter(category => category.isActive !== false).map((category) => (
+                                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Select
+                                  value={row.fundId ?? ""}
+                                  onValueChange={(value) => updateRow(row.externalId, { fundId: value })}
+                                  disabled={!!results}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Фонд" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {funds.map((fund) => (
+                                      <SelectItem key={fund.id} value={fund.id}>{fund.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+              <div className="text-sm text-muted-foreground">
+                Будет создано: {selectedRows.length}
+                {!selectedRows.every(isComplete) && (
+                  <span className="text-destructive"> · заполните источник или номенклатуру, статью и фонд в отмеченных строках</span>
+                )}
+              </div>
+              <Button onClick={() => confirmMutation.mutate()} disabled={!canConfirm || confirmMutation.isPending}>
+                {confirmMutation.isPending ? "Импорт..." : "Подтвердить импорт"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
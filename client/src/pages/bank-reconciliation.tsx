@@ -0,0 +1,492 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Link2, Unlink, Wand2 } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { BankStatementDirection, MoneyAccount } from "@shared/schema";
+import { formatMoney, toKopecks } from "@shared/money";
+
+type DocumentKind = "receipt" | "cost";
+type ReconciliationStatus = "matched" | "unmatched";
+
+// Ответ GET /api/bank-reconciliation
+interface DocumentSummary {
+  kind: DocumentKind;
+  id: string;
+  date: string;
+  amount: string;
+  label: string;
+}
+
+interface ReconciliationLine {
+  id: string;
+  direction: BankStatementDirection;
+  documentNumber: string | null;
+  date: string;
+  amount: string;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  purpose: string | null;
+  status: ReconciliationStatus;
+  document: DocumentSummary | null;
+  candidates: (DocumentSummary & { counterpartyMatch: boolean })[];
+}
+
+interface ReconciliationDocumentRow extends DocumentSummary {
+  status: ReconciliationStatus;
+  bankStatementLineId: string | null;
+}
+
+interface BankReconciliation {
+  lines: ReconciliationLine[];
+  receipts: ReconciliationDocumentRow[];
+  costs: ReconciliationDocumentRow[];
+}
+
+function documentKey(document: { kind: DocumentKind; id: string }): string {
+  return `${document.kind}:${document.id}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("ru-RU");
+}
+
+function documentOptionLabel(document: DocumentSummary): string {
+  return `${formatDate(document.date)} · ${document.label || "Без описания"}`;
+}
+
+function StatusBadge({ status }: { status: ReconciliationStatus }) {
+  return status === "matched"
+    ? <Badge variant="outline" className="border-green-600 text-green-700">Сверено</Badge>
+    : <Badge variant="secondary">Не сверено</Badge>;
+}
+
+/**
+ * Сверка банковских выписок с поступлениями и расходами
+ *
+ * Строки загруженных выписок сопоставляются с документами, введенными вручную:
+ * автосверка по сумме, дате и контрагенту и ручное сопоставление из подходящих
+ * документов. Статус сверки показывается и у строк, и у документов периода.
+ */
+export default function BankReconciliationPage() {
+  const [dateFrom, setDateFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [moneyAccountId, setMoneyAccountId] = useState("all");
+  const [unmatchedOnly, setUnmatchedOnly] = useState(false);
+  const [selectedDocuments, setSelectedDocuments] = useState<Record<string, string>>({});
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: moneyAccounts = [] } = useQuery<MoneyAccount[]>({
+    queryKey: ["/api/money-accounts"],
+    retry: false,
+  });
+
+  const period = {
+    dateFrom,
+    dateTo,
+    ...(moneyAccountId !== "all" && { moneyAccountId }),
+  };
+
+  const { data: reconciliation, isLoading: reconciliationLoading } = useQuery<BankReconciliation>({
+    queryKey: ["/api/bank-reconciliation", dateFrom, dateTo, moneyAccountId],
+    queryFn: async () => {
+      const params = new URLSearchParams(period);
+      const response = await apiRequest(`/api/bank-reconciliation?${params}`, "GET");
+      return await response.json();
+    },
+    enabled: Boolean(dateFrom && dateTo),
+    retry: false,
+    // Документы меняются на других страницах, сверка всегда загружается заново
+    staleTime: 0,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Ошибка",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateReconciliation = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bank-reconciliation"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports/bank-reconciliation"] });
+  };
+
+  const autoMatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/bank-reconciliation/auto-match", "POST", period);
+      return await response.json() as { matched: number };
+    },
+    onSuccess: (data) => {
+      invalidateReconciliation();
+      toast({
+        title: "Успешно",
+        description: data.matched > 0
+          ? `Сверено строк: ${data.matched}`
+          : "Однозначных совпадений не найдено",
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось выполнить автосверку");
+    },
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async ({ lineId, document }: { lineId: string; document: string }) => {
+      const [kind, id] = document.split(":");
+      await apiRequest(`/api/bank-statement-lines/${lineId}/match`, "POST", kind === "receipt" ? { receiptId: id } : { costId: id });
+    },
+    onSuccess: (_data, { lineId }) => {
+      setSelectedDocuments(current => {
+        const { [lineId]: _selected, ...rest } = current;
+        return rest;
+      });
+      invalidateReconciliation();
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось сопоставить строку с документом");
+    },
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: async (lineId: string) => {
+      await apiRequest(`/api/bank-statement-lines/${lineId}/match`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateReconciliation();
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось отменить сверку");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const lines = reconciliation?.lines ?? [];
+  const receipts = reconciliation?.receipts ?? [];
+  const costs = reconciliation?.costs ?? [];
+  const unmatchedReceipts = receipts.filter(receipt => receipt.status === "unmatched");
+  const unmatchedCosts = costs.filter(cost => cost.status === "unmatched");
+  const visibleLines = unmatchedOnly ? lines.filter(line => line.status === "unmatched") : lines;
+  const visibleDocuments = [...(unmatchedOnly ? unmatchedReceipts : receipts), ...(unmatchedOnly ? unmatchedCosts : costs)]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const linesById = new Map(lines.map(line => [line.id, line]));
+
+  /** Кандидаты строки, затем остальные несверенные документы периода с той же суммой */
+  const documentOptions = (line: ReconciliationLine): DocumentSummary[] => {
+    const pool = line.direction === "incoming" ? unmatchedReceipts : unmatchedCosts;
+    const candidateKeys = new Set(line.candidates.map(documentKey));
+    const sameAmount = pool.filter(document =>
+      !candidateKeys.has(documentKey(document)) && toKopecks(document.amount) === toKopecks(line.amount),
+    );
+    return [...line.candidates, ...sameAmount];
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Сверка с банком</h1>
+          <p className="text-muted-foreground">
+            Строки загруженных выписок и поступления и расходы, введенные вручную
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/money-accounts">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              К счетам
+            </Link>
+          </Button>
+          <Button
+            onClick={() => autoMatchMutation.mutate()}
+            disabled={!dateFrom || !dateTo || autoMatchMutation.isPending}
+          >
+            <Wand2 className="w-4 h-4 mr-2" />
+            {autoMatchMutation.isPending ? "Сверка..." : "Автосверка"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation-from">Дата с</Label>
+            <Input id="reconciliation-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation-to">Дата по</Label>
+            <Input id="reconciliation-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Счет</Label>
+            <Select value={moneyAccountId} onValueChange={setMoneyAccountId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все счета</SelectItem>
+                {moneyAccounts.filter(account => account.kind !== "cash").map((account) => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end pb-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={unmatchedOnly} onCheckedChange={(checked) => setUnmatchedOnly(checked === true)} />
+              Только несверенные
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Строки выписок</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{lines.length - lines.filter(line => line.status === "unmatched").length} / {lines.length}</div>
+            <p className="text-xs text-muted-foreground">сверено</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Поступления без выписки</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{unmatchedReceipts.length}</div>
+            <p className="text-xs text-muted-foreground">из {receipts.length} безналичных</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Расходы без выписки</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{unmatchedCosts.length}</div>
+            <p className="text-xs text-muted-foreground">из {costs.length} безналичных</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Строки выписок</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reconciliationLoading ? (
+            <div className="animate-pulse">
+              <div className="h-32 bg-muted rounded"></div>
+            </div>
+          ) : visibleLines.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {lines.length === 0 ? (
+                <>
+                  Нет строк выписок за период.{" "}
+                  <Link href="/bank-import" className="underline">Загрузить выписку</Link>
+                </>
+              ) : "Все строки выписок сверены"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Дата</TableHead>
+                    <TableHead>Контрагент и назначение</TableHead>
+                    <TableHead className="text-right">Сумма</TableHead>
+                    <TableHead>Статус</TableHead>
+                    <TableHead>Документ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLines.map((line) => {
+                    const incoming = line.direction === "incoming";
+                    const options = line.status === "unmatched" ? documentOptions(line) : [];
+                    const selected = selectedDocuments[line.id] ?? (line.candidates[0] ? documentKey(line.candidates[0]) : "");
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(line.date)}
+                          {line.documentNumber && (
+                            <div className="text-xs text-muted-foreground">№ {line.documentNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="font-medium">{line.counterpartyName || "Без наименования"}</div>
+                          {line.purpose && (
+                            <div className="text-xs text-muted-foreground truncate" title={line.purpose}>{line.purpose}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium whitespace-nowrap ${incoming ? "text-green-600" : "text-red-600"}`}>
+                          {incoming ? "+" : "−"}{formatMoney(line.amount)}
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={line.status} />
+                        </TableCell>
+                        <TableCell className="min-w-[260px]">
+                          {line.status === "matched" ? (
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="text-sm">
+                                <span className="text-muted-foreground">{incoming ? "Поступление" : "Расход"}: </span>
+                                {line.document ? documentOptionLabel(line.document) : "вне периода"}
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => unmatchMutation.mutate(line.id)}
+                                disabled={unmatchMutation.isPending}
+                                title="Отменить сверку"
+                              >
+                                <Unlink className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ) : options.length === 0 ? (
+                            <span className="text-sm text-muted-foreground">
+                              Нет {incoming ? "поступления" : "расхода"} на эту сумму
+                            </span>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={selected}
+                                onValueChange={(value) => setSelectedDocuments(current => ({ ...current, [line.id]: value }))}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder={incoming ? "Поступление" : "Расход"} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {options.map((document) => (
+                                    <SelectItem key={documentKey(document)} value={documentKey(document)}>
+                                      {documentOptionLabel(document)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => matchMutation.mutate({ lineId: line.id, document: selected })}
+                                disabled={!selected || matchMutation.isPending}
+                                title="Сопоставить"
+                              >
+                                <Link2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Безналичные документы</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {visibleDocuments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Нет документов за период
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Дата</TableHead>
+                    <TableHead>Документ</TableHead>
+                    <TableHead className="text-right">Сумма</TableHead>
+                    <TableHead>Статус</TableHead>
+                    <TableHead>Строка выписки</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleDocuments.map((document) => {
+                    const line = document.bankStatementLineId ? linesById.get(document.bankStatementLineId) : undefined;
+                    const receipt = document.kind === "receipt";
+                    return (
+                      <TableRow key={documentKey(document)}>
+                        <TableCell className="whitespace-nowrap">{formatDate(document.date)}</TableCell>
+                        <TableCell>
+                          <span className="text-muted-foreground">{receipt ? "Поступление" : "Расход"}: </span>
+                          {document.label || "Без описания"}
+                        </TableCell>
+                        <TableCell className={`text-right whitespace-nowrap ${receipt ? "text-green-600" : "text-red-600"}`}>
+                          {receipt ? "+" : "−"}{formatMoney(document.amount)}
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={document.status} />
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {line
+                            ? `${formatDate(line.date)} · ${line.counterpartyName || "Без наименования"}`
+                            : document.status === "matched" ? "вне периода" : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -9,17 +10,26 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, Trash2, Calendar } from "lucide-react";
+import { Plus, Search, Trash2, Calendar, FileUp } from "lucide-react";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
-import type { Cost, ExpenseCategory } from "@shared/schema";
+import type { Cost, CostFundShare, CostItem, ExpenseCategory, PaymentMethod } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { paymentMethodLabels, paymentMethodLabel } from "@/lib/paymentMethods";
+import { formatQuantity } from "@/lib/quantity";
 import CostModal from "@/components/modals/cost-modal";
 import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 
+type CostItemWithNomenclature = CostItem & { nomenclatureName?: string; nomenclatureUnit?: string };
+
+type CostFundShareWithName = CostFundShare & { fundName?: string };
+
 type CostWithDetails = Cost & {
   expenseCategoryName?: string;
   expenseNomenclatureName?: string;
   fundName?: string;
+  items?: CostItemWithNomenclature[];
+  fundShares?: CostFundShareWithName[];  // Доли фондов разделенного расхода
 };
 
 export default function Costs() {
@@ -27,6 +37,7 @@ export default function Costs() {
   const [selectedCategoryId, setSelectedCategoryId] = useState("all");
   const [fromDate, setFromDate] = useState("");
   const [toDate, setToDate] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("all");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingCost, setEditingCost] = useState<Cost | null>(null);
 
@@ -58,7 +69,7 @@ export default function Costs() {
     isFetchingNextPage,
     refetch
   } = useInfiniteQuery({
-    queryKey: ["/api/costs", search, selectedCategoryId === "all" ? "" : selectedCategoryId, fromDate, toDate],
+    queryKey: ["/api/costs", search, selectedCategoryId === "all" ? "" : selectedCategoryId, fromDate, toDate, paymentMethod],
     queryFn: ({ pageParam = 1 }) => {
       const params = new URLSearchParams({
         page: pageParam.toString(),
@@ -66,7 +77,8 @@ export default function Costs() {
         ...(search && { search }),
         ...(selectedCategoryId !== "all" && { expenseCategoryId: selectedCategoryId }),
         ...(fromDate && { fromDate }),
-        ...(toDate && { toDate })
+        ...(toDate && { toDate }),
+        ...(paymentMethod !== "all" && { paymentMethod })
       });
       return fetch(`/api/costs?${params}`).then(res => res.json());
     },
@@ -144,16 +156,24 @@ export default function Costs() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Расходы</h1>
-        <Button onClick={() => setIsCreateModalOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Добавить расход
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/spreadsheet-import?kind=costs">
+              <FileUp className="mr-2 h-4 w-4" />
+              Импорт
+            </Link>
+          </Button>
+          <Button onClick={() => setIsCreateModalOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Добавить расход
+          </Button>
+        </div>
       </div>
 
       {/* Фильтры */}
       <Card>
         <CardContent className="pt-6">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium mb-2">Поиск</label>
               <div className="relative">
@@ -184,6 +204,23 @@ export default function Costs() {
               </Select>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium mb-2">Способ оплаты</label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Все способы" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Все способы</SelectItem>
+                  {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {paymentMethodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
             <div>
               <label className="block text-sm font-medium mb-2">От даты</label>
               <Input
@@ -214,11 +251,11 @@ export default function Costs() {
             <CardContent className="text-center py-8">
               <h3 className="text-lg font-semibold text-gray-600 mb-2">Расходы не найдены</h3>
               <p className="text-gray-500 mb-4">
-                {search || (selectedCategoryId && selectedCategoryId !== "all") || fromDate || toDate
+                {search || (selectedCategoryId && selectedCategoryId !== "all") || fromDate || toDate || paymentMethod !== "all"
                   ? "Попробуйте изменить фильтры поиска"
                   : "Начните добавлять расходы в свою систему"}
               </p>
-              {!search && (!selectedCategoryId || selectedCategoryId === "all") && !fromDate && !toDate && (
+              {!search && (!selectedCategoryId || selectedCategoryId === "all") && !fromDate && !toDate && paymentMethod === "all" && (
                 <Button onClick={() => setIsCreateModalOpen(true)}>
                   <Plus className="mr-2 h-4 w-4" />
                   Добавить первый расход
@@ -249,6 +286,11 @@ export default function Costs() {
                       <h3 className="font-semibold text-foreground break-words">
                         {cost.expenseNomenclatureName || "Без номенклатуры"}
                       </h3>
+                      {cost.items?.filter((item: CostItemWithNomenclature) => item.quantity && item.unitPrice).map((item: CostItemWithNomenclature) => (
+                        <div key={item.id} className="text-xs text-muted-foreground">
+                          {item.nomenclatureName}: {formatQuantity(item.quantity!, item.nomenclatureUnit)} × {formatMoney(item.unitPrice)}
+                        </div>
+                      ))}
                     </div>
                     
                     {/* Категория и фонд */}
@@ -256,17 +298,28 @@ export default function Costs() {
                       <Badge variant="outline" className="text-xs w-fit">
                         {cost.expenseCategoryName || "Без категории"}
                       </Badge>
-                      {cost.fundName && (
+                      {cost.fundShares && cost.fundShares.length > 0 ? (
+                        cost.fundShares.map((share: CostFundShareWithName) => (
+                          <Badge key={share.id} variant="secondary" className="text-xs w-fit">
+                            {share.fundName}: {formatMoney(share.amount)}
+                          </Badge>
+                        ))
+                      ) : cost.fundName && (
                         <Badge variant="secondary" className="text-xs w-fit">
                           {cost.fundName}
                         </Badge>
                       )}
+                      {cost.paymentMethod && (
+                        <span className="text-xs text-muted-foreground">
+                          {paymentMethodLabel(cost.paymentMethod)}
+                        </span>
+                      )}
                     </div>
                     
                     {/* Сумма и действия */}
                     <div className="flex items-center justify-between lg:justify-end gap-4">
                       <div className="text-lg font-bold text-destructive whitespace-nowrap">
-                        -{parseFloat(cost.totalAmount.toString()).toLocaleString("ru-RU")} ₽
+                        -{formatMoney(cost.totalAmount)}
                       </div>
                       <Button
                         variant="outline"
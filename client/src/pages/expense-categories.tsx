@@ -7,14 +7,22 @@ import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, ChevronDown, ChevronRight, FolderPlus } from "lucide-react";
 import ExpenseCategoryModal from "@/components/modals/expense-category-modal";
 import type { ExpenseCategory } from "@shared/schema";
+import {
+  CATEGORY_PATH_SEPARATOR,
+  type CategoryTreeNode,
+  buildCategoryTree,
+  categoryPath,
+} from "@shared/expenseCategoryTree";
 
 export default function ExpenseCategories() {
   const [search, setSearch] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<ExpenseCategory | null>(null);
+  const [newCategoryParentId, setNewCategoryParentId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
@@ -35,7 +43,8 @@ export default function ExpenseCategories() {
   }, [isAuthenticated, isLoading, toast]);
 
   const { data: categories = [], isLoading: categoriesLoading } = useQuery<ExpenseCategory[]>({
-    queryKey: ["/api/expense-categories", search],
+    // Полный список нужен для дерева и путей статей; поиск фильтрует его на клиенте
+    queryKey: ["/api/expense-categories"],
     retry: false,
   });
 
@@ -64,7 +73,10 @@ export default function ExpenseCategories() {
       }
       toast({
         title: "Ошибка",
-        description: "Не удалось удалить статью расходов",
+        // 409: статья - единственная разрешенная для фонда с целевым назначением
+        description: error.message.startsWith("409:")
+          ? "Статья - единственная разрешенная для фонда. Сначала измените разрешенные статьи фонда"
+          : "Не удалось удалить статью расходов",
         variant: "destructive",
       });
     },
@@ -72,16 +84,36 @@ export default function ExpenseCategories() {
 
   const handleAdd = () => {
     setEditingCategory(null);
+    setNewCategoryParentId(null);
     setIsModalOpen(true);
   };
 
+  const handleAddChild = (parent: ExpenseCategory) => {
+    setEditingCategory(null);
+    setNewCategoryParentId(parent.id);
+    setIsModalOpen(true);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   const handleEdit = (category: ExpenseCategory) => {
     setEditingCategory(category);
     setIsModalOpen(true);
   };
 
   const handleDelete = (category: ExpenseCategory) => {
-    if (confirm(`Вы уверены, что хотите удалить статью расходов "${category.name}"?`)) {
+    const hasChildren = categories.some(child => child.parentId === category.id);
+    const question = hasChildren
+      ? `Вы уверены, что хотите удалить статью расходов "${category.name}"? Ее подстатьи станут статьями верхнего уровня.`
+      : `Вы уверены, что хотите удалить статью расходов "${category.name}"?`;
+    if (confirm(question)) {
       deleteMutation.mutate(category.id);
     }
   };
@@ -108,6 +140,22 @@ export default function ExpenseCategories() {
     (category.description && category.description.toLowerCase().includes(search.toLowerCase()))
   );
 
+  // Без поиска статьи показываются деревом, при поиске - списком с полным путем
+  type CategoryRow = { category: ExpenseCategory; depth: number; childCount: number; label: string };
+  const visibleTreeRows = (nodes: CategoryTreeNode<ExpenseCategory>[]): CategoryRow[] =>
+    nodes.flatMap(node => [
+      { category: node, depth: node.depth, childCount: node.children.length, label: node.name },
+      ...(collapsed.has(node.id) ? [] : visibleTreeRows(node.children)),
+    ]);
+  const rows: CategoryRow[] = search
+    ? filteredCategories.map(category => ({
+        category,
+        depth: 0,
+        childCount: 0,
+        label: categoryPath(categories, category.id).join(CATEGORY_PATH_SEPARATOR),
+      }))
+    : visibleTreeRows(buildCategoryTree(categories));
+
   return (
     <>
       <div className="space-y-6">
@@ -150,16 +198,32 @@ export default function ExpenseCategories() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredCategories.length === 0 ? (
+                {rows.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
                       {search ? "Статьи расходов по вашим критериям не найдены." : "Статей расходов пока нет. Добавьте первую статью, чтобы начать."}
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredCategories.map((category) => (
+                  rows.map(({ category, depth, childCount, label }) => (
                     <TableRow key={category.id} className="hover:bg-muted/50">
-                      <TableCell className="font-medium">{category.name}</TableCell>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                          {childCount > 0 ? (
+                            <button
+                              type="button"
+                              onClick={() => toggleCollapsed(category.id)}
+                              className="text-muted-foreground hover:text-foreground"
+                              title={collapsed.has(category.id) ? "Развернуть" : "Свернуть"}
+                            >
+                              {collapsed.has(category.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            </button>
+                          ) : (
+                            <span className="w-4" />
+                          )}
+                          {label}
+                        </div>
+                      </TableCell>
                       <TableCell>{category.description || "—"}</TableCell>
                       <TableCell>
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -172,6 +236,14 @@ export default function ExpenseCategories() {
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleAddChild(category)}
+                            title="Добавить подстатью"
+                          >
+                            <FolderPlus className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -205,8 +277,10 @@ export default function ExpenseCategories() {
         onClose={() => {
           setIsModalOpen(false);
           setEditingCategory(null);
+          setNewCategoryParentId(null);
         }}
         category={editingCategory}
+        parentId={newCategoryParentId}
       />
     </>
   );
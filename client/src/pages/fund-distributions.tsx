@@ -20,8 +20,11 @@ import {
 } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import FundDistributionModal from "@/components/modals/fund-distribution-modal";
-import type { ManualFundDistribution, Fund } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import FundDistributionModal, { type DistributionFilter } from "@/components/modals/fund-distribution-modal";
+import StaleDistributions from "@/components/stale-distributions";
+import type { ManualFundDistribution, Fund, IncomeSource, Receipt } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { apiRequest } from "@/lib/queryClient";
 
 interface DistributionHistoryItem {
@@ -37,6 +40,7 @@ interface DistributionHistory {
   id: string;
   userId: string;
   totalAmount: string;
+  kind: "distribution" | "correction";
   distributionDate: string;
   createdAt: string;
   items: DistributionHistoryItem[];
@@ -49,6 +53,11 @@ export default function FundDistributions() {
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
   const [showDateFilter, setShowDateFilter] = useState(false);
+  const [distributionFilter, setDistributionFilter] = useState<DistributionFilter>({
+    fromDate: "",
+    toDate: "",
+    incomeSourceId: "",
+  });
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -56,6 +65,10 @@ export default function FundDistributions() {
     queryKey: ["/api/manual-fund-distributions"],
   });
 
+  const { data: incomeSources = [] } = useQuery<IncomeSource[]>({
+    queryKey: ["/api/income-sources"],
+  });
+
   const { data: funds = [] } = useQuery<Fund[]>({
     queryKey: ["/api/funds"],
   });
@@ -68,6 +81,12 @@ export default function FundDistributions() {
     queryKey: ["/api/distribution-history"],
   });
 
+  // Поступления, распределенные выбранным запуском (вернутся в нераспределенные при удалении)
+  const { data: selectedReceipts = [], isLoading: selectedReceiptsLoading } = useQuery<Receipt[]>({
+    queryKey: ["/api/distribution-history", selectedDistribution?.id, "receipts"],
+    enabled: !!selectedDistribution && isDetailModalOpen,
+  });
+
   // Filter distribution history by date range
   const filteredDistributionHistory = distributionHistory.filter((distribution) => {
     if (!dateFrom && !dateTo) return true;
@@ -113,14 +132,6 @@ export default function FundDistributions() {
 
 
 
-  const formatCurrency = (amount: number | string) => {
-    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(numAmount);
-  };
-
   const getFundName = (fundId: string) => {
     const fund = funds.find(f => f.id === fundId);
     return fund?.name || "Неизвестный фонд";
@@ -140,26 +151,34 @@ export default function FundDistributions() {
         },
       });
       
+      if (response.status === 400) {
+        // Запуск, доли которого исправляла корректировка, отменяется после нее
+        throw new Error("Сначала отмените корректировку, изменившую доли этого распределения");
+      }
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       
-      return response;
+      return await response.json() as { receipts: Receipt[] };
     },
-    onSuccess: () => {
+    onSuccess: ({ receipts }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
       queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
       queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stale-distributions"] });
+      setIsDetailModalOpen(false);
       toast({
         title: "Успешно",
-        description: "Распределение удалено, средства возвращены в нераспределенные",
+        description: receipts.length > 0
+          ? `Распределение удалено. Снова не распределены: ${receipts.map(receipt => receipt.description).join(", ")}`
+          : "Распределение удалено, средства возвращены в нераспределенные",
       });
     },
     onError: (error) => {
       console.error("Error deleting distribution:", error);
       toast({
         title: "Ошибка",
-        description: "Не удалось удалить распределение",
+        description: error.message.startsWith("HTTP error") ? "Не удалось удалить распределение" : error.message,
         variant: "destructive",
       });
     },
@@ -181,10 +200,6 @@ export default function FundDistributions() {
     });
   };
 
-  const formatAmount = (amount: string) => {
-    return Number(amount).toLocaleString('ru-RU') + ' ₽';
-  };
-
   if (distributionsLoading) {
     return (
       <div className="space-y-6">
@@ -230,13 +245,80 @@ export default function FundDistributions() {
             </div>
             <div className="text-right">
               <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">
-                {formatCurrency(unallocatedData?.unallocatedAmount || 0)}
+                {formatMoney(unallocatedData?.unallocatedAmount || 0)}
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Receipts changed after they were distributed */}
+      <StaleDistributions />
+
+      {/* Selective distribution: which receipts the automatic distribution takes */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Filter className="h-4 w-4" />
+            Параметры автоматического распределения
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="distributionFromDate">Поступления с:</Label>
+              <Input
+                id="distributionFromDate"
+                type="date"
+                value={distributionFilter.fromDate}
+                onChange={(e) => setDistributionFilter({ ...distributionFilter, fromDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="distributionToDate">по:</Label>
+              <Input
+                id="distributionToDate"
+                type="date"
+                value={distributionFilter.toDate}
+                onChange={(e) => setDistributionFilter({ ...distributionFilter, toDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Источник поступлений</Label>
+              <Select
+                value={distributionFilter.incomeSourceId || "all"}
+                onValueChange={(value) => setDistributionFilter({
+                  ...distributionFilter,
+                  incomeSourceId: value === "all" ? "" : value,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Все источники</SelectItem>
+                  {incomeSources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>
+                      {source.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setDistributionFilter({ fromDate: "", toDate: "", incomeSourceId: "" })}
+              disabled={!distributionFilter.fromDate && !distributionFilter.toDate && !distributionFilter.incomeSourceId}
+            >
+              Сбросить
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Распределяются только поступления, попавшие в отбор. Отдельные поступления можно исключить в окне распределения.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Manual Distributions List - only show if there are manual distributions */}
       {distributions.length > 0 && (
         <div className="space-y-4">
@@ -258,7 +340,7 @@ export default function FundDistributions() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <Badge variant="secondary" className="bg-primary/10 text-primary">
-                      {formatCurrency(distribution.amount)}
+                      {formatMoney(distribution.amount)}
                     </Badge>
                     <Button
                       variant="ghost"
@@ -412,9 +494,14 @@ export default function FundDistributions() {
                       <span className="text-sm text-muted-foreground">
                         {formatDate(distribution.distributionDate)}
                       </span>
+                      {distribution.kind === "correction" && (
+                        <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                          Корректировка
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-2xl font-bold">
-                      {formatAmount(distribution.totalAmount)}
+                      {formatMoney(distribution.totalAmount)}
                     </div>
                     <div className="flex items-center gap-2 flex-wrap">
                       <Badge variant="outline" className="text-xs">
@@ -422,7 +509,7 @@ export default function FundDistributions() {
                       </Badge>
                       {distribution.items.slice(0, 3).map((item) => (
                         <Badge key={item.id} variant="secondary" className="text-xs">
-                          {item.fundName}: {formatAmount(item.amount)}
+                          {item.fundName}: {formatMoney(item.amount)}
                         </Badge>
                       ))}
                       {distribution.items.length > 3 && (
@@ -466,7 +553,7 @@ export default function FundDistributions() {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Calculator className="w-5 h-5" />
-              Подробности распределения
+              {selectedDistribution?.kind === "correction" ? "Подробности корректировки" : "Подробности распределения"}
             </DialogTitle>
           </DialogHeader>
           
@@ -480,7 +567,7 @@ export default function FundDistributions() {
                 <div>
                   <p className="text-sm text-muted-foreground">Общая сумма</p>
                   <p className="text-2xl font-bold text-green-600">
-                    {formatAmount(selectedDistribution.totalAmount)}
+                    {formatMoney(selectedDistribution.totalAmount)}
                   </p>
                 </div>
               </div>
@@ -494,12 +581,14 @@ export default function FundDistributions() {
                         <div>
                           <p className="font-medium">{item.fundName}</p>
                           <p className="text-sm text-muted-foreground">
-                            {Number(item.percentage).toFixed(1)}% от общей суммы
+                            {selectedDistribution.kind === "correction"
+                              ? `${Number(item.percentage).toFixed(1)}% от суммы изменений`
+                              : `${Number(item.percentage).toFixed(1)}% от общей суммы`}
                           </p>
                         </div>
                         <div className="text-right">
                           <p className="text-lg font-semibold">
-                            {formatAmount(item.amount)}
+                            {formatMoney(item.amount)}
                           </p>
                         </div>
                       </div>
@@ -508,6 +597,32 @@ export default function FundDistributions() {
                 </div>
               </div>
 
+              <div>
+                <h3 className="text-lg font-semibold mb-1">Поступления</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  При удалении распределения эти поступления снова станут нераспределенными, а поступления с другими распределениями или корректировками будут отмечены как устаревшие
+                </p>
+                {selectedReceiptsLoading ? (
+                  <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+                ) : selectedReceipts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Нет связанных поступлений</p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedReceipts.map((receipt) => (
+                      <div key={receipt.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p className="font-medium">{receipt.description}</p>
+                          <p className="text-muted-foreground">
+                            {format(new Date(receipt.date), 'd MMMM yyyy', { locale: ru })}
+                          </p>
+                        </div>
+                        <p className="font-semibold">{formatMoney(receipt.amount)}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div className="pt-4 border-t">
                 <p className="text-sm text-muted-foreground">
                   Распределение ID: {selectedDistribution.id}
@@ -521,6 +636,7 @@ export default function FundDistributions() {
       <FundDistributionModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
+        filter={distributionFilter}
       />
     </div>
   );
@@ -10,6 +10,7 @@ import { Plus, Search, Trash2, ArrowRight } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import type { FundTransfer, Fund } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import FundTransferModal from "../components/modals/fund-transfer-modal";
 
 export default function FundTransfers() {
@@ -174,7 +175,7 @@ export default function FundTransfers() {
                       </Badge>
                     </div>
                     <div className="text-lg font-semibold">
-                      {Number(transfer.amount).toLocaleString('ru-RU')} ₽
+                      {formatMoney(transfer.amount)}
                     </div>
                     {transfer.description && (
                       <p className="text-sm text-muted-foreground">
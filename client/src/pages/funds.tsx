@@ -9,11 +9,13 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, Search, Edit2, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Fund } from "@shared/schema";
+import type { ExpenseCategory, Fund, FundExpenseCategory } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import FundModal from "../components/modals/fund-modal";
 
 export default function Funds() {
   const [search, setSearch] = useState("");
+  const [asOf, setAsOf] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingFund, setEditingFund] = useState<Fund | null>(null);
   const { isAuthenticated, isLoading } = useAuth();
@@ -35,11 +37,31 @@ export default function Funds() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
+  // Остатки считаются по журналу проводок; asOf - остаток на конец выбранного дня
   const { data: funds = [], isLoading: fundsLoading } = useQuery<(Fund & { balance: number })[]>({
-    queryKey: ["/api/funds-with-balances"],
+    queryKey: ["/api/funds-with-balances", asOf],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...(asOf && { asOf }) });
+      const response = await apiRequest(`/api/funds-with-balances?${params}`, "GET");
+      return await response.json();
+    },
     retry: false,
   });
 
+  // Разрешенные статьи фондов с целевым назначением
+  const { data: fundCategories = [] } = useQuery<FundExpenseCategory[]>({
+    queryKey: ["/api/fund-expense-categories"],
+  });
+
+  const { data: categories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+  });
+
+  const allowedCategoryNames = (fundId: string) => fundCategories
+    .filter(rule => rule.fundId === fundId)
+    .map(rule => categories.find(category => category.id === rule.expenseCategoryId)?.name)
+    .filter((name): name is string => Boolean(name));
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest(`/api/funds/${id}`, "DELETE");
@@ -66,7 +88,10 @@ export default function Funds() {
       }
       toast({
         title: "Ошибка",
-        description: "Не удалось удалить фонд",
+        // 400: фонд оплачивает доли разделенных расходов
+        description: error.message.startsWith("400:")
+          ? "Фонд оплачивает доли разделенных расходов. Измените разделение этих расходов или отключите фонд"
+          : "Не удалось удалить фонд",
         variant: "destructive",
       });
     },
@@ -126,13 +151,23 @@ export default function Funds() {
 
 
       {/* Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Поиск фондов..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
         <Input
-          placeholder="Поиск фондов..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="pl-10"
+          type="date"
+          placeholder="Остаток на дату"
+          title="Остаток на дату"
+          value={asOf}
+          onChange={(e) => setAsOf(e.target.value)}
+          className="w-auto"
         />
       </div>
 
@@ -162,11 +197,21 @@ export default function Funds() {
                         {fund.isActive ? "Активен" : "Неактивен"}
                       </Badge>
                     </div>
+                    {allowedCategoryNames(fund.id).length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        Только статьи: {allowedCategoryNames(fund.id).join(", ")}
+                      </div>
+                    )}
                     <div className="text-xl font-semibold text-primary">
-                      {fund.balance.toLocaleString('ru-RU')} ₽
+                      {formatMoney(fund.balance)}
                     </div>
+                    {asOf && (
+                      <div className="text-xs text-muted-foreground">
+                        на {new Date(asOf).toLocaleDateString("ru-RU")}
+                      </div>
+                    )}
                     <div className="text-xs text-muted-foreground">
-                      Начальный: {Number(fund.initialBalance || 0).toLocaleString('ru-RU')} ₽
+                      Начальный: {formatMoney(fund.initialBalance)}
                     </div>
                   </div>
                   <div className="flex gap-1">
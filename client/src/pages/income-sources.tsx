@@ -122,9 +122,14 @@ function IncomeSources() {
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg">{incomeSource.name}</CardTitle>
-                  <Badge variant={incomeSource.isActive ? "default" : "secondary"}>
-                    {incomeSource.isActive ? "Активен" : "Неактивен"}
-                  </Badge>
+                  <div className="flex gap-1">
+                    {incomeSource.distributionMode === "auto" && (
+                      <Badge variant="outline">Авто</Badge>
+                    )}
+                    <Badge variant={incomeSource.isActive ? "default" : "secondary"}>
+                      {incomeSource.isActive ? "Активен" : "Неактивен"}
+                    </Badge>
+                  </div>
                 </div>
                 {incomeSource.description && (
                   <CardDescription>{incomeSource.description}</CardDescription>
@@ -0,0 +1,183 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, AlertTriangle, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { IncomeSource, Receipt } from "@shared/schema";
+import { formatMoney, fromKopecks, toKopecks } from "@shared/money";
+
+// Ответ GET /api/integrity/receipt-items
+type ReceiptItemDiscrepancy = Receipt & { itemsAmount: string; itemCount: number };
+
+/**
+ * Проверка данных: поступления, сумма которых не совпадает с суммой строк спонсоров
+ *
+ * Такие поступления дают расхождение между сводкой и балансами фондов.
+ * Выравнивание записывает в поступление сумму по спонсорам.
+ */
+export default function Integrity() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: discrepancies = [], isLoading: discrepanciesLoading } = useQuery<ReceiptItemDiscrepancy[]>({
+    queryKey: ["/api/integrity/receipt-items"],
+    retry: false,
+    staleTime: 0,
+  });
+
+  const { data: incomeSources = [] } = useQuery<IncomeSource[]>({
+    queryKey: ["/api/income-sources"],
+    retry: false,
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`/api/integrity/receipt-items/${id}/reconcile`, "POST", {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrity/receipt-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stale-distributions"] });
+      toast({
+        title: "Успешно",
+        description: "Сумма поступления выровнена по спонсорам",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Неавторизован",
+          description: "Вы вышли из системы. Выполняется повторный вход...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Ошибка",
+        description: "Не удалось выровнять сумму поступления",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getIncomeSourceName = (id: string) =>
+    incomeSources.find(source => source.id === id)?.name || "Неизвестный источник";
+
+  if (isLoading || discrepanciesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Проверка данных</h1>
+        <p className="text-muted-foreground">
+          Поступления, сумма которых не совпадает с суммой по спонсорам
+        </p>
+      </div>
+
+      {discrepancies.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <p className="text-muted-foreground">Расхождений не найдено</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-600" />
+              Расхождения сумм поступлений ({discrepancies.length})
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Выравнивание записывает в поступление сумму по спонсорам. Поступления без спонсоров
+              нужно открыть и заполнить спонсоров. Если поступление уже распределено, распределение станет устаревшим.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Поступление</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                  <TableHead className="text-right">По спонсорам</TableHead>
+                  <TableHead className="text-right">Разница</TableHead>
+                  <TableHead className="w-40"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discrepancies.map((receipt) => {
+                  const difference = toKopecks(receipt.itemsAmount) - toKopecks(receipt.amount);
+                  return (
+                    <TableRow key={receipt.id}>
+                      <TableCell>
+                        <div className="font-medium">{receipt.description || "Без описания"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(receipt.date), 'd MMMM yyyy', { locale: ru })} · {getIncomeSourceName(receipt.incomeSourceId)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(receipt.amount)}</TableCell>
+                      <TableCell className="text-right">
+                        {receipt.itemCount > 0 ? formatMoney(receipt.itemsAmount) : "нет спонсоров"}
+                      </TableCell>
+                      <TableCell className={`text-right font-semibold ${difference < 0 ? "text-red-600" : "text-green-600"}`}>
+                        {difference > 0 ? "+" : ""}{formatMoney(fromKopecks(difference))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reconcileMutation.mutate(receipt.id)}
+                          disabled={reconcileMutation.isPending || receipt.itemCount === 0}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Выровнять
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit2, Trash2, ArrowLeftRight, ArrowRight, CheckCircle2, AlertTriangle, FileUp, ListChecks } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { moneyAccountKindLabel } from "@/lib/moneyAccounts";
+import type { MoneyAccount, MoneyAccountTransfer } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import MoneyAccountModal from "../components/modals/money-account-modal";
+import MoneyAccountTransferModal from "../components/modals/money-account-transfer-modal";
+
+// Ответ GET /api/money-accounts/reconciliation
+interface MoneyAccountReconciliation {
+  accountsTotal: number;
+  fundsTotal: number;
+  unallocated: number;
+  difference: number;
+  openingBalancesDifference: number;
+}
+
+type MoneyAccountTransferWithNames = MoneyAccountTransfer & { fromAccountName: string; toAccountName: string };
+
+/**
+ * Счета: где физически лежат деньги (касса, банковский счет, карта)
+ *
+ * Сверка внизу показывает, что деньги на счетах равны деньгам фондов
+ * вместе с нераспределенными, и объясняет расхождение, если оно есть.
+ */
+export default function MoneyAccounts() {
+  const [asOf, setAsOf] = useState("");
+  const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<MoneyAccount | null>(null);
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  // Остатки считаются по журналу проводок; asOf - остаток на конец выбранного дня
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<(MoneyAccount & { balance: number })[]>({
+    queryKey: ["/api/money-accounts", asOf],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...(asOf && { asOf }) });
+      const response = await apiRequest(`/api/money-accounts?${params}`, "GET");
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: reconciliation } = useQuery<MoneyAccountReconciliation>({
+    queryKey: ["/api/money-accounts", "reconciliation", asOf],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...(asOf && { asOf }) });
+      const response = await apiRequest(`/api/money-accounts/reconciliation?${params}`, "GET");
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: transfers = [] } = useQuery<MoneyAccountTransferWithNames[]>({
+    queryKey: ["/api/money-account-transfers"],
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Ошибка",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`/api/money-accounts/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      toast({
+        title: "Успешно",
+        description: "Счет удален",
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось удалить счет: по нему есть поступления, расходы или перемещения. Сделайте его неактивным.");
+    },
+  });
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`/api/money-account-transfers/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/money-account-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      toast({
+        title: "Успешно",
+        description: "Перемещение удалено",
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось удалить перемещение");
+    },
+  });
+
+  const handleEdit = (account: MoneyAccount) => {
+    setEditingAccount(account);
+    setIsAccountModalOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Вы уверены, что хотите удалить этот счет?")) {
+      deleteAccountMutation.mutate(id);
+    }
+  };
+
+  const handleDeleteTransfer = (id: string) => {
+    if (confirm("Вы уверены, что хотите удалить это перемещение?")) {
+      deleteTransferMutation.mutate(id);
+    }
+  };
+
+  const handleCloseAccountModal = () => {
+    setIsAccountModalOpen(false);
+    setEditingAccount(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const balanced = reconciliation?.difference === 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Счета</h1>
+          <p className="text-muted-foreground">
+            Где лежат деньги: касса, банковские счета и карты
+          </p>
+        </div>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <Button variant="outline" asChild className="flex-1 sm:flex-none">
+            <Link href="/bank-import">
+              <FileUp className="w-4 h-4 mr-2" />
+              Импорт выписки
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="flex-1 sm:flex-none">
+            <Link href="/bank-reconciliation">
+              <ListChecks className="w-4 h-4 mr-2" />
+              Сверка
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsTransferModalOpen(true)}
+            disabled={accounts.length < 2}
+            className="flex-1 sm:flex-none"
+          >
+            <ArrowLeftRight className="w-4 h-4 mr-2" />
+            Переместить
+          </Button>
+          <Button
+            onClick={() => setIsAccountModalOpen(true)}
+            className="flex-1 sm:flex-none"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Добавить счет
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Input
+          type="date"
+          placeholder="Остаток на дату"
+          title="Остаток на дату"
+          value={asOf}
+          onChange={(e) => setAsOf(e.target.value)}
+          className="w-auto"
+        />
+      </div>
+
+      {/* Accounts List */}
+      {accountsLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-pulse text-muted-foreground">Загрузка счетов...</div>
+        </div>
+      ) : accounts.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <div className="text-muted-foreground">
+              Пока нет счетов. Создайте кассу или банковский счет!
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {accounts.map((account) => (
+            <Card key={account.id} className="hover:shadow-md transition-shadow">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">{account.name}</CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{moneyAccountKindLabel(account.kind)}</Badge>
+                      {!account.isActive && <Badge variant="secondary">Неактивен</Badge>}
+                    </div>
+                    <div className={`text-xl font-semibold ${account.balance < 0 ? "text-red-600" : "text-primary"}`}>
+                      {formatMoney(account.balance)}
+                    </div>
+                    {asOf && (
+                      <div className="text-xs text-muted-foreground">
+                        на {new Date(asOf).toLocaleDateString("ru-RU")}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      Начальный: {formatMoney(account.initialBalance)}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEdit(account)}
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(account.id)}
+                      disabled={deleteAccountMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              {account.description && (
+                <CardContent className="pt-0">
+                  <p className="text-sm text-muted-foreground">
+                    {account.description}
+                  </p>
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Reconciliation */}
+      {reconciliation && (
+        <Card className={balanced ? "" : "border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800"}>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              {balanced ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+              )}
+              Сверка счетов и фондов
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-muted-foreground">На счетах</div>
+                <div className="text-lg font-semibold">{formatMoney(reconciliation.accountsTotal)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">В фондах</div>
+                <div className="text-lg font-semibold">{formatMoney(reconciliation.fundsTotal)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Нераспределено</div>
+                <div className="text-lg font-semibold">{formatMoney(reconciliation.unallocated)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Расхождение</div>
+                <div className={`text-lg font-semibold ${balanced ? "text-green-600" : "text-red-600"}`}>
+                  {formatMoney(reconciliation.difference)}
+                </div>
+              </div>
+            </div>
+            {!balanced && (
+              <ul className="list-disc pl-5 space-y-1 text-amber-900 dark:text-amber-100">
+                {reconciliation.openingBalancesDifference !== 0 && (
+                  <li>
+                    Начальные остатки счетов отличаются от начальных остатков фондов на {formatMoney(reconciliation.openingBalancesDifference)}
+                  </li>
+                )}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Transfers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Перемещения между счетами</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">Перемещений пока нет</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Откуда и куда</TableHead>
+                  <TableHead>Описание</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>{format(new Date(transfer.date), 'd MMMM yyyy', { locale: ru })}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {transfer.fromAccountName}
+                        <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                        {transfer.toAccountName}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{transfer.description}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(transfer.amount)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteTransfer(transfer.id)}
+                        disabled={deleteTransferMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <MoneyAccountModal
+        open={isAccountModalOpen}
+        onClose={handleCloseAccountModal}
+        account={editingAccount}
+      />
+      <MoneyAccountTransferModal
+        open={isTransferModalOpen}
+        onClose={() => setIsTransferModalOpen(false)}
+        accounts={accounts}
+      />
+    </div>
+  );
+}
@@ -7,14 +7,16 @@ import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, History } from "lucide-react";
 import ExpenseNomenclatureModal from "@/components/modals/expense-nomenclature-modal";
+import NomenclaturePriceHistoryModal from "@/components/modals/nomenclature-price-history-modal";
 import type { ExpenseNomenclature } from "@shared/schema";
 
 export default function Nomenclature() {
   const [search, setSearch] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingNomenclature, setEditingNomenclature] = useState<ExpenseNomenclature | null>(null);
+  const [priceHistoryNomenclature, setPriceHistoryNomenclature] = useState<ExpenseNomenclature | null>(null);
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
@@ -144,6 +146,7 @@ export default function Nomenclature() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Название</TableHead>
+                  <TableHead>Ед. изм.</TableHead>
                   <TableHead>Описание</TableHead>
                   <TableHead>Статус</TableHead>
                   <TableHead>Действия</TableHead>
@@ -152,7 +155,7 @@ export default function Nomenclature() {
               <TableBody>
                 {filteredNomenclature.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
                       {search ? "Номенклатура по вашим критериям не найдена." : "Номенклатуры пока нет. Добавьте первую номенклатуру, чтобы начать."}
                     </TableCell>
                   </TableRow>
@@ -160,6 +163,7 @@ export default function Nomenclature() {
                   filteredNomenclature.map((item) => (
                     <TableRow key={item.id} className="hover:bg-muted/50">
                       <TableCell className="font-medium">{item.name}</TableCell>
+                      <TableCell>{item.unit || "—"}</TableCell>
                       <TableCell>{item.description || "—"}</TableCell>
                       <TableCell>
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -172,6 +176,14 @@ export default function Nomenclature() {
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPriceHistoryNomenclature(item)}
+                            title="История цен"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -208,6 +220,12 @@ export default function Nomenclature() {
         }}
         nomenclature={editingNomenclature}
       />
+
+      <NomenclaturePriceHistoryModal
+        isOpen={priceHistoryNomenclature !== null}
+        onClose={() => setPriceHistoryNomenclature(null)}
+        nomenclature={priceHistoryNomenclature}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -1,21 +1,26 @@
 import { useState, useEffect } from "react";
 import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Search, Edit, Trash2, ArrowUpDown, Loader2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, ArrowUpDown, Loader2, FileUp } from "lucide-react";
 import ReceiptModal from "@/components/modals/receipt-modal";
 import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
-import type { Receipt } from "@shared/schema";
+import type { PaymentMethod, Receipt } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { paymentMethodLabels } from "@/lib/paymentMethods";
 
 export default function Receipts() {
   const [search, setSearch] = useState("");
   const [fromDate, setFromDate] = useState("");
   const [toDate, setToDate] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("all");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingReceipt, setEditingReceipt] = useState<Receipt | null>(null);
   const { toast } = useToast();
@@ -45,7 +50,7 @@ export default function Receipts() {
     isLoading: receiptsLoading,
     refetch
   } = useInfiniteQuery({
-    queryKey: ["/api/receipts", search, fromDate, toDate],
+    queryKey: ["/api/receipts", search, fromDate, toDate, paymentMethod],
     queryFn: async ({ pageParam = 1 }) => {
       const params = new URLSearchParams({
         page: pageParam.toString(),
@@ -53,6 +58,7 @@ export default function Receipts() {
         ...(search && { search }),
         ...(fromDate && { fromDate }),
         ...(toDate && { toDate }),
+        ...(paymentMethod !== "all" && { paymentMethod }),
       });
       const response = await apiRequest(`/api/receipts?${params}`, "GET");
       return await response.json();
@@ -80,7 +86,7 @@ export default function Receipts() {
   // Сброс при изменении фильтров
   useEffect(() => {
     refetch();
-  }, [search, fromDate, toDate, refetch]);
+  }, [search, fromDate, toDate, paymentMethod, refetch]);
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -131,13 +137,6 @@ export default function Receipts() {
     }
   };
 
-  const formatCurrency = (amount: string) => {
-    return new Intl.NumberFormat('ru-RU', {
-      style: 'currency',
-      currency: 'RUB',
-    }).format(parseFloat(amount));
-  };
-
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -175,13 +174,21 @@ export default function Receipts() {
               </p>
             )}
           </div>
-          <Button 
-            onClick={handleAdd}
-            className="bg-secondary hover:bg-green-700 text-white"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            Добавить поступление
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/spreadsheet-import?kind=receipts">
+                <FileUp className="mr-2 h-4 w-4" />
+                Импорт
+              </Link>
+            </Button>
+            <Button 
+              onClick={handleAdd}
+              className="bg-secondary hover:bg-green-700 text-white"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Добавить поступление
+            </Button>
+          </div>
         </div>
 
         <div className="data-table">
@@ -211,6 +218,19 @@ export default function Receipts() {
                 onChange={(e) => setToDate(e.target.value)}
                 className="w-auto"
               />
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue placeholder="Способ оплаты" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Все способы оплаты</SelectItem>
+                  {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {paymentMethodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
@@ -255,7 +275,7 @@ export default function Receipts() {
                         {receipt.sponsorName || "Неизвестный источник"}
                       </TableCell>
                       <TableCell className="amount-positive">
-                        {formatCurrency(receipt.amount)}
+                        {formatMoney(receipt.amount)}
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
@@ -6,7 +6,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import FundBalanceReport from "@/components/reports/fund-balance-report";
 import ExpenseReport from "@/components/reports/expense-report";
 import SponsorReport from "@/components/reports/sponsor-report";
-import { FileBarChart, PieChart, TrendingUp } from "lucide-react";
+import PaymentMethodReport from "@/components/reports/payment-method-report";
+import BankReconciliationReport from "@/components/reports/bank-reconciliation-report";
+import FundCategoryViolationsReport from "@/components/reports/fund-category-violations-report";
+import { FileBarChart, PieChart, TrendingUp, Wallet } from "lucide-react";
 
 export default function Reports() {
   const { toast } = useToast();
@@ -54,7 +57,7 @@ export default function Reports() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Отчеты по фондам</CardTitle>
@@ -90,13 +93,28 @@ export default function Reports() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Способы оплаты</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              Поступления и оплаты наличными, картой, переводом и по СБП
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       <Tabs defaultValue="fund-balance" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="fund-balance">Остатки по фондам</TabsTrigger>
           <TabsTrigger value="expenses">Отчет по расходам</TabsTrigger>
           <TabsTrigger value="sponsors">Отчет по спонсорам</TabsTrigger>
+          <TabsTrigger value="payment-methods">Способы оплаты</TabsTrigger>
+          <TabsTrigger value="bank-reconciliation">Сверка с банком</TabsTrigger>
+          <TabsTrigger value="fund-category-violations">Нарушения фондов</TabsTrigger>
         </TabsList>
 
         <TabsContent value="fund-balance" className="space-y-6">
@@ -110,6 +128,18 @@ export default function Reports() {
         <TabsContent value="sponsors" className="space-y-6">
           <SponsorReport />
         </TabsContent>
+
+        <TabsContent value="payment-methods" className="space-y-6">
+          <PaymentMethodReport />
+        </TabsContent>
+
+        <TabsContent value="bank-reconciliation" className="space-y-6">
+          <BankReconciliationReport />
+        </TabsContent>
+
+        <TabsContent value="fund-category-violations" className="space-y-6">
+          <FundCategoryViolationsReport />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,566 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Save, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  guessSpreadsheetColumns,
+  spreadsheetDateFormatLabels,
+  spreadsheetImportFieldLabels,
+  spreadsheetImportKindLabels,
+} from "@/lib/spreadsheetImport";
+import {
+  requiredSpreadsheetImportFields,
+  spreadsheetDateFormats,
+  spreadsheetDecimalSeparators,
+  spreadsheetImportFields,
+  spreadsheetImportKinds,
+  type ImportMapping,
+  type SpreadsheetDateFormat,
+  type SpreadsheetDecimalSeparator,
+  type SpreadsheetImportField,
+  type SpreadsheetImportKind,
+} from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Строка из ответа POST /api/spreadsheet-import/check
+interface CheckedRow {
+  rowNumber: number;
+  errors: string[];
+  date: string | null;
+  amount: string | null;
+  label: string;
+}
+
+interface SpreadsheetCheck {
+  dateFormat: SpreadsheetDateFormat | null;
+  decimalSeparator: SpreadsheetDecimalSeparator;
+  rows: CheckedRow[];
+}
+
+type Columns = Partial<Record<SpreadsheetImportField, string>>;
+
+const AUTO = "auto";
+const NOT_MAPPED = "none";
+
+/**
+ * Содержимое файла для сервера: XLSX - base64, CSV - текст в UTF-8 или Windows-1251
+ */
+async function readTableFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const bytes = new Uint8Array(buffer);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1251").decode(buffer);
+  }
+}
+
+/** Текст ошибки из ответа сервера вида "400: {"message": ...}" */
+function serverMessage(error: Error): string {
+  const text = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Импорт поступлений и расходов из таблиц CSV/XLSX
+ *
+ * Файл читается на сервере в заголовки и строки, колонки сопоставляются с полями
+ * документа (сопоставление можно сохранить для следующих выгрузок). Перед загрузкой
+ * все строки проверяются; пачка загружается целиком, только если ошибок нет.
+ */
+export default function SpreadsheetImport() {
+  const search = useSearch();
+  const initialKind = new URLSearchParams(search).get("kind");
+  const [kind, setKind] = useState<SpreadsheetImportKind>(
+    initialKind === "costs" ? "costs" : "receipts",
+  );
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [columns, setColumns] = useState<Columns>({});
+  const [dateFormat, setDateFormat] = useState<string>(AUTO);
+  const [decimalSeparator, setDecimalSeparator] = useState<string>(AUTO);
+  const [mappingName, setMappingName] = useState("");
+  const [check, setCheck] = useState<SpreadsheetCheck | null>(null);
+  const [imported, setImported] = useState(false);
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: allMappings = [] } = useQuery<ImportMapping[]>({
+    queryKey: ["/api/import-mappings"],
+    retry: false,
+  });
+  const mappings = allMappings.filter(mapping => mapping.kind === kind);
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Неавторизован",
+        description: "Вы вышли из системы. Выполняется повторный вход...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Ошибка",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  /** Сопоставление для таблицы: сохраненное, если все его колонки есть в файле, иначе по заголовкам */
+  const applyInitialMapping = (headers: string[]) => {
+    const saved = mappings.find(mapping =>
+      Object.values(mapping.columns).every(header => header && headers.includes(header)),
+    );
+    if (saved) {
+      applyMapping(saved);
+    } else {
+      setColumns(guessSpreadsheetColumns(kind, headers));
+      setDateFormat(AUTO);
+      setDecimalSeparator(AUTO);
+    }
+  };
+
+  const applyMapping = (mapping: ImportMapping) => {
+    setColumns(mapping.columns);
+    setDateFormat(mapping.dateFormat ?? AUTO);
+    setDecimalSeparator(mapping.decimalSeparator ?? AUTO);
+    setMappingName(mapping.name);
+    setCheck(null);
+  };
+
+  const readMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const content = await readTableFile(file);
+      const response = await apiRequest("/api/spreadsheet-import/read", "POST", { fileName: file.name, content });
+      return await response.json() as Spreadsheet;
+    },
+    onSuccess: (data) => {
+      setSheet(data);
+      setCheck(null);
+      setImported(false);
+      applyInitialMapping(data.headers);
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, serverMessage(error as Error));
+    },
+  });
+
+  const importBody = () => ({
+    kind,
+    headers: sheet?.headers ?? [],
+    rows: sheet?.rows ?? [],
+    columns,
+    dateFormat: dateFormat === AUTO ? null : dateFormat,
+    decimalSeparator: decimalSeparator === AUTO ? null : decimalSeparator,
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/spreadsheet-import/check", "POST", importBody());
+      return await response.json() as SpreadsheetCheck;
+    },
+    onSuccess: (data) => {
+      setCheck(data);
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, serverMessage(error as Error));
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/spreadsheet-import/commit", "POST", importBody());
+      return await response.json() as { receipts: number; costs: number };
+    },
+    onSuccess: (data) => {
+      setImported(true);
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/costs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/funds-with-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/unallocated-funds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/money-accounts"] });
+      toast({
+        title: "Успешно",
+        description: kind === "receipts"
+          ? `Загружено поступлений: ${data.receipts}`
+          : `Загружено расходов: ${data.costs}`,
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, `Ничего не загружено. ${serverMessage(error as Error)}`);
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/import-mappings", "POST", {
+        name: mappingName,
+        kind,
+        columns,
+        dateFormat: dateFormat === AUTO ? null : dateFormat,
+        decimalSeparator: decimalSeparator === AUTO ? null : decimalSeparator,
+      });
+      return await response.json() as ImportMapping;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mappings"] });
+      toast({
+        title: "Успешно",
+        description: "Сопоставление сохранено",
+      });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось сохранить сопоставление");
+    },
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`/api/import-mappings/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mappings"] });
+    },
+    onError: (error) => {
+      handleMutationError(error as Error, "Не удалось удалить сопоставление");
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    readMutation.mutate(file);
+  };
+
+  const handleKindChange = (value: string) => {
+    const nextKind = value as SpreadsheetImportKind;
+    setKind(nextKind);
+    setCheck(null);
+    setImported(false);
+    setMappingName("");
+    setColumns(sheet ? guessSpreadsheetColumns(nextKind, sheet.headers) : {});
+  };
+
+  const updateColumn = (field: SpreadsheetImportField, header: string) => {
+    setColumns(current => {
+      const next = { ...current };
+      if (header === NOT_MAPPED) delete next[field];
+      else next[field] = header;
+      return next;
+    });
+    setCheck(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-pulse text-muted-foreground">Загрузка...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const requiredFields = requiredSpreadsheetImportFields[kind];
+  const missingFields = requiredFields.filter(field => !columns[field]);
+  const invalidRows = check?.rows.filter(row => row.errors.length > 0) ?? [];
+  const canCommit = !!check && check.rows.length > 0 && invalidRows.length === 0 && !imported;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Импорт из таблицы</h1>
+          <p className="text-muted-foreground">
+            Поступления и расходы из файлов CSV или Excel (.xlsx)
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={kind === "receipts" ? "/receipts" : "/costs"}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {kind === "receipts" ? "К поступлениям" : "К расходам"}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Файл</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Что загружаем</Label>
+            <Select value={kind} onValueChange={handleKindChange} disabled={commitMutation.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {spreadsheetImportKinds.map((value) => (
+                  <SelectItem key={value} value={value}>{spreadsheetImportKindLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="spreadsheet-file">Таблица (.csv, .xlsx)</Label>
+            <Input id="spreadsheet-file" type="file" accept=".csv,.txt,.xlsx" onChange={handleFileChange} />
+            {readMutation.isPending && (
+              <div className="text-sm text-muted-foreground flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Чтение {fileName}...
+              </div>
+            )}
+            {sheet && !readMutation.isPending && (
+              <div className="text-xs text-muted-foreground">
+                {fileName}: строк {sheet.rows.length}, колонок {sheet.headers.length}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {sheet && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Сопоставьте колонки</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {mappings.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">Сохраненные:</span>
+                {mappings.map((mapping) => (
+                  <div key={mapping.id} className="flex items-center">
+                    <Button variant="outline" size="sm" onClick={() => applyMapping(mapping)}>
+                      {mapping.name}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMappingMutation.mutate(mapping.id)}
+                      disabled={deleteMappingMutation.isPending}
+                      title="Удалить сопоставление"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {spreadsheetImportFields(kind).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {spreadsheetImportFieldLabels[field]}
+                    {requiredFields.includes(field) && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select value={columns[field] ?? NOT_MAPPED} onValueChange={(value) => updateColumn(field, value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Не загружать</SelectItem>
+                      {sheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label>Формат даты</Label>
+                <Select value={dateFormat} onValueChange={(value) => { setDateFormat(value); setCheck(null); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>Определить автоматически</SelectItem>
+                    {spreadsheetDateFormats.map((format) => (
+                      <SelectItem key={format} value={format}>{spreadsheetDateFormatLabels[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Десятичный разделитель</Label>
+                <Select value={decimalSeparator} onValueChange={(value) => { setDecimalSeparator(value); setCheck(null); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>Определить автоматически</SelectItem>
+                    {spreadsheetDecimalSeparators.map((separator) => (
+                      <SelectItem key={separator} value={separator}>
+                        {separator === "," ? "Запятая: 1 234,56" : "Точка: 1,234.56"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="mapping-name">Название сопоставления</Label>
+                <Input
+                  id="mapping-name"
+                  value={mappingName}
+                  onChange={(event) => setMappingName(event.target.value)}
+                  placeholder="Например: Выгрузка из кассы"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => saveMappingMutation.mutate()}
+                disabled={!mappingName.trim() || saveMappingMutation.isPending}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Сохранить сопоставление
+              </Button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+              <div className="text-sm text-muted-foreground">
+                {missingFields.length > 0 ? (
+                  <span className="text-destructive">
+                    Выберите колонки: {missingFields.map(field => spreadsheetImportFieldLabels[field]).join(", ")}
+                  </span>
+                ) : (
+                  "Названия источников, номенклатуры, статей, фондов и счетов должны совпадать со справочниками"
+                )}
+              </div>
+              <Button
+                onClick={() => checkMutation.mutate()}
+                disabled={missingFields.length > 0 || checkMutation.isPending}
+              >
+                {checkMutation.isPending ? "Проверка..." : "Проверить строки"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {sheet && check && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Проверка и загрузка</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Формат даты: {check.dateFormat ? spreadsheetDateFormatLabels[check.dateFormat] : "не определен"}
+              {" · "}разделитель: «{check.decimalSeparator}»
+              {" · "}строк: {check.rows.length}
+              {invalidRows.length > 0 && (
+                <span className="text-destructive"> · с ошибками: {invalidRows.length}</span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Строка</TableHead>
+                    <TableHead>Дата</TableHead>
+                    <TableHead>{kind === "receipts" ? "Описание" : "Номенклатура"}</TableHead>
+                    <TableHead className="text-right">Сумма</TableHead>
+                    <TableHead>Проверка</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {/* Сначала строки с ошибками */}
+                  {[...invalidRows, ...check.rows.filter(row => row.errors.length === 0)].slice(0, 200).map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.date ? new Date(row.date).toLocaleDateString("ru-RU") : "—"}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate" title={row.label}>{row.label || "—"}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {row.amount ? formatMoney(row.amount) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <Badge variant="outline">OK</Badge>
+                        ) : (
+                          <div className="text-xs text-destructive space-y-1">
+                            {row.errors.map((error, index) => <div key={index}>{error}</div>)}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {check.rows.length > 200 && (
+                <div className="text-xs text-muted-foreground mt-2">Показаны первые 200 строк</div>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+              <div className="text-sm text-muted-foreground">
+                {imported
+                  ? "Таблица загружена"
+                  : invalidRows.length > 0
+                    ? "Исправьте файл или сопоставление: таблица загружается только целиком"
+                    : "Все строки будут загружены одной пачкой"}
+              </div>
+              <Button onClick={() => commitMutation.mutate()} disabled={!canCommit || commitMutation.isPending}>
+                {commitMutation.isPending ? "Загрузка..." : `Загрузить ${check.rows.length}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+CREATE TABLE "ledger_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"date" timestamp NOT NULL,
+	"debit_account" varchar(100) NOT NULL,
+	"credit_account" varchar(100) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"source_type" varchar(50) NOT NULL,
+	"receipt_id" varchar,
+	"fund_distribution_id" varchar,
+	"manual_fund_distribution_id" varchar,
+	"fund_transfer_id" varchar,
+	"cost_id" varchar,
+	"fund_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_receipt_id_receipts_id_fk" FOREIGN KEY ("receipt_id") REFERENCES "public"."receipts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_fund_distribution_id_fund_distributions_id_fk" FOREIGN KEY ("fund_distribution_id") REFERENCES "public"."fund_distributions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_manual_fund_distribution_id_manual_fund_distributions_id_fk" FOREIGN KEY ("manual_fund_distribution_id") REFERENCES "public"."manual_fund_distributions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_fund_transfer_id_fund_transfers_id_fk" FOREIGN KEY ("fund_transfer_id") REFERENCES "public"."fund_transfers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_cost_id_costs_id_fk" FOREIGN KEY ("cost_id") REFERENCES "public"."costs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_ledger_debit_account" ON "ledger_entries" USING btree ("debit_account","date");--> statement-breakpoint
+CREATE INDEX "IDX_ledger_credit_account" ON "ledger_entries" USING btree ("credit_account","date");--> statement-breakpoint
+-- Backfill: post existing documents with the same rules as server/ledger.ts
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "receipt_id")
+SELECT "user_id", "date", 'unallocated', 'income', "amount", 'receipt', "id" FROM "receipts";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "fund_distribution_id")
+SELECT r."user_id", r."date", 'fund:' || d."fund_id", 'unallocated', d."amount", 'fund_distribution', d."id"
+FROM "fund_distributions" d INNER JOIN "receipts" r ON r."id" = d."receipt_id";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "manual_fund_distribution_id")
+SELECT "user_id", "date", 'fund:' || "fund_id", 'unallocated', "amount", 'manual_fund_distribution', "id" FROM "manual_fund_distributions";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "fund_transfer_id")
+SELECT "user_id", COALESCE("created_at", now()), 'fund:' || "to_fund_id", 'fund:' || "from_fund_id", "amount", 'fund_transfer', "id" FROM "fund_transfers";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "cost_id")
+SELECT "user_id", "date", 'expenses', 'fund:' || "fund_id", "total_amount", 'cost', "id" FROM "costs";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "fund_id")
+SELECT "user_id", timestamp '1970-01-01 00:00:00',
+  CASE WHEN "initial_balance" > 0 THEN 'fund:' || "id" ELSE 'equity' END,
+  CASE WHEN "initial_balance" > 0 THEN 'equity' ELSE 'fund:' || "id" END,
+  abs("initial_balance"), 'fund_opening', "id"
+FROM "funds" WHERE COALESCE("initial_balance", 0) <> 0;
@@ -0,0 +1,14 @@
+ALTER TABLE "fund_distributions" ADD COLUMN "distribution_history_id" varchar;--> statement-breakpoint
+ALTER TABLE "fund_distributions" ADD CONSTRAINT "fund_distributions_distribution_history_id_distribution_history_id_fk" FOREIGN KEY ("distribution_history_id") REFERENCES "public"."distribution_history"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Backfill: link existing rows to the closest run of the same user within one minute
+-- (the heuristic previously used when undoing a run)
+UPDATE "fund_distributions" fd SET "distribution_history_id" = run."history_id"
+FROM (
+  SELECT DISTINCT ON (d."id") d."id" AS "distribution_id", h."id" AS "history_id"
+  FROM "fund_distributions" d
+  INNER JOIN "receipts" r ON r."id" = d."receipt_id"
+  INNER JOIN "distribution_history" h ON h."user_id" = r."user_id"
+    AND abs(extract(epoch FROM (d."created_at" - h."distribution_date"))) < 60
+  ORDER BY d."id", abs(extract(epoch FROM (d."created_at" - h."distribution_date")))
+) run
+WHERE fd."id" = run."distribution_id";
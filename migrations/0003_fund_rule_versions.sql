@@ -0,0 +1,4 @@
+ALTER TABLE "income_source_fund_distributions" ADD COLUMN "valid_from" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "income_source_fund_distributions" ADD COLUMN "valid_to" timestamp;--> statement-breakpoint
+-- Backfill: existing rules were applied to all receipts, so they are in force from the beginning
+UPDATE "income_source_fund_distributions" SET "valid_from" = '1970-01-01 00:00:00';
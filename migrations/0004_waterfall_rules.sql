@@ -0,0 +1,11 @@
+ALTER TABLE "income_source_fund_distributions" ALTER COLUMN "percentage" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "income_source_fund_distributions" ADD COLUMN "rule_type" varchar(20) DEFAULT 'percentage' NOT NULL;--> statement-breakpoint
+ALTER TABLE "income_source_fund_distributions" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "income_source_fund_distributions" ADD COLUMN "amount" numeric(12, 2);--> statement-breakpoint
+-- Backfill: existing percentage rules keep their creation order within each version
+UPDATE "income_source_fund_distributions" r SET "position" = ranked."position"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "income_source_id", "valid_from" ORDER BY "created_at", "id") - 1 AS "position"
+  FROM "income_source_fund_distributions"
+) ranked
+WHERE r."id" = ranked."id";
@@ -0,0 +1,2 @@
+ALTER TABLE "income_sources" ADD COLUMN "rounding_fund_id" varchar;--> statement-breakpoint
+ALTER TABLE "income_sources" ADD CONSTRAINT "income_sources_rounding_fund_id_funds_id_fk" FOREIGN KEY ("rounding_fund_id") REFERENCES "public"."funds"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "income_sources" ADD COLUMN "distribution_mode" varchar(10) DEFAULT 'manual' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "distribution_history" ADD COLUMN "kind" varchar(20) DEFAULT 'distribution' NOT NULL;--> statement-breakpoint
+ALTER TABLE "receipts" ADD COLUMN "distribution_stale" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Receipts edited before this migration: their distributions no longer add up to the receipt amount
+UPDATE "receipts" SET "distribution_stale" = true
+WHERE "amount" <> (SELECT SUM("amount") FROM "fund_distributions" WHERE "fund_distributions"."receipt_id" = "receipts"."id");
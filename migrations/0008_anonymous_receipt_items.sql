@@ -0,0 +1,2 @@
+ALTER TABLE "receipt_items" ALTER COLUMN "sponsor_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "receipt_items" ADD COLUMN "payer_name" varchar(255);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "costs" ADD COLUMN "payment_method" varchar(20);--> statement-breakpoint
+ALTER TABLE "receipt_items" ADD COLUMN "payment_method" varchar(20);
\ No newline at end of file
@@ -0,0 +1,56 @@
+CREATE TABLE "money_account_transfers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"from_account_id" varchar NOT NULL,
+	"to_account_id" varchar NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" timestamp NOT NULL,
+	"description" varchar(500),
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "money_accounts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"kind" varchar(20) DEFAULT 'cash' NOT NULL,
+	"description" varchar(500),
+	"initial_balance" numeric(12, 2) DEFAULT '0',
+	"is_active" boolean DEFAULT true,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "costs" ADD COLUMN "money_account_id" varchar;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD COLUMN "money_account_id" varchar;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD COLUMN "money_account_transfer_id" varchar;--> statement-breakpoint
+ALTER TABLE "receipts" ADD COLUMN "money_account_id" varchar;--> statement-breakpoint
+ALTER TABLE "money_account_transfers" ADD CONSTRAINT "money_account_transfers_from_account_id_money_accounts_id_fk" FOREIGN KEY ("from_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "money_account_transfers" ADD CONSTRAINT "money_account_transfers_to_account_id_money_accounts_id_fk" FOREIGN KEY ("to_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "money_account_transfers" ADD CONSTRAINT "money_account_transfers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "money_accounts" ADD CONSTRAINT "money_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "costs" ADD CONSTRAINT "costs_money_account_id_money_accounts_id_fk" FOREIGN KEY ("money_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_money_account_id_money_accounts_id_fk" FOREIGN KEY ("money_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_money_account_transfer_id_money_account_transfers_id_fk" FOREIGN KEY ("money_account_transfer_id") REFERENCES "public"."money_account_transfers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_money_account_id_money_accounts_id_fk" FOREIGN KEY ("money_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Backfill: every user with data gets a main account holding the existing receipts and costs,
+-- its opening balance matches the fund opening balances, so accounts equal funds plus unallocated
+INSERT INTO "money_accounts" ("name", "kind", "initial_balance", "user_id")
+SELECT 'Основной счет', 'bank', COALESCE((SELECT sum(f."initial_balance") FROM "funds" f WHERE f."user_id" = u."user_id"), 0), u."user_id"
+FROM (
+  SELECT "user_id" FROM "funds"
+  UNION SELECT "user_id" FROM "receipts"
+  UNION SELECT "user_id" FROM "costs"
+) u;--> statement-breakpoint
+UPDATE "receipts" r SET "money_account_id" = a."id" FROM "money_accounts" a WHERE a."user_id" = r."user_id";--> statement-breakpoint
+UPDATE "costs" c SET "money_account_id" = a."id" FROM "money_accounts" a WHERE a."user_id" = c."user_id";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "receipt_id")
+SELECT "user_id", "date", 'money:' || "money_account_id", 'money_in', "amount", 'receipt', "id" FROM "receipts";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "cost_id")
+SELECT "user_id", "date", 'money_out', 'money:' || "money_account_id", "total_amount", 'cost', "id" FROM "costs";--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "money_account_id")
+SELECT "user_id", timestamp '1970-01-01 00:00:00',
+  CASE WHEN "initial_balance" > 0 THEN 'money:' || "id" ELSE 'money_opening' END,
+  CASE WHEN "initial_balance" > 0 THEN 'money_opening' ELSE 'money:' || "id" END,
+  abs("initial_balance"), 'money_account_opening', "id"
+FROM "money_accounts" WHERE COALESCE("initial_balance", 0) <> 0;
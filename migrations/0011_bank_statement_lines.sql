@@ -0,0 +1,23 @@
+CREATE TABLE "bank_statement_lines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"money_account_id" varchar,
+	"external_id" varchar(255) NOT NULL,
+	"direction" varchar(10) NOT NULL,
+	"document_number" varchar(50),
+	"date" timestamp NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"counterparty_name" varchar(500),
+	"counterparty_inn" varchar(12),
+	"counterparty_account" varchar(34),
+	"purpose" varchar(1000),
+	"receipt_id" varchar,
+	"cost_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_money_account_id_money_accounts_id_fk" FOREIGN KEY ("money_account_id") REFERENCES "public"."money_accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_receipt_id_receipts_id_fk" FOREIGN KEY ("receipt_id") REFERENCES "public"."receipts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_cost_id_costs_id_fk" FOREIGN KEY ("cost_id") REFERENCES "public"."costs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_bank_statement_lines_external" ON "bank_statement_lines" USING btree ("user_id","external_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "import_mappings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"columns" jsonb NOT NULL,
+	"date_format" varchar(20),
+	"decimal_separator" varchar(1),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "import_mappings" ADD CONSTRAINT "import_mappings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "expense_categories" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "expense_categories" ADD CONSTRAINT "expense_categories_parent_id_expense_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."expense_categories"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
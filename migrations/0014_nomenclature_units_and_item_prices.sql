@@ -0,0 +1,3 @@
+ALTER TABLE "cost_items" ADD COLUMN "quantity" numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "cost_items" ADD COLUMN "unit_price" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "expense_nomenclature" ADD COLUMN "unit" varchar(20);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "expense_nomenclature" ADD COLUMN "expense_category_id" varchar;--> statement-breakpoint
+ALTER TABLE "expense_nomenclature" ADD COLUMN "fund_id" varchar;--> statement-breakpoint
+ALTER TABLE "expense_nomenclature" ADD CONSTRAINT "expense_nomenclature_expense_category_id_expense_categories_id_fk" FOREIGN KEY ("expense_category_id") REFERENCES "public"."expense_categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_nomenclature" ADD CONSTRAINT "expense_nomenclature_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
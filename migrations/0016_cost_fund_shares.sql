@@ -0,0 +1,12 @@
+CREATE TABLE "cost_fund_shares" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cost_id" varchar NOT NULL,
+	"fund_id" varchar NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"percentage" numeric(5, 2),
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "cost_fund_shares" ADD CONSTRAINT "cost_fund_shares_cost_id_costs_id_fk" FOREIGN KEY ("cost_id") REFERENCES "public"."costs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cost_fund_shares" ADD CONSTRAINT "cost_fund_shares_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
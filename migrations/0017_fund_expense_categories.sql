@@ -0,0 +1,9 @@
+CREATE TABLE "fund_expense_categories" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fund_id" varchar NOT NULL,
+	"expense_category_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "fund_expense_categories" ADD CONSTRAINT "fund_expense_categories_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fund_expense_categories" ADD CONSTRAINT "fund_expense_categories_expense_category_id_expense_categories_id_fk" FOREIGN KEY ("expense_category_id") REFERENCES "public"."expense_categories"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "distribution_history" ADD COLUMN "sequence" serial NOT NULL;--> statement-breakpoint
+-- Existing runs are numbered in the order they were recorded
+UPDATE "distribution_history" SET "sequence" = "ordered"."position"
+FROM (SELECT "id", row_number() OVER (ORDER BY "distribution_date", "created_at", "id") AS "position" FROM "distribution_history") AS "ordered"
+WHERE "distribution_history"."id" = "ordered"."id";--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('distribution_history', 'sequence'), COALESCE((SELECT MAX("sequence") FROM "distribution_history"), 0) + 1, false);
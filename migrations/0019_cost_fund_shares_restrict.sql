@@ -0,0 +1,3 @@
+ALTER TABLE "cost_fund_shares" DROP CONSTRAINT "cost_fund_shares_fund_id_funds_id_fk";
+--> statement-breakpoint
+ALTER TABLE "cost_fund_shares" ADD CONSTRAINT "cost_fund_shares_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,47 @@
+-- Backfill: receipts and costs without an account move to the user's first account; users
+-- without accounts get a main account whose opening balance matches the fund opening balances
+INSERT INTO "money_accounts" ("name", "kind", "initial_balance", "user_id")
+SELECT 'Основной счет', 'bank', COALESCE((SELECT sum(f."initial_balance") FROM "funds" f WHERE f."user_id" = u."user_id"), 0), u."user_id"
+FROM (
+  SELECT "user_id" FROM "receipts" WHERE "money_account_id" IS NULL
+  UNION SELECT "user_id" FROM "costs" WHERE "money_account_id" IS NULL
+) u
+WHERE NOT EXISTS (SELECT 1 FROM "money_accounts" a WHERE a."user_id" = u."user_id");--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "money_account_id")
+SELECT "user_id", timestamp '1970-01-01 00:00:00',
+  CASE WHEN "initial_balance" > 0 THEN 'money:' || "id" ELSE 'money_opening' END,
+  CASE WHEN "initial_balance" > 0 THEN 'money_opening' ELSE 'money:' || "id" END,
+  abs("initial_balance"), 'money_account_opening', "id"
+FROM "money_accounts" a
+WHERE COALESCE(a."initial_balance", 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM "ledger_entries" e WHERE e."money_account_id" = a."id");--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "receipt_id")
+SELECT r."user_id", r."date", 'money:' || a."id", 'money_in', r."amount", 'receipt', r."id"
+FROM "receipts" r
+JOIN (
+  SELECT DISTINCT ON ("user_id") "user_id", "id" FROM "money_accounts"
+  ORDER BY "user_id", "is_active" DESC NULLS LAST, "created_at", "id"
+) a ON a."user_id" = r."user_id"
+WHERE r."money_account_id" IS NULL;--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "date", "debit_account", "credit_account", "amount", "source_type", "cost_id")
+SELECT c."user_id", c."date", 'money_out', 'money:' || a."id", c."total_amount", 'cost', c."id"
+FROM "costs" c
+JOIN (
+  SELECT DISTINCT ON ("user_id") "user_id", "id" FROM "money_accounts"
+  ORDER BY "user_id", "is_active" DESC NULLS LAST, "created_at", "id"
+) a ON a."user_id" = c."user_id"
+WHERE c."money_account_id" IS NULL;--> statement-breakpoint
+UPDATE "receipts" r SET "money_account_id" = a."id"
+FROM (
+  SELECT DISTINCT ON ("user_id") "user_id", "id" FROM "money_accounts"
+  ORDER BY "user_id", "is_active" DESC NULLS LAST, "created_at", "id"
+) a
+WHERE a."user_id" = r."user_id" AND r."money_account_id" IS NULL;--> statement-breakpoint
+UPDATE "costs" c SET "money_account_id" = a."id"
+FROM (
+  SELECT DISTINCT ON ("user_id") "user_id", "id" FROM "money_accounts"
+  ORDER BY "user_id", "is_active" DESC NULLS LAST, "created_at", "id"
+) a
+WHERE a."user_id" = c."user_id" AND c."money_account_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "costs" ALTER COLUMN "money_account_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "receipts" ALTER COLUMN "money_account_id" SET NOT NULL;
@@ -0,0 +1,292 @@
+/**
+ * Сверка банковских выписок с документами для LakshmiApp
+ *
+ * Строка выписки сверена, когда она связана с поступлением (деньги на счет)
+ * или расходом (деньги со счета) - через receiptId/costId в bank_statement_lines.
+ * Строки, загруженные импортом как новые документы, сверены сразу; остальные
+ * сопоставляются с документами, введенными вручную.
+ *
+ * Кандидат для строки - несверенный документ того же направления с той же суммой,
+ * датой в пределах RECONCILIATION_DATE_TOLERANCE_DAYS и тем же счетом (если счет
+ * указан с обеих сторон). Автосверка связывает пару, только если выбор однозначен
+ * с обеих сторон; остальное пользователь сопоставляет вручную.
+ */
+
+import type { BankStatementDirection, BankStatementLine } from "@shared/schema";
+import { toKopecks } from "@shared/money";
+import { normalizeCounterpartyName } from "./clientBankExchange";
+import type { BankStatementLineDocument } from "./storage";
+
+/** Банк проводит платеж в пределах нескольких дней от даты документа */
+export const RECONCILIATION_DATE_TOLERANCE_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReconciliationStatus = "matched" | "unmatched";
+export type ReconciliationDocumentKind = "receipt" | "cost";
+
+/** Поступление или расход, которые могут быть в выписке */
+export interface ReconciliationDocument {
+  kind: ReconciliationDocumentKind;
+  id: string;
+  date: Date;
+  amount: string;
+  label: string;                        // Описание поступления или номенклатура расхода
+  counterparties: string[];             // Спонсоры и плательщики поступления, описания позиций расхода
+  moneyAccountId: string | null;
+}
+
+export interface ReconciliationDocumentSummary {
+  kind: ReconciliationDocumentKind;
+  id: string;
+  date: Date;
+  amount: string;
+  label: string;
+}
+
+export interface ReconciliationCandidate extends ReconciliationDocumentSummary {
+  counterpartyMatch: boolean;
+}
+
+export interface ReconciliationLine {
+  id: string;
+  direction: BankStatementDirection;
+  documentNumber: string | null;
+  date: Date;
+  amount: string;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  purpose: string | null;
+  moneyAccountId: string | null;
+  status: ReconciliationStatus;
+  document: ReconciliationDocumentSummary | null;
+  candidates: ReconciliationCandidate[];  // Только у несверенных строк
+}
+
+export interface ReconciliationDocumentRow extends ReconciliationDocumentSummary {
+  moneyAccountId: string | null;
+  status: ReconciliationStatus;
+  bankStatementLineId: string | null;
+}
+
+export interface BankReconciliation {
+  dateFrom: Date;
+  dateTo: Date;
+  moneyAccountId: string | null;
+  lines: ReconciliationLine[];
+  receipts: ReconciliationDocumentRow[];
+  costs: ReconciliationDocumentRow[];
+}
+
+export interface BankReconciliationPeriod {
+  dateFrom: Date;
+  dateTo: Date;
+  moneyAccountId?: string | null;
+}
+
+export interface BankStatementAutoMatch {
+  lineId: string;
+  document: BankStatementLineDocument;
+}
+
+function documentKey(kind: ReconciliationDocumentKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function lineDocumentKey(line: BankStatementLine): string | null {
+  if (line.receiptId) return documentKey("receipt", line.receiptId);
+  if (line.costId) return documentKey("cost", line.costId);
+  return null;
+}
+
+function directionOf(kind: ReconciliationDocumentKind): BankStatementDirection {
+  return kind === "receipt" ? "incoming" : "outgoing";
+}
+
+function summary(document: ReconciliationDocument): ReconciliationDocumentSummary {
+  return { kind: document.kind, id: document.id, date: document.date, amount: document.amount, label: document.label };
+}
+
+function withinPeriod(date: Date, period: BankReconciliationPeriod): boolean {
+  const time = new Date(date).getTime();
+  return time >= period.dateFrom.getTime() && time <= period.dateTo.getTime();
+}
+
+/** Счет строки и документа не противоречат друг другу */
+function sameAccount(line: { moneyAccountId: string | null }, document: { moneyAccountId: string | null }): boolean {
+  return !line.moneyAccountId || !document.moneyAccountId || line.moneyAccountId === document.moneyAccountId;
+}
+
+/** Контрагент строки совпадает со спонсором, плательщиком или описанием документа */
+function counterpartyMatches(line: BankStatementLine, document: ReconciliationDocument): boolean {
+  const name = normalizeCounterpartyName(line.counterpartyName);
+  if (name.length < 3) return false;
+  return document.counterparties.some(counterparty => {
+    const other = normalizeCounterpartyName(counterparty);
+    return other.length >= 3 && (other === name || name.includes(other) || other.includes(name));
+  });
+}
+
+function isCandidate(line: BankStatementLine, document: ReconciliationDocument): boolean {
+  return directionOf(document.kind) === line.direction
+    && toKopecks(document.amount) === toKopecks(line.amount)
+    && Math.abs(new Date(document.date).getTime() - new Date(line.date).getTime()) <= RECONCILIATION_DATE_TOLERANCE_DAYS * DAY_MS
+    && sameAccount(line, document);
+}
+
+/** Документы, с которыми уже сверены строки выписок */
+function matchedDocuments(lines: BankStatementLine[]): Map<string, string> {
+  const matched = new Map<string, string>();
+  for (const line of lines) {
+    const key = lineDocumentKey(line);
+    if (key) matched.set(key, line.id);
+  }
+  return matched;
+}
+
+/**
+ * Несверенные документы, подходящие строке: сначала с совпавшим контрагентом, затем по близости даты
+ */
+function findCandidates(
+  line: BankStatementLine,
+  documents: ReconciliationDocument[],
+  matched: Map<string, string>,
+): ReconciliationCandidate[] {
+  const distance = (date: Date) => Math.abs(new Date(date).getTime() - new Date(line.date).getTime());
+  return documents
+    .filter(document => !matched.has(documentKey(document.kind, document.id)) && isCandidate(line, document))
+    .map(document => ({ ...summary(document), counterpartyMatch: counterpartyMatches(line, document) }))
+    .sort((a, b) => Number(b.counterpartyMatch) - Number(a.counterpartyMatch) || distance(a.date) - distance(b.date));
+}
+
+/** Единственный подходящий документ: единственный с совпавшим контрагентом или единственный вообще */
+function uniqueCandidate(candidates: ReconciliationCandidate[]): ReconciliationCandidate | null {
+  const byCounterparty = candidates.filter(candidate => candidate.counterpartyMatch);
+  if (byCounterparty.length === 1) return byCounterparty[0];
+  if (byCounterparty.length === 0 && candidates.length === 1) return candidates[0];
+  return null;
+}
+
+/**
+ * Сверка за период: строки выписок и документы со статусами
+ *
+ * lines - все строки пользователя (связи вне периода тоже учитываются),
+ * documents - документы, которые могут быть в выписке.
+ */
+export function buildBankReconciliation(
+  lines: BankStatementLine[],
+  documents: ReconciliationDocument[],
+  period: BankReconciliationPeriod,
+): BankReconciliation {
+  const moneyAccountId = period.moneyAccountId ?? null;
+  const matched = matchedDocuments(lines);
+  const documentsByKey = new Map(documents.map(document => [documentKey(document.kind, document.id), document]));
+
+  const periodLines = lines
+    .filter(line => withinPeriod(line.date, period) && (!moneyAccountId || line.moneyAccountId === moneyAccountId))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const reconciliationLines = periodLines.map((line): ReconciliationLine => {
+    const key = lineDocumentKey(line);
+    const document = key ? documentsByKey.get(key) : undefined;
+    return {
+      id: line.id,
+      direction: line.direction as BankStatementDirection,
+      documentNumber: line.documentNumber,
+      date: line.date,
+      amount: line.amount,
+      counterpartyName: line.counterpartyName,
+      counterpartyInn: line.counterpartyInn,
+      purpose: line.purpose,
+      moneyAccountId: line.moneyAccountId,
+      status: key ? "matched" : "unmatched",
+      document: document ? summary(document) : null,
+      candidates: key ? [] : findCandidates(line, documents, matched),
+    };
+  });
+
+  const documentRows = (kind: ReconciliationDocumentKind) => documents
+    .filter(document =>
+      document.kind === kind
+      && withinPeriod(document.date, period)
+      && (!moneyAccountId || !document.moneyAccountId || document.moneyAccountId === moneyAccountId)
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((document): ReconciliationDocumentRow => {
+      const lineId = matched.get(documentKey(document.kind, document.id)) ?? null;
+      return {
+        ...summary(document),
+        moneyAccountId: document.moneyAccountId,
+        status: lineId ? "matched" : "unmatched",
+        bankStatementLineId: lineId,
+      };
+    });
+
+  return {
+    dateFrom: period.dateFrom,
+    dateTo: period.dateTo,
+    moneyAccountId,
+    lines: reconciliationLines,
+    receipts: documentRows("receipt"),
+    costs: documentRows("cost"),
+  };
+}
+
+/**
+ * Однозначные пары строка-документ для автосверки
+ *
+ * Документ достается строке, только если он единственный подходящий для нее
+ * и ни одна другая строка периода не выбрала его же.
+ */
+export function autoMatchBankStatementLines(
+  lines: BankStatementLine[],
+  documents: ReconciliationDocument[],
+  period: BankReconciliationPeriod,
+): BankStatementAutoMatch[] {
+  const reconciliation = buildBankReconciliation(lines, documents, period);
+  const picks = reconciliation.lines
+    .filter(line => line.status === "unmatched")
+    .map(line => ({ lineId: line.id, candidate: uniqueCandidate(line.candidates) }))
+    .filter((pick): pick is { lineId: string; candidate: ReconciliationCandidate } => pick.candidate !== null);
+
+  const picksPerDocument = new Map<string, number>();
+  for (const pick of picks) {
+    const key = documentKey(pick.candidate.kind, pick.candidate.id);
+    picksPerDocument.set(key, (picksPerDocument.get(key) ?? 0) + 1);
+  }
+
+  return picks
+    .filter(pick => picksPerDocument.get(documentKey(pick.candidate.kind, pick.candidate.id)) === 1)
+    .map(pick => ({
+      lineId: pick.lineId,
+      document: {
+        receiptId: pick.candidate.kind === "receipt" ? pick.candidate.id : null,
+        costId: pick.candidate.kind === "cost" ? pick.candidate.id : null,
+      },
+    }));
+}
+
+/**
+ * Проверка ручной сверки; возвращает текст ошибки или null
+ */
+export function checkBankStatementMatch(
+  line: BankStatementLine,
+  document: ReconciliationDocument,
+  lines: BankStatementLine[],
+): string | null {
+  if (lineDocumentKey(line)) {
+    return "Statement line is already matched";
+  }
+  if (directionOf(document.kind) !== line.direction) {
+    return line.direction === "incoming"
+      ? "Incoming statement line can only be matched with a receipt"
+      : "Outgoing statement line can only be matched with a cost";
+  }
+  if (toKopecks(document.amount) !== toKopecks(line.amount)) {
+    return "Statement line and document amounts differ";
+  }
+  if (matchedDocuments(lines).has(documentKey(document.kind, document.id))) {
+    return "Document is already matched with another statement line";
+  }
+  return null;
+}
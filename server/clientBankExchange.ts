@@ -0,0 +1,366 @@
+/**
+ * Импорт банковских выписок в формате 1CClientBankExchange для LakshmiApp
+ *
+ * Банк выгружает выписку текстовым файлом из строк "Ключ=Значение":
+ * заголовок, секции СекцияРасчСчет ... КонецРасчСчет с остатками по счету
+ * и по одной секции СекцияДокумент=<вид> ... КонецДокумента на каждый платеж.
+ *
+ * Платеж, в котором наш счет - счет получателя, становится черновиком поступления,
+ * а платеж с нашего счета - черновиком расхода. Источник, спонсор, номенклатура,
+ * статья и фонд подсказываются по прошлым импортированным строкам того же контрагента.
+ * Документы создаются только после подтверждения пользователем.
+ */
+
+import type { BankStatementDirection, MoneyAccount, Sponsor } from "@shared/schema";
+import { normalizeMoney } from "@shared/money";
+import type { BankStatementLineWithDocument } from "./storage";
+
+/** Файл не является выпиской 1CClientBankExchange или содержит некорректный документ */
+export class ClientBankExchangeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClientBankExchangeParseError";
+  }
+}
+
+/** Платежный документ выписки */
+export interface ClientBankExchangeDocument {
+  documentType: string;                 // Платежное поручение, Банковский ордер...
+  number: string | null;
+  date: Date;
+  amount: string;
+  payerAccount: string | null;
+  payerName: string | null;
+  payerInn: string | null;
+  recipientAccount: string | null;
+  recipientName: string | null;
+  recipientInn: string | null;
+  purpose: string | null;
+  debitedDate: Date | null;             // ДатаСписано - списано с нашего счета
+  creditedDate: Date | null;            // ДатаПоступило - зачислено на наш счет
+}
+
+export interface ClientBankExchangeStatement {
+  accounts: string[];                   // Наши расчетные счета из заголовка и секций РасчСчет
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  documents: ClientBankExchangeDocument[];
+}
+
+const FORMAT_HEADER = "1CClientBankExchange";
+
+/**
+ * Дата в формате ДД.ММ.ГГГГ
+ * @returns null для пустого значения
+ * @throws ClientBankExchangeParseError если дата некорректна
+ */
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = /^(\d{2})\.(\d{2})\.(\d{4})$/.exec(value);
+  if (!match) {
+    throw new ClientBankExchangeParseError(`Invalid date "${value}"`);
+  }
+  const [, day, month, year] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCDate() !== Number(day) || date.getUTCMonth() !== Number(month) - 1) {
+    throw new ClientBankExchangeParseError(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Наименование стороны платежа
+ *
+ * Плательщик1/Получатель1 содержат чистое наименование, а в Плательщик/Получатель
+ * банк часто дописывает ИНН впереди: "ИНН 7701234567 ООО Ромашка".
+ */
+function partyName(fields: Map<string, string>, prefix: "Плательщик" | "Получатель"): string | null {
+  const name = fields.get(`${prefix}1`) || fields.get(prefix)?.replace(/^ИНН\s+\d+\s+/, "");
+  return name?.trim() || null;
+}
+
+function toDocument(documentType: string, fields: Map<string, string>): ClientBankExchangeDocument {
+  const number = fields.get("Номер") || null;
+  const date = parseDate(fields.get("Дата"));
+  if (!date) {
+    throw new ClientBankExchangeParseError(`Document ${number ?? "without number"} has no date`);
+  }
+
+  let amount: string;
+  try {
+    amount = normalizeMoney(fields.get("Сумма") ?? "");
+  } catch {
+    throw new ClientBankExchangeParseError(`Document ${number ?? "without number"} has invalid amount "${fields.get("Сумма") ?? ""}"`);
+  }
+  if (Number(amount) <= 0) {
+    throw new ClientBankExchangeParseError(`Document ${number ?? "without number"} has non-positive amount`);
+  }
+
+  return {
+    documentType,
+    number,
+    date,
+    amount,
+    payerAccount: fields.get("ПлательщикСчет") || fields.get("ПлательщикРасчСчет") || null,
+    payerName: partyName(fields, "Плательщик"),
+    payerInn: fields.get("ПлательщикИНН") || null,
+    recipientAccount: fields.get("ПолучательСчет") || fields.get("ПолучательРасчСчет") || null,
+    recipientName: partyName(fields, "Получатель"),
+    recipientInn: fields.get("ПолучательИНН") || null,
+    purpose: fields.get("НазначениеПлатежа") || null,
+    debitedDate: parseDate(fields.get("ДатаСписано")),
+    creditedDate: parseDate(fields.get("ДатаПоступило")),
+  };
+}
+
+/**
+ * Разбор выписки 1CClientBankExchange
+ *
+ * Текст должен быть уже декодирован (банки обычно выгружают файл в Windows-1251,
+ * его перекодирует клиент). Неизвестные ключи пропускаются.
+ *
+ * @throws ClientBankExchangeParseError если файл не является выпиской или документ некорректен
+ */
+export function parseClientBankExchange(content: string): ClientBankExchangeStatement {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).map(line => line.trim());
+  if (lines[0] !== FORMAT_HEADER) {
+    throw new ClientBankExchangeParseError(`File does not start with ${FORMAT_HEADER}`);
+  }
+
+  const accounts = new Set<string>();
+  const documents: ClientBankExchangeDocument[] = [];
+  let dateFrom: Date | null = null;
+  let dateTo: Date | null = null;
+  // Поля текущего документа; null - вне секции документа
+  let documentType = "";
+  let documentFields: Map<string, string> | null = null;
+
+  for (const line of lines.slice(1)) {
+    if (!line) continue;
+    if (line === "КонецФайла") break;
+
+    if (line === "КонецДокумента") {
+      if (!documentFields) {
+        throw new ClientBankExchangeParseError("КонецДокумента without СекцияДокумент");
+      }
+      documents.push(toDocument(documentType, documentFields));
+      documentFields = null;
+      continue;
+    }
+    if (line === "СекцияРасчСчет" || line === "КонецРасчСчет") continue;
+
+    const separator = line.indexOf("=");
+    if (separator < 0) continue;
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "СекцияДокумент") {
+      if (documentFields) {
+        throw new ClientBankExchangeParseError("СекцияДокумент without КонецДокумента");
+      }
+      documentType = value;
+      documentFields = new Map();
+    } else if (documentFields) {
+      documentFields.set(key, value);
+    } else if (key === "РасчСчет" && value) {
+      accounts.add(value);
+    } else if (key === "ДатаНачала") {
+      dateFrom = parseDate(value) ?? dateFrom;
+    } else if (key === "ДатаКонца") {
+      dateTo = parseDate(value) ?? dateTo;
+    }
+  }
+
+  if (documentFields) {
+    throw new ClientBankExchangeParseError("File ends inside a document section");
+  }
+
+  return { accounts: Array.from(accounts), dateFrom, dateTo, documents };
+}
+
+/**
+ * Направление платежа относительно наших счетов
+ *
+ * Сначала сравниваются счета плательщика и получателя, затем даты списания и зачисления.
+ * @returns null, если платеж не относится к нашим счетам
+ */
+export function documentDirection(document: ClientBankExchangeDocument, accounts: string[]): BankStatementDirection | null {
+  const ours = new Set(accounts);
+  const fromOurs = document.payerAccount !== null && ours.has(document.payerAccount);
+  const toOurs = document.recipientAccount !== null && ours.has(document.recipientAccount);
+  if (toOurs && !fromOurs) return "incoming";
+  if (fromOurs && !toOurs) return "outgoing";
+  if (ours.size === 0 || (fromOurs && toOurs)) {
+    if (document.creditedDate && !document.debitedDate) return "incoming";
+    if (document.debitedDate && !document.creditedDate) return "outgoing";
+  }
+  return null;
+}
+
+/** Черновик поступления или расхода из строки выписки с подсказками */
+export interface BankImportDraft {
+  externalId: string;
+  direction: BankStatementDirection;
+  documentNumber: string | null;
+  date: Date;
+  amount: string;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  counterpartyAccount: string | null;
+  purpose: string | null;
+  duplicate: boolean;                   // Строка уже импортирована раньше
+  incomeSourceId: string | null;
+  sponsorId: string | null;
+  expenseNomenclatureId: string | null;
+  expenseCategoryId: string | null;
+  fundId: string | null;
+  suggestedFrom: "history" | "sponsor" | null;
+}
+
+export interface BankImportPreview {
+  accounts: string[];
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  moneyAccountId: string | null;        // Счет, на который предлагается загрузить выписку
+  drafts: BankImportDraft[];
+  ignoredDocuments: number;             // Платежи, не относящиеся к счетам выписки
+}
+
+/**
+ * Ключ строки выписки для защиты от повторного импорта
+ */
+export function bankLineExternalId(
+  account: string,
+  line: Pick<BankImportDraft, "direction" | "documentNumber" | "date" | "amount">,
+): string {
+  return [account, line.direction, line.documentNumber ?? "", line.date.toISOString().slice(0, 10), line.amount].join(":");
+}
+
+/** Имя контрагента без кавычек, регистра и лишних пробелов */
+export function normalizeCounterpartyName(name: string | null): string {
+  return (name ?? "").toLowerCase().replace(/["«»']/g, "").replace(/\s+/g, " ").trim();
+}
+
+/** Контрагент узнается по ИНН, без него - по наименованию */
+function counterpartyKey(line: { counterpartyInn: string | null; counterpartyName: string | null }): string | null {
+  const inn = line.counterpartyInn?.replace(/\D/g, "");
+  if (inn && Number(inn) > 0) return `inn:${inn}`;
+  const name = normalizeCounterpartyName(line.counterpartyName);
+  return name ? `name:${name}` : null;
+}
+
+/**
+ * Счет, на который предлагается загрузить выписку
+ *
+ * Активный счет, в названии или описании которого указан номер расчетного счета,
+ * иначе единственный активный банковский счет.
+ */
+function suggestMoneyAccount(statementAccounts: string[], moneyAccounts: MoneyAccount[]): string | null {
+  const active = moneyAccounts.filter(account => account.isActive);
+  const byNumber = active.find(account =>
+    statementAccounts.some(number => `${account.name} ${account.description ?? ""}`.includes(number))
+  );
+  if (byNumber) return byNumber.id;
+  const bankAccounts = active.filter(account => account.kind === "bank");
+  return bankAccounts.length === 1 ? bankAccounts[0].id : null;
+}
+
+/**
+ * Черновики поступлений и расходов по выписке
+ *
+ * @param history - Ранее импортированные строки, от новых к старым
+ */
+export function buildBankImportPreview(
+  statement: ClientBankExchangeStatement,
+  context: { history: BankStatementLineWithDocument[]; sponsors: Sponsor[]; moneyAccounts: MoneyAccount[] },
+): BankImportPreview {
+  const importedIds = new Set(context.history.map(line => line.externalId));
+
+  // Последний документ контрагента по каждому направлению
+  const lastMatches = new Map<string, BankStatementLineWithDocument>();
+  for (const line of context.history) {
+    if (!line.receiptId && !line.costId) continue;
+    const key = counterpartyKey(line);
+    if (key && !lastMatches.has(`${line.direction}:${key}`)) {
+      lastMatches.set(`${line.direction}:${key}`, line);
+    }
+  }
+  const sponsorsByName = new Map(
+    context.sponsors.filter(sponsor => sponsor.isActive !== false).map(sponsor => [normalizeCounterpartyName(sponsor.name), sponsor])
+  );
+
+  const drafts: BankImportDraft[] = [];
+  let ignoredDocuments = 0;
+  for (const document of statement.documents) {
+    const direction = documentDirection(document, statement.accounts);
+    if (!direction) {
+      ignoredDocuments++;
+      continue;
+    }
+    const incoming = direction === "incoming";
+    const draft: BankImportDraft = {
+      externalId: "",
+      direction,
+      documentNumber: document.number,
+      date: (incoming ? document.creditedDate : document.debitedDate) ?? document.date,
+      amount: document.amount,
+      counterpartyName: incoming ? document.payerName : document.recipientName,
+      counterpartyInn: incoming ? document.payerInn : document.recipientInn,
+      counterpartyAccount: incoming ? document.payerAccount : document.recipientAccount,
+      purpose: document.purpose,
+      duplicate: false,
+      incomeSourceId: null,
+      sponsorId: null,
+      expenseNomenclatureId: null,
+      expenseCategoryId: null,
+      fundId: null,
+      suggestedFrom: null,
+    };
+    const ourAccount = (incoming ? document.recipientAccount : document.payerAccount) ?? statement.accounts[0] ?? "";
+    draft.externalId = bankLineExternalId(ourAccount, draft);
+    draft.duplicate = importedIds.has(draft.externalId);
+
+    const key = counterpartyKey(draft);
+    const match = key ? lastMatches.get(`${direction}:${key}`) : undefined;
+    if (match) {
+      draft.incomeSourceId = match.incomeSourceId;
+      draft.sponsorId = match.sponsorId;
+      draft.expenseNomenclatureId = match.expenseNomenclatureId;
+      draft.expenseCategoryId = match.expenseCategoryId;
+      draft.fundId = match.fundId;
+      draft.suggestedFrom = "history";
+    } else if (incoming) {
+      const sponsor = sponsorsByName.get(normalizeCounterpartyName(draft.counterpartyName));
+      if (sponsor) {
+        draft.sponsorId = sponsor.id;
+        draft.suggestedFrom = "sponsor";
+      }
+    }
+    drafts.push(draft);
+  }
+
+  return {
+    accounts: statement.accounts,
+    dateFrom: statement.dateFrom,
+    dateTo: statement.dateTo,
+    moneyAccountId: suggestMoneyAccount(statement.accounts, context.moneyAccounts),
+    drafts,
+    ignoredDocuments,
+  };
+}
+
+/**
+ * Описание поступления или расхода по строке выписки
+ */
+export function bankLineDescription(line: { purpose?: string | null; counterpartyName?: string | null }): string {
+  return (line.purpose || line.counterpartyName || "Платеж по банковской выписке").slice(0, 500);
+}
+
+/** Итог подтверждения строки выписки */
+export interface BankImportResult {
+  externalId: string;
+  status: "created" | "skipped" | "duplicate" | "failed";
+  receiptId?: string;
+  costId?: string;
+  message?: string;                     // Причина ошибки, например нехватка средств в фонде
+}
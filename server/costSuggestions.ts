@@ -0,0 +1,87 @@
+/**
+ * Подсказка статьи и фонда для нового расхода в LakshmiApp
+ *
+ * Статья и фонд по умолчанию, заданные в номенклатуре, подставляются всегда.
+ * Чего в номенклатуре нет, подбирается по прошлым расходам с той же номенклатурой:
+ * самое частое сочетание статьи и фонда, при равенстве - более свежее.
+ * Прошлые расходы, противоречащие заданному в номенклатуре, не учитываются,
+ * неактивные статьи и фонды не предлагаются.
+ */
+
+import type { Cost, ExpenseNomenclature } from "@shared/schema";
+
+/** Откуда взято значение подсказки */
+export type CostSuggestionSource = "nomenclature" | "history";
+
+export interface CostSuggestion {
+  expenseNomenclatureId: string;
+  expenseCategoryId: string | null;
+  fundId: string | null;
+  sources: {
+    expenseCategoryId: CostSuggestionSource | null;
+    fundId: CostSuggestionSource | null;
+  };
+  historyCount: number;                 // Прошлых расходов с подобранным сочетанием
+}
+
+/** Статьи и фонды, которые можно предлагать */
+export interface CostSuggestionOptions {
+  activeExpenseCategoryIds: Set<string>;
+  activeFundIds: Set<string>;
+}
+
+type PastCost = Pick<Cost, "date" | "expenseNomenclatureId" | "expenseCategoryId" | "fundId">;
+
+/**
+ * Подсказка для расхода по номенклатуре
+ *
+ * @param nomenclature - Номенклатура со статьей и фондом по умолчанию
+ * @param costs - Прошлые расходы пользователя
+ */
+export function suggestCostDefaults(
+  nomenclature: Pick<ExpenseNomenclature, "id" | "expenseCategoryId" | "fundId">,
+  costs: PastCost[],
+  options: CostSuggestionOptions,
+): CostSuggestion {
+  const defaultCategoryId = nomenclature.expenseCategoryId && options.activeExpenseCategoryIds.has(nomenclature.expenseCategoryId)
+    ? nomenclature.expenseCategoryId
+    : null;
+  const defaultFundId = nomenclature.fundId && options.activeFundIds.has(nomenclature.fundId)
+    ? nomenclature.fundId
+    : null;
+
+  const combinations = new Map<string, { expenseCategoryId: string; fundId: string; count: number; lastDate: number }>();
+  for (const cost of costs) {
+    if (cost.expenseNomenclatureId !== nomenclature.id) continue;
+    if (!options.activeExpenseCategoryIds.has(cost.expenseCategoryId) || !options.activeFundIds.has(cost.fundId)) continue;
+    if ((defaultCategoryId && cost.expenseCategoryId !== defaultCategoryId) || (defaultFundId && cost.fundId !== defaultFundId)) continue;
+
+    const key = `${cost.expenseCategoryId}:${cost.fundId}`;
+    const date = new Date(cost.date).getTime();
+    const combination = combinations.get(key);
+    combinations.set(key, {
+      expenseCategoryId: cost.expenseCategoryId,
+      fundId: cost.fundId,
+      count: (combination?.count ?? 0) + 1,
+      lastDate: Math.max(combination?.lastDate ?? date, date),
+    });
+  }
+
+  const best = Array.from(combinations.values())
+    .sort((a, b) => b.count - a.count || b.lastDate - a.lastDate)[0];
+
+  const pick = (defaultId: string | null, historyId: string | undefined) => ({
+    id: defaultId ?? historyId ?? null,
+    source: defaultId ? "nomenclature" as const : historyId ? "history" as const : null,
+  });
+  const category = pick(defaultCategoryId, best?.expenseCategoryId);
+  const fund = pick(defaultFundId, best?.fundId);
+
+  return {
+    expenseNomenclatureId: nomenclature.id,
+    expenseCategoryId: category.id,
+    fundId: fund.id,
+    sources: { expenseCategoryId: category.source, fundId: fund.source },
+    historyCount: best?.count ?? 0,
+  };
+}
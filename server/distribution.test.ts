@@ -0,0 +1,183 @@
+/**
+ * Расчет распределения поступлений по фондам: доли, лимиты, округление,
+ * версии правил и корректировки устаревших распределений
+ *
+ * Запуск: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { IncomeSourceFundDistribution, Receipt } from "@shared/schema";
+import { fromKopecks } from "@shared/money";
+import { type PlannedAllocation, allocateReceipt, buildCapUsage, planCorrections, planDistribution, rulesInForce } from "./distribution";
+
+let nextId = 0;
+
+function receipt(amount: string, date = "2025-01-15", incomeSourceId = "source"): Receipt {
+  return {
+    id: `receipt-${++nextId}`,
+    userId: "user",
+    date: new Date(date),
+    description: "Donation",
+    amount,
+    incomeSourceId,
+    distributionStale: false,
+    moneyAccountId: "account",
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+type Step = Pick<IncomeSourceFundDistribution, "fundId" | "ruleType"> & Partial<Pick<IncomeSourceFundDistribution, "percentage" | "amount">>;
+
+/** Версия правил источника: шаги каскада в порядке применения */
+function version(steps: Step[], validFrom = "2000-01-01", validTo: string | null = null, incomeSourceId = "source"): IncomeSourceFundDistribution[] {
+  return steps.map((step, position) => ({
+    id: `rule-${++nextId}`,
+    incomeSourceId,
+    fundId: step.fundId,
+    ruleType: step.ruleType,
+    position,
+    percentage: step.percentage ?? null,
+    amount: step.amount ?? null,
+    validFrom: new Date(validFrom),
+    validTo: validTo ? new Date(validTo) : null,
+    createdAt: null,
+    updatedAt: null,
+  }));
+}
+
+/** Доли фондов в копейках */
+function amounts(allocations: PlannedAllocation[]): Record<string, number> {
+  return Object.fromEntries(allocations.map(allocation => [allocation.fundId, allocation.amount]));
+}
+
+function total(allocations: PlannedAllocation[]): number {
+  return allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+const thirds = version([
+  { fundId: "A", ruleType: "percentage", percentage: "33.33" },
+  { fundId: "B", ruleType: "percentage", percentage: "33.33" },
+  { fundId: "C", ruleType: "percentage", percentage: "33.34" },
+]);
+
+test("percentage shares add up to the receipt total to the kopeck", () => {
+  for (let kopecks = 1; kopecks <= 2000; kopecks++) {
+    assert.equal(total(allocateReceipt(receipt(fromKopecks(kopecks)), thirds)), kopecks, `receipt ${fromKopecks(kopecks)}`);
+  }
+
+  // Недостающая копейка достается шагу с наибольшим дробным остатком
+  const allocations = allocateReceipt(receipt("0.10"), thirds);
+  assert.deepEqual(amounts(allocations), { A: 3, B: 3, C: 4 });
+  assert.deepEqual(allocations.map(allocation => allocation.percentage), ["33.33", "33.33", "33.34"]);
+});
+
+test("the rounding fund receives the leftover kopecks", () => {
+  const roundingFunds = new Map([["source", "A"]]);
+  assert.deepEqual(amounts(allocateReceipt(receipt("0.10"), thirds, { roundingFunds })), { A: 4, B: 3, C: 3 });
+
+  // Фонд округления без своего шага получает только копейки округления
+  const rules = version([
+    { fundId: "A", ruleType: "percentage", percentage: "33.33" },
+    { fundId: "B", ruleType: "percentage", percentage: "33.33" },
+    { fundId: "C", ruleType: "percentage", percentage: "33.33" },
+  ]);
+  const allocations = allocateReceipt(receipt("1.00"), rules, { roundingFunds: new Map([["source", "R"]]) });
+  assert.deepEqual(amounts(allocations), { R: 1, A: 33, B: 33, C: 33 });
+  assert.equal(total(allocations), 100);
+});
+
+test("a capped step overflows into the next step", () => {
+  const rules = version([
+    { fundId: "A", ruleType: "capped", percentage: "50", amount: "100" },
+    { fundId: "B", ruleType: "remainder" },
+  ]);
+  assert.deepEqual(amounts(allocateReceipt(receipt("1000"), rules)), { A: 10000, B: 90000 });
+  assert.deepEqual(amounts(allocateReceipt(receipt("150"), rules)), { A: 7500, B: 7500 });
+});
+
+test("the monthly cap counts earlier receipts and distributions of the same month", () => {
+  const rules = version([
+    { fundId: "A", ruleType: "capped", percentage: "50", amount: "100" },
+    { fundId: "B", ruleType: "remainder" },
+  ]);
+  const receipts = [receipt("150", "2025-01-10"), receipt("150", "2025-01-20"), receipt("150", "2025-02-05")];
+
+  const plan = planDistribution(receipts, rules);
+  assert.deepEqual(plan.planned.map(({ allocations }) => amounts(allocations)), [
+    { A: 7500, B: 7500 },
+    { A: 2500, B: 12500 },
+    { A: 7500, B: 7500 },
+  ]);
+  assert.deepEqual(Object.fromEntries(plan.fundTotals), { A: 17500, B: 27500 });
+  assert.equal(plan.total, 45000);
+
+  const capUsage = buildCapUsage([{ incomeSourceId: "source", fundId: "A", amount: "90", date: new Date("2025-01-05") }]);
+  const limited = planDistribution(receipts.slice(0, 1), rules, { capUsage });
+  assert.deepEqual(amounts(limited.planned[0].allocations), { A: 1000, B: 14000 });
+});
+
+test("percentages after a fixed step apply to what the fixed step left", () => {
+  const rules = version([
+    { fundId: "A", ruleType: "fixed", amount: "100" },
+    { fundId: "B", ruleType: "percentage", percentage: "50" },
+    { fundId: "C", ruleType: "remainder" },
+  ]);
+  assert.deepEqual(amounts(allocateReceipt(receipt("1000"), rules)), { A: 10000, B: 45000, C: 45000 });
+
+  // Фиксированная сумма больше поступления забирает его целиком
+  assert.deepEqual(amounts(allocateReceipt(receipt("60"), rules)), { A: 6000 });
+});
+
+test("rulesInForce picks the rule version for the receipt date", () => {
+  const before = version([{ fundId: "A", ruleType: "remainder" }], "2000-01-01", "2025-03-01");
+  const after = version([{ fundId: "B", ruleType: "remainder" }], "2025-03-01");
+  const other = version([{ fundId: "C", ruleType: "remainder" }], "2000-01-01", null, "other");
+  const rules = [...before, ...after, ...other];
+
+  assert.deepEqual(rulesInForce(rules, "source", new Date("2025-02-28")), before);
+  // validTo не включается: с этой даты действует новая версия
+  assert.deepEqual(rulesInForce(rules, "source", new Date("2025-03-01")), after);
+  assert.deepEqual(rulesInForce(rules, "source", new Date("1999-12-31")), []);
+
+  const receipts = [
+    receipt("10", "2025-02-28"),
+    receipt("10", "2025-03-01"),
+    receipt("10", "1999-12-31"),
+    receipt("10", "2025-02-28", "unknown"),
+  ];
+  const plan = planDistribution(receipts, rules);
+  assert.deepEqual(plan.planned.map(({ allocations }) => amounts(allocations)), [{ A: 1000 }, { B: 1000 }]);
+  assert.deepEqual(plan.skipped, receipts.slice(2));
+});
+
+test("corrections move funds by the difference between recalculated and recorded shares", () => {
+  const rules = version([
+    { fundId: "A", ruleType: "percentage", percentage: "30" },
+    { fundId: "B", ruleType: "remainder" },
+  ]);
+  const changed = receipt("1500");
+  const recorded = [
+    { receiptId: changed.id, fundId: "A", amount: "300.00" },
+    { receiptId: changed.id, fundId: "B", amount: "700.00" },
+  ];
+
+  const { corrections, plan } = planCorrections([changed], recorded, rules);
+  assert.deepEqual(amounts(corrections[0].allocations), { A: 45000, B: 105000 });
+  assert.deepEqual(amounts(corrections[0].deltas), { A: 15000, B: 35000 });
+  assert.equal(plan.total, 50000);
+
+  // Без правил на дату поступления доли фондов списываются целиком
+  const moved = { ...changed, incomeSourceId: "other" };
+  const reversed = planCorrections([moved], recorded, rules);
+  assert.deepEqual(reversed.corrections[0].allocations, []);
+  assert.deepEqual(amounts(reversed.corrections[0].deltas), { A: -30000, B: -70000 });
+  assert.equal(reversed.plan.total, -100000);
+
+  // Распределение, совпадающее с правилами, не корректируется
+  const unchanged = planCorrections([{ ...changed, amount: "1000" }], recorded, rules);
+  assert.deepEqual(unchanged.corrections[0].deltas, []);
+  assert.deepEqual(unchanged.plan.planned, []);
+  assert.equal(unchanged.plan.total, 0);
+});
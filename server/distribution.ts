@@ -0,0 +1,500 @@
+/**
+ * Расчет распределения нераспределенных поступлений по фондам
+ *
+ * Один и тот же план используется для предварительного просмотра
+ * и для самого распределения, поэтому пользователь видит ровно то,
+ * что будет записано. Используется обоими хранилищами.
+ *
+ * Правила источника - каскад шагов, применяемых к поступлению по порядку:
+ * - fixed: фиксированная сумма (не больше остатка поступления)
+ * - percentage: процент от базы - суммы, оставшейся после последнего fixed-шага
+ *   (без fixed-шагов база равна поступлению, как в обычном процентном распределении)
+ * - capped: процент от базы, но не больше месячного лимита фонда по этому источнику
+ * - remainder: все, что осталось (только последним шагом)
+ * То, что не досталось ни одному шагу, остается нераспределенным.
+ *
+ * Доли процентных шагов участка считаются методом наибольшего остатка,
+ * поэтому в сумме они дают ровно округленную до копейки долю участка.
+ * Если у источника задан фонд округления, лишние копейки получает он.
+ *
+ * Устаревшие распределения (поступление изменено после распределения) не
+ * переписываются: корректировка добавляет строки с разницей между пересчитанными
+ * и записанными долями фондов, поэтому прежний запуск остается в истории как был.
+ */
+
+import type { DistributionRuleStep, FundDistribution, IncomeSourceFundDistribution, Receipt } from "@shared/schema";
+import { type Kopecks, kopecksToRubles, normalizeMoney, percentOf, percentageOf, toKopecks } from "@shared/money";
+
+/**
+ * Отбор поступлений для распределения
+ *
+ * Пустой фильтр - все нераспределенные поступления пользователя.
+ * Не попавшие в отбор поступления остаются нераспределенными.
+ */
+export type DistributionFilter = {
+  fromDate?: Date;          // Поступления с датой не раньше
+  toDate?: Date;            // Поступления с датой не позже
+  incomeSourceId?: string;  // Только поступления этого источника
+  receiptIds?: string[];    // Только указанные поступления
+};
+
+/** Запуск нельзя отменить: доли его поступлений потом исправляла корректировка */
+export class DistributionRunCorrectedError extends Error {
+  constructor() {
+    super("A later correction run adjusted this run's receipts; undo the correction first");
+    this.name = "DistributionRunCorrectedError";
+  }
+}
+
+/**
+ * Проверка поступления по фильтру распределения
+ */
+export function matchesDistributionFilter(receipt: Receipt, filter: DistributionFilter): boolean {
+  const date = new Date(receipt.date);
+  if (filter.fromDate && date < filter.fromDate) return false;
+  if (filter.toDate && date > filter.toDate) return false;
+  if (filter.incomeSourceId && receipt.incomeSourceId !== filter.incomeSourceId) return false;
+  if (filter.receiptIds && !filter.receiptIds.includes(receipt.id)) return false;
+  return true;
+}
+
+/**
+ * Поля шага для записи в хранилище (значения, не нужные типу шага, не сохраняются)
+ */
+export function distributionRuleFields(step: DistributionRuleStep): Pick<IncomeSourceFundDistribution, "fundId" | "ruleType" | "percentage" | "amount"> {
+  const usesPercentage = step.ruleType === "percentage" || step.ruleType === "capped";
+  const usesAmount = step.ruleType === "fixed" || step.ruleType === "capped";
+  return {
+    fundId: step.fundId,
+    ruleType: step.ruleType,
+    percentage: usesPercentage && step.percentage ? step.percentage : null,
+    amount: usesAmount && step.amount ? normalizeMoney(step.amount) : null,
+  };
+}
+
+/**
+ * Правила источника, действующие на дату
+ *
+ * Версия правил действует с validFrom включительно до validTo не включительно,
+ * поэтому на любую дату действует не больше одной версии.
+ *
+ * @param rules - Правила (могут включать другие источники и прошлые версии)
+ * @param incomeSourceId - Источник поступлений
+ * @param date - Дата поступления
+ */
+export function rulesInForce<T extends Pick<IncomeSourceFundDistribution, "incomeSourceId" | "validFrom" | "validTo">>(
+  rules: T[],
+  incomeSourceId: string,
+  date: Date,
+): T[] {
+  const time = new Date(date).getTime();
+  return rules.filter(rule =>
+    rule.incomeSourceId === incomeSourceId &&
+    new Date(rule.validFrom).getTime() <= time &&
+    (!rule.validTo || new Date(rule.validTo).getTime() > time)
+  );
+}
+
+/** Доля поступления, которая попадет в фонд */
+export interface PlannedAllocation {
+  fundId: string;
+  /** Процент правила для percentage-шагов, для остальных - фактическая доля поступления */
+  percentage: string;
+  amount: Kopecks;
+}
+
+/**
+ * Уже распределенные суммы для месячных лимитов: ключ capUsageKey -> сумма
+ *
+ * Лимит учитывает все распределения источника в фонд за месяц поступления.
+ */
+export type CapUsage = Map<string, Kopecks>;
+
+/**
+ * Ключ учета месячного лимита (месяц считается по времени сервера)
+ */
+export function capUsageKey(incomeSourceId: string, fundId: string, date: Date): string {
+  const receiptDate = new Date(date);
+  return `${incomeSourceId}:${fundId}:${receiptDate.getFullYear()}-${receiptDate.getMonth() + 1}`;
+}
+
+/**
+ * Учет уже сделанных распределений для месячных лимитов
+ *
+ * @param distributions - Распределения поступлений с источником и датой поступления
+ */
+export function buildCapUsage(distributions: { incomeSourceId: string; fundId: string; amount: string; date: Date }[]): CapUsage {
+  const usage: CapUsage = new Map();
+  for (const dist of distributions) {
+    const key = capUsageKey(dist.incomeSourceId, dist.fundId, dist.date);
+    usage.set(key, (usage.get(key) || 0) + toKopecks(dist.amount));
+  }
+  return usage;
+}
+
+/** Данные для расчета помимо поступлений и правил */
+export interface DistributionContext {
+  /** Использованные месячные лимиты (дополняются распределенными суммами) */
+  capUsage?: CapUsage;
+  /** Фонд округления по ID источника */
+  roundingFunds?: Map<string, string>;
+}
+
+/**
+ * Доли процентных шагов участка методом наибольшего остатка
+ *
+ * Каждый шаг получает долю, округленную вниз до копейки, а недостающие
+ * до округленной суммы участка копейки - шаги с наибольшими дробными
+ * остатками (или фонд округления, если он среди шагов участка).
+ *
+ * @param base - База участка в копейках
+ * @param steps - Процентные шаги участка в порядке каскада
+ * @param roundingFundId - Фонд округления источника
+ * @returns Доли шагов по ID правила и копейки для фонда округления, не участвующего в участке
+ */
+function largestRemainderShares(
+  base: Kopecks,
+  steps: IncomeSourceFundDistribution[],
+  roundingFundId?: string,
+): { shares: Map<string, Kopecks>; roundingExtra: Kopecks } {
+  // Проценты хранятся с двумя знаками, поэтому считаем в сотых долях процента
+  const exact = steps.map(step => ({ step, value: base * toKopecks(step.percentage ?? 0) }));
+  const totalBasisPoints = steps.reduce((sum, step) => sum + toKopecks(step.percentage ?? 0), 0);
+  const target = Math.round((base * totalBasisPoints) / 10000);
+
+  const shares = new Map(exact.map(({ step, value }) => [step.id, Math.floor(value / 10000)]));
+  let leftover = target - Array.from(shares.values()).reduce((sum, share) => sum + share, 0);
+
+  if (roundingFundId) {
+    const roundingStep = steps.find(step => step.fundId === roundingFundId);
+    if (!roundingStep) {
+      return { shares, roundingExtra: leftover };
+    }
+    shares.set(roundingStep.id, shares.get(roundingStep.id)! + leftover);
+    return { shares, roundingExtra: 0 };
+  }
+
+  const byRemainder = [...exact].sort((a, b) => (b.value % 10000) - (a.value % 10000));
+  for (const { step } of byRemainder) {
+    if (leftover <= 0) break;
+    shares.set(step.id, shares.get(step.id)! + 1);
+    leftover--;
+  }
+  return { shares, roundingExtra: 0 };
+}
+
+/**
+ * Распределение одного поступления по шагам каскада
+ *
+ * @param receipt - Поступление
+ * @param rules - Правила, действующие на дату поступления
+ * @param context - Месячные лимиты и фонды округления
+ * @returns Доли фондов по одной на фонд (шаги, которым ничего не досталось, пропускаются)
+ */
+export function allocateReceipt(receipt: Receipt, rules: IncomeSourceFundDistribution[], context: DistributionContext = {}): PlannedAllocation[] {
+  const capUsage = context.capUsage ?? new Map();
+  const roundingFundId = context.roundingFunds?.get(receipt.incomeSourceId);
+  const receiptAmount = toKopecks(receipt.amount);
+  const sortedRules = [...rules].sort((a, b) => a.position - b.position);
+  let remaining = receiptAmount;
+  let base = receiptAmount;
+  let segmentShares: Map<string, Kopecks> | null = null;
+  const allocations: PlannedAllocation[] = [];
+
+  const allocate = (fundId: string, amount: Kopecks, percentage?: string) => {
+    remaining -= amount;
+    if (amount <= 0) return;
+    const key = capUsageKey(receipt.incomeSourceId, fundId, receipt.date);
+    capUsage.set(key, (capUsage.get(key) || 0) + amount);
+    allocations.push({ fundId, percentage: percentage ?? percentageOf(amount, receiptAmount), amount });
+  };
+
+  for (let index = 0; index < sortedRules.length; index++) {
+    const rule = sortedRules[index];
+    if (rule.ruleType === "percentage" && !segmentShares) {
+      // Доли всех процентных шагов участка (до следующего fixed-шага) считаются вместе
+      const nextFixed = sortedRules.findIndex((next, nextIndex) => nextIndex > index && next.ruleType === "fixed");
+      const segment = sortedRules
+        .slice(index, nextFixed === -1 ? undefined : nextFixed)
+        .filter(step => step.ruleType === "percentage");
+      const { shares, roundingExtra } = largestRemainderShares(base, segment, roundingFundId);
+      segmentShares = shares;
+      if (roundingFundId && roundingExtra > 0) {
+        allocate(roundingFundId, Math.min(roundingExtra, remaining));
+      }
+    }
+
+    let amount: Kopecks;
+    switch (rule.ruleType) {
+      case "fixed":
+        amount = Math.min(toKopecks(rule.amount ?? 0), remaining);
+        break;
+      case "capped": {
+        const used = capUsage.get(capUsageKey(receipt.incomeSourceId, rule.fundId, receipt.date)) || 0;
+        const capLeft = Math.max(toKopecks(rule.amount ?? 0) - used, 0);
+        amount = Math.min(percentOf(base, rule.percentage ?? 0), capLeft, remaining);
+        break;
+      }
+      case "remainder":
+        amount = remaining;
+        break;
+      default:
+        amount = Math.min(segmentShares?.get(rule.id) ?? 0, remaining);
+    }
+
+    allocate(rule.fundId, amount, rule.ruleType === "percentage" && rule.percentage ? rule.percentage : undefined);
+    if (rule.ruleType === "fixed") {
+      base = remaining;
+      segmentShares = null;
+    }
+  }
+
+  // Фонд округления мог получить копейки отдельно от своего шага - одна доля на фонд
+  const merged = new Map<string, PlannedAllocation>();
+  for (const allocation of allocations) {
+    const existing = merged.get(allocation.fundId);
+    if (!existing) {
+      merged.set(allocation.fundId, allocation);
+      continue;
+    }
+    const amount = existing.amount + allocation.amount;
+    merged.set(allocation.fundId, { fundId: allocation.fundId, percentage: percentageOf(amount, receiptAmount), amount });
+  }
+  return Array.from(merged.values());
+}
+
+/** План распределения */
+export interface DistributionPlan {
+  /** Поступления с настроенными правилами и их доли по фондам */
+  planned: { receipt: Receipt; allocations: PlannedAllocation[] }[];
+  /** Поступления, которым по правилам на дату поступления ничего не достается */
+  skipped: Receipt[];
+  /** Сколько получит каждый фонд */
+  fundTotals: Map<string, Kopecks>;
+  /** Сколько будет распределено всего (сумма fundTotals) */
+  total: Kopecks;
+}
+
+/**
+ * Расчет плана распределения поступлений по правилам их источников
+ *
+ * @param receipts - Поступления без распределений
+ * @param rules - Правила распределения источников этих поступлений (все версии)
+ * @param context - Месячные лимиты и фонды округления (поступления обрабатываются по порядку)
+ */
+export function planDistribution(receipts: Receipt[], rules: IncomeSourceFundDistribution[], context: DistributionContext = {}): DistributionPlan {
+  const plan: DistributionPlan = { planned: [], skipped: [], fundTotals: new Map(), total: 0 };
+  const capUsage = context.capUsage ?? new Map();
+
+  for (const receipt of receipts) {
+    const sourceRules = rulesInForce(rules, receipt.incomeSourceId, receipt.date);
+    const allocations = allocateReceipt(receipt, sourceRules, { ...context, capUsage });
+    if (allocations.length === 0) {
+      plan.skipped.push(receipt);
+      continue;
+    }
+
+    for (const allocation of allocations) {
+      plan.fundTotals.set(allocation.fundId, (plan.fundTotals.get(allocation.fundId) || 0) + allocation.amount);
+      plan.total += allocation.amount;
+    }
+    plan.planned.push({ receipt, allocations });
+  }
+
+  return plan;
+}
+
+/**
+ * Меняет ли правка поступления его распределение по фондам
+ *
+ * @param existing - Поступление до правки
+ * @param changes - Изменяемые поля (отсутствующие не меняются)
+ * @returns true, если изменились сумма, дата или источник
+ */
+export function affectsDistribution(existing: Receipt, changes: Partial<Pick<Receipt, "amount" | "date" | "incomeSourceId">>): boolean {
+  return (changes.amount !== undefined && toKopecks(changes.amount) !== toKopecks(existing.amount))
+    || (changes.date !== undefined && new Date(changes.date).getTime() !== new Date(existing.date).getTime())
+    || (changes.incomeSourceId !== undefined && changes.incomeSourceId !== existing.incomeSourceId);
+}
+
+/** Корректировка устаревшего распределения поступления */
+export interface DistributionCorrection {
+  receipt: Receipt;
+  /** Сколько фонды уже получили от поступления */
+  current: Map<string, Kopecks>;
+  /** Доли по правилам на дату поступления (пусто - правил нет, поступление станет нераспределенным) */
+  allocations: PlannedAllocation[];
+  /** Ненулевые изменения долей: положительные доначисляются фонду, отрицательные списываются */
+  deltas: PlannedAllocation[];
+}
+
+/** Корректировки и план их записи: строки плана - изменения долей, total - чистое изменение распределенной суммы */
+export interface CorrectionPlan {
+  corrections: DistributionCorrection[];
+  plan: DistributionPlan;
+}
+
+/**
+ * Расчет корректировок устаревших распределений
+ *
+ * @param receipts - Поступления с устаревшими распределениями
+ * @param distributions - Записанные распределения этих поступлений (включая прежние корректировки)
+ * @param rules - Правила распределения источников поступлений (все версии)
+ * @param context - Месячные лимиты без учета корректируемых поступлений и фонды округления
+ */
+export function planCorrections(
+  receipts: Receipt[],
+  distributions: Pick<FundDistribution, "receiptId" | "fundId" | "amount">[],
+  rules: IncomeSourceFundDistribution[],
+  context: DistributionContext = {},
+): CorrectionPlan {
+  const recalculated = planDistribution(receipts, rules, context);
+  const allocationsByReceipt = new Map(recalculated.planned.map(({ receipt, allocations }) => [receipt.id, allocations]));
+  const plan: DistributionPlan = { planned: [], skipped: [], fundTotals: new Map(), total: 0 };
+
+  const corrections = receipts.map(receipt => {
+    const current = new Map<string, Kopecks>();
+    for (const dist of distributions) {
+      if (dist.receiptId !== receipt.id) continue;
+      current.set(dist.fundId, (current.get(dist.fundId) || 0) + toKopecks(dist.amount));
+    }
+
+    const allocations = allocationsByReceipt.get(receipt.id) ?? [];
+    const fundIds = new Set([...Array.from(current.keys()), ...allocations.map(allocation => allocation.fundId)]);
+    const deltas: PlannedAllocation[] = [];
+    fundIds.forEach(fundId => {
+      const allocation = allocations.find(allocation => allocation.fundId === fundId);
+      const amount = (allocation?.amount ?? 0) - (current.get(fundId) ?? 0);
+      if (amount !== 0) {
+        deltas.push({ fundId, percentage: allocation?.percentage ?? "0.00", amount });
+      }
+    });
+
+    if (deltas.length > 0) {
+      plan.planned.push({ receipt, allocations: deltas });
+      for (const delta of deltas) {
+        plan.fundTotals.set(delta.fundId, (plan.fundTotals.get(delta.fundId) || 0) + delta.amount);
+        plan.total += delta.amount;
+      }
+    }
+    return { receipt, current, allocations, deltas };
+  });
+
+  return { corrections, plan };
+}
+
+/** Поступление в предварительном просмотре */
+export type DistributionPreviewReceipt = {
+  receiptId: string;
+  date: Date;
+  description: string;
+  incomeSourceId: string;
+  incomeSourceName: string;
+  amount: number;
+};
+
+/** Предварительный просмотр распределения для API (суммы в рублях) */
+export type DistributionPreview = {
+  unallocatedAmount: number;
+  totalAmount: number;
+  receipts: (DistributionPreviewReceipt & {
+    allocations: { fundId: string; fundName: string; percentage: string; amount: number }[];
+  })[];
+  skipped: DistributionPreviewReceipt[];
+  funds: { fundId: string; fundName: string; amount: number }[];
+};
+
+/** Поступление в ответе API */
+function describeReceipt(receipt: Receipt, sourceNames: Map<string, string>): DistributionPreviewReceipt {
+  return {
+    receiptId: receipt.id,
+    date: receipt.date,
+    description: receipt.description,
+    incomeSourceId: receipt.incomeSourceId,
+    incomeSourceName: sourceNames.get(receipt.incomeSourceId) || 'Unknown Source',
+    amount: kopecksToRubles(toKopecks(receipt.amount)),
+  };
+}
+
+/**
+ * Перевод плана в ответ API с названиями фондов и источников
+ *
+ * @param plan - План распределения
+ * @param unallocated - Нераспределенный остаток пользователя
+ * @param fundNames - Названия фондов по ID
+ * @param sourceNames - Названия источников поступлений по ID
+ */
+export function toDistributionPreview(
+  plan: DistributionPlan,
+  unallocated: Kopecks,
+  fundNames: Map<string, string>,
+  sourceNames: Map<string, string>,
+): DistributionPreview {
+  const describe = (receipt: Receipt) => describeReceipt(receipt, sourceNames);
+
+  return {
+    unallocatedAmount: kopecksToRubles(unallocated),
+    totalAmount: kopecksToRubles(plan.total),
+    receipts: plan.planned.map(({ receipt, allocations }) => ({
+      ...describe(receipt),
+      allocations: allocations.map(allocation => ({
+        fundId: allocation.fundId,
+        fundName: fundNames.get(allocation.fundId) || 'Unknown Fund',
+        percentage: allocation.percentage,
+        amount: kopecksToRubles(allocation.amount),
+      })),
+    })),
+    skipped: plan.skipped.map(describe),
+    funds: Array.from(plan.fundTotals.entries()).map(([fundId, amount]) => ({
+      fundId,
+      fundName: fundNames.get(fundId) || 'Unknown Fund',
+      amount: kopecksToRubles(amount),
+    })),
+  };
+}
+
+/** Устаревшие распределения и их пересчет для API (суммы в рублях) */
+export type StaleDistributionPreview = {
+  /** Чистое изменение распределенной суммы */
+  totalAmount: number;
+  receipts: (DistributionPreviewReceipt & {
+    distributedAmount: number;
+    funds: { fundId: string; fundName: string; current: number; recalculated: number; delta: number }[];
+  })[];
+};
+
+/**
+ * Перевод корректировок в ответ API с названиями фондов и источников
+ *
+ * @param corrections - Корректировки устаревших распределений
+ * @param fundNames - Названия фондов по ID
+ * @param sourceNames - Названия источников поступлений по ID
+ */
+export function toStaleDistributionPreview(
+  corrections: DistributionCorrection[],
+  fundNames: Map<string, string>,
+  sourceNames: Map<string, string>,
+): StaleDistributionPreview {
+  let total = 0;
+  const receipts = corrections.map(({ receipt, current, allocations }) => {
+    const recalculated = new Map(allocations.map(allocation => [allocation.fundId, allocation.amount]));
+    const fundIds = Array.from(new Set([...Array.from(current.keys()), ...Array.from(recalculated.keys())]));
+    let distributed = 0;
+    const funds = fundIds.map(fundId => {
+      const before = current.get(fundId) ?? 0;
+      const after = recalculated.get(fundId) ?? 0;
+      distributed += before;
+      total += after - before;
+      return {
+        fundId,
+        fundName: fundNames.get(fundId) || 'Unknown Fund',
+        current: kopecksToRubles(before),
+        recalculated: kopecksToRubles(after),
+        delta: kopecksToRubles(after - before),
+      };
+    });
+    return { ...describeReceipt(receipt, sourceNames), distributedAmount: kopecksToRubles(distributed), funds };
+  });
+
+  return { totalAmount: kopecksToRubles(total), receipts };
+}
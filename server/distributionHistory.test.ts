@@ -0,0 +1,70 @@
+/**
+ * Отмена запусков распределения в хранилище в памяти
+ *
+ * Запуск: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NewMemStorage } from "./newMemStorage";
+import { DistributionRunCorrectedError } from "./distribution";
+
+async function distributedReceipt() {
+  const storage = new NewMemStorage();
+  const user = await storage.upsertUser({ id: "user-1", username: "user", password: "x" });
+  const funds = [
+    await storage.createFund({ name: "A" }, user.id),
+    await storage.createFund({ name: "B" }, user.id),
+  ];
+  const source = await storage.createIncomeSource({ name: "Source" }, user.id);
+  const account = await storage.createMoneyAccount({ name: "Bank", kind: "bank" }, user.id);
+  await storage.replaceIncomeSourceFundDistributions(source.id, {
+    validFrom: new Date(0),
+    rules: [
+      { fundId: funds[0].id, ruleType: "percentage", percentage: "30" },
+      { fundId: funds[1].id, ruleType: "remainder" },
+    ],
+  });
+  const receipt = await storage.createReceipt(
+    { date: new Date("2025-01-02"), description: "Donation", amount: "1000", incomeSourceId: source.id, moneyAccountId: account.id },
+    user.id,
+  );
+  await storage.distributeUnallocatedFunds(user.id);
+  const [run] = await storage.getDistributionHistory(user.id);
+  return { storage, userId: user.id, funds, receipt, run };
+}
+
+test("undoing a run returns its receipts to unallocated", async () => {
+  const { storage, userId, funds, receipt, run } = await distributedReceipt();
+
+  const returned = await storage.deleteDistributionHistory(run.id, userId);
+
+  assert.deepEqual(returned?.map(item => item.id), [receipt.id]);
+  assert.equal(await storage.getUnallocatedFunds(userId), 1000);
+  for (const fund of funds) {
+    assert.equal(Number(await storage.getFundBalance(fund.id)), 0);
+  }
+});
+
+test("a run adjusted by a later correction cannot be undone before the correction", async () => {
+  const { storage, userId, funds, receipt, run } = await distributedReceipt();
+  await storage.updateReceipt(receipt.id, { amount: "1500" }, userId);
+  const correction = await storage.redistributeStaleDistributions(userId);
+  assert.equal(correction?.kind, "correction");
+  assert.ok(correction!.sequence > run.sequence);
+
+  await assert.rejects(storage.deleteDistributionHistory(run.id, userId), DistributionRunCorrectedError);
+  assert.equal(Number(await storage.getFundBalance(funds[0].id)), 450);
+  assert.equal(Number(await storage.getFundBalance(funds[1].id)), 1050);
+  assert.equal(await storage.getUnallocatedFunds(userId), 0);
+
+  // После отмены корректировки отменяется и исходный запуск
+  assert.deepEqual(await storage.deleteDistributionHistory(correction!.id, userId), []);
+  const returned = await storage.deleteDistributionHistory(run.id, userId);
+
+  assert.deepEqual(returned?.map(item => item.id), [receipt.id]);
+  assert.equal(await storage.getUnallocatedFunds(userId), 1500);
+  for (const fund of funds) {
+    assert.equal(Number(await storage.getFundBalance(fund.id)), 0);
+  }
+});
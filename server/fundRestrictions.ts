@@ -0,0 +1,101 @@
+/**
+ * Ограничения фондов по статьям расходов для LakshmiApp
+ *
+ * Расход со статьей, которую фонд оплачивать не может, не сохраняется;
+ * у разделенного расхода проверяется фонд каждой доли. Расходы, записанные
+ * до появления ограничения, попадают в отчет о нарушениях.
+ */
+
+import type { ExpenseCategory, Fund } from "@shared/schema";
+import { type FundCategoryRule, fundAllowsCategory } from "@shared/fundCategoryRules";
+import type { CostWithDetails } from "./storage";
+
+/** Фонд не может оплачивать статью расхода */
+export class FundCategoryNotAllowedError extends Error {
+  constructor(fundName: string, categoryName: string) {
+    super(`Fund "${fundName}" is not allowed to pay for expense category "${categoryName}"`);
+    this.name = "FundCategoryNotAllowedError";
+  }
+}
+
+/** Статью нельзя удалить: для некоторых фондов она единственная разрешенная */
+export class ExpenseCategoryLastAllowedError extends Error {
+  constructor(fundNames: string[]) {
+    super(`Expense category is the only one allowed for ${fundNames.map(name => `"${name}"`).join(", ")}; change the funds' allowed categories first`);
+    this.name = "ExpenseCategoryLastAllowedError";
+  }
+}
+
+/** Справочники для проверки: разрешения, статьи и фонды пользователя */
+export interface FundCategoryContext {
+  rules: FundCategoryRule[];
+  categories: Pick<ExpenseCategory, "id" | "name" | "parentId">[];
+  funds: Pick<Fund, "id" | "name">[];
+}
+
+/** Расход (или доля разделенного расхода), оплаченный фондом вне его разрешенных статей */
+export interface FundCategoryViolation {
+  costId: string;
+  date: Date;
+  expenseNomenclatureName: string | null;
+  expenseCategoryId: string;
+  expenseCategoryName: string | null;
+  fundId: string;
+  fundName: string | null;
+  amount: string;                       // Доля фонда, у неразделенного расхода - вся сумма
+}
+
+/**
+ * Проверка, что все фонды расхода могут оплачивать его статью
+ *
+ * @param fundIds - Фонд расхода или фонды долей разделенного расхода
+ * @throws FundCategoryNotAllowedError для первого фонда, которому статья не разрешена
+ */
+export function assertFundsAllowCategory(fundIds: string[], expenseCategoryId: string, context: FundCategoryContext): void {
+  for (const fundId of fundIds) {
+    if (!fundAllowsCategory(fundId, expenseCategoryId, context.rules, context.categories)) {
+      const fund = context.funds.find(item => item.id === fundId);
+      const category = context.categories.find(item => item.id === expenseCategoryId);
+      throw new FundCategoryNotAllowedError(fund?.name ?? fundId, category?.name ?? expenseCategoryId);
+    }
+  }
+}
+
+/**
+ * Фонды, для которых статья - единственная разрешенная
+ *
+ * Без последнего разрешения фонд стал бы оплачивать любые статьи,
+ * поэтому такую статью удалять нельзя.
+ */
+export function fundsLimitedToCategory(expenseCategoryId: string, rules: FundCategoryRule[]): string[] {
+  return Array.from(new Set(rules.filter(rule => rule.expenseCategoryId === expenseCategoryId).map(rule => rule.fundId)))
+    .filter(fundId => rules.every(rule => rule.fundId !== fundId || rule.expenseCategoryId === expenseCategoryId));
+}
+
+/**
+ * Записанные расходы, нарушающие текущие ограничения фондов, от новых к старым
+ */
+export function findFundCategoryViolations(costs: CostWithDetails[], context: FundCategoryContext): FundCategoryViolation[] {
+  const fundNames = new Map(context.funds.map(fund => [fund.id, fund.name]));
+  const categoryNames = new Map(context.categories.map(category => [category.id, category.name]));
+
+  return costs
+    .flatMap(cost => {
+      const shares = cost.fundShares && cost.fundShares.length > 0
+        ? cost.fundShares.map(share => ({ fundId: share.fundId, amount: share.amount }))
+        : [{ fundId: cost.fundId, amount: cost.totalAmount }];
+      return shares
+        .filter(share => !fundAllowsCategory(share.fundId, cost.expenseCategoryId, context.rules, context.categories))
+        .map((share): FundCategoryViolation => ({
+          costId: cost.id,
+          date: cost.date,
+          expenseNomenclatureName: cost.expenseNomenclatureName ?? null,
+          expenseCategoryId: cost.expenseCategoryId,
+          expenseCategoryName: categoryNames.get(cost.expenseCategoryId) ?? null,
+          fundId: share.fundId,
+          fundName: fundNames.get(share.fundId) ?? null,
+          amount: share.amount,
+        }));
+    })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -2,9 +2,15 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupSimpleAuth } from "./simpleAuth";
+import { runMigrations } from "./migrate";
+import { DatabaseStorage } from "./storage";
+import { storage } from "./storageBackend";
+import { NewMemStorage } from "./newMemStorage";
+import { startSnapshotPersistence } from "./memSnapshot";
 
 const app = express();
-app.use(express.json());
+// Банковские выписки передаются целиком в теле запроса
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,6 +44,26 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // The database backend brings its schema up to date; refuse to boot if it doesn't match the migrations
+  if (storage instanceof DatabaseStorage) {
+    try {
+      await runMigrations();
+    } catch (error) {
+      log(`database migration failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  // The in-memory backend is restored from and periodically saved to a snapshot file
+  if (storage instanceof NewMemStorage) {
+    try {
+      startSnapshotPersistence(storage);
+    } catch (error) {
+      log(`snapshot restore failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
   setupSimpleAuth(app);
   const server = await registerRoutes(app);
 
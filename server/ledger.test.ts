@@ -0,0 +1,186 @@
+/**
+ * Проводки журнала движения средств: двойная запись по документам
+ * и остатки счетов журнала
+ *
+ * Запуск: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Cost, Fund, FundDistribution, FundTransfer, LedgerEntry, ManualFundDistribution, MoneyAccount, MoneyAccountTransfer, Receipt } from "@shared/schema";
+import { toKopecks } from "@shared/money";
+import {
+  type LedgerPosting,
+  EQUITY_ACCOUNT,
+  EXPENSES_ACCOUNT,
+  INCOME_ACCOUNT,
+  MONEY_IN_ACCOUNT,
+  MONEY_OUT_ACCOUNT,
+  UNALLOCATED_ACCOUNT,
+  accountBalance,
+  accountTurnover,
+  costMoneyPosting,
+  costPostings,
+  fundAccount,
+  fundDistributionPosting,
+  fundOpeningPosting,
+  fundTransferPosting,
+  manualFundDistributionPosting,
+  moneyAccount,
+  moneyAccountOpeningPosting,
+  moneyAccountTransferPosting,
+  receiptMoneyPosting,
+  receiptPosting,
+} from "./ledger";
+
+const userId = "user";
+
+const receipt: Receipt = {
+  id: "receipt",
+  userId,
+  date: new Date("2025-02-01"),
+  description: "Donation",
+  amount: "1000.00",
+  incomeSourceId: "source",
+  distributionStale: false,
+  moneyAccountId: "bank",
+  createdAt: null,
+  updatedAt: null,
+};
+
+const cost: Cost = {
+  id: "cost",
+  userId,
+  date: new Date("2025-02-10"),
+  expenseNomenclatureId: "rent",
+  totalAmount: "200.00",
+  expenseCategoryId: "category",
+  fundId: "A",
+  paymentMethod: "bank",
+  moneyAccountId: "bank",
+  createdAt: null,
+  updatedAt: null,
+};
+
+function fund(id: string, initialBalance: string): Fund {
+  return { id, name: id, description: null, initialBalance, isActive: true, userId, createdAt: null, updatedAt: null };
+}
+
+function account(id: string, initialBalance: string): MoneyAccount {
+  return { id, name: id, kind: "bank", description: null, initialBalance, isActive: true, userId, createdAt: null, updatedAt: null };
+}
+
+function distribution(fundId: string, amount: string): FundDistribution {
+  return { id: `distribution-${fundId}`, receiptId: receipt.id, fundId, amount, percentage: "0", distributionHistoryId: null, createdAt: null };
+}
+
+/** Проводки в виде записей журнала для подсчета остатков */
+function entries(postings: LedgerPosting[]): LedgerEntry[] {
+  return postings.map((posting, index) => ({
+    receiptId: null,
+    fundDistributionId: null,
+    manualFundDistributionId: null,
+    fundTransferId: null,
+    costId: null,
+    fundId: null,
+    moneyAccountId: null,
+    moneyAccountTransferId: null,
+    ...posting,
+    id: `entry-${index}`,
+    createdAt: null,
+  }));
+}
+
+function balances(postings: LedgerPosting[]): Map<string, number> {
+  const journal = entries(postings);
+  const accounts = new Set(postings.flatMap(posting => [posting.debitAccount, posting.creditAccount]));
+  return new Map(Array.from(accounts).map(account => [account, accountBalance(journal, account)]));
+}
+
+test("every document posting balances", () => {
+  const manual: ManualFundDistribution = {
+    id: "manual", fundId: "B", amount: "50.00", percentage: null, description: null,
+    date: new Date("2025-02-03"), userId, createdAt: null,
+  };
+  const fundTransfer: FundTransfer = {
+    id: "fund-transfer", fromFundId: "B", toFundId: "A", amount: "25.00", description: null,
+    userId, createdAt: new Date("2025-02-04"),
+  };
+  const accountTransfer: MoneyAccountTransfer = {
+    id: "account-transfer", fromAccountId: "bank", toAccountId: "cash", amount: "100.00",
+    date: new Date("2025-02-05"), description: null, userId, createdAt: null,
+  };
+  const postings: LedgerPosting[] = [
+    receiptPosting(receipt),
+    receiptMoneyPosting(receipt),
+    fundDistributionPosting(distribution("A", "300.00"), receipt),
+    fundDistributionPosting(distribution("B", "650.00"), receipt),
+    manualFundDistributionPosting(manual),
+    fundTransferPosting(fundTransfer),
+    ...costPostings(cost),
+    costMoneyPosting(cost),
+    moneyAccountTransferPosting(accountTransfer),
+    fundOpeningPosting(fund("A", "500"))!,
+    moneyAccountOpeningPosting(account("bank", "500"))!,
+  ];
+
+  for (const posting of postings) {
+    assert.notEqual(posting.debitAccount, posting.creditAccount, posting.sourceType);
+    assert.ok(toKopecks(posting.amount) > 0, posting.sourceType);
+    assert.equal(posting.userId, userId);
+  }
+
+  const result = balances(postings);
+  assert.equal(Array.from(result.values()).reduce((sum, balance) => sum + balance, 0), 0);
+  assert.deepEqual(Object.fromEntries(result), {
+    [UNALLOCATED_ACCOUNT]: 0,
+    [INCOME_ACCOUNT]: -100000,
+    [fundAccount("A")]: 30000 + 2500 - 20000 + 50000,
+    [fundAccount("B")]: 65000 + 5000 - 2500,
+    [EXPENSES_ACCOUNT]: 20000,
+    [EQUITY_ACCOUNT]: -50000,
+    [moneyAccount("bank")]: 100000 - 20000 - 10000 + 50000,
+    [moneyAccount("cash")]: 10000,
+    [MONEY_IN_ACCOUNT]: -100000,
+    [MONEY_OUT_ACCOUNT]: 20000,
+    money_opening: -50000,
+  });
+});
+
+test("a split cost credits every fund its share", () => {
+  const postings = costPostings(cost, [{ fundId: "A", amount: "60.00" }, { fundId: "B", amount: "140.00" }]);
+  assert.equal(postings.length, 2);
+  assert.ok(postings.every(posting => posting.debitAccount === EXPENSES_ACCOUNT && posting.costId === cost.id));
+
+  const result = balances(postings);
+  assert.equal(result.get(fundAccount("A")), -6000);
+  assert.equal(result.get(fundAccount("B")), -14000);
+  assert.equal(result.get(EXPENSES_ACCOUNT), toKopecks(cost.totalAmount));
+
+  // Без долей расход списывается с его фонда целиком
+  assert.deepEqual(costPostings(cost).map(posting => [posting.creditAccount, posting.amount]), [[fundAccount("A"), "200.00"]]);
+});
+
+test("negative opening balances are posted to the opposite side", () => {
+  const posting = fundOpeningPosting(fund("A", "-50"))!;
+  assert.equal(posting.debitAccount, EQUITY_ACCOUNT);
+  assert.equal(posting.creditAccount, fundAccount("A"));
+  assert.equal(posting.amount, "50.00");
+  assert.equal(accountBalance(entries([posting]), fundAccount("A")), -5000);
+
+  assert.equal(fundOpeningPosting(fund("A", "0")), null);
+  assert.equal(moneyAccountOpeningPosting(account("bank", "0.00")), null);
+});
+
+test("balances count opening entries at any date and skip later entries", () => {
+  const journal = entries([
+    fundOpeningPosting(fund("A", "500"))!,
+    fundDistributionPosting(distribution("A", "300.00"), receipt),
+    ...costPostings(cost),
+  ]);
+
+  assert.equal(accountBalance(journal, fundAccount("A"), new Date("2025-01-31")), 50000);
+  assert.equal(accountBalance(journal, fundAccount("A"), new Date("2025-02-05")), 80000);
+  assert.equal(accountBalance(journal, fundAccount("A")), 60000);
+  assert.deepEqual(accountTurnover(journal, fundAccount("A")), { debit: 80000, credit: 20000 });
+});
@@ -0,0 +1,285 @@
+/**
+ * Проводки журнала движения средств для LakshmiApp
+ *
+ * Единые правила, по которым документы превращаются в проводки двойной записи.
+ * Используются обоими хранилищами, поэтому балансы в памяти и в PostgreSQL
+ * считаются одинаково:
+ *
+ * - Поступление: дебет unallocated, кредит income, на дату поступления
+ * - Распределение: дебет fund:<id>, кредит unallocated, на дату поступления
+ * - Ручное распределение: дебет fund:<id>, кредит unallocated, на дату распределения
+ * - Перевод между фондами: дебет фонда-получателя, кредит фонда-источника, на дату создания
+ * - Расход: дебет expenses, кредит fund:<id>, на дату расхода
+ *   (разделенный между фондами - по проводке на долю каждого фонда)
+ * - Начальный остаток фонда: дебет fund:<id>, кредит equity, учитывается на любую дату
+ *
+ * Отдельно проводится, где лежат деньги (счета money:<id>):
+ *
+ * - Поступление на счет: дебет money:<id>, кредит money_in
+ * - Расход со счета: дебет money_out, кредит money:<id>
+ * - Перемещение между счетами: дебет счета-получателя, кредит счета-источника, на дату перемещения
+ * - Начальный остаток счета: дебет money:<id>, кредит money_opening, учитывается на любую дату
+ */
+
+import {
+  type Cost,
+  type CostFundShareInput,
+  type Fund,
+  type FundDistribution,
+  type FundTransfer,
+  type InsertLedgerEntry,
+  type LedgerEntry,
+  type ManualFundDistribution,
+  type MoneyAccount,
+  type MoneyAccountTransfer,
+  type Receipt,
+} from "@shared/schema";
+import { type Kopecks, fromKopecks, toKopecks } from "@shared/money";
+
+/** Служебные счета журнала */
+export const UNALLOCATED_ACCOUNT = "unallocated";
+export const INCOME_ACCOUNT = "income";
+export const EXPENSES_ACCOUNT = "expenses";
+export const EQUITY_ACCOUNT = "equity";
+export const MONEY_IN_ACCOUNT = "money_in";
+export const MONEY_OUT_ACCOUNT = "money_out";
+export const MONEY_OPENING_ACCOUNT = "money_opening";
+
+/** Префикс счетов, на которых лежат деньги */
+export const MONEY_ACCOUNT_PREFIX = "money:";
+
+/** Дата проводки начального остатка: остаток учитывается на любую дату */
+export const OPENING_BALANCE_DATE = new Date(0);
+
+/** Типы документов-оснований проводок */
+export type LedgerSourceType =
+  | "receipt"
+  | "fund_distribution"
+  | "manual_fund_distribution"
+  | "fund_transfer"
+  | "cost"
+  | "fund_opening"
+  | "money_account_transfer"
+  | "money_account_opening";
+
+/** Проводка без ID и даты создания (их назначает хранилище) */
+export type LedgerPosting = Omit<InsertLedgerEntry, "id" | "createdAt"> & { sourceType: LedgerSourceType };
+
+/**
+ * Счет фонда в журнале
+ * @param fundId - ID фонда
+ */
+export function fundAccount(fundId: string): string {
+  return `fund:${fundId}`;
+}
+
+/** Счет нельзя удалить: по нему есть поступления, расходы или перемещения */
+export class MoneyAccountInUseError extends Error {
+  constructor() {
+    super("Account has receipts, costs or transfers; deactivate it instead");
+    this.name = "MoneyAccountInUseError";
+  }
+}
+
+/** Поступление и расход всегда проводятся по счету */
+export class MoneyAccountRequiredError extends Error {
+  constructor() {
+    super("Receipts and costs must have a money account");
+    this.name = "MoneyAccountRequiredError";
+  }
+}
+
+/** Фонд нельзя удалить: он оплачивает доли разделенных расходов */
+export class FundHasCostSharesError extends Error {
+  constructor() {
+    super("Fund pays shares of split costs; change those costs' split or deactivate the fund instead");
+    this.name = "FundHasCostSharesError";
+  }
+}
+
+/**
+ * Счет журнала, на котором лежат деньги (касса, банк, карта)
+ * @param moneyAccountId - ID счета
+ */
+export function moneyAccount(moneyAccountId: string): string {
+  return `${MONEY_ACCOUNT_PREFIX}${moneyAccountId}`;
+}
+
+/**
+ * Проводка на сумму из документа
+ *
+ * Отрицательная сумма (например, отрицательный начальный остаток)
+ * проводится в обратную сторону, чтобы amount всегда был положительным.
+ */
+function posting(
+  debitAccount: string,
+  creditAccount: string,
+  amount: Kopecks,
+  fields: Omit<LedgerPosting, "debitAccount" | "creditAccount" | "amount">,
+): LedgerPosting {
+  return amount < 0
+    ? { ...fields, debitAccount: creditAccount, creditAccount: debitAccount, amount: fromKopecks(-amount) }
+    : { ...fields, debitAccount, creditAccount, amount: fromKopecks(amount) };
+}
+
+export function receiptPosting(receipt: Receipt): LedgerPosting {
+  return posting(UNALLOCATED_ACCOUNT, INCOME_ACCOUNT, toKopecks(receipt.amount), {
+    userId: receipt.userId,
+    date: receipt.date,
+    sourceType: "receipt",
+    receiptId: receipt.id,
+  });
+}
+
+/**
+ * @param distribution - Распределение поступления в фонд
+ * @param receipt - Поступление (его дата - дата зачисления в фонд)
+ */
+export function fundDistributionPosting(distribution: FundDistribution, receipt: Receipt): LedgerPosting {
+  return posting(fundAccount(distribution.fundId), UNALLOCATED_ACCOUNT, toKopecks(distribution.amount), {
+    userId: receipt.userId,
+    date: receipt.date,
+    sourceType: "fund_distribution",
+    fundDistributionId: distribution.id,
+  });
+}
+
+export function manualFundDistributionPosting(distribution: ManualFundDistribution): LedgerPosting {
+  return posting(fundAccount(distribution.fundId), UNALLOCATED_ACCOUNT, toKopecks(distribution.amount), {
+    userId: distribution.userId,
+    date: distribution.date,
+    sourceType: "manual_fund_distribution",
+    manualFundDistributionId: distribution.id,
+  });
+}
+
+export function fundTransferPosting(transfer: FundTransfer): LedgerPosting {
+  return posting(fundAccount(transfer.toFundId), fundAccount(transfer.fromFundId), toKopecks(transfer.amount), {
+    userId: transfer.userId,
+    date: transfer.createdAt ?? new Date(),
+    sourceType: "fund_transfer",
+    fundTransferId: transfer.id,
+  });
+}
+
+export function costPosting(cost: Cost): LedgerPosting {
+  return posting(EXPENSES_ACCOUNT, fundAccount(cost.fundId), toKopecks(cost.totalAmount), {
+    userId: cost.userId,
+    date: cost.date,
+    sourceType: "cost",
+    costId: cost.id,
+  });
+}
+
+/**
+ * Списание расхода с фондов
+ * @param shares - Доли фондов разделенного расхода; без долей расход списывается с его фонда целиком
+ */
+export function costPostings(cost: Cost, shares: Pick<CostFundShareInput, "fundId" | "amount">[] = []): LedgerPosting[] {
+  if (shares.length === 0) return [costPosting(cost)];
+
+  return shares.map(share => posting(EXPENSES_ACCOUNT, fundAccount(share.fundId), toKopecks(share.amount), {
+    userId: cost.userId,
+    date: cost.date,
+    sourceType: "cost",
+    costId: cost.id,
+  }));
+}
+
+/**
+ * Проводка начального остатка фонда
+ * @returns Проводка или null, если начальный остаток нулевой
+ */
+export function fundOpeningPosting(fund: Fund): LedgerPosting | null {
+  const amount = toKopecks(fund.initialBalance);
+  if (amount === 0) return null;
+
+  return posting(fundAccount(fund.id), EQUITY_ACCOUNT, amount, {
+    userId: fund.userId,
+    date: OPENING_BALANCE_DATE,
+    sourceType: "fund_opening",
+    fundId: fund.id,
+  });
+}
+
+/**
+ * Зачисление поступления на счет
+ */
+export function receiptMoneyPosting(receipt: Receipt): LedgerPosting {
+  return posting(moneyAccount(receipt.moneyAccountId), MONEY_IN_ACCOUNT, toKopecks(receipt.amount), {
+    userId: receipt.userId,
+    date: receipt.date,
+    sourceType: "receipt",
+    receiptId: receipt.id,
+  });
+}
+
+/**
+ * Списание расхода со счета
+ */
+export function costMoneyPosting(cost: Cost): LedgerPosting {
+  return posting(MONEY_OUT_ACCOUNT, moneyAccount(cost.moneyAccountId), toKopecks(cost.totalAmount), {
+    userId: cost.userId,
+    date: cost.date,
+    sourceType: "cost",
+    costId: cost.id,
+  });
+}
+
+export function moneyAccountTransferPosting(transfer: MoneyAccountTransfer): LedgerPosting {
+  return posting(moneyAccount(transfer.toAccountId), moneyAccount(transfer.fromAccountId), toKopecks(transfer.amount), {
+    userId: transfer.userId,
+    date: transfer.date,
+    sourceType: "money_account_transfer",
+    moneyAccountTransferId: transfer.id,
+  });
+}
+
+/**
+ * Проводка начального остатка счета
+ * @returns Проводка или null, если начальный остаток нулевой
+ */
+export function moneyAccountOpeningPosting(account: MoneyAccount): LedgerPosting | null {
+  const amount = toKopecks(account.initialBalance);
+  if (amount === 0) return null;
+
+  return posting(moneyAccount(account.id), MONEY_OPENING_ACCOUNT, amount, {
+    userId: account.userId,
+    date: OPENING_BALANCE_DATE,
+    sourceType: "money_account_opening",
+    moneyAccountId: account.id,
+  });
+}
+
+/**
+ * Остаток счета по проводкам: дебет минус кредит
+ *
+ * @param entries - Проводки (могут включать проводки других счетов)
+ * @param account - Счет
+ * @param asOf - Учитывать проводки с датой не позже указанной
+ */
+export function accountBalance(entries: Pick<LedgerEntry, "debitAccount" | "creditAccount" | "amount" | "date">[], account: string, asOf?: Date): Kopecks {
+  let balance = 0;
+  for (const entry of entries) {
+    if (asOf && entry.date > asOf) continue;
+    if (entry.debitAccount === account) balance += toKopecks(entry.amount);
+    if (entry.creditAccount === account) balance -= toKopecks(entry.amount);
+  }
+  return balance;
+}
+
+/**
+ * Обороты счета за период: сумма дебетовых и кредитовых проводок
+ *
+ * @param entries - Проводки периода
+ * @param account - Счет
+ */
+export function accountTurnover(entries: Pick<LedgerEntry, "debitAccount" | "creditAccount" | "amount">[], account: string): { debit: Kopecks; credit: Kopecks } {
+  let debit = 0;
+  let credit = 0;
+  for (const entry of entries) {
+    if (entry.debitAccount === account) debit += toKopecks(entry.amount);
+    if (entry.creditAccount === account) credit += toKopecks(entry.amount);
+  }
+  return { debit, credit };
+}
@@ -0,0 +1,445 @@
+/**
+ * Сохранение данных NewMemStorage на диск
+ *
+ * Для небольших установок без PostgreSQL данные хранилища в памяти
+ * периодически и при остановке сервера записываются в JSON-файл (снимок),
+ * а при запуске восстанавливаются из него.
+ *
+ * Снимок содержит номер версии формата. Если структура записей меняется
+ * (например, поля distributionHistory), нужно увеличить SNAPSHOT_VERSION
+ * и добавить функцию обновления в snapshotUpgrades - старые снимки будут
+ * обновлены при загрузке.
+ *
+ * Настройка через переменные окружения:
+ * - MEM_SNAPSHOT_PATH - путь к файлу снимка (по умолчанию data/mem-snapshot.json,
+ *   пустая строка отключает сохранение)
+ * - MEM_SNAPSHOT_INTERVAL_MS - интервал сохранения (по умолчанию 30 секунд)
+ */
+
+import fs from "fs";
+import path from "path";
+import { log } from "./vite";
+import { fromKopecks, normalizeMoney, sumMoney, toKopecks } from "@shared/money";
+import type { Cost, CostItem, DistributionHistory, ExpenseCategory, ExpenseNomenclature, Fund, FundDistribution, FundTransfer, IncomeSource, IncomeSourceFundDistribution, LedgerEntry, ManualFundDistribution, MoneyAccount, Receipt, ReceiptItem } from "@shared/schema";
+import {
+  type LedgerPosting,
+  costMoneyPosting,
+  costPosting,
+  fundDistributionPosting,
+  fundOpeningPosting,
+  fundTransferPosting,
+  manualFundDistributionPosting,
+  moneyAccountOpeningPosting,
+  receiptMoneyPosting,
+  receiptPosting,
+} from "./ledger";
+import { generateLedgerEntryId, generateMoneyAccountId } from "./utils/idGenerator";
+import { memCollectionNames, type MemCollectionName, type MemCollections, type NewMemStorage } from "./newMemStorage";
+
+/** Текущая версия формата снимка */
+export const SNAPSHOT_VERSION = 17;
+
+/** Содержимое файла снимка */
+export interface MemSnapshot {
+  version: number;
+  savedAt: string;
+  collections: Partial<MemCollections>;
+}
+
+/**
+ * Ошибка чтения снимка (поврежденный файл или неизвестная версия)
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Основной счет пользователя, создаваемый при обновлении снимка:
+ * начальный остаток равен начальным остаткам фондов пользователя
+ */
+function mainMoneyAccount(userId: string, funds: Fund[], now: Date): MoneyAccount {
+  return {
+    id: generateMoneyAccountId(),
+    name: "Основной счет",
+    kind: "bank",
+    description: null,
+    initialBalance: fromKopecks(sumMoney(funds.filter(fund => fund.userId === userId).map(fund => fund.initialBalance ?? 0))),
+    isActive: true,
+    userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Записи журнала по проводкам, добавляемым при обновлении снимка */
+function upgradeLedgerEntries(postings: (LedgerPosting | null)[], now: Date): LedgerEntry[] {
+  return postings
+    .filter((posting): posting is LedgerPosting => posting !== null)
+    .map(posting => ({
+      receiptId: null,
+      fundDistributionId: null,
+      manualFundDistributionId: null,
+      fundTransferId: null,
+      costId: null,
+      fundId: null,
+      moneyAccountId: null,
+      moneyAccountTransferId: null,
+      ...posting,
+      id: generateLedgerEntryId(),
+      createdAt: now,
+    }));
+}
+
+/**
+ * Функции обновления снимков: ключ - версия, из которой обновляем,
+ * функция возвращает коллекции в формате версии ключ + 1
+ */
+const snapshotUpgrades: Record<number, (collections: Partial<MemCollections>) => Partial<MemCollections>> = {
+  // v2: денежные поля хранятся десятичной строкой с точностью до копейки
+  1: (collections) => {
+    const moneyFields = ["amount", "totalAmount", "initialBalance"];
+    const upgraded: Partial<MemCollections> = {};
+    for (const [name, records] of Object.entries(collections) as [MemCollectionName, unknown[]][]) {
+      upgraded[name] = records.map(record => {
+        const copy = { ...(record as Record<string, unknown>) };
+        for (const field of moneyFields) {
+          if (typeof copy[field] === "string" || typeof copy[field] === "number") {
+            copy[field] = normalizeMoney(copy[field] as string | number);
+          }
+        }
+        return copy;
+      });
+    }
+    return upgraded;
+  },
+  // v3: балансы считаются по журналу проводок, проводим все существующие документы
+  2: (collections) => {
+    const receipts = (collections.receipts ?? []) as Receipt[];
+    const receiptsById = new Map(receipts.map(receipt => [receipt.id, receipt]));
+    const postings: (LedgerPosting | null)[] = [
+      ...receipts.map(receiptPosting),
+      ...((collections.fundDistributions ?? []) as FundDistribution[])
+        .map(dist => receiptsById.has(dist.receiptId) ? fundDistributionPosting(dist, receiptsById.get(dist.receiptId)!) : null),
+      ...((collections.manualFundDistributions ?? []) as ManualFundDistribution[]).map(manualFundDistributionPosting),
+      ...((collections.fundTransfers ?? []) as FundTransfer[]).map(fundTransferPosting),
+      ...((collections.costs ?? []) as Cost[]).map(costPosting),
+      ...((collections.funds ?? []) as Fund[]).map(fundOpeningPosting),
+    ];
+
+    const now = new Date();
+    const ledgerEntries: LedgerEntry[] = postings
+      .filter((posting): posting is LedgerPosting => posting !== null)
+      .map(posting => ({
+        receiptId: null,
+        fundDistributionId: null,
+        manualFundDistributionId: null,
+        fundTransferId: null,
+        costId: null,
+        fundId: null,
+        moneyAccountId: null,
+        moneyAccountTransferId: null,
+        ...posting,
+        id: generateLedgerEntryId(),
+        createdAt: now,
+      }));
+    return { ...collections, ledgerEntries };
+  },
+  // v4: распределение ссылается на запуск, который его создал; для старых записей
+  // берем ближайший запуск того же пользователя в пределах минуты (прежнее правило отмены)
+  3: (collections) => {
+    const receiptUsers = new Map(((collections.receipts ?? []) as Receipt[]).map(receipt => [receipt.id, receipt.userId]));
+    const runs = (collections.distributionHistory ?? []) as DistributionHistory[];
+
+    const fundDistributions = ((collections.fundDistributions ?? []) as FundDistribution[]).map(dist => {
+      const createdAt = new Date(dist.createdAt ?? 0).getTime();
+      let closest: { id: string; gap: number } | null = null;
+      for (const run of runs) {
+        if (run.userId !== receiptUsers.get(dist.receiptId)) continue;
+        const gap = Math.abs(new Date(run.distributionDate).getTime() - createdAt);
+        if (gap < 60000 && (!closest || gap < closest.gap)) {
+          closest = { id: run.id, gap };
+        }
+      }
+      return { ...dist, distributionHistoryId: closest?.id ?? null };
+    });
+    return { ...collections, fundDistributions };
+  },
+  // v5: правила распределения источников версионируются; прежние правила действуют с начала учета
+  4: (collections) => {
+    const incomeSourceFundDistributions = ((collections.incomeSourceFundDistributions ?? []) as IncomeSourceFundDistribution[])
+      .map(rule => ({ ...rule, validFrom: new Date(0), validTo: null }));
+    return { ...collections, incomeSourceFundDistributions };
+  },
+  // v6: правила - шаги каскада; прежние правила - процентные шаги в порядке создания
+  5: (collections) => {
+    const positions = new Map<string, number>();
+    const incomeSourceFundDistributions = ((collections.incomeSourceFundDistributions ?? []) as IncomeSourceFundDistribution[])
+      .map(rule => {
+        const version = `${rule.incomeSourceId}:${new Date(rule.validFrom).getTime()}`;
+        const position = positions.get(version) ?? 0;
+        positions.set(version, position + 1);
+        return { ...rule, ruleType: "percentage", position, amount: null };
+      });
+    return { ...collections, incomeSourceFundDistributions };
+  },
+  // v7: фонд округления источника (по умолчанию - метод наибольшего остатка)
+  6: (collections) => {
+    const incomeSources = ((collections.incomeSources ?? []) as IncomeSource[])
+      .map(source => ({ ...source, roundingFundId: null }));
+    return { ...collections, incomeSources };
+  },
+  // v8: режим распределения источника; прежние источники распределяются вручную
+  7: (collections) => {
+    const incomeSources = ((collections.incomeSources ?? []) as IncomeSource[])
+      .map(source => ({ ...source, distributionMode: "manual" }));
+    return { ...collections, incomeSources };
+  },
+  // v9: устаревшие распределения и корректирующие запуски; устаревшими считаются
+  // поступления, распределения которых не сходятся с суммой поступления
+  8: (collections) => {
+    const distributed = new Map<string, number>();
+    for (const dist of (collections.fundDistributions ?? []) as FundDistribution[]) {
+      distributed.set(dist.receiptId, (distributed.get(dist.receiptId) || 0) + toKopecks(dist.amount));
+    }
+    const receipts = ((collections.receipts ?? []) as Receipt[]).map(receipt => ({
+      ...receipt,
+      distributionStale: distributed.has(receipt.id) && distributed.get(receipt.id) !== toKopecks(receipt.amount),
+    }));
+    const distributionHistory = ((collections.distributionHistory ?? []) as DistributionHistory[])
+      .map(run => ({ ...run, kind: "distribution" }));
+    return { ...collections, receipts, distributionHistory };
+  },
+  // v10: строки поступлений без спонсора с плательщиком в свободной форме
+  9: (collections) => {
+    const receiptItems = ((collections.receiptItems ?? []) as ReceiptItem[])
+      .map(item => ({ ...item, payerName: null }));
+    return { ...collections, receiptItems };
+  },
+  // v11: способ оплаты строк поступлений и расходов; у прежних записей не указан
+  10: (collections) => {
+    const receiptItems = ((collections.receiptItems ?? []) as ReceiptItem[])
+      .map(item => ({ ...item, paymentMethod: null }));
+    const costs = ((collections.costs ?? []) as Cost[])
+      .map(cost => ({ ...cost, paymentMethod: null }));
+    return { ...collections, receiptItems, costs };
+  },
+  // v12: деньги лежат на счетах; у каждого пользователя с данными появляется основной счет,
+  // на который относятся прежние поступления и расходы, с начальным остатком как у фондов
+  11: (collections) => {
+    const funds = (collections.funds ?? []) as Fund[];
+    const now = new Date();
+    const userIds = new Set([
+      ...funds.map(fund => fund.userId),
+      ...((collections.receipts ?? []) as Receipt[]).map(receipt => receipt.userId),
+      ...((collections.costs ?? []) as Cost[]).map(cost => cost.userId),
+    ]);
+    const moneyAccounts = Array.from(userIds).map(userId => mainMoneyAccount(userId, funds, now));
+    const accountIds = new Map(moneyAccounts.map(account => [account.userId, account.id]));
+
+    const receipts = ((collections.receipts ?? []) as Receipt[])
+      .map(receipt => ({ ...receipt, moneyAccountId: accountIds.get(receipt.userId)! }));
+    const costs = ((collections.costs ?? []) as Cost[])
+      .map(cost => ({ ...cost, moneyAccountId: accountIds.get(cost.userId)! }));
+    const postings: (LedgerPosting | null)[] = [
+      ...receipts.map(receiptMoneyPosting),
+      ...costs.map(costMoneyPosting),
+      ...moneyAccounts.map(moneyAccountOpeningPosting),
+    ];
+
+    const ledgerEntries: LedgerEntry[] = [
+      ...((collections.ledgerEntries ?? []) as LedgerEntry[])
+        .map(entry => ({ ...entry, moneyAccountId: null, moneyAccountTransferId: null })),
+      ...upgradeLedgerEntries(postings, now),
+    ];
+    return { ...collections, receipts, costs, moneyAccounts, moneyAccountTransfers: [], ledgerEntries };
+  },
+  // v13: статьи расходов образуют дерево; прежние статьи - верхнего уровня
+  12: (collections) => {
+    const expenseCategories = ((collections.expenseCategories ?? []) as ExpenseCategory[])
+      .map(category => ({ ...category, parentId: null }));
+    return { ...collections, expenseCategories };
+  },
+  // v14: единица измерения у номенклатуры, количество и цена у позиций расходов
+  13: (collections) => {
+    const expenseNomenclature = ((collections.expenseNomenclature ?? []) as ExpenseNomenclature[])
+      .map(nomenclature => ({ ...nomenclature, unit: null }));
+    const costItems = ((collections.costItems ?? []) as CostItem[])
+      .map(item => ({ ...item, quantity: null, unitPrice: null }));
+    return { ...collections, expenseNomenclature, costItems };
+  },
+  // v15: статья и фонд по умолчанию у номенклатуры
+  14: (collections) => {
+    const expenseNomenclature = ((collections.expenseNomenclature ?? []) as ExpenseNomenclature[])
+      .map(nomenclature => ({ ...nomenclature, expenseCategoryId: null, fundId: null }));
+    return { ...collections, expenseNomenclature };
+  },
+  // v16: порядковый номер запуска распределения, прежние запуски нумеруются по дате
+  15: (collections) => {
+    const distributionHistory = ((collections.distributionHistory ?? []) as DistributionHistory[])
+      .slice()
+      .sort((a, b) => new Date(a.distributionDate).getTime() - new Date(b.distributionDate).getTime()
+        || new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime())
+      .map((run, index) => ({ ...run, sequence: index + 1 }));
+    return { ...collections, distributionHistory };
+  },
+  // v17: у поступлений и расходов всегда есть счет; документы без счета относятся
+  // на первый счет пользователя, пользователь без счетов получает основной счет
+  16: (collections) => {
+    const funds = (collections.funds ?? []) as Fund[];
+    const now = new Date();
+    const unassignedReceipts = ((collections.receipts ?? []) as Receipt[]).filter(receipt => !receipt.moneyAccountId);
+    const unassignedCosts = ((collections.costs ?? []) as Cost[]).filter(cost => !cost.moneyAccountId);
+
+    const existingAccounts = (collections.moneyAccounts ?? []) as MoneyAccount[];
+    const createdAccounts = Array.from(new Set([...unassignedReceipts, ...unassignedCosts].map(document => document.userId)))
+      .filter(userId => !existingAccounts.some(account => account.userId === userId))
+      .map(userId => mainMoneyAccount(userId, funds, now));
+    const moneyAccounts = [...existingAccounts, ...createdAccounts];
+
+    // Первый счет пользователя: активные раньше неактивных, затем по дате создания
+    const accountIds = new Map<string, string>();
+    moneyAccounts
+      .slice()
+      .sort((a, b) => Number(b.isActive ?? false) - Number(a.isActive ?? false)
+        || new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime())
+      .forEach(account => accountIds.has(account.userId) || accountIds.set(account.userId, account.id));
+
+    const assignedReceipts = new Map(unassignedReceipts
+      .map(receipt => [receipt.id, { ...receipt, moneyAccountId: accountIds.get(receipt.userId)! }]));
+    const assignedCosts = new Map(unassignedCosts
+      .map(cost => [cost.id, { ...cost, moneyAccountId: accountIds.get(cost.userId)! }]));
+    const receipts = ((collections.receipts ?? []) as Receipt[]).map(receipt => assignedReceipts.get(receipt.id) ?? receipt);
+    const costs = ((collections.costs ?? []) as Cost[]).map(cost => assignedCosts.get(cost.id) ?? cost);
+
+    const ledgerEntries = [
+      ...((collections.ledgerEntries ?? []) as LedgerEntry[]),
+      ...upgradeLedgerEntries([
+        ...Array.from(assignedReceipts.values()).map(receiptMoneyPosting),
+        ...Array.from(assignedCosts.values()).map(costMoneyPosting),
+        ...createdAccounts.map(moneyAccountOpeningPosting),
+      ], now),
+    ];
+    return { ...collections, receipts, costs, moneyAccounts, ledgerEntries };
+  },
+};
+
+/** Метка для дат, чтобы после загрузки они снова стали объектами Date */
+const DATE_TAG = "$date";
+
+/**
+ * Сериализация снимка с сохранением дат
+ */
+export function serializeSnapshot(collections: MemCollections): string {
+  const snapshot: MemSnapshot = {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    collections,
+  };
+  return JSON.stringify(snapshot, function (key, value) {
+    const raw = (this as Record<string, unknown>)[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : value;
+  });
+}
+
+/**
+ * Разбор снимка с восстановлением дат и обновлением до текущей версии
+ *
+ * @throws SnapshotError если файл поврежден или создан более новой версией приложения
+ */
+export function deserializeSnapshot(content: string): Partial<MemCollections> {
+  let snapshot: MemSnapshot;
+  try {
+    snapshot = JSON.parse(content, (_key, value) => {
+      if (value && typeof value === "object" && typeof value[DATE_TAG] === "string") {
+        return new Date(value[DATE_TAG]);
+      }
+      return value;
+    });
+  } catch (error) {
+    throw new SnapshotError(`Snapshot is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!snapshot || typeof snapshot.version !== "number" || typeof snapshot.collections !== "object") {
+    throw new SnapshotError("Snapshot has no version or collections");
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new SnapshotError(
+      `Snapshot version ${snapshot.version} is newer than supported version ${SNAPSHOT_VERSION}`
+    );
+  }
+
+  let collections = snapshot.collections;
+  for (let version = snapshot.version; version < SNAPSHOT_VERSION; version++) {
+    const upgrade = snapshotUpgrades[version];
+    if (!upgrade) {
+      throw new SnapshotError(`No upgrade path from snapshot version ${version}`);
+    }
+    collections = upgrade(collections);
+  }
+
+  for (const name of Object.keys(collections)) {
+    if (!(memCollectionNames as readonly string[]).includes(name)) {
+      log(`snapshot collection "${name}" is unknown and will be ignored`, "snapshot");
+    }
+  }
+  return collections;
+}
+
+/**
+ * Атомарная запись файла: сначала во временный файл, затем переименование
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, content);
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Восстановление данных из снимка и запуск периодического сохранения
+ *
+ * Если файла снимка нет, хранилище остается пустым. Поврежденный снимок
+ * не перезаписывается - функция выбрасывает SnapshotError, и сервер не запускается.
+ *
+ * @param storage - Хранилище в памяти
+ */
+export function startSnapshotPersistence(storage: NewMemStorage): void {
+  const snapshotPath = process.env.MEM_SNAPSHOT_PATH ?? path.join("data", "mem-snapshot.json");
+  if (!snapshotPath) return;
+
+  const filePath = path.resolve(snapshotPath);
+  const intervalMs = parseInt(process.env.MEM_SNAPSHOT_INTERVAL_MS || "30000", 10);
+
+  if (fs.existsSync(filePath)) {
+    storage.importCollections(deserializeSnapshot(fs.readFileSync(filePath, "utf-8")));
+    log(`restored in-memory data from ${filePath}`, "snapshot");
+  }
+
+  // Сравниваем только коллекции, чтобы не переписывать файл без изменений
+  let lastSaved = JSON.stringify(storage.exportCollections());
+
+  const save = () => {
+    const collections = storage.exportCollections();
+    const current = JSON.stringify(collections);
+    if (current === lastSaved && fs.existsSync(filePath)) return;
+
+    try {
+      writeFileAtomic(filePath, serializeSnapshot(collections));
+      lastSaved = current;
+    } catch (error) {
+      log(`failed to save snapshot: ${(error as Error).message}`, "snapshot");
+    }
+  };
+
+  setInterval(save, intervalMs).unref();
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      save();
+      process.exit(0);
+    });
+  }
+}
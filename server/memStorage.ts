@@ -213,6 +213,7 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const newCost: Cost = {
       ...cost,
+      paymentMethod: cost.paymentMethod ?? null,
       id,
       userId,
       createdAt: now,
@@ -301,6 +302,7 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const newDistribution: FundDistribution = {
       ...distribution,
+      distributionHistoryId: distribution.distributionHistoryId ?? null,
       id,
       createdAt: now,
     };
@@ -0,0 +1,130 @@
+/**
+ * Версионированные миграции схемы базы данных для LakshmiApp
+ *
+ * Миграции генерируются командой `npm run db:generate` из shared/schema.ts
+ * и хранятся в папке migrations/ вместе с кодом. При старте сервера
+ * с хранилищем в базе данных (STORAGE_DRIVER=database):
+ * - история примененных миграций сверяется с файлами в репозитории
+ * - недостающие миграции применяются по порядку
+ * - при расхождении схемы сервер отказывается запускаться
+ *
+ * Запуск вручную: `npm run db:migrate`.
+ * Для базы, созданной раньше через `drizzle-kit push`: `npm run db:migrate -- --baseline`.
+ */
+
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { db } from "./db";
+
+/** Папка с миграциями (одинаково для server/ при разработке и dist/ в продакшене) */
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+/** Таблица, в которой drizzle хранит историю примененных миграций */
+const migrationsSchema = "drizzle";
+const migrationsTable = "__drizzle_migrations";
+
+/**
+ * Ошибка несовпадения схемы базы данных с миграциями в коде
+ */
+export class SchemaMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaMismatchError";
+  }
+}
+
+/**
+ * Получение хешей миграций, уже примененных к базе
+ *
+ * @returns Список хешей в порядке применения или null, если таблицы истории нет
+ */
+async function getAppliedMigrationHashes(): Promise<string[] | null> {
+  const { rows: [table] } = await db.execute<{ name: string | null }>(
+    sql`select to_regclass(${`${migrationsSchema}.${migrationsTable}`})::text as name`
+  );
+  if (!table?.name) return null;
+
+  const { rows } = await db.execute<{ hash: string }>(
+    sql`select hash from ${sql.identifier(migrationsSchema)}.${sql.identifier(migrationsTable)} order by created_at`
+  );
+  return rows.map(row => row.hash);
+}
+
+/**
+ * Проверка, что в базе уже есть таблицы приложения
+ */
+async function hasApplicationTables(): Promise<boolean> {
+  const { rows: [table] } = await db.execute<{ name: string | null }>(
+    sql`select to_regclass('public.users')::text as name`
+  );
+  return Boolean(table?.name);
+}
+
+/**
+ * Сверка истории миграций в базе с файлами миграций в репозитории
+ *
+ * @throws SchemaMismatchError если база создана без миграций,
+ *   содержит неизвестные миграции или миграция была изменена после применения
+ */
+export async function verifyMigrations(): Promise<void> {
+  const localMigrations = readMigrationFiles({ migrationsFolder });
+  const localHashes = new Set(localMigrations.map(migration => migration.hash));
+  const appliedHashes = await getAppliedMigrationHashes();
+
+  if (!appliedHashes || appliedHashes.length === 0) {
+    if (await hasApplicationTables()) {
+      throw new SchemaMismatchError(
+        "Database tables exist but no migration history was found (schema was created by drizzle-kit push). " +
+        "Run `npm run db:migrate -- --baseline` once to mark the initial migration as applied."
+      );
+    }
+    return;
+  }
+
+  const unknown = appliedHashes.filter(hash => !localHashes.has(hash));
+  if (unknown.length > 0) {
+    throw new SchemaMismatchError(
+      `Database has ${unknown.length} applied migration(s) that are not in ${migrationsFolder}. ` +
+      "Either a checked-in migration was edited after it was applied, or the database belongs to a newer version of the app."
+    );
+  }
+}
+
+/**
+ * Проверка схемы и применение недостающих миграций
+ *
+ * Вызывается при старте сервера до регистрации маршрутов.
+ */
+export async function runMigrations(): Promise<void> {
+  await verifyMigrations();
+  await migrate(db, { migrationsFolder, migrationsSchema, migrationsTable });
+}
+
+/**
+ * Пометка начальной миграции как примененной для базы,
+ * созданной ранее через `drizzle-kit push`
+ */
+export async function baselineMigrations(): Promise<void> {
+  const [initial] = readMigrationFiles({ migrationsFolder });
+  if (!initial) return;
+
+  const appliedHashes = await getAppliedMigrationHashes();
+  if (appliedHashes && appliedHashes.length > 0) {
+    throw new SchemaMismatchError("Migration history already exists, baseline is only for databases created by drizzle-kit push");
+  }
+
+  await db.execute(sql`create schema if not exists ${sql.identifier(migrationsSchema)}`);
+  await db.execute(sql`
+    create table if not exists ${sql.identifier(migrationsSchema)}.${sql.identifier(migrationsTable)} (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+  await db.execute(sql`
+    insert into ${sql.identifier(migrationsSchema)}.${sql.identifier(migrationsTable)} (hash, created_at)
+    values (${initial.hash}, ${initial.folderMillis})
+  `);
+}
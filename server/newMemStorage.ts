@@ -13,7 +13,19 @@
  * В производственной версии должна быть заменена на PostgreSQL базу данных.
  */
 
-import { type IStorage } from "./storage";
+import {
+  type BankStatementLineDocument,
+  type BankStatementLineWithDocument,
+  type CostFundShareLine,
+  type CostFundShareWithName,
+  type IStorage,
+  type MoneyAccountReconciliation,
+  type MoneyAccountTransferWithNames,
+  type MoneyAccountWithBalance,
+  type NomenclaturePricePoint,
+  type PaymentMethodTotals,
+  type ReceiptItemDiscrepancy,
+} from "./storage";
 import { 
   type User,              // Типы пользователей системы
   type UpsertUser,        // Данные для создания/обновления пользователя
@@ -23,30 +35,52 @@ import {
   type InsertReceipt,     // Данные для создания поступления
   type ReceiptItem,       // Элементы поступлений (детализация)
   type InsertReceiptItem, // Данные для создания элемента поступления
+  type ReceiptItemInput,  // Строка спонсора, передаваемая вместе с поступлением
+  receiptItemsAmount,     // Сумма поступления по строкам спонсоров
   type Cost,              // Расходы с привязкой к фондам
   type InsertCost,        // Данные для создания расхода
   type CostItem,          // Элементы расходов (детализация)
   type InsertCostItem,    // Данные для создания элемента расхода
+  type CostItemInput,     // Позиция, передаваемая вместе с расходом
+  costItemAmount,         // Сумма позиции: количество на цену
+  costItemsAmount,        // Сумма расхода по позициям
+  costItemStoredAmount,   // Сумма сохраняемой позиции
+  type CostFundShare,     // Доля фонда в разделенном расходе
+  type CostFundShareInput, // Доля фонда, передаваемая вместе с расходом
+  type FundExpenseCategory, // Разрешенная статья фонда с целевым назначением
   type Fund,              // Фонды для управления средствами
   type InsertFund,        // Данные для создания фонда
   type FundDistribution,  // Автоматическое распределение по фондам
   type InsertFundDistribution, // Данные для создания распределения
   type FundTransfer,      // Переводы между фондами
   type InsertFundTransfer, // Данные для создания перевода
+  type MoneyAccount,      // Счета: касса, банковский счет, карта
+  type InsertMoneyAccount, // Данные для создания счета
+  type MoneyAccountTransfer, // Перемещения денег между счетами
+  type InsertMoneyAccountTransfer, // Данные для создания перемещения
   type IncomeSource,      // Источники доходов
   type InsertIncomeSource, // Данные для создания источника дохода
   type IncomeSourceFundDistribution, // Настройки распределения по источникам
-  type InsertIncomeSourceFundDistribution, // Данные для настройки распределения
+  type IncomeSourceFundDistributionVersion, // Новая версия правил распределения
   type ManualFundDistribution, // Ручное распределение средств
   type InsertManualFundDistribution, // Данные для ручного распределения
   type DistributionHistory, // История всех распределений
   type InsertDistributionHistory, // Данные для записи истории
   type DistributionHistoryItem, // Элементы истории распределения
+  type DistributionHistoryKind, // Вид запуска распределения
   type InsertDistributionHistoryItem, // Данные для элементов истории
   type ExpenseNomenclature, // Номенклатура расходов (товары/услуги)
   type InsertExpenseNomenclature, // Данные для создания номенклатуры
   type ExpenseCategory,     // Категории расходов (статьи)
-  type InsertExpenseCategory // Данные для создания категории
+  type InsertExpenseCategory, // Данные для создания категории
+  type LedgerEntry,         // Проводки журнала движения средств
+  type PaymentMethod,       // Способ оплаты поступления или расхода
+  type BankStatementLine,   // Строки импортированных банковских выписок
+  type InsertBankStatementLine, // Данные для сохранения строки выписки
+  type ImportMapping,       // Сохраненные сопоставления колонок импорта
+  type InsertImportMapping, // Данные для сохранения сопоставления
+  type SpreadsheetImportKind, // Вид импорта из таблицы
+  paymentMethods            // Все способы оплаты по порядку
 } from "@shared/schema";
 
 // Утилиты для генерации уникальных ID различных типов
@@ -57,18 +91,118 @@ import {
   generateCostId,           // ID для расходов
   generateFundId,           // ID для фондов
   generateFundTransferId,   // ID для переводов между фондами
+  generateMoneyAccountId,   // ID для счетов
+  generateMoneyAccountTransferId, // ID для перемещений между счетами
+  generateBankStatementLineId, // ID для строк банковских выписок
+  generateImportMappingId,  // ID для сопоставлений колонок импорта
   generateIncomeSourceId,   // ID для источников доходов
   generateDistributionId,   // ID для распределений
   generateNomenclatureId,   // ID для номенклатуры
   generateCategoryId,       // ID для категорий
   generateItemId,           // ID для элементов
   generateSourceId,         // ID для источников
-  generateDistId            // ID для распределений
+  generateDistId,           // ID для распределений
+  generateLedgerEntryId     // ID для проводок журнала
 } from "./utils/idGenerator";
 
 // Утилиты для безопасной работы с типами данных
 import { ensureString, ensureNonNull, safeDateParse, safeStringParse } from "./utils/typeHelpers";
 
+// Денежные суммы считаются в копейках
+import {
+  type Kopecks,
+  toKopecks,
+  fromKopecks,
+  kopecksToRubles,
+  normalizeMoney,
+  sumMoney,
+  percentageOf,
+  formatMoney,
+} from "@shared/money";
+
+// Проводки журнала движения средств
+import {
+  type LedgerPosting,
+  EQUITY_ACCOUNT,
+  FundHasCostSharesError,
+  MONEY_OPENING_ACCOUNT,
+  MoneyAccountInUseError,
+  MoneyAccountRequiredError,
+  UNALLOCATED_ACCOUNT,
+  accountBalance,
+  costMoneyPosting,
+  costPostings,
+  fundAccount,
+  fundDistributionPosting,
+  fundOpeningPosting,
+  fundTransferPosting,
+  manualFundDistributionPosting,
+  moneyAccount,
+  moneyAccountOpeningPosting,
+  moneyAccountTransferPosting,
+  receiptMoneyPosting,
+  receiptPosting,
+} from "./ledger";
+import { type LedgerFilter } from "./storage";
+
+// Ограничения фондов по статьям расходов
+import { ExpenseCategoryLastAllowedError, assertFundsAllowCategory, fundsLimitedToCategory } from "./fundRestrictions";
+
+// Расчет распределения поступлений по фондам
+import {
+  type DistributionFilter,
+  type DistributionPlan,
+  type DistributionPreview,
+  matchesDistributionFilter,
+  type CapUsage,
+  type CorrectionPlan,
+  type DistributionContext,
+  type StaleDistributionPreview,
+  DistributionRunCorrectedError,
+  affectsDistribution,
+  buildCapUsage,
+  distributionRuleFields,
+  planCorrections,
+  planDistribution,
+  rulesInForce,
+  toDistributionPreview,
+  toStaleDistributionPreview,
+} from "./distribution";
+
+/**
+ * Имена всех коллекций хранилища (используются при сохранении снимка на диск)
+ */
+export const memCollectionNames = [
+  "users",
+  "sponsors",
+  "receipts",
+  "receiptItems",
+  "costs",
+  "costItems",
+  "costFundShares",
+  "funds",
+  "fundExpenseCategories",
+  "fundDistributions",
+  "fundTransfers",
+  "moneyAccounts",
+  "moneyAccountTransfers",
+  "bankStatementLines",
+  "importMappings",
+  "incomeSources",
+  "incomeSourceFundDistributions",
+  "manualFundDistributions",
+  "distributionHistory",
+  "distributionHistoryItems",
+  "expenseNomenclature",
+  "expenseCategories",
+  "ledgerEntries",
+] as const;
+
+export type MemCollectionName = typeof memCollectionNames[number];
+
+/** Содержимое всех коллекций в виде массивов записей */
+export type MemCollections = Record<MemCollectionName, unknown[]>;
+
 /**
  * Основной класс хранилища данных в памяти
  * 
@@ -99,9 +233,15 @@ export class NewMemStorage implements IStorage {
   
   /** Детализированные элементы расходов (ключ - уникальный ID элемента) */
   private costItems: Map<string, CostItem> = new Map();
+
+  /** Доли фондов в разделенных расходах (ключ - уникальный ID доли) */
+  private costFundShares: Map<string, CostFundShare> = new Map();
   
   /** Фонды для управления средствами (ключ - уникальный ID фонда) */
   private funds: Map<string, Fund> = new Map();
+
+  /** Разрешенные статьи фондов с целевым назначением (ключ - уникальный ID) */
+  private fundExpenseCategories: Map<string, FundExpenseCategory> = new Map();
   
   /** Автоматические распределения поступлений по фондам (ключ - уникальный ID) */
   private fundDistributions: Map<string, FundDistribution> = new Map();
@@ -109,6 +249,18 @@ export class NewMemStorage implements IStorage {
   /** Переводы средств между фондами (ключ - уникальный ID перевода) */
   private fundTransfers: Map<string, FundTransfer> = new Map();
   
+  /** Счета - касса, банковский счет, карта (ключ - уникальный ID счета) */
+  private moneyAccounts: Map<string, MoneyAccount> = new Map();
+
+  /** Перемещения денег между счетами (ключ - уникальный ID перемещения) */
+  private moneyAccountTransfers: Map<string, MoneyAccountTransfer> = new Map();
+
+  /** Строки импортированных банковских выписок (ключ - уникальный ID строки) */
+  private bankStatementLines: Map<string, BankStatementLine> = new Map();
+
+  /** Сохраненные сопоставления колонок импорта из таблиц (ключ - уникальный ID) */
+  private importMappings: Map<string, ImportMapping> = new Map();
+  
   /** Источники доходов для настройки распределения (ключ - уникальный ID) */
   private incomeSources: Map<string, IncomeSource> = new Map();
   
@@ -130,6 +282,94 @@ export class NewMemStorage implements IStorage {
   /** Категории расходов - статьи расходов для группировки (ключ - уникальный ID) */
   private expenseCategories: Map<string, ExpenseCategory> = new Map();
 
+  /** Проводки журнала движения средств - основа всех балансов (ключ - уникальный ID) */
+  private ledgerEntries: Map<string, LedgerEntry> = new Map();
+
+  // === ЖУРНАЛ ДВИЖЕНИЯ СРЕДСТВ ===
+
+  /**
+   * Добавление проводки документа
+   * @param posting - Проводка; null (например, нулевой начальный остаток) пропускается
+   */
+  private post(posting: LedgerPosting | null): void {
+    if (!posting) return;
+
+    const id = generateLedgerEntryId();
+    this.ledgerEntries.set(id, {
+      receiptId: null,
+      fundDistributionId: null,
+      manualFundDistributionId: null,
+      fundTransferId: null,
+      costId: null,
+      fundId: null,
+      moneyAccountId: null,
+      moneyAccountTransferId: null,
+      ...posting,
+      id,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Удаление проводок документа
+   * @param predicate - Условие отбора проводок, например по costId
+   */
+  private unpost(predicate: (entry: LedgerEntry) => boolean): void {
+    Array.from(this.ledgerEntries.values())
+      .filter(predicate)
+      .forEach(entry => this.ledgerEntries.delete(entry.id));
+  }
+
+  /**
+   * Сброс ссылки строк выписок на удаленный документ или счет (как ON DELETE SET NULL)
+   */
+  private unlinkBankStatementLines(
+    predicate: (line: BankStatementLine) => boolean,
+    patch: Partial<Pick<BankStatementLine, "receiptId" | "costId" | "moneyAccountId">>,
+  ): void {
+    for (const line of Array.from(this.bankStatementLines.values())) {
+      if (predicate(line)) {
+        this.bankStatementLines.set(line.id, { ...line, ...patch });
+      }
+    }
+  }
+
+  /**
+   * Удаление распределения поступления вместе с его проводкой
+   */
+  private removeFundDistribution(id: string): void {
+    this.fundDistributions.delete(id);
+    this.unpost(entry => entry.fundDistributionId === id);
+  }
+
+  // === СНИМКИ ДАННЫХ ===
+
+  /**
+   * Выгрузка всех коллекций для сохранения снимка
+   * @returns Записи каждой коллекции в порядке добавления
+   */
+  exportCollections(): MemCollections {
+    const collections = {} as MemCollections;
+    for (const name of memCollectionNames) {
+      collections[name] = Array.from((this[name] as Map<string, unknown>).values());
+    }
+    return collections;
+  }
+
+  /**
+   * Загрузка коллекций из снимка с заменой текущих данных
+   * @param collections - Записи коллекций; отсутствующие коллекции остаются пустыми
+   */
+  importCollections(collections: Partial<MemCollections>): void {
+    for (const name of memCollectionNames) {
+      const map = this[name] as Map<string, unknown>;
+      map.clear();
+      for (const record of collections[name] ?? []) {
+        map.set((record as { id: string }).id, record);
+      }
+    }
+  }
+
   // === ОПЕРАЦИИ С ПОЛЬЗОВАТЕЛЯМИ ===
   
   /**
@@ -166,7 +406,7 @@ export class NewMemStorage implements IStorage {
    * @param username - Логин пользователя
    * @returns Объект пользователя или undefined если не найден
    */
-  getUserByUsername(username: string): User | undefined {
+  async getUserByUsername(username: string): Promise<User | undefined> {
     for (const user of this.users.values()) {
       if (user.username === username) {
         return user;
@@ -176,11 +416,11 @@ export class NewMemStorage implements IStorage {
   }
 
   /**
-   * Получение пользователя по ID (синхронная версия для аутентификации)
+   * Получение пользователя по ID (для аутентификации)
    * @param id - Уникальный идентификатор пользователя
    * @returns Объект пользователя или undefined если не найден
    */
-  getUserById(id: string): User | undefined {
+  async getUserById(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
@@ -238,7 +478,8 @@ export class NewMemStorage implements IStorage {
     userId: string, 
     search?: string, 
     fromDate?: Date, 
-    toDate?: Date
+    toDate?: Date,
+    paymentMethod?: PaymentMethod
   ): Promise<(Receipt & { sponsorName?: string })[]> {
     let result = Array.from(this.receipts.values()).filter(r => r.userId === userId);
     
@@ -254,6 +495,13 @@ export class NewMemStorage implements IStorage {
       result = result.filter(r => r.date <= toDate);
     }
     
+    if (paymentMethod) {
+      const paidThatWay = new Set(Array.from(this.receiptItems.values())
+        .filter(item => item.paymentMethod === paymentMethod)
+        .map(item => item.receiptId));
+      result = result.filter(r => paidThatWay.has(r.id));
+    }
+    
     // Return income source name instead of sponsor name
     return result.map(receipt => ({
       ...receipt,
@@ -267,7 +515,8 @@ export class NewMemStorage implements IStorage {
     fromDate?: Date, 
     toDate?: Date,
     page: number = 1,
-    limit: number = 20
+    limit: number = 20,
+    paymentMethod?: PaymentMethod
   ): Promise<{
     data: (Receipt & { sponsorName?: string })[];
     pagination: {
@@ -278,7 +527,7 @@ export class NewMemStorage implements IStorage {
     };
   }> {
     // Получаем все записи с фильтрацией
-    const allReceipts = await this.getReceipts(userId, search, fromDate, toDate);
+    const allReceipts = await this.getReceipts(userId, search, fromDate, toDate, paymentMethod);
     
     // Применяем пагинацию
     const total = allReceipts.length;
@@ -302,7 +551,8 @@ export class NewMemStorage implements IStorage {
     return receipt && receipt.userId === userId ? receipt : undefined;
   }
 
-  async createReceipt(receipt: InsertReceipt, userId: string): Promise<Receipt> {
+  async createReceipt(receipt: InsertReceipt, userId: string, items?: ReceiptItemInput[]): Promise<Receipt> {
+    if (!receipt.moneyAccountId) throw new MoneyAccountRequiredError();
     const id = generateReceiptId();
     const now = new Date();
     const newReceipt: Receipt = {
@@ -310,30 +560,77 @@ export class NewMemStorage implements IStorage {
       userId,
       date: receipt.date,
       description: receipt.description,
-      amount: receipt.amount,
+      amount: items ? receiptItemsAmount(items) : normalizeMoney(receipt.amount),
       incomeSourceId: receipt.incomeSourceId,
+      moneyAccountId: receipt.moneyAccountId,
+      distributionStale: false,
       createdAt: now,
       updatedAt: now,
     };
     this.receipts.set(id, newReceipt);
+    if (items) {
+      await this.replaceItemsOfReceipt(id, items);
+    }
+    this.post(receiptPosting(newReceipt));
+    this.post(receiptMoneyPosting(newReceipt));
     
     return newReceipt;
   }
 
-  async updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string): Promise<Receipt | undefined> {
+  async updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string, items?: ReceiptItemInput[]): Promise<Receipt | undefined> {
+    if ("moneyAccountId" in receipt && !receipt.moneyAccountId) throw new MoneyAccountRequiredError();
     const existing = this.receipts.get(id);
     if (!existing || existing.userId !== userId) return undefined;
+    if (items) {
+      receipt = { ...receipt, amount: receiptItemsAmount(items) };
+      await this.replaceItemsOfReceipt(id, items);
+    }
     
+    // Распределения, сделанные до изменения, больше не соответствуют поступлению
+    const distributed = Array.from(this.fundDistributions.values()).some(dist => dist.receiptId === id);
     const updated: Receipt = {
       ...existing,
       ...receipt,
+      amount: receipt.amount !== undefined ? normalizeMoney(receipt.amount) : existing.amount,
+      distributionStale: existing.distributionStale || (distributed && affectsDistribution(existing, receipt)),
       updatedAt: new Date(),
     };
     this.receipts.set(id, updated);
+
+    // Дата и сумма поступления меняют его проводку и даты проводок распределений
+    this.unpost(entry => entry.receiptId === id);
+    this.post(receiptPosting(updated));
+    this.post(receiptMoneyPosting(updated));
+    Array.from(this.fundDistributions.values())
+      .filter(dist => dist.receiptId === id)
+      .forEach(dist => {
+        this.unpost(entry => entry.fundDistributionId === dist.id);
+        this.post(fundDistributionPosting(dist, updated));
+      });
     
     return updated;
   }
 
+  // Строки спонсоров поступления заменяются переданными
+  private async replaceItemsOfReceipt(receiptId: string, items: ReceiptItemInput[]): Promise<void> {
+    await this.deleteReceiptItems(receiptId);
+    for (const item of items) {
+      await this.createReceiptItem({ ...item, receiptId });
+    }
+  }
+
+  async getReceiptItemDiscrepancies(userId: string): Promise<ReceiptItemDiscrepancy[]> {
+    const items = Array.from(this.receiptItems.values());
+    return Array.from(this.receipts.values())
+      .filter(receipt => receipt.userId === userId)
+      .map(receipt => {
+        const itemsOfReceipt = items.filter(item => item.receiptId === receipt.id);
+        return { ...receipt, itemsAmount: receiptItemsAmount(itemsOfReceipt), itemCount: itemsOfReceipt.length };
+      })
+      .filter(receipt => toKopecks(receipt.itemsAmount) !== toKopecks(receipt.amount))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
   async deleteReceipt(id: string, userId: string): Promise<boolean> {
     const existing = this.receipts.get(id);
     if (!existing || existing.userId !== userId) return false;
@@ -346,8 +643,10 @@ export class NewMemStorage implements IStorage {
     // Delete fund distributions
     const distributionsToDelete = Array.from(this.fundDistributions.values())
       .filter(dist => dist.receiptId === id);
-    distributionsToDelete.forEach(dist => this.fundDistributions.delete(dist.id));
+    distributionsToDelete.forEach(dist => this.removeFundDistribution(dist.id));
     
+    this.unpost(entry => entry.receiptId === id);
+    this.unlinkBankStatementLines(line => line.receiptId === id, { receiptId: null });
     return this.receipts.delete(id);
   }
 
@@ -357,12 +656,13 @@ export class NewMemStorage implements IStorage {
     search?: string, 
     expenseCategoryId?: string, 
     fromDate?: Date, 
-    toDate?: Date
-  ): Promise<(Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string })[] })[]> {
+    toDate?: Date,
+    paymentMethod?: PaymentMethod
+  ): Promise<(Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]; fundShares?: CostFundShareWithName[] })[]> {
     let result = Array.from(this.costs.values()).filter(c => c.userId === userId);
     
     if (search) {
-      result = result.filter(c => c.description.toLowerCase().includes(search.toLowerCase()));
+      result = result.filter(c => this.expenseNomenclature.get(c.expenseNomenclatureId)?.name.toLowerCase().includes(search.toLowerCase()));
     }
     
     if (expenseCategoryId) {
@@ -377,6 +677,10 @@ export class NewMemStorage implements IStorage {
       result = result.filter(c => c.date <= toDate);
     }
     
+    if (paymentMethod) {
+      result = result.filter(c => c.paymentMethod === paymentMethod);
+    }
+    
     // Добавляем информацию о категории, номенклатуре и позициях
     return result.map(cost => {
       const category = this.expenseCategories.get(cost.expenseCategoryId);
@@ -388,7 +692,8 @@ export class NewMemStorage implements IStorage {
           const itemNomenclature = this.expenseNomenclature.get(item.expenseNomenclatureId);
           return {
             ...item,
-            nomenclatureName: itemNomenclature?.name
+            nomenclatureName: itemNomenclature?.name,
+            nomenclatureUnit: itemNomenclature?.unit ?? undefined
           };
         });
         
@@ -397,7 +702,8 @@ export class NewMemStorage implements IStorage {
         expenseCategoryName: category?.name,
         expenseNomenclatureName: nomenclature?.name,
         fundName: fund?.name,
-        items
+        items,
+        fundShares: this.fundSharesOfCost(cost.id)
       };
     }).sort((a, b) => b.date.getTime() - a.date.getTime());
   }
@@ -409,9 +715,10 @@ export class NewMemStorage implements IStorage {
     fromDate?: Date, 
     toDate?: Date,
     page: number = 1,
-    limit: number = 20
+    limit: number = 20,
+    paymentMethod?: PaymentMethod
   ): Promise<{
-    data: (Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string })[] })[];
+    data: (Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]; fundShares?: CostFundShareWithName[] })[];
     pagination: {
       page: number;
       limit: number;
@@ -419,7 +726,7 @@ export class NewMemStorage implements IStorage {
       totalPages: number;
     };
   }> {
-    const allCosts = await this.getCosts(userId, search, expenseCategoryId, fromDate, toDate);
+    const allCosts = await this.getCosts(userId, search, expenseCategoryId, fromDate, toDate, paymentMethod);
     
     const total = allCosts.length;
     const totalPages = Math.ceil(total / limit);
@@ -442,22 +749,20 @@ export class NewMemStorage implements IStorage {
     return cost && cost.userId === userId ? cost : undefined;
   }
 
-  async createCost(cost: InsertCost, userId: string): Promise<Cost> {
-    // Check if the fund exists
-    const fund = this.funds.get(cost.fundId);
-    if (!fund || fund.userId !== userId) {
-      throw new Error("Фонд не найден");
+  async createCost(cost: InsertCost, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[]): Promise<Cost> {
+    if (!cost.moneyAccountId) throw new MoneyAccountRequiredError();
+    if (items) {
+      cost = { ...cost, totalAmount: costItemsAmount(items) };
     }
-
-    // Check fund balance on the expense date
-    const expenseDate = new Date(cost.date);
-    const balanceOnDate = await this.getFundBalanceOnDate(cost.fundId, expenseDate);
-    const costAmount = parseFloat(cost.totalAmount.toString());
-    
-    if (balanceOnDate < costAmount) {
-      throw new Error(`Недостаточно средств в фонде "${fund.name}" на дату ${expenseDate.toLocaleDateString('ru-RU')}. Доступно: ${balanceOnDate.toLocaleString('ru-RU')}₽, требуется: ${costAmount.toLocaleString('ru-RU')}₽`);
+    if (fundShares) {
+      cost = { ...cost, fundId: fundShares[0].fundId };
     }
 
+    // Check fund restrictions and balances on the expense date
+    const shares = fundShares ?? [{ fundId: cost.fundId, amount: normalizeMoney(cost.totalAmount), percentage: null }];
+    await this.checkCostFundCategories(shares.map(share => share.fundId), cost.expenseCategoryId, userId);
+    await this.checkCostFundBalances(shares, new Date(cost.date), userId);
+
     const id = generateCostId();
     const now = new Date();
     const newCost: Cost = {
@@ -467,47 +772,179 @@ export class NewMemStorage implements IStorage {
       expenseNomenclatureId: cost.expenseNomenclatureId,
       expenseCategoryId: cost.expenseCategoryId,
       fundId: cost.fundId,
-      totalAmount: costAmount.toString(),
+      paymentMethod: cost.paymentMethod ?? null,
+      moneyAccountId: cost.moneyAccountId,
+      totalAmount: normalizeMoney(cost.totalAmount),
       createdAt: now,
       updatedAt: now,
     };
     this.costs.set(id, newCost);
+    if (items) {
+      await this.replaceItemsOfCost(id, items);
+    }
+    if (fundShares) {
+      this.replaceFundSharesOfCost(id, fundShares);
+    }
+    costPostings(newCost, fundShares).forEach(posting => this.post(posting));
+    this.post(costMoneyPosting(newCost));
     return newCost;
   }
 
-  async updateCost(id: string, cost: Partial<InsertCost>, userId: string): Promise<Cost | undefined> {
+  async updateCost(id: string, cost: Partial<InsertCost>, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[] | null): Promise<Cost | undefined> {
+    if ("moneyAccountId" in cost && !cost.moneyAccountId) throw new MoneyAccountRequiredError();
     const existing = this.costs.get(id);
     if (!existing || existing.userId !== userId) return undefined;
-    
-    // If fundId or totalAmount is being updated, check fund balance
-    if (cost.fundId || cost.totalAmount) {
-      const fundId = cost.fundId || existing.fundId;
-      const fund = this.funds.get(fundId);
-      if (!fund || fund.userId !== userId) {
-        throw new Error("Фонд не найден");
-      }
 
-      const newAmount = cost.totalAmount ? parseFloat(cost.totalAmount.toString()) : parseFloat(existing.totalAmount.toString());
-      const oldAmount = parseFloat(existing.totalAmount.toString());
-      const currentBalance = await this.getFundBalance(fundId);
-      
-      // Calculate new balance if this cost was already deducted
-      const balanceWithOldCost = fundId === existing.fundId ? currentBalance + oldAmount : currentBalance;
-      
-      if (balanceWithOldCost < newAmount) {
-        throw new Error(`Недостаточно средств в фонде "${fund.name}". Доступно: ${balanceWithOldCost.toLocaleString('ru-RU')}₽, требуется: ${newAmount.toLocaleString('ru-RU')}₽`);
-      }
+    if (items) {
+      cost = { ...cost, totalAmount: costItemsAmount(items) };
     }
-    
+    if (fundShares) {
+      cost = { ...cost, fundId: fundShares[0].fundId };
+    }
+
+    // Without new shares a split cost keeps its shares
+    const existingShares = this.fundSharesOfCost(id);
+    const shares = fundShares === undefined && existingShares.length > 0 ? existingShares : fundShares ?? null;
+
+    // If the split, fundId or expense category is being updated, check that the funds may pay for the category
+    if (fundShares !== undefined || cost.fundId || cost.expenseCategoryId) {
+      await this.checkCostFundCategories(
+        shares ? shares.map(share => share.fundId) : [cost.fundId || existing.fundId],
+        cost.expenseCategoryId || existing.expenseCategoryId,
+        userId,
+      );
+    }
+
+    // If the split, fundId, totalAmount or date is being updated, check fund balances on the expense date
+    if (fundShares !== undefined || cost.fundId || cost.totalAmount || cost.date) {
+      const totalAmount = normalizeMoney(cost.totalAmount ?? existing.totalAmount);
+      await this.checkCostFundBalances(
+        shares ?? [{ fundId: cost.fundId || existing.fundId, amount: totalAmount, percentage: null }],
+        new Date(cost.date ?? existing.date),
+        userId,
+        {
+          date: new Date(existing.date),
+          shares: existingShares.length > 0 ? existingShares : [{ fundId: existing.fundId, amount: existing.totalAmount, percentage: null }],
+        },
+      );
+    }
+
     const updated: Cost = {
       ...existing,
       ...cost,
+      totalAmount: cost.totalAmount !== undefined ? normalizeMoney(cost.totalAmount) : existing.totalAmount,
       updatedAt: new Date(),
     };
     this.costs.set(id, updated);
+    if (items) {
+      await this.replaceItemsOfCost(id, items);
+    }
+    if (fundShares !== undefined) {
+      this.replaceFundSharesOfCost(id, fundShares ?? []);
+    }
+    this.unpost(entry => entry.costId === id);
+    costPostings(updated, shares ?? []).forEach(posting => this.post(posting));
+    this.post(costMoneyPosting(updated));
     return updated;
   }
 
+  /**
+   * Проверка, что фонды расхода могут оплачивать его статью
+   * @throws FundCategoryNotAllowedError
+   */
+  private async checkCostFundCategories(fundIds: string[], expenseCategoryId: string, userId: string): Promise<void> {
+    const rules = await this.getFundExpenseCategories(userId);
+    if (rules.length === 0) return;
+    assertFundsAllowCategory(fundIds, expenseCategoryId, {
+      rules,
+      categories: await this.getExpenseCategories(userId),
+      funds: await this.getFunds(userId),
+    });
+  }
+
+  /**
+   * Проверка, что каждый фонд покрывает свою долю расхода на дату расхода
+   *
+   * @param shares - Доли фондов (у неразделенного расхода - одна доля на всю сумму)
+   * @param previous - Прежние доли и дата изменяемого расхода: они уже списаны с фондов
+   */
+  private async checkCostFundBalances(
+    shares: CostFundShareInput[],
+    expenseDate: Date,
+    userId: string,
+    previous?: { shares: CostFundShareInput[]; date: Date },
+  ): Promise<void> {
+    for (const share of shares) {
+      const fund = this.funds.get(share.fundId);
+      if (!fund || fund.userId !== userId) {
+        throw new Error("Фонд не найден");
+      }
+
+      // The old share is already deducted if it was in the same fund on or before the new date
+      const oldAmount = previous && previous.date <= expenseDate
+        ? sumMoney(previous.shares.filter(old => old.fundId === share.fundId).map(old => old.amount))
+        : 0;
+      const available = toKopecks(await this.getFundBalance(share.fundId, expenseDate)) + oldAmount;
+      const required = toKopecks(share.amount);
+
+      if (available < required) {
+        throw new Error(`Недостаточно средств в фонде "${fund.name}" на дату ${expenseDate.toLocaleDateString('ru-RU')}. Доступно: ${formatMoney(fromKopecks(available))}, требуется: ${formatMoney(fromKopecks(required))}`);
+      }
+    }
+  }
+
+  /** Доли фондов расхода в порядке разделения */
+  private fundSharesOfCost(costId: string): CostFundShareWithName[] {
+    return Array.from(this.costFundShares.values())
+      .filter(share => share.costId === costId)
+      .sort((a, b) => a.position - b.position)
+      .map(share => ({ ...share, fundName: this.funds.get(share.fundId)?.name }));
+  }
+
+  private replaceFundSharesOfCost(costId: string, shares: CostFundShareInput[]): void {
+    Array.from(this.costFundShares.values())
+      .filter(share => share.costId === costId)
+      .forEach(share => this.costFundShares.delete(share.id));
+    const now = new Date();
+    shares.forEach((share, position) => {
+      const id = generateItemId();
+      this.costFundShares.set(id, {
+        id,
+        costId,
+        fundId: share.fundId,
+        amount: normalizeMoney(share.amount),
+        percentage: share.percentage,
+        position,
+        createdAt: now,
+      });
+    });
+  }
+
+  async getCostFundShares(costId: string): Promise<CostFundShareWithName[]> {
+    return this.fundSharesOfCost(costId);
+  }
+
+  async getCostFundShareLines(userId: string, fromDate: Date, toDate: Date): Promise<CostFundShareLine[]> {
+    return Array.from(this.costs.values())
+      .filter(cost => cost.userId === userId && cost.date >= fromDate && cost.date <= toDate)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .flatMap(cost => this.fundSharesOfCost(cost.id).map(share => ({
+        ...share,
+        date: cost.date,
+        totalAmount: cost.totalAmount,
+        expenseNomenclatureName: this.expenseNomenclature.get(cost.expenseNomenclatureId)?.name,
+      })));
+  }
+
+  private async replaceItemsOfCost(costId: string, items: CostItemInput[]): Promise<void> {
+    Array.from(this.costItems.values())
+      .filter(item => item.costId === costId)
+      .forEach(item => this.costItems.delete(item.id));
+    for (const item of items) {
+      await this.createCostItem({ ...item, amount: costItemAmount(item) }, costId);
+    }
+  }
+
   async deleteCost(id: string, userId: string): Promise<boolean> {
     const existing = this.costs.get(id);
     if (!existing || existing.userId !== userId) return false;
@@ -516,12 +953,15 @@ export class NewMemStorage implements IStorage {
     const costItemsToDelete = Array.from(this.costItems.values())
       .filter(item => item.costId === id);
     costItemsToDelete.forEach(item => this.costItems.delete(item.id));
+    this.replaceFundSharesOfCost(id, []);
     
+    this.unpost(entry => entry.costId === id);
+    this.unlinkBankStatementLines(line => line.costId === id, { costId: null });
     return this.costs.delete(id);
   }
 
   // Cost Items operations
-  async getCostItems(costId: string): Promise<(CostItem & { nomenclatureName?: string })[]> {
+  async getCostItems(costId: string): Promise<(CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]> {
     const items = Array.from(this.costItems.values())
       .filter(item => item.costId === costId);
       
@@ -529,7 +969,8 @@ export class NewMemStorage implements IStorage {
       const nomenclature = this.expenseNomenclature.get(item.expenseNomenclatureId);
       return {
         ...item,
-        nomenclatureName: nomenclature?.name
+        nomenclatureName: nomenclature?.name,
+        nomenclatureUnit: nomenclature?.unit ?? undefined
       };
     });
   }
@@ -541,10 +982,10 @@ export class NewMemStorage implements IStorage {
       id,
       costId,
       expenseNomenclatureId: costItem.expenseNomenclatureId,
-      quantity: costItem.quantity,
-      unitPrice: costItem.unitPrice,
-      amount: costItem.amount,
-      description: costItem.description,
+      quantity: costItem.quantity ?? null,
+      unitPrice: costItem.unitPrice ?? null,
+      amount: costItemStoredAmount(costItem),
+      description: costItem.description ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -561,6 +1002,7 @@ export class NewMemStorage implements IStorage {
       ...costItem,
       updatedAt: new Date(),
     };
+    updated.amount = costItemStoredAmount(updated);
     this.costItems.set(id, updated);
     return updated;
   }
@@ -569,6 +1011,25 @@ export class NewMemStorage implements IStorage {
     return this.costItems.delete(id);
   }
 
+  async getNomenclaturePriceHistory(nomenclatureId: string, userId: string): Promise<NomenclaturePricePoint[]> {
+    return Array.from(this.costItems.values())
+      .filter(item => item.expenseNomenclatureId === nomenclatureId && item.quantity && item.unitPrice)
+      .flatMap(item => {
+        const cost = this.costs.get(item.costId);
+        if (!cost || cost.userId !== userId) return [];
+        return [{
+          costId: cost.id,
+          costItemId: item.id,
+          date: cost.date,
+          quantity: item.quantity!,
+          unitPrice: item.unitPrice!,
+          amount: item.amount,
+          description: item.description,
+        }];
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
   // Fund operations (no percentage distribution)
   async getFunds(userId: string): Promise<Fund[]> {
     return Array.from(this.funds.values()).filter(f => f.userId === userId);
@@ -582,12 +1043,13 @@ export class NewMemStorage implements IStorage {
       userId,
       name: fund.name,
       description: fund.description || null,
-      initialBalance: fund.initialBalance || "0",
+      initialBalance: normalizeMoney(fund.initialBalance),
       isActive: fund.isActive ?? true,
       createdAt: now,
       updatedAt: now,
     };
     this.funds.set(id, newFund);
+    this.post(fundOpeningPosting(newFund));
     return newFund;
   }
 
@@ -598,15 +1060,32 @@ export class NewMemStorage implements IStorage {
     const updated: Fund = {
       ...existing,
       ...fund,
+      initialBalance: fund.initialBalance !== undefined ? normalizeMoney(fund.initialBalance) : existing.initialBalance,
       updatedAt: new Date(),
     };
     this.funds.set(id, updated);
+    this.unpost(entry => entry.fundId === id);
+    this.post(fundOpeningPosting(updated));
     return updated;
   }
 
   async deleteFund(id: string, userId: string): Promise<boolean> {
     const existing = this.funds.get(id);
     if (!existing || existing.userId !== userId) return false;
+    // Как ON DELETE RESTRICT у долей разделенных расходов
+    if (Array.from(this.costFundShares.values()).some(share => share.fundId === id)) {
+      throw new FundHasCostSharesError();
+    }
+    this.unpost(entry => entry.fundId === id);
+
+    // Источники с этим фондом округления возвращаются к методу наибольшего остатка
+    for (const source of Array.from(this.incomeSources.values())) {
+      if (source.roundingFundId === id) {
+        this.incomeSources.set(source.id, { ...source, roundingFundId: null });
+      }
+    }
+    this.clearNomenclatureDefaults(nomenclature => nomenclature.fundId === id, { fundId: null });
+    this.removeFundExpenseCategories(rule => rule.fundId === id);
     return this.funds.delete(id);
   }
 
@@ -615,6 +1094,30 @@ export class NewMemStorage implements IStorage {
     return fund && fund.userId === userId ? fund : undefined;
   }
 
+  async getFundExpenseCategories(userId: string): Promise<FundExpenseCategory[]> {
+    return Array.from(this.fundExpenseCategories.values())
+      .filter(rule => this.funds.get(rule.fundId)?.userId === userId);
+  }
+
+  async setFundExpenseCategories(fundId: string, expenseCategoryIds: string[], userId: string): Promise<FundExpenseCategory[] | undefined> {
+    if (!(await this.getFund(fundId, userId))) return undefined;
+
+    this.removeFundExpenseCategories(rule => rule.fundId === fundId);
+    const now = new Date();
+    return expenseCategoryIds.map(expenseCategoryId => {
+      const rule: FundExpenseCategory = { id: generateItemId(), fundId, expenseCategoryId, createdAt: now };
+      this.fundExpenseCategories.set(rule.id, rule);
+      return rule;
+    });
+  }
+
+  /** Удаление разрешенных статей фондов (как ON DELETE CASCADE) */
+  private removeFundExpenseCategories(predicate: (rule: FundExpenseCategory) => boolean): void {
+    Array.from(this.fundExpenseCategories.values())
+      .filter(predicate)
+      .forEach(rule => this.fundExpenseCategories.delete(rule.id));
+  }
+
   // Income source operations
   async getIncomeSources(userId: string): Promise<IncomeSource[]> {
     return Array.from(this.incomeSources.values()).filter(s => s.userId === userId);
@@ -629,6 +1132,8 @@ export class NewMemStorage implements IStorage {
       name: incomeSource.name,
       description: incomeSource.description || null,
       isActive: incomeSource.isActive ?? true,
+      roundingFundId: incomeSource.roundingFundId ?? null,
+      distributionMode: incomeSource.distributionMode ?? "manual",
       createdAt: now,
       updatedAt: now,
     };
@@ -667,24 +1172,15 @@ export class NewMemStorage implements IStorage {
   }
 
   // Income source fund distribution operations
-  async createIncomeSourceFundDistribution(distribution: InsertIncomeSourceFundDistribution): Promise<IncomeSourceFundDistribution> {
-    const id = generateItemId();
-    const now = new Date();
-    const newDistribution: IncomeSourceFundDistribution = {
-      id,
-      incomeSourceId: distribution.incomeSourceId,
-      fundId: distribution.fundId,
-      percentage: distribution.percentage,
-      createdAt: now,
-      updatedAt: now,
-    };
-    this.incomeSourceFundDistributions.set(id, newDistribution);
-    return newDistribution;
+  async getIncomeSourceFundDistributions(incomeSourceId: string, asOf: Date = new Date()): Promise<(IncomeSourceFundDistribution & { fundName: string })[]> {
+    const history = await this.getIncomeSourceFundDistributionHistory(incomeSourceId);
+    return rulesInForce(history, incomeSourceId, asOf);
   }
 
-  async getIncomeSourceFundDistributions(incomeSourceId: string): Promise<(IncomeSourceFundDistribution & { fundName: string })[]> {
+  async getIncomeSourceFundDistributionHistory(incomeSourceId: string): Promise<(IncomeSourceFundDistribution & { fundName: string })[]> {
     const distributions = Array.from(this.incomeSourceFundDistributions.values())
-      .filter(dist => dist.incomeSourceId === incomeSourceId);
+      .filter(dist => dist.incomeSourceId === incomeSourceId)
+      .sort((a, b) => new Date(b.validFrom).getTime() - new Date(a.validFrom).getTime() || a.position - b.position);
     
     return distributions.map(dist => ({
       ...dist,
@@ -692,12 +1188,34 @@ export class NewMemStorage implements IStorage {
     }));
   }
 
-  async deleteIncomeSourceFundDistributions(incomeSourceId: string): Promise<boolean> {
-    const distributionsToDelete = Array.from(this.incomeSourceFundDistributions.values())
-      .filter(dist => dist.incomeSourceId === incomeSourceId);
-    
-    distributionsToDelete.forEach(dist => this.incomeSourceFundDistributions.delete(dist.id));
-    return true;
+  // Новая версия правил: заменяет версии с той же или более поздней датой, закрывает действующую
+  async replaceIncomeSourceFundDistributions(incomeSourceId: string, version: IncomeSourceFundDistributionVersion): Promise<IncomeSourceFundDistribution[]> {
+    const { validFrom, rules } = version;
+    const now = new Date();
+
+    for (const dist of Array.from(this.incomeSourceFundDistributions.values())) {
+      if (dist.incomeSourceId !== incomeSourceId) continue;
+      if (dist.validFrom >= validFrom) {
+        this.incomeSourceFundDistributions.delete(dist.id);
+      } else if (!dist.validTo || dist.validTo > validFrom) {
+        this.incomeSourceFundDistributions.set(dist.id, { ...dist, validTo: validFrom, updatedAt: now });
+      }
+    }
+
+    return rules.map((rule, position) => {
+      const newDistribution: IncomeSourceFundDistribution = {
+        id: generateItemId(),
+        incomeSourceId,
+        ...distributionRuleFields(rule),
+        position,
+        validFrom,
+        validTo: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.incomeSourceFundDistributions.set(newDistribution.id, newDistribution);
+      return newDistribution;
+    });
   }
 
   // Receipt item operations
@@ -707,8 +1225,10 @@ export class NewMemStorage implements IStorage {
     const newReceiptItem: ReceiptItem = {
       id,
       receiptId: receiptItem.receiptId,
-      sponsorId: receiptItem.sponsorId,
-      amount: receiptItem.amount,
+      sponsorId: receiptItem.sponsorId ?? null,
+      payerName: receiptItem.payerName ?? null,
+      paymentMethod: receiptItem.paymentMethod ?? null,
+      amount: normalizeMoney(receiptItem.amount),
       comment: receiptItem.comment || null,
       createdAt: now,
       updatedAt: now,
@@ -717,13 +1237,13 @@ export class NewMemStorage implements IStorage {
     return newReceiptItem;
   }
 
-  async getReceiptItems(receiptId: string): Promise<(ReceiptItem & { sponsorName: string })[]> {
+  async getReceiptItems(receiptId: string): Promise<(ReceiptItem & { sponsorName: string | null })[]> {
     const items = Array.from(this.receiptItems.values())
       .filter(item => item.receiptId === receiptId);
     
     return items.map(item => ({
       ...item,
-      sponsorName: this.sponsors.get(item.sponsorId)?.name || 'Unknown Sponsor'
+      sponsorName: item.sponsorId ? this.sponsors.get(item.sponsorId)?.name || 'Unknown Sponsor' : null
     }));
   }
 
@@ -734,37 +1254,31 @@ export class NewMemStorage implements IStorage {
     itemsToDelete.forEach(item => this.receiptItems.delete(item.id));
   }
 
-  async distributeFundsForReceiptByIncomeSource(receiptId: string, amount: number, incomeSourceId: string, userId: string): Promise<void> {
+  async distributeFundsForReceiptByIncomeSource(receiptId: string, amount: Kopecks, incomeSourceId: string, userId: string): Promise<DistributionHistory | undefined> {
     // Remove existing distributions for this receipt
     const existingDistributions = Array.from(this.fundDistributions.values())
       .filter(d => d.receiptId === receiptId);
-    existingDistributions.forEach(d => this.fundDistributions.delete(d.id));
+    existingDistributions.forEach(d => this.removeFundDistribution(d.id));
+
+    const receipt = this.receipts.get(receiptId);
+    if (!receipt) {
+      return undefined;
+    }
+
+    // The receipt is distributed anew, so its distributions are up to date
+    receipt.distributionStale = false;
     
-    // Get fund distributions for this income source
-    const incomeSourceDistributions = Array.from(this.incomeSourceFundDistributions.values())
-      .filter(d => d.incomeSourceId === incomeSourceId);
+    // Steps in force on the receipt date, the same engine as the batch distribution
+    const rules = Array.from(this.incomeSourceFundDistributions.values())
+      .filter(rule => rule.incomeSourceId === incomeSourceId);
+    const plan = planDistribution([{ ...receipt, amount: fromKopecks(amount) }], rules, await this.getDistributionContext(rules, userId));
     
-    if (incomeSourceDistributions.length === 0) {
-      // No distribution configured for this income source
-      return;
+    if (plan.total === 0) {
+      // No distribution configured for this income source on the receipt date
+      return undefined;
     }
     
-    for (const sourceDistribution of incomeSourceDistributions) {
-      const distributionAmount = (amount * sourceDistribution.percentage) / 100;
-      
-      const id = generateItemId();
-      const now = new Date();
-      const distribution: FundDistribution = {
-        id,
-        receiptId,
-        fundId: sourceDistribution.fundId,
-        amount: distributionAmount,
-        percentage: sourceDistribution.percentage,
-        createdAt: now,
-        updatedAt: now,
-      };
-      this.fundDistributions.set(id, distribution);
-    }
+    return this.recordDistribution(plan, userId);
   }
 
   // Fund distribution operations
@@ -775,11 +1289,17 @@ export class NewMemStorage implements IStorage {
       id,
       receiptId: distribution.receiptId,
       fundId: distribution.fundId,
-      amount: distribution.amount,
+      amount: normalizeMoney(distribution.amount),
       percentage: distribution.percentage,
+      distributionHistoryId: distribution.distributionHistoryId ?? null,
       createdAt: now,
     };
     this.fundDistributions.set(id, newDistribution);
+
+    const receipt = this.receipts.get(newDistribution.receiptId);
+    if (receipt) {
+      this.post(fundDistributionPosting(newDistribution, receipt));
+    }
     return newDistribution;
   }
 
@@ -797,7 +1317,7 @@ export class NewMemStorage implements IStorage {
     const distributionsToDelete = Array.from(this.fundDistributions.values())
       .filter(dist => dist.receiptId === receiptId);
     
-    distributionsToDelete.forEach(dist => this.fundDistributions.delete(dist.id));
+    distributionsToDelete.forEach(dist => this.removeFundDistribution(dist.id));
   }
 
   // Dashboard statistics
@@ -814,20 +1334,15 @@ export class NewMemStorage implements IStorage {
     const userSponsors = Array.from(this.sponsors.values()).filter(s => s.userId === userId && s.isActive);
     const userFunds = Array.from(this.funds.values()).filter(f => f.userId === userId && f.isActive);
 
-    // Calculate total receipts amount by summing receipt items
-    const totalReceiptsAmount = userReceipts.reduce((sum, receipt) => {
-      const receiptItemsSum = Array.from(this.receiptItems.values())
-        .filter(item => item.receiptId === receipt.id)
-        .reduce((itemSum, item) => itemSum + parseFloat(item.amount), 0);
-      return sum + receiptItemsSum;
-    }, 0);
+    // Total receipts are the receipt amounts, the same that are posted to the funds
+    const totalReceiptsAmount = sumMoney(userReceipts.map(receipt => receipt.amount));
 
-    const totalCostsAmount = userCosts.reduce((sum, cost) => sum + parseFloat(cost.totalAmount), 0);
+    const totalCostsAmount = sumMoney(userCosts.map(cost => cost.totalAmount));
 
     return {
-      totalReceipts: totalReceiptsAmount,
-      totalCosts: totalCostsAmount,
-      netBalance: totalReceiptsAmount - totalCostsAmount,
+      totalReceipts: kopecksToRubles(totalReceiptsAmount),
+      totalCosts: kopecksToRubles(totalCostsAmount),
+      netBalance: kopecksToRubles(totalReceiptsAmount - totalCostsAmount),
       activeSponsors: userSponsors.length,
       activeFunds: userFunds.length,
       totalFundPercentage: 0 // Not applicable in new architecture
@@ -874,20 +1389,50 @@ export class NewMemStorage implements IStorage {
     };
   }
 
+  async getPaymentMethodTotals(userId: string, fromDate: Date, toDate: Date): Promise<PaymentMethodTotals[]> {
+    const inPeriod = (date: Date) => date >= fromDate && date <= toDate;
+    const receiptsInPeriod = new Set(Array.from(this.receipts.values())
+      .filter(receipt => receipt.userId === userId && inPeriod(receipt.date))
+      .map(receipt => receipt.id));
+
+    const received = new Map<PaymentMethod | null, number>();
+    const paid = new Map<PaymentMethod | null, number>();
+    for (const item of Array.from(this.receiptItems.values())) {
+      if (!receiptsInPeriod.has(item.receiptId)) continue;
+      const method = item.paymentMethod as PaymentMethod | null;
+      received.set(method, (received.get(method) || 0) + toKopecks(item.amount));
+    }
+    for (const cost of Array.from(this.costs.values())) {
+      if (cost.userId !== userId || !inPeriod(cost.date)) continue;
+      const method = cost.paymentMethod as PaymentMethod | null;
+      paid.set(method, (paid.get(method) || 0) + toKopecks(cost.totalAmount));
+    }
+
+    // В порядке paymentMethods, не указанный способ - последним
+    return [...paymentMethods, null]
+      .filter(method => received.has(method) || paid.has(method))
+      .map(method => ({
+        paymentMethod: method,
+        receiptsAmount: fromKopecks(received.get(method) || 0),
+        costsAmount: fromKopecks(paid.get(method) || 0),
+      }));
+  }
+
   // Fund transfer operations
-  async createFundTransfer(transfer: InsertFundTransfer): Promise<FundTransfer> {
+  async createFundTransfer(transfer: InsertFundTransfer, userId: string): Promise<FundTransfer> {
     const id = generateFundTransferId();
     const now = new Date();
     const newTransfer: FundTransfer = {
       id,
       fromFundId: transfer.fromFundId,
       toFundId: transfer.toFundId,
-      amount: transfer.amount,
+      amount: normalizeMoney(transfer.amount),
       description: transfer.description || null,
-      userId: transfer.userId,
+      userId,
       createdAt: now,
     };
     this.fundTransfers.set(id, newTransfer);
+    this.post(fundTransferPosting(newTransfer));
     return newTransfer;
   }
 
@@ -904,83 +1449,257 @@ export class NewMemStorage implements IStorage {
   }
 
   async deleteFundTransfer(id: string): Promise<boolean> {
+    this.unpost(entry => entry.fundTransferId === id);
     return this.fundTransfers.delete(id);
   }
 
-  // Fund balance calculations
-  async getFundBalance(fundId: string): Promise<number> {
-    const fund = this.funds.get(fundId);
-    if (!fund) return 0;
+  // Money account operations
+  async getMoneyAccounts(userId: string): Promise<MoneyAccount[]> {
+    return Array.from(this.moneyAccounts.values()).filter(account => account.userId === userId);
+  }
 
-    let balance = parseFloat(fund.initialBalance || "0");
+  async getMoneyAccount(id: string, userId: string): Promise<MoneyAccount | undefined> {
+    const account = this.moneyAccounts.get(id);
+    return account && account.userId === userId ? account : undefined;
+  }
 
-    // Add money from fund distributions (receipts)
-    const distributions = Array.from(this.fundDistributions.values())
-      .filter(dist => dist.fundId === fundId);
-    balance += distributions.reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+  async createMoneyAccount(account: InsertMoneyAccount, userId: string): Promise<MoneyAccount> {
+    const id = generateMoneyAccountId();
+    const now = new Date();
+    const newAccount: MoneyAccount = {
+      id,
+      userId,
+      name: account.name,
+      kind: account.kind,
+      description: account.description || null,
+      initialBalance: normalizeMoney(account.initialBalance),
+      isActive: account.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.moneyAccounts.set(id, newAccount);
+    this.post(moneyAccountOpeningPosting(newAccount));
+    return newAccount;
+  }
 
-    // Add money transferred TO this fund
-    const transfersTo = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.toFundId === fundId);
-    balance += transfersTo.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+  async updateMoneyAccount(id: string, account: Partial<InsertMoneyAccount>, userId: string): Promise<MoneyAccount | undefined> {
+    const existing = this.moneyAccounts.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
 
-    // Subtract money transferred FROM this fund
-    const transfersFrom = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.fromFundId === fundId);
-    balance -= transfersFrom.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+    const updated: MoneyAccount = {
+      ...existing,
+      ...account,
+      initialBalance: account.initialBalance !== undefined ? normalizeMoney(account.initialBalance) : existing.initialBalance,
+      updatedAt: new Date(),
+    };
+    this.moneyAccounts.set(id, updated);
+    this.unpost(entry => entry.moneyAccountId === id);
+    this.post(moneyAccountOpeningPosting(updated));
+    return updated;
+  }
 
-    // Subtract costs from this fund
-    const costs = Array.from(this.costs.values())
-      .filter(cost => cost.fundId === fundId);
-    balance -= costs.reduce((sum, cost) => sum + parseFloat(cost.totalAmount), 0);
+  async deleteMoneyAccount(id: string, userId: string): Promise<boolean> {
+    const existing = this.moneyAccounts.get(id);
+    if (!existing || existing.userId !== userId) return false;
 
-    return balance;
+    const account = moneyAccount(id);
+    const inUse = Array.from(this.ledgerEntries.values()).some(entry =>
+      (entry.debitAccount === account || entry.creditAccount === account) && entry.moneyAccountId !== id
+    );
+    if (inUse) {
+      throw new MoneyAccountInUseError();
+    }
+
+    this.unpost(entry => entry.moneyAccountId === id);
+    this.unlinkBankStatementLines(line => line.moneyAccountId === id, { moneyAccountId: null });
+    return this.moneyAccounts.delete(id);
   }
 
-  // Get fund balance on a specific date
-  async getFundBalanceOnDate(fundId: string, targetDate: Date): Promise<number> {
-    const fund = this.funds.get(fundId);
-    if (!fund) return 0;
+  async getMoneyAccountsWithBalances(userId: string, asOf?: Date): Promise<MoneyAccountWithBalance[]> {
+    const userAccounts = await this.getMoneyAccounts(userId);
 
-    let balance = parseFloat(fund.initialBalance || "0");
+    return await Promise.all(
+      userAccounts.map(async (account) => ({
+        ...account,
+        balance: await this.getAccountBalance(userId, moneyAccount(account.id), asOf),
+      }))
+    );
+  }
 
-    // Add money from fund distributions (receipts) up to the target date
-    const distributions = Array.from(this.fundDistributions.values())
-      .filter(dist => {
-        if (dist.fundId !== fundId) return false;
-        // Get the receipt date for this distribution
-        const receipt = this.receipts.get(dist.receiptId);
-        if (!receipt) return false;
-        return new Date(receipt.date) <= targetDate;
+  async getMoneyAccountReconciliation(userId: string, asOf?: Date): Promise<MoneyAccountReconciliation> {
+    const accounts = await this.getMoneyAccountsWithBalances(userId, asOf);
+    const userFunds = await this.getFundsWithBalances(userId, asOf);
+    const unallocated = toKopecks(await this.getAccountBalance(userId, UNALLOCATED_ACCOUNT, asOf));
+    const equity = toKopecks(await this.getAccountBalance(userId, EQUITY_ACCOUNT, asOf));
+    const moneyOpening = toKopecks(await this.getAccountBalance(userId, MONEY_OPENING_ACCOUNT, asOf));
+
+    const accountsTotal = sumMoney(accounts.map(account => account.balance));
+    const fundsTotal = sumMoney(userFunds.map(fund => fund.balance));
+
+    return {
+      accountsTotal: kopecksToRubles(accountsTotal),
+      fundsTotal: kopecksToRubles(fundsTotal),
+      unallocated: kopecksToRubles(unallocated),
+      difference: kopecksToRubles(accountsTotal - fundsTotal - unallocated),
+      // Начальные остатки проводятся по кредиту equity и money_opening, поэтому их остатки отрицательны
+      openingBalancesDifference: kopecksToRubles(equity - moneyOpening),
+    };
+  }
+
+  // Money account transfer operations
+  async createMoneyAccountTransfer(transfer: InsertMoneyAccountTransfer, userId: string): Promise<MoneyAccountTransfer> {
+    const id = generateMoneyAccountTransferId();
+    const newTransfer: MoneyAccountTransfer = {
+      id,
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      amount: normalizeMoney(transfer.amount),
+      date: transfer.date,
+      description: transfer.description || null,
+      userId,
+      createdAt: new Date(),
+    };
+    this.moneyAccountTransfers.set(id, newTransfer);
+    this.post(moneyAccountTransferPosting(newTransfer));
+    return newTransfer;
+  }
+
+  async getMoneyAccountTransfers(userId: string): Promise<MoneyAccountTransferWithNames[]> {
+    return Array.from(this.moneyAccountTransfers.values())
+      .filter(transfer => transfer.userId === userId)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .map(transfer => ({
+        ...transfer,
+        fromAccountName: this.moneyAccounts.get(transfer.fromAccountId)?.name || 'Unknown Account',
+        toAccountName: this.moneyAccounts.get(transfer.toAccountId)?.name || 'Unknown Account',
+      }));
+  }
+
+  async deleteMoneyAccountTransfer(id: string, userId: string): Promise<boolean> {
+    const transfer = this.moneyAccountTransfers.get(id);
+    if (!transfer || transfer.userId !== userId) return false;
+
+    this.unpost(entry => entry.moneyAccountTransferId === id);
+    return this.moneyAccountTransfers.delete(id);
+  }
+
+  // Bank statement operations
+  async getBankStatementLines(userId: string): Promise<BankStatementLineWithDocument[]> {
+    return Array.from(this.bankStatementLines.values())
+      .filter(line => line.userId === userId)
+      .sort((a, b) =>
+        new Date(b.date).getTime() - new Date(a.date).getTime() ||
+        new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+      )
+      .map(line => {
+        const receipt = line.receiptId ? this.receipts.get(line.receiptId) : undefined;
+        const cost = line.costId ? this.costs.get(line.costId) : undefined;
+        const sponsorItem = receipt
+          ? Array.from(this.receiptItems.values()).find(item => item.receiptId === receipt.id && item.sponsorId)
+          : undefined;
+        return {
+          ...line,
+          incomeSourceId: receipt?.incomeSourceId ?? null,
+          sponsorId: sponsorItem?.sponsorId ?? null,
+          expenseNomenclatureId: cost?.expenseNomenclatureId ?? null,
+          expenseCategoryId: cost?.expenseCategoryId ?? null,
+          fundId: cost?.fundId ?? null,
+        };
       });
-    balance += distributions.reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+  }
+
+  async createBankStatementLine(line: InsertBankStatementLine, userId: string): Promise<BankStatementLine> {
+    const id = generateBankStatementLineId();
+    const newLine: BankStatementLine = {
+      id,
+      userId,
+      moneyAccountId: line.moneyAccountId ?? null,
+      externalId: line.externalId,
+      direction: line.direction,
+      documentNumber: line.documentNumber ?? null,
+      date: line.date,
+      amount: normalizeMoney(line.amount),
+      counterpartyName: line.counterpartyName ?? null,
+      counterpartyInn: line.counterpartyInn ?? null,
+      counterpartyAccount: line.counterpartyAccount ?? null,
+      purpose: line.purpose ?? null,
+      receiptId: line.receiptId ?? null,
+      costId: line.costId ?? null,
+      createdAt: new Date(),
+    };
+    this.bankStatementLines.set(id, newLine);
+    return newLine;
+  }
+
+  async setBankStatementLineDocument(id: string, document: BankStatementLineDocument, userId: string): Promise<BankStatementLine | undefined> {
+    const line = this.bankStatementLines.get(id);
+    if (!line || line.userId !== userId) return undefined;
+    const updatedLine: BankStatementLine = { ...line, receiptId: document.receiptId, costId: document.costId };
+    this.bankStatementLines.set(id, updatedLine);
+    return updatedLine;
+  }
+
+  // Import mapping operations
+  async getImportMappings(userId: string, kind?: SpreadsheetImportKind): Promise<ImportMapping[]> {
+    return Array.from(this.importMappings.values())
+      .filter(mapping => mapping.userId === userId && (!kind || mapping.kind === kind))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createImportMapping(mapping: InsertImportMapping, userId: string): Promise<ImportMapping> {
+    const id = generateImportMappingId();
+    const now = new Date();
+    const newMapping: ImportMapping = {
+      id,
+      userId,
+      name: mapping.name,
+      kind: mapping.kind,
+      columns: mapping.columns,
+      dateFormat: mapping.dateFormat ?? null,
+      decimalSeparator: mapping.decimalSeparator ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.importMappings.set(id, newMapping);
+    return newMapping;
+  }
 
-    // Add money transferred TO this fund up to the target date
-    const transfersTo = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.toFundId === fundId && new Date(transfer.createdAt) <= targetDate);
-    balance += transfersTo.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+  async deleteImportMapping(id: string, userId: string): Promise<boolean> {
+    const mapping = this.importMappings.get(id);
+    if (!mapping || mapping.userId !== userId) return false;
+    return this.importMappings.delete(id);
+  }
 
-    // Subtract money transferred FROM this fund up to the target date
-    const transfersFrom = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.fromFundId === fundId && new Date(transfer.createdAt) <= targetDate);
-    balance -= transfersFrom.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+  // Ledger and balances
+  async getLedgerEntries(userId: string, filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const { account, fromDate, toDate } = filter;
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.userId === userId)
+      .filter(entry => !account || entry.debitAccount === account || entry.creditAccount === account)
+      .filter(entry => !fromDate || new Date(entry.date) >= fromDate)
+      .filter(entry => !toDate || new Date(entry.date) <= toDate)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
 
-    // Subtract costs from this fund up to the target date (excluding the cost being created)
-    const costs = Array.from(this.costs.values())
-      .filter(cost => cost.fundId === fundId && new Date(cost.date) < targetDate);
-    balance -= costs.reduce((sum, cost) => sum + parseFloat(cost.totalAmount), 0);
+  async getAccountBalance(userId: string, account: string, asOf?: Date): Promise<number> {
+    const entries = await this.getLedgerEntries(userId, { account });
+    return kopecksToRubles(accountBalance(entries, account, asOf));
+  }
 
-    return balance;
+  async getFundBalance(fundId: string, asOf?: Date): Promise<number> {
+    const fund = this.funds.get(fundId);
+    if (!fund) return 0;
+    return this.getAccountBalance(fund.userId, fundAccount(fundId), asOf);
   }
 
-  async getFundsWithBalances(userId: string): Promise<(Fund & { balance: number })[]> {
+  async getFundsWithBalances(userId: string, asOf?: Date): Promise<(Fund & { balance: number })[]> {
     const userFunds = Array.from(this.funds.values())
       .filter(fund => fund.userId === userId);
     
     const fundsWithBalances = await Promise.all(
       userFunds.map(async (fund) => ({
         ...fund,
-        balance: await this.getFundBalance(fund.id)
+        balance: await this.getFundBalance(fund.id, asOf)
       }))
     );
 
@@ -1000,7 +1719,7 @@ export class NewMemStorage implements IStorage {
     const newDistribution: ManualFundDistribution = {
       id,
       fundId: distribution.fundId,
-      amount: distribution.amount,
+      amount: normalizeMoney(distribution.amount),
       percentage: distribution.percentage || null,
       description: distribution.description || null,
       date: distribution.date,
@@ -1008,6 +1727,7 @@ export class NewMemStorage implements IStorage {
       createdAt: now,
     };
     this.manualFundDistributions.set(id, newDistribution);
+    this.post(manualFundDistributionPosting(newDistribution));
     return newDistribution;
   }
 
@@ -1015,6 +1735,7 @@ export class NewMemStorage implements IStorage {
     const distribution = this.manualFundDistributions.get(id);
     if (distribution && distribution.userId === userId) {
       this.manualFundDistributions.delete(id);
+      this.unpost(entry => entry.manualFundDistributionId === id);
       return true;
     }
     return false;
@@ -1022,129 +1743,176 @@ export class NewMemStorage implements IStorage {
 
   // Calculate total unallocated funds
   async getUnallocatedFunds(userId: string): Promise<number> {
-    // Get total receipts
-    const userReceipts = Array.from(this.receipts.values())
-      .filter(receipt => receipt.userId === userId);
-    const totalReceipts = userReceipts.reduce((sum, receipt) => sum + parseFloat(receipt.amount), 0);
+    return this.getAccountBalance(userId, UNALLOCATED_ACCOUNT);
+  }
+
+  /**
+   * План распределения нераспределенных поступлений пользователя
+   * @param filter - Отбор поступлений (период, источник, конкретные поступления)
+   * @returns План и нераспределенный остаток; план пуст, если распределять нечего
+   */
+  private async planUnallocatedDistribution(userId: string, filter: DistributionFilter): Promise<{ plan: DistributionPlan; unallocated: Kopecks }> {
+    const unallocated = toKopecks(await this.getUnallocatedFunds(userId));
+    if (unallocated <= 0) {
+      return { plan: planDistribution([], []), unallocated }; // Nothing to distribute
+    }
 
-    // Get total distributed through income sources
-    const totalDistributed = Array.from(this.fundDistributions.values())
-      .reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+    // Get receipts that don't have fund distributions yet
+    const distributedReceiptIds = new Set(Array.from(this.fundDistributions.values()).map(dist => dist.receiptId));
+    const undistributedReceipts = Array.from(this.receipts.values())
+      .filter(receipt => receipt.userId === userId && !distributedReceiptIds.has(receipt.id))
+      .filter(receipt => matchesDistributionFilter(receipt, filter))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-    // Get total manually distributed
-    const totalManuallyDistributed = Array.from(this.manualFundDistributions.values())
-      .filter(dist => dist.userId === userId)
-      .reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+    const sourceIds = new Set(undistributedReceipts.map(receipt => receipt.incomeSourceId));
+    const rules = Array.from(this.incomeSourceFundDistributions.values())
+      .filter(rule => sourceIds.has(rule.incomeSourceId));
 
-    return totalReceipts - totalDistributed - totalManuallyDistributed;
+    return { plan: planDistribution(undistributedReceipts, rules, await this.getDistributionContext(rules, userId)), unallocated };
   }
 
-  // Get detailed fund balance including manual distributions
-  async getFundBalanceDetailed(fundId: string): Promise<number> {
-    const fund = this.funds.get(fundId);
-    if (!fund) return 0;
+  // Месячные лимиты и фонды округления для расчета распределения
+  // (распределения пересчитываемых поступлений excludeReceiptIds в лимитах не учитываются)
+  private async getDistributionContext(rules: IncomeSourceFundDistribution[], userId: string, excludeReceiptIds: string[] = []): Promise<DistributionContext> {
+    const sources = await this.getIncomeSources(userId);
+    return {
+      capUsage: this.getCapUsage(rules, excludeReceiptIds),
+      roundingFunds: new Map(sources.flatMap(source => source.roundingFundId ? [[source.id, source.roundingFundId]] : [])),
+    };
+  }
 
-    let balance = parseFloat(fund.initialBalance || "0");
+  // Уже распределенные суммы по источникам с месячными лимитами
+  private getCapUsage(rules: IncomeSourceFundDistribution[], excludeReceiptIds: string[] = []): CapUsage {
+    const cappedSourceIds = new Set(rules.filter(rule => rule.ruleType === "capped").map(rule => rule.incomeSourceId));
+    if (cappedSourceIds.size === 0) {
+      return new Map();
+    }
 
-    // Add money from automatic fund distributions (receipts)
-    const distributions = Array.from(this.fundDistributions.values())
-      .filter(dist => dist.fundId === fundId);
-    balance += distributions.reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+    const rows = Array.from(this.fundDistributions.values()).flatMap(dist => {
+      const receipt = this.receipts.get(dist.receiptId);
+      return receipt && cappedSourceIds.has(receipt.incomeSourceId) && !excludeReceiptIds.includes(receipt.id)
+        ? [{ incomeSourceId: receipt.incomeSourceId, fundId: dist.fundId, amount: dist.amount, date: receipt.date }]
+        : [];
+    });
+    return buildCapUsage(rows);
+  }
 
-    // Add money from manual distributions
-    const manualDistributions = Array.from(this.manualFundDistributions.values())
-      .filter(dist => dist.fundId === fundId);
-    balance += manualDistributions.reduce((sum, dist) => sum + parseFloat(dist.amount), 0);
+  async previewUnallocatedDistribution(userId: string, filter: DistributionFilter = {}): Promise<DistributionPreview> {
+    const { plan, unallocated } = await this.planUnallocatedDistribution(userId, filter);
+    const fundNames = new Map((await this.getFunds(userId)).map(fund => [fund.id, fund.name]));
+    const sourceNames = new Map((await this.getIncomeSources(userId)).map(source => [source.id, source.name]));
+    return toDistributionPreview(plan, unallocated, fundNames, sourceNames);
+  }
 
-    // Add money transferred TO this fund
-    const transfersTo = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.toFundId === fundId);
-    balance += transfersTo.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+  // Automatically distribute all unallocated funds based on income sources
+  async distributeUnallocatedFunds(userId: string, filter: DistributionFilter = {}): Promise<void> {
+    const { plan } = await this.planUnallocatedDistribution(userId, filter);
 
-    // Subtract money transferred FROM this fund
-    const transfersFrom = Array.from(this.fundTransfers.values())
-      .filter(transfer => transfer.fromFundId === fundId);
-    balance -= transfersFrom.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0);
+    // The history total is what the funds actually received, so it always equals the sum of its items
+    if (plan.total === 0) {
+      return;
+    }
 
-    return balance;
+    this.recordDistribution(plan, userId);
   }
 
-  // Automatically distribute all unallocated funds based on income sources
-  async distributeUnallocatedFunds(userId: string): Promise<void> {
-    const unallocatedAmount = await this.getUnallocatedFunds(userId);
-    
-    if (unallocatedAmount <= 0) {
-      return; // Nothing to distribute
+  // Пересчет устаревших распределений по правилам на дату поступления
+  private async planStaleCorrections(userId: string, filter: DistributionFilter): Promise<CorrectionPlan> {
+    const distributions = Array.from(this.fundDistributions.values());
+    const distributedReceiptIds = new Set(distributions.map(dist => dist.receiptId));
+    const staleReceipts = Array.from(this.receipts.values())
+      .filter(receipt => receipt.userId === userId && receipt.distributionStale && distributedReceiptIds.has(receipt.id))
+      .filter(receipt => matchesDistributionFilter(receipt, filter))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    if (staleReceipts.length === 0) {
+      return planCorrections([], [], []);
     }
 
+    const receiptIds = staleReceipts.map(receipt => receipt.id);
+    const sourceIds = new Set(staleReceipts.map(receipt => receipt.incomeSourceId));
+    const rules = Array.from(this.incomeSourceFundDistributions.values())
+      .filter(rule => sourceIds.has(rule.incomeSourceId));
+
+    return planCorrections(
+      staleReceipts,
+      distributions.filter(dist => receiptIds.includes(dist.receiptId)),
+      rules,
+      await this.getDistributionContext(rules, userId, receiptIds),
+    );
+  }
+
+  async previewStaleDistributions(userId: string, filter: DistributionFilter = {}): Promise<StaleDistributionPreview> {
+    const { corrections } = await this.planStaleCorrections(userId, filter);
+    const fundNames = new Map((await this.getFunds(userId)).map(fund => [fund.id, fund.name]));
+    const sourceNames = new Map((await this.getIncomeSources(userId)).map(source => [source.id, source.name]));
+    return toStaleDistributionPreview(corrections, fundNames, sourceNames);
+  }
+
+  async redistributeStaleDistributions(userId: string, filter: DistributionFilter = {}): Promise<DistributionHistory | undefined> {
+    const { corrections, plan } = await this.planStaleCorrections(userId, filter);
+    corrections.forEach(({ receipt }) => {
+      receipt.distributionStale = false;
+    });
+
+    // Receipts whose recalculated shares did not change only lose the flag
+    return plan.planned.length > 0 ? this.recordDistribution(plan, userId, "correction") : undefined;
+  }
+
+  /**
+   * Запись распределения по плану: запуск в истории, распределения по фондам со ссылкой на него и их проводки
+   * @param kind - Вид запуска (для корректировки строки плана - изменения долей, в том числе отрицательные)
+   */
+  private recordDistribution(plan: DistributionPlan, userId: string, kind: DistributionHistoryKind = "distribution"): DistributionHistory {
     // Create distribution history entry
     const historyId = generateDistributionId();
+    const now = new Date();
     const distributionHistory: DistributionHistory = {
       id: historyId,
       userId,
-      totalAmount: unallocatedAmount.toString(),
-      distributionDate: new Date(),
-      createdAt: new Date(),
+      totalAmount: fromKopecks(plan.total),
+      kind,
+      // Как serial в базе: следующий номер после всех записанных запусков
+      sequence: Math.max(0, ...Array.from(this.distributionHistory.values()).map(run => run.sequence)) + 1,
+      distributionDate: now,
+      createdAt: now,
     };
     this.distributionHistory.set(historyId, distributionHistory);
 
-    // Get all receipts that haven't been distributed yet
-    const userReceipts = Array.from(this.receipts.values())
-      .filter(receipt => receipt.userId === userId);
-
-    // Get receipts that don't have fund distributions yet
-    const undistributedReceipts = userReceipts.filter(receipt => {
-      const hasDistributions = Array.from(this.fundDistributions.values())
-        .some(dist => dist.receiptId === receipt.id);
-      return !hasDistributions;
-    });
-
-    // Track distribution amounts for history
-    const distributionAmounts: Map<string, number> = new Map();
-
-    // Distribute funds for each undistributed receipt
-    for (const receipt of undistributedReceipts) {
-      if (receipt.incomeSourceId) {
-        const receiptAmount = parseFloat(receipt.amount);
-        
-        // Get fund distributions for this income source
-        const fundDistributions = Array.from(this.incomeSourceFundDistributions.values())
-          .filter(dist => dist.incomeSourceId === receipt.incomeSourceId);
-
-        for (const fundDist of fundDistributions) {
-          const percentage = parseFloat(fundDist.percentage);
-          const amount = (receiptAmount * percentage) / 100;
-          
-          // Add to existing amount or create new
-          const currentAmount = distributionAmounts.get(fundDist.fundId) || 0;
-          distributionAmounts.set(fundDist.fundId, currentAmount + amount);
-        }
-
-        await this.distributeFundsForReceiptByIncomeSource(
-          receipt.id, 
-          receiptAmount, 
-          receipt.incomeSourceId, 
-          userId
-        );
+    // Create fund distributions linked to this run so it can be undone exactly
+    for (const { receipt, allocations } of plan.planned) {
+      for (const allocation of allocations) {
+        const id = generateItemId();
+        const distribution: FundDistribution = {
+          id,
+          receiptId: receipt.id,
+          fundId: allocation.fundId,
+          amount: fromKopecks(allocation.amount),
+          percentage: allocation.percentage,
+          distributionHistoryId: historyId,
+          createdAt: now,
+        };
+        this.fundDistributions.set(id, distribution);
+        this.post(fundDistributionPosting(distribution, receipt));
       }
     }
 
-    // Create history items for each fund that received money
-    distributionAmounts.forEach((amount, fundId) => {
-      // Calculate percentage of total
-      const percentage = (amount / unallocatedAmount) * 100;
-      
+    // Create history items for each fund whose share changed; percentages are shares of the moved amount
+    // (for a distribution it is the total, for a correction the sum of changes in both directions)
+    const moved = Array.from(plan.fundTotals.values()).reduce((total, amount) => total + Math.abs(amount), 0);
+    plan.fundTotals.forEach((amount, fundId) => {
+      if (amount === 0) return;
       const historyItemId = generateItemId();
       const historyItem: DistributionHistoryItem = {
         id: historyItemId,
         distributionId: historyId,
         fundId,
-        amount: amount.toString(),
-        percentage: percentage.toString(),
-        createdAt: new Date(),
+        amount: fromKopecks(amount),
+        percentage: percentageOf(amount, moved),
+        createdAt: now,
       };
       this.distributionHistoryItems.set(historyItemId, historyItem);
     });
+    return distributionHistory;
   }
 
   // Distribution History operations
@@ -1197,10 +1965,32 @@ export class NewMemStorage implements IStorage {
     };
   }
 
-  async deleteDistributionHistory(id: string, userId: string): Promise<boolean> {
+  async getDistributionHistoryReceipts(id: string, userId: string): Promise<Receipt[]> {
+    const receiptIds = new Set(Array.from(this.fundDistributions.values())
+      .filter(dist => dist.distributionHistoryId === id)
+      .map(dist => dist.receiptId));
+
+    return Array.from(this.receipts.values())
+      .filter(receipt => receipt.userId === userId && receiptIds.has(receipt.id))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  async deleteDistributionHistory(id: string, userId: string): Promise<Receipt[] | undefined> {
     const history = this.distributionHistory.get(id);
     if (!history || history.userId !== userId) {
-      return false;
+      return undefined;
+    }
+
+    const affectedReceipts = await this.getDistributionHistoryReceipts(id, userId);
+
+    // A later run on the same receipts can only be a correction of these shares (a new distribution replaces them)
+    const affectedIds = new Set(affectedReceipts.map(receipt => receipt.id));
+    const corrected = Array.from(this.fundDistributions.values()).some(dist => {
+      const run = dist.distributionHistoryId ? this.distributionHistory.get(dist.distributionHistoryId) : undefined;
+      return run !== undefined && run.id !== id && affectedIds.has(dist.receiptId) && run.sequence > history.sequence;
+    });
+    if (corrected) {
+      throw new DistributionRunCorrectedError();
     }
 
     // Get all items for this distribution
@@ -1213,21 +2003,19 @@ export class NewMemStorage implements IStorage {
     // Delete the distribution history entry
     this.distributionHistory.delete(id);
 
-    // Find and delete the corresponding fund distributions that were created during this distribution
-    // This will automatically make the funds unallocated again since unallocated funds are calculated dynamically
+    // Delete exactly the fund distributions created by this run,
+    // their ledger entries return the money to unallocated
     const distributionsToDelete = Array.from(this.fundDistributions.values())
-      .filter(dist => {
-        // Find distributions that were created around the same time as this history
-        const distributionTime = new Date(history.distributionDate).getTime();
-        const distTime = new Date(dist.createdAt).getTime();
-        // Allow 1 minute tolerance for timing
-        return Math.abs(distributionTime - distTime) < 60000;
-      });
+      .filter(dist => dist.distributionHistoryId === id);
+    distributionsToDelete.forEach(dist => this.removeFundDistribution(dist.id));
 
-    // Delete the corresponding fund distributions
-    distributionsToDelete.forEach(dist => this.fundDistributions.delete(dist.id));
+    // Receipts with distributions of other runs left (a correction or the run it corrected) no longer add up
+    const stillDistributed = new Set(Array.from(this.fundDistributions.values()).map(dist => dist.receiptId));
+    affectedReceipts.forEach(receipt => {
+      receipt.distributionStale = stillDistributed.has(receipt.id);
+    });
 
-    return true;
+    return affectedReceipts.filter(receipt => !stillDistributed.has(receipt.id));
   }
 
   // Expense Nomenclature operations
@@ -1250,6 +2038,9 @@ export class NewMemStorage implements IStorage {
       userId,
       name: nomenclature.name,
       description: nomenclature.description || null,
+      unit: nomenclature.unit || null,
+      expenseCategoryId: nomenclature.expenseCategoryId ?? null,
+      fundId: nomenclature.fundId ?? null,
       isActive: nomenclature.isActive ?? true,
       createdAt: now,
       updatedAt: now,
@@ -1297,6 +2088,7 @@ export class NewMemStorage implements IStorage {
       userId,
       name: category.name,
       description: category.description || null,
+      parentId: category.parentId ?? null,
       isActive: category.isActive ?? true,
       createdAt: now,
       updatedAt: now,
@@ -1321,8 +2113,34 @@ export class NewMemStorage implements IStorage {
   async deleteExpenseCategory(id: string, userId: string): Promise<boolean> {
     const existing = this.expenseCategories.get(id);
     if (!existing || existing.userId !== userId) return false;
+    const limitedFundIds = fundsLimitedToCategory(id, Array.from(this.fundExpenseCategories.values()));
+    if (limitedFundIds.length > 0) {
+      throw new ExpenseCategoryLastAllowedError(limitedFundIds.map(fundId => this.funds.get(fundId)?.name ?? fundId));
+    }
+    // Как ON DELETE SET NULL: дочерние статьи становятся статьями верхнего уровня
+    for (const child of Array.from(this.expenseCategories.values())) {
+      if (child.parentId === id) {
+        this.expenseCategories.set(child.id, { ...child, parentId: null });
+      }
+    }
+    this.clearNomenclatureDefaults(nomenclature => nomenclature.expenseCategoryId === id, { expenseCategoryId: null });
+    this.removeFundExpenseCategories(rule => rule.expenseCategoryId === id);
     return this.expenseCategories.delete(id);
   }
+
+  /**
+   * Сброс статьи или фонда по умолчанию у номенклатуры при их удалении (как ON DELETE SET NULL)
+   */
+  private clearNomenclatureDefaults(
+    predicate: (nomenclature: ExpenseNomenclature) => boolean,
+    patch: Partial<Pick<ExpenseNomenclature, "expenseCategoryId" | "fundId">>,
+  ): void {
+    for (const nomenclature of Array.from(this.expenseNomenclature.values())) {
+      if (predicate(nomenclature)) {
+        this.expenseNomenclature.set(nomenclature.id, { ...nomenclature, ...patch });
+      }
+    }
+  }
 }
 
 export const newMemStorage = new NewMemStorage();
\ No newline at end of file
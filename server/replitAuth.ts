@@ -17,7 +17,7 @@ import session from "express-session";                     // Управлени
 import type { Express, RequestHandler } from "express";    // Типы Express
 import memoize from "memoizee";                            // Мемоизация для кэширования
 import connectPg from "connect-pg-simple";                 // PostgreSQL хранилище сессий
-import { storage } from "./storage";                       // Основное хранилище данных
+import { storage } from "./storageBackend";                // Основное хранилище данных
 
 // Проверяем наличие обязательных переменных окружения
 if (!process.env.REPLIT_DOMAINS) {
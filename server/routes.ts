@@ -11,6 +11,11 @@
  * - /api/costs/* - управление расходами
  * - /api/funds/* - управление фондами
  * - /api/fund-transfers/* - переводы между фондами
+ * - /api/money-accounts/* - счета (касса, банк, карта) и их сверка с фондами
+ * - /api/money-account-transfers/* - перемещения между счетами
+ * - /api/bank-import/* - импорт банковских выписок 1CClientBankExchange
+ * - /api/bank-reconciliation/*, /api/bank-statement-lines/* - сверка выписок с документами
+ * - /api/spreadsheet-import/*, /api/import-mappings/* - импорт из таблиц CSV/XLSX
  * - /api/nomenclature/* - номенклатура расходов
  * - /api/expense-categories/* - категории расходов
  * - /api/reports/* - отчеты и аналитика
@@ -18,7 +23,7 @@
 
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { newMemStorage as storage } from "./newMemStorage";
+import { storage } from "./storageBackend";
 import { requireAuth } from "./simpleAuth";
 
 // Схемы валидации для входящих данных
@@ -28,22 +33,258 @@ import {
   insertCostSchema,             // Валидация данных расхода
   insertCostItemSchema,         // Валидация элементов расхода
   insertFundSchema,             // Валидация данных фонда
+  fundExpenseCategoriesInputSchema, // Валидация разрешенных статей фонда
   insertFundTransferSchema,     // Валидация перевода между фондами
+  insertMoneyAccountSchema,     // Валидация данных счета
+  insertMoneyAccountTransferSchema, // Валидация перемещения между счетами
   insertIncomeSourceSchema,     // Валидация источника дохода
-  insertIncomeSourceFundDistributionSchema, // Валидация распределения по источникам
+  incomeSourceFundDistributionVersionSchema, // Валидация версии правил распределения по источникам
   insertReceiptItemSchema,      // Валидация элементов поступления
+  receiptItemsAmount,           // Сумма поступления по строкам спонсоров
+  costItemsAmount,              // Сумма расхода по позициям
   insertManualFundDistributionSchema, // Валидация ручного распределения
   insertExpenseNomenclatureSchema,    // Валидация номенклатуры
-  insertExpenseCategorySchema   // Валидация категории расходов
+  insertExpenseCategorySchema,  // Валидация категории расходов
+  bankImportConfirmSchema,      // Валидация подтвержденных строк выписки
+  bankStatementMatchSchema,     // Валидация ручной сверки строки выписки
+  insertImportMappingSchema,    // Валидация сопоставления колонок таблицы
+  spreadsheetImportKinds,       // Виды импорта из таблиц
+  spreadsheetImportSchema       // Валидация таблицы с сопоставлением колонок
 } from "@shared/schema";
+import type { BankImportLine, Cost, Receipt } from "@shared/schema";
 
 import { z } from "zod"; // Библиотека для валидации схем
+import { normalizeMoney, sumMoney, toKopecks, kopecksToRubles } from "@shared/money"; // Денежные суммы в копейках
+import { buildCategoryTree, categoryDescendantIds, type CategoryTreeNode } from "@shared/expenseCategoryTree"; // Дерево статей расходов
+import { FundHasCostSharesError, MoneyAccountInUseError, accountTurnover, fundAccount } from "./ledger"; // Проводки журнала движения средств
+import { DistributionRunCorrectedError } from "./distribution"; // Отмена запусков распределения
+import {
+  type BankImportResult,
+  ClientBankExchangeParseError,
+  bankLineDescription,
+  buildBankImportPreview,
+  parseClientBankExchange,
+} from "./clientBankExchange"; // Импорт банковских выписок
+import { SpreadsheetReadError, checkSpreadsheetImport, readSpreadsheet } from "./spreadsheetImport"; // Импорт из таблиц
+import {
+  type BankReconciliationPeriod,
+  type ReconciliationDocument,
+  RECONCILIATION_DATE_TOLERANCE_DAYS,
+  autoMatchBankStatementLines,
+  buildBankReconciliation,
+  checkBankStatementMatch,
+} from "./bankReconciliation"; // Сверка выписок с документами
+import { suggestCostDefaults } from "./costSuggestions"; // Подсказка статьи и фонда для расхода
+import { ExpenseCategoryLastAllowedError, FundCategoryNotAllowedError, findFundCategoryViolations } from "./fundRestrictions"; // Разрешенные статьи фондов
 
 // Утилиты для обработки ошибок и валидации
-import { handleValidationError, handleError, validateUserId, parseNumericParam, parseDateParam } from "./utils/validation";
+import { handleValidationError, handleError, validateUserId, parseNumericParam, parseDateParam, parseEndOfDayParam, parseDistributionFilter, parseReceiptItems, parseCostItems, parseCostFundShares, parsePaymentMethodParam } from "./utils/validation";
 
 // Утилиты для формирования HTTP ответов
-import { notFound, unauthorized, badRequest, serverError, created, ok, noContent } from "./utils/responseHelpers";
+import { notFound, unauthorized, badRequest, conflict, serverError, created, ok, noContent } from "./utils/responseHelpers";
+
+/**
+ * Распределение поступления сразу после создания или изменения,
+ * если его источник работает в автоматическом режиме
+ *
+ * Нераспределенное поступление распределяется как обычный запуск, а у измененного
+ * распределенного разница записывается корректировкой. Оба попадают в историю распределений.
+ */
+async function autoDistributeReceipt(receipt: Receipt, userId: string): Promise<void> {
+  const incomeSource = await storage.getIncomeSource(receipt.incomeSourceId, userId);
+  if (incomeSource?.distributionMode !== "auto") return;
+
+  if (receipt.distributionStale) {
+    await storage.redistributeStaleDistributions(userId, { receiptIds: [receipt.id] });
+  } else {
+    // Already distributed receipts are not taken again
+    await storage.distributeUnallocatedFunds(userId, { receiptIds: [receipt.id] });
+  }
+}
+
+/**
+ * Создание документа по подтвержденной строке выписки и сохранение самой строки
+ *
+ * Поступление и расход создаются теми же методами хранилища, что и из форм,
+ * поэтому работают проверка остатка фонда и автоматическое распределение.
+ * Строка сохраняется только после успешного создания документа, так что
+ * строку с ошибкой можно импортировать повторно.
+ */
+async function importBankStatementLine(
+  line: BankImportLine,
+  moneyAccountId: string,
+  userId: string,
+): Promise<BankImportResult> {
+  const { action, incomeSourceId, sponsorId, expenseNomenclatureId, expenseCategoryId, fundId, ...lineData } = line;
+  let receiptId: string | null = null;
+  let costId: string | null = null;
+
+  if (action === "create" && line.direction === "incoming") {
+    const receipt = await storage.createReceipt({
+      date: line.date,
+      description: bankLineDescription(line),
+      amount: line.amount,
+      incomeSourceId: incomeSourceId!,
+      moneyAccountId,
+    }, userId, [{
+      sponsorId: sponsorId ?? null,
+      payerName: sponsorId ? null : line.counterpartyName?.slice(0, 255) ?? null,
+      paymentMethod: "bank",
+      amount: line.amount,
+    }]);
+    await autoDistributeReceipt(receipt, userId);
+    receiptId = receipt.id;
+  } else if (action === "create") {
+    const cost = await storage.createCost(insertCostSchema.parse({
+      date: line.date,
+      expenseNomenclatureId,
+      totalAmount: line.amount,
+      expenseCategoryId,
+      fundId,
+      paymentMethod: "bank",
+      moneyAccountId,
+    }), userId);
+    costId = cost.id;
+  }
+
+  await storage.createBankStatementLine({ ...lineData, moneyAccountId, receiptId, costId }, userId);
+  return {
+    externalId: line.externalId,
+    status: action === "create" ? "created" : "skipped",
+    ...(receiptId && { receiptId }),
+    ...(costId && { costId }),
+  };
+}
+
+/**
+ * Справочники пользователя, по которым ищутся ссылки в таблице импорта
+ */
+async function loadSpreadsheetImportReferences(userId: string) {
+  const [incomeSources, sponsors, moneyAccounts, nomenclature, categories, funds] = await Promise.all([
+    storage.getIncomeSources(userId),
+    storage.getSponsors(userId),
+    storage.getMoneyAccounts(userId),
+    storage.getExpenseNomenclature(userId),
+    storage.getExpenseCategories(userId),
+    storage.getFunds(userId),
+  ]);
+  return { incomeSources, sponsors, moneyAccounts, nomenclature, categories, funds };
+}
+
+/**
+ * Проверка родителя статьи расходов; возвращает текст ошибки или null
+ *
+ * Родитель должен быть статьей того же пользователя и не может быть самой статьей
+ * или ее потомком, иначе дерево замкнется в цикл.
+ */
+async function checkExpenseCategoryParent(categoryId: string | null, parentId: string | null | undefined, userId: string): Promise<string | null> {
+  if (!parentId) return null;
+  const categories = await storage.getExpenseCategories(userId);
+  if (!categories.some(category => category.id === parentId)) {
+    return "Parent category not found";
+  }
+  if (categoryId && categoryDescendantIds(categories, categoryId).has(parentId)) {
+    return "Category cannot be placed under itself or its subcategory";
+  }
+  return null;
+}
+
+/**
+ * Проверка статьи и фонда по умолчанию у номенклатуры; возвращает текст ошибки или null
+ */
+async function checkNomenclatureDefaults(
+  nomenclature: { expenseCategoryId?: string | null; fundId?: string | null },
+  userId: string,
+): Promise<string | null> {
+  if (nomenclature.expenseCategoryId && !(await storage.getExpenseCategoryById(nomenclature.expenseCategoryId, userId))) {
+    return "Expense category not found";
+  }
+  if (nomenclature.fundId && !(await storage.getFund(nomenclature.fundId, userId))) {
+    return "Fund not found";
+  }
+  return null;
+}
+
+/**
+ * Период сверки из параметров запроса: dateFrom, dateTo (включительно) и необязательный moneyAccountId
+ */
+function parseReconciliationPeriod(params: Record<string, unknown>): BankReconciliationPeriod | null {
+  const dateFrom = parseDateParam(typeof params.dateFrom === "string" ? params.dateFrom : undefined);
+  const dateTo = parseEndOfDayParam(typeof params.dateTo === "string" ? params.dateTo : undefined);
+  if (!dateFrom || !dateTo) return null;
+  const moneyAccountId = typeof params.moneyAccountId === "string" && params.moneyAccountId ? params.moneyAccountId : null;
+  return { dateFrom, dateTo, moneyAccountId };
+}
+
+function receiptReconciliationDocument(receipt: Receipt, counterparties: string[] = []): ReconciliationDocument {
+  return {
+    kind: "receipt",
+    id: receipt.id,
+    date: receipt.date,
+    amount: receipt.amount,
+    label: receipt.description,
+    counterparties,
+    moneyAccountId: receipt.moneyAccountId,
+  };
+}
+
+function costReconciliationDocument(cost: Cost & { expenseNomenclatureName?: string }, counterparties: string[] = []): ReconciliationDocument {
+  return {
+    kind: "cost",
+    id: cost.id,
+    date: cost.date,
+    amount: cost.totalAmount,
+    label: cost.expenseNomenclatureName ?? "",
+    counterparties,
+    moneyAccountId: cost.moneyAccountId,
+  };
+}
+
+/**
+ * Документы для сверки за период (с запасом на расхождение дат) и документы, уже связанные со строками
+ *
+ * Наличные не попадают в выписку: пропускаются документы по кассе, расходы
+ * наличными и поступления, все строки которых оплачены наличными.
+ */
+async function loadReconciliationDocuments(userId: string, period: BankReconciliationPeriod) {
+  const [lines, moneyAccounts, allReceipts, allCosts] = await Promise.all([
+    storage.getBankStatementLines(userId),
+    storage.getMoneyAccounts(userId),
+    storage.getReceipts(userId),
+    storage.getCosts(userId),
+  ]);
+  const cashAccountIds = new Set(moneyAccounts.filter(account => account.kind === "cash").map(account => account.id));
+  const linkedIds = new Set(lines.flatMap(line => [line.receiptId, line.costId]).filter((id): id is string => id !== null));
+  const toleranceMs = RECONCILIATION_DATE_TOLERANCE_DAYS * 24 * 60 * 60 * 1000;
+  const inWindow = (date: Date) => {
+    const time = new Date(date).getTime();
+    return time >= period.dateFrom.getTime() - toleranceMs && time <= period.dateTo.getTime() + toleranceMs;
+  };
+  const onCashAccount = (moneyAccountId: string | null) => moneyAccountId !== null && cashAccountIds.has(moneyAccountId);
+
+  const documents: ReconciliationDocument[] = [];
+  for (const receipt of allReceipts) {
+    if (linkedIds.has(receipt.id)) {
+      documents.push(receiptReconciliationDocument(receipt));
+      continue;
+    }
+    if (!inWindow(receipt.date) || onCashAccount(receipt.moneyAccountId)) continue;
+    const items = await storage.getReceiptItems(receipt.id);
+    if (items.length > 0 && items.every(item => item.paymentMethod === "cash")) continue;
+    const counterparties = items.flatMap(item => [item.sponsorName, item.payerName]).filter((name): name is string => Boolean(name));
+    documents.push(receiptReconciliationDocument(receipt, [...counterparties, receipt.description]));
+  }
+  for (const cost of allCosts) {
+    if (linkedIds.has(cost.id)) {
+      documents.push(costReconciliationDocument(cost));
+      continue;
+    }
+    if (!inWindow(cost.date) || onCashAccount(cost.moneyAccountId) || cost.paymentMethod === "cash") continue;
+    const counterparties = (cost.items ?? []).map(item => item.description).filter((text): text is string => Boolean(text));
+    documents.push(costReconciliationDocument(cost, [...counterparties, cost.expenseNomenclatureName ?? ""]));
+  }
+  return { lines, documents };
+}
 
 /**
  * Регистрация всех API маршрутов в Express приложении
@@ -61,11 +302,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Возвращает данные пользователя из сессии после аутентификации через Replit OIDC.
    * Используется для проверки статуса аутентификации и получения профиля пользователя.
    */
-  app.get('/api/auth/user', (req: any, res) => {
+  app.get('/api/auth/user', async (req: any, res) => {
     // Проверяем наличие пользователя в сессии
     if (req.session && (req.session as any).userId) {
       const userId = (req.session as any).userId;
-      const user = storage.getUserById!(userId);
+      const user = await storage.getUserById(userId);
       
       if (user) {
         return ok(res, {
@@ -162,8 +403,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
+      const paymentMethod = parsePaymentMethodParam(req.query.paymentMethod as string);
       
-      const result = await storage.getReceiptsPaginated(userId, search, fromDate, toDate, page, limit);
+      const result = await storage.getReceiptsPaginated(userId, search, fromDate, toDate, page, limit, paymentMethod);
       ok(res, result);
     } catch (error) {
       console.error("Error fetching receipts:", error);
@@ -185,21 +427,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // С items (строки спонсоров) сумма поступления считается по ним, поступление и строки сохраняются вместе
   app.post("/api/receipts", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
+      const { items: _items, ...body } = req.body;
+      const items = parseReceiptItems(req.body);
       const receiptData = {
-        ...req.body,
-        amount: parseFloat(req.body.amount) || 0,
-        date: new Date(req.body.date),
+        ...body,
+        amount: items ? receiptItemsAmount(items) : normalizeMoney(body.amount),
+        date: new Date(body.date),
       };
       
-      const receipt = await storage.createReceipt(receiptData, userId);
+      const receipt = await storage.createReceipt(receiptData, userId, items);
       
-      // Don't automatically distribute funds - let user manually distribute them
+      // Sources in manual mode wait for the user to distribute their receipts
+      await autoDistributeReceipt(receipt, userId);
       
       created(res, receipt);
     } catch (error) {
+      if (handleValidationError(error, res)) return;
       console.error("Error creating receipt:", error);
       serverError(res);
     }
@@ -210,25 +457,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = validateUserId(req.user?.id);
       
       // Преобразуем данные для обновления поступления
+      const { items: _items, ...body } = req.body;
+      const items = parseReceiptItems(req.body);
       const receiptData = {
-        ...req.body,
-        amount: req.body.amount ? parseFloat(req.body.amount).toString() : undefined,
-        date: req.body.date ? new Date(req.body.date) : undefined,
+        ...body,
+        amount: body.amount ? normalizeMoney(body.amount) : undefined,
+        date: body.date ? new Date(body.date) : undefined,
       };
       
-      const receipt = await storage.updateReceipt(req.params.id, receiptData, userId);
+      const receipt = await storage.updateReceipt(req.params.id, receiptData, userId, items);
       if (!receipt) {
         return notFound(res);
       }
       
-      // Note: Fund redistribution will be handled manually by user
+      // Sources in auto mode are redistributed right away; for manual ones a changed amount, date or source
+      // marks the distributions stale until the user redistributes them
+      await autoDistributeReceipt(receipt, userId);
       
       ok(res, receipt);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Validation error:", error.errors);
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating receipt:", error);
       serverError(res);
     }
@@ -251,16 +499,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/receipts/:receiptId/items", requireAuth, async (req: any, res) => {
     try {
       const { receiptId } = req.params;
-      const { sponsorId, amount } = req.body;
+      const { sponsorId, payerName, paymentMethod, amount } = req.body;
       
+      // Без sponsorId строка считается анонимной
       const receiptItem = await storage.createReceiptItem({
         receiptId,
-        sponsorId,
-        amount: parseFloat(amount).toString(),
+        sponsorId: sponsorId || null,
+        payerName: payerName || null,
+        paymentMethod: parsePaymentMethodParam(paymentMethod) ?? null,
+        amount: normalizeMoney(amount),
       });
       
       created(res, receiptItem);
     } catch (error) {
+      if (handleValidationError(error, res)) return;
       console.error("Error creating receipt item:", error);
       res.status(500).json({ error: "Failed to create receipt item" });
     }
@@ -287,9 +539,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const toDate = req.query.toDate ? new Date(req.query.toDate as string) : undefined;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
+      const paymentMethod = parsePaymentMethodParam(req.query.paymentMethod as string);
       
       // Always use pagination for consistency with other endpoints
-      const result = await storage.getCostsPaginated(userId, search, expenseCategoryId, fromDate, toDate, page, limit);
+      const result = await storage.getCostsPaginated(userId, search, expenseCategoryId, fromDate, toDate, page, limit, paymentMethod);
       ok(res, result);
     } catch (error) {
       console.error("Error fetching costs:", error);
@@ -311,26 +564,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // С items (позиции с количеством и ценой) сумма расхода считается по ним, расход и позиции сохраняются вместе.
+  // С fundSplit расход делится между фондами суммами или процентами
   app.post("/api/costs", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
+      const { items: _items, fundSplit: _fundSplit, ...body } = req.body;
+      const items = parseCostItems(req.body);
+      // Сумма проверяется до расчета долей фондов: без нее доли не посчитать
+      const totalAmount = items ? costItemsAmount(items) : insertCostSchema.pick({ totalAmount: true }).parse(body).totalAmount;
+      const fundShares = parseCostFundShares(req.body, totalAmount) ?? undefined;
       
       // Преобразуем данные вручную
       const requestData = {
-        ...req.body,
-        date: new Date(req.body.date),
-        totalAmount: String(req.body.totalAmount)  // Принудительно конвертируем в строку
+        ...body,
+        date: new Date(body.date),
+        totalAmount,
+        fundId: fundShares ? fundShares[0].fundId : body.fundId,
       };
       
       console.log("Request data:", requestData);
       const validatedData = insertCostSchema.parse(requestData);
       console.log("Validated data:", validatedData);
-      const cost = await storage.createCost(validatedData, userId);
+      const cost = await storage.createCost(validatedData, userId, items, fundShares);
       created(res, cost);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Validation error:", error.errors);
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      if (handleValidationError(error, res)) return;
+      if (error instanceof FundCategoryNotAllowedError) {
+        return badRequest(res, error.message);
       }
       console.error("Error creating cost:", error);
       res.status(500).json({ message: "Failed to create cost", error: (error as Error).message });
@@ -340,14 +601,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/costs/:id", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
-      const validatedData = insertCostSchema.partial().parse(req.body);
-      const cost = await storage.updateCost(req.params.id, validatedData, userId);
+      const { items: _items, fundSplit: _fundSplit, ...body } = req.body;
+      const items = parseCostItems(req.body);
+      const validatedData = insertCostSchema.partial().parse(items ? { ...body, totalAmount: costItemsAmount(items) } : body);
+
+      const existing = await storage.getCost(req.params.id, userId);
+      if (!existing) {
+        return notFound(res);
+      }
+      const fundShares = parseCostFundShares(req.body, validatedData.totalAmount ?? existing.totalAmount);
+
+      // Доли разделенного расхода сходятся только с прежней суммой и фондами
+      if (fundShares === undefined && (await storage.getCostFundShares(existing.id)).length > 0) {
+        const amountChanged = validatedData.totalAmount !== undefined && toKopecks(validatedData.totalAmount) !== toKopecks(existing.totalAmount);
+        const fundChanged = validatedData.fundId !== undefined && validatedData.fundId !== existing.fundId;
+        if (amountChanged || fundChanged) {
+          return badRequest(res, "Cost is split across funds; send fundSplit to change its amount or fund");
+        }
+      }
+
+      const cost = await storage.updateCost(req.params.id, validatedData, userId, items, fundShares);
       if (!cost) {
         return notFound(res);
       }
       ok(res, cost);
     } catch (error) {
       if (handleValidationError(error, res)) return;
+      if (error instanceof FundCategoryNotAllowedError) {
+        return badRequest(res, error.message);
+      }
       handleError(error, res, "Failed to update cost");
     }
   });
@@ -365,6 +647,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/costs/:id/fund-shares", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const cost = await storage.getCost(req.params.id, userId);
+      if (!cost) {
+        return notFound(res);
+      }
+      ok(res, await storage.getCostFundShares(cost.id));
+    } catch (error) {
+      console.error("Error fetching cost fund shares:", error);
+      serverError(res);
+    }
+  });
+
   // Cost Items routes  
   app.get("/api/costs/:costId/items", requireAuth, async (req: any, res) => {
     try {
@@ -384,9 +680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const costItem = await storage.createCostItem(validatedData, costId);
       created(res, costItem);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating cost item:", error);
       serverError(res);
     }
@@ -401,9 +695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       ok(res, costItem);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating cost item:", error);
       serverError(res);
     }
@@ -455,9 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fund = await storage.createFund(validatedData, userId);
       created(res, fund);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating fund:", error);
       serverError(res);
     }
@@ -473,9 +763,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       ok(res, fund);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating fund:", error);
       serverError(res);
     }
@@ -490,11 +778,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       noContent(res);
     } catch (error) {
+      if (error instanceof FundHasCostSharesError) {
+        return badRequest(res, error.message);
+      }
       console.error("Error deleting fund:", error);
       serverError(res);
     }
   });
 
+  // Разрешенные статьи фондов с целевым назначением (фонд без строк оплачивает любые статьи)
+  app.get("/api/fund-expense-categories", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      ok(res, await storage.getFundExpenseCategories(userId));
+    } catch (error) {
+      console.error("Error fetching fund expense categories:", error);
+      serverError(res);
+    }
+  });
+
+  app.put("/api/funds/:id/expense-categories", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const { expenseCategoryIds } = fundExpenseCategoriesInputSchema.parse(req.body);
+      const categoryIds = new Set((await storage.getExpenseCategories(userId)).map(category => category.id));
+      if (expenseCategoryIds.some(id => !categoryIds.has(id))) {
+        return badRequest(res, "Expense category not found");
+      }
+      const rules = await storage.setFundExpenseCategories(req.params.id, expenseCategoryIds, userId);
+      if (!rules) {
+        return notFound(res);
+      }
+      ok(res, rules);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      handleError(error, res, "Failed to update fund expense categories");
+    }
+  });
+
   app.get("/api/funds/balances", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
@@ -571,12 +892,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertIncomeSourceSchema.parse(req.body);
+      if (validatedData.roundingFundId && !(await storage.getFund(validatedData.roundingFundId, userId))) {
+        return badRequest(res, "Rounding fund not found");
+      }
       const incomeSource = await storage.createIncomeSource(validatedData, userId);
       created(res, incomeSource);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating income source:", error);
       serverError(res);
     }
@@ -586,15 +908,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertIncomeSourceSchema.partial().parse(req.body);
+      if (validatedData.roundingFundId && !(await storage.getFund(validatedData.roundingFundId, userId))) {
+        return badRequest(res, "Rounding fund not found");
+      }
       const incomeSource = await storage.updateIncomeSource(req.params.id, validatedData, userId);
       if (!incomeSource) {
         return notFound(res);
       }
       ok(res, incomeSource);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating income source:", error);
       serverError(res);
     }
@@ -615,9 +938,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Income source fund distribution routes
+  // Правила версионируются: ?asOf= - правила, действовавшие на дату (по умолчанию - действующие сейчас)
   app.get("/api/income-sources/:id/fund-distributions", requireAuth, async (req: any, res) => {
     try {
-      const distributions = await storage.getIncomeSourceFundDistributions(req.params.id);
+      const asOf = parseDateParam(req.query.asOf as string);
+      const distributions = await storage.getIncomeSourceFundDistributions(req.params.id, asOf);
       ok(res, distributions);
     } catch (error) {
       console.error("Error fetching income source fund distributions:", error);
@@ -625,26 +950,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Все версии правил источника, начиная с последней
+  app.get("/api/income-sources/:id/fund-distributions/history", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const incomeSource = await storage.getIncomeSource(req.params.id, userId);
+      if (!incomeSource) {
+        return notFound(res, "Income source not found");
+      }
+      const history = await storage.getIncomeSourceFundDistributionHistory(req.params.id);
+      ok(res, history);
+    } catch (error) {
+      console.error("Error fetching income source fund distribution history:", error);
+      serverError(res);
+    }
+  });
+
+  // Новая версия правил: { validFrom?, rules: [{ fundId, percentage }] }, заменяет правила начиная с validFrom
+  // (по умолчанию - с текущего момента); прошлые версии сохраняются в истории
   app.post("/api/income-sources/:id/fund-distributions", requireAuth, async (req: any, res) => {
     try {
-      const validatedData = insertIncomeSourceFundDistributionSchema.parse({
+      const userId = validateUserId(req.user?.id);
+      const incomeSource = await storage.getIncomeSource(req.params.id, userId);
+      if (!incomeSource) {
+        return notFound(res, "Income source not found");
+      }
+
+      const version = incomeSourceFundDistributionVersionSchema.parse({
         ...req.body,
-        incomeSourceId: req.params.id
+        validFrom: req.body.validFrom ? new Date(req.body.validFrom) : new Date(),
       });
-      const distribution = await storage.createIncomeSourceFundDistribution(validatedData);
-      created(res, distribution);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      for (const rule of version.rules) {
+        if (!(await storage.getFund(rule.fundId, userId))) {
+          return badRequest(res, "Fund not found");
+        }
       }
+
+      const distributions = await storage.replaceIncomeSourceFundDistributions(req.params.id, version);
+      created(res, distributions);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
       console.error("Error creating fund distribution:", error);
       serverError(res);
     }
   });
 
+  // Прекращение действия правил с текущего момента (история сохраняется)
   app.delete("/api/income-sources/:id/fund-distributions", requireAuth, async (req: any, res) => {
     try {
-      await storage.deleteIncomeSourceFundDistributions(req.params.id);
+      const userId = validateUserId(req.user?.id);
+      const incomeSource = await storage.getIncomeSource(req.params.id, userId);
+      if (!incomeSource) {
+        return notFound(res, "Income source not found");
+      }
+      await storage.replaceIncomeSourceFundDistributions(req.params.id, { validFrom: new Date(), rules: [] });
       noContent(res);
     } catch (error) {
       console.error("Error deleting fund distributions:", error);
@@ -672,9 +1031,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const receiptItem = await storage.createReceiptItem(validatedData);
       created(res, receiptItem);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating receipt item:", error);
       serverError(res);
     }
@@ -697,12 +1054,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = validateUserId(req.user?.id);
       const transferData = {
         ...req.body,
-        amount: parseFloat(req.body.amount),
-        userId
+        amount: normalizeMoney(req.body.amount),
       };
-      const transfer = await storage.createFundTransfer(transferData);
+      const transfer = await storage.createFundTransfer(transferData, userId);
       created(res, transfer);
     } catch (error) {
+      if (handleValidationError(error, res)) return;
       console.error("Error creating fund transfer:", error);
       serverError(res);
     }
@@ -721,6 +1078,426 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Money account routes (?asOf=YYYY-MM-DD gives balances at the end of that day)
+  app.get("/api/money-accounts", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const accounts = await storage.getMoneyAccountsWithBalances(userId, parseEndOfDayParam(req.query.asOf));
+      ok(res, accounts);
+    } catch (error) {
+      console.error("Error fetching money accounts:", error);
+      serverError(res);
+    }
+  });
+
+  // Accounts must hold exactly the money of the funds plus unallocated receipts
+  app.get("/api/money-accounts/reconciliation", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const reconciliation = await storage.getMoneyAccountReconciliation(userId, parseEndOfDayParam(req.query.asOf));
+      ok(res, reconciliation);
+    } catch (error) {
+      console.error("Error reconciling money accounts:", error);
+      serverError(res);
+    }
+  });
+
+  app.post("/api/money-accounts", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const validatedData = insertMoneyAccountSchema.parse(req.body);
+      const account = await storage.createMoneyAccount(validatedData, userId);
+      created(res, account);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error creating money account:", error);
+      serverError(res);
+    }
+  });
+
+  app.put("/api/money-accounts/:id", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const validatedData = insertMoneyAccountSchema.partial().parse(req.body);
+      const account = await storage.updateMoneyAccount(req.params.id, validatedData, userId);
+      if (!account) {
+        return notFound(res);
+      }
+      ok(res, account);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error updating money account:", error);
+      serverError(res);
+    }
+  });
+
+  app.delete("/api/money-accounts/:id", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const deleted = await storage.deleteMoneyAccount(req.params.id, userId);
+      if (!deleted) {
+        return notFound(res);
+      }
+      noContent(res);
+    } catch (error) {
+      if (error instanceof MoneyAccountInUseError) {
+        return badRequest(res, error.message);
+      }
+      console.error("Error deleting money account:", error);
+      serverError(res);
+    }
+  });
+
+  // Money account transfer routes
+  app.get("/api/money-account-transfers", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const transfers = await storage.getMoneyAccountTransfers(userId);
+      ok(res, transfers);
+    } catch (error) {
+      console.error("Error fetching money account transfers:", error);
+      serverError(res);
+    }
+  });
+
+  app.post("/api/money-account-transfers", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const validatedData = insertMoneyAccountTransferSchema.parse(req.body);
+      const [fromAccount, toAccount] = await Promise.all([
+        storage.getMoneyAccount(validatedData.fromAccountId, userId),
+        storage.getMoneyAccount(validatedData.toAccountId, userId),
+      ]);
+      if (!fromAccount || !toAccount) {
+        return notFound(res, "Account not found");
+      }
+      const transfer = await storage.createMoneyAccountTransfer(validatedData, userId);
+      created(res, transfer);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error creating money account transfer:", error);
+      serverError(res);
+    }
+  });
+
+  app.delete("/api/money-account-transfers/:id", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const deleted = await storage.deleteMoneyAccountTransfer(req.params.id, userId);
+      if (!deleted) {
+        return notFound(res);
+      }
+      noContent(res);
+    } catch (error) {
+      console.error("Error deleting money account transfer:", error);
+      serverError(res);
+    }
+  });
+
+  // === ИМПОРТ БАНКОВСКИХ ВЫПИСОК ===
+
+  /**
+   * Разбор выписки 1CClientBankExchange в черновики
+   * POST /api/bank-import/1c/preview { content }
+   *
+   * Ничего не сохраняет: возвращает черновики поступлений и расходов с подсказками
+   * по прошлым импортам и пометкой уже загруженных строк.
+   */
+  app.post("/api/bank-import/1c/preview", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const { content } = z.object({ content: z.string().min(1) }).parse(req.body);
+      const statement = parseClientBankExchange(content);
+      const [history, sponsors, moneyAccounts] = await Promise.all([
+        storage.getBankStatementLines(userId),
+        storage.getSponsors(userId),
+        storage.getMoneyAccounts(userId),
+      ]);
+      ok(res, buildBankImportPreview(statement, { history, sponsors, moneyAccounts }));
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      if (error instanceof ClientBankExchangeParseError) {
+        return badRequest(res, error.message);
+      }
+      console.error("Error parsing bank statement:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Создание подтвержденных документов по выписке
+   * POST /api/bank-import/1c/confirm { moneyAccountId, lines }
+   *
+   * Строки обрабатываются по одной: ошибка в строке (например, нехватка средств
+   * в фонде) не отменяет остальные, итог возвращается по каждой строке.
+   */
+  app.post("/api/bank-import/1c/confirm", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const { moneyAccountId, lines } = bankImportConfirmSchema.parse(req.body);
+      if (!(await storage.getMoneyAccount(moneyAccountId, userId))) {
+        return notFound(res, "Account not found");
+      }
+
+      const imported = new Set((await storage.getBankStatementLines(userId)).map(line => line.externalId));
+      const results: BankImportResult[] = [];
+      for (const line of lines) {
+        if (imported.has(line.externalId)) {
+          results.push({ externalId: line.externalId, status: "duplicate" });
+          continue;
+        }
+        try {
+          results.push(await importBankStatementLine(line, moneyAccountId, userId));
+          imported.add(line.externalId);
+        } catch (error) {
+          results.push({ externalId: line.externalId, status: "failed", message: (error as Error).message });
+        }
+      }
+      ok(res, results);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error importing bank statement:", error);
+      serverError(res);
+    }
+  });
+
+  // === СВЕРКА ВЫПИСОК С ДОКУМЕНТАМИ ===
+
+  /**
+   * Сверка за период: строки выписок со статусом и кандидатами, поступления и расходы со статусом
+   * GET /api/bank-reconciliation?dateFrom=&dateTo=&moneyAccountId=
+   */
+  app.get("/api/bank-reconciliation", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const period = parseReconciliationPeriod(req.query);
+      if (!period) {
+        return badRequest(res, "dateFrom and dateTo are required");
+      }
+      const { lines, documents } = await loadReconciliationDocuments(userId, period);
+      ok(res, buildBankReconciliation(lines, documents, period));
+    } catch (error) {
+      console.error("Error building bank reconciliation:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Автосверка: связывает строки периода с документами там, где выбор однозначен
+   * POST /api/bank-reconciliation/auto-match { dateFrom, dateTo, moneyAccountId? }
+   */
+  app.post("/api/bank-reconciliation/auto-match", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const period = parseReconciliationPeriod(req.body ?? {});
+      if (!period) {
+        return badRequest(res, "dateFrom and dateTo are required");
+      }
+      const { lines, documents } = await loadReconciliationDocuments(userId, period);
+      const matches = autoMatchBankStatementLines(lines, documents, period);
+      for (const match of matches) {
+        await storage.setBankStatementLineDocument(match.lineId, match.document, userId);
+      }
+      ok(res, { matched: matches.length });
+    } catch (error) {
+      console.error("Error auto-matching bank statement lines:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Ручная сверка строки выписки с поступлением или расходом
+   * POST /api/bank-statement-lines/:id/match { receiptId } | { costId }
+   */
+  app.post("/api/bank-statement-lines/:id/match", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const { receiptId, costId } = bankStatementMatchSchema.parse(req.body);
+      const lines = await storage.getBankStatementLines(userId);
+      const line = lines.find(line => line.id === req.params.id);
+      if (!line) {
+        return notFound(res, "Bank statement line not found");
+      }
+
+      let document: ReconciliationDocument | undefined;
+      if (receiptId) {
+        const receipt = await storage.getReceipt(receiptId, userId);
+        document = receipt && receiptReconciliationDocument(receipt);
+      } else if (costId) {
+        const cost = await storage.getCost(costId, userId);
+        document = cost && costReconciliationDocument(cost);
+      }
+      if (!document) {
+        return notFound(res, receiptId ? "Receipt not found" : "Cost not found");
+      }
+
+      const error = checkBankStatementMatch(line, document, lines);
+      if (error) {
+        return badRequest(res, error);
+      }
+      const updatedLine = await storage.setBankStatementLineDocument(line.id, {
+        receiptId: receiptId ?? null,
+        costId: costId ?? null,
+      }, userId);
+      ok(res, updatedLine);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error matching bank statement line:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Отмена сверки: строка выписки снова ждет документ, сам документ не меняется
+   * DELETE /api/bank-statement-lines/:id/match
+   */
+  app.delete("/api/bank-statement-lines/:id/match", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const updatedLine = await storage.setBankStatementLineDocument(req.params.id, { receiptId: null, costId: null }, userId);
+      if (!updatedLine) {
+        return notFound(res, "Bank statement line not found");
+      }
+      ok(res, updatedLine);
+    } catch (error) {
+      console.error("Error unmatching bank statement line:", error);
+      serverError(res);
+    }
+  });
+
+  // === ИМПОРТ ИЗ ТАБЛИЦ ===
+
+  /**
+   * Чтение загруженной таблицы в заголовки и строки
+   * POST /api/spreadsheet-import/read { fileName, content }
+   *
+   * CSV передается текстом, XLSX - в base64. Первая непустая строка - заголовки.
+   */
+  app.post("/api/spreadsheet-import/read", requireAuth, async (req: any, res) => {
+    try {
+      validateUserId(req.user?.id);
+      const { fileName, content } = z.object({ fileName: z.string().min(1), content: z.string().min(1) }).parse(req.body);
+      ok(res, readSpreadsheet(fileName, content));
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      if (error instanceof SpreadsheetReadError) {
+        return badRequest(res, error.message);
+      }
+      console.error("Error reading spreadsheet:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Проверка строк таблицы по сопоставлению колонок, без сохранения
+   * POST /api/spreadsheet-import/check
+   *
+   * Возвращает использованные форматы (указанные или определенные) и ошибки по каждой строке.
+   */
+  app.post("/api/spreadsheet-import/check", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const input = spreadsheetImportSchema.parse(req.body);
+      const { rows, ...formats } = checkSpreadsheetImport(input, await loadSpreadsheetImportReferences(userId));
+      ok(res, {
+        ...formats,
+        rows: rows.map(({ receipt: _receipt, cost: _cost, ...row }) => row),
+      });
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error checking spreadsheet import:", error);
+      serverError(res);
+    }
+  });
+
+  /**
+   * Загрузка всей пачки строк
+   * POST /api/spreadsheet-import/commit
+   *
+   * Загружается только таблица без ошибок. Документы создаются по одному через
+   * createReceipt/createCost; если какой-то не создался (например, не хватило средств
+   * в фонде), уже созданные документы пачки удаляются. Поступления распределяются
+   * после успешной загрузки всей пачки.
+   */
+  app.post("/api/spreadsheet-import/commit", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const input = spreadsheetImportSchema.parse(req.body);
+      const { rows } = checkSpreadsheetImport(input, await loadSpreadsheetImportReferences(userId));
+      const invalidRows = rows.filter(row => row.errors.length > 0);
+      if (invalidRows.length > 0) {
+        return badRequest(res, "Spreadsheet has rows with errors", invalidRows.map(({ rowNumber, errors }) => ({ rowNumber, errors })));
+      }
+
+      const createdReceipts: Receipt[] = [];
+      const createdCostIds: string[] = [];
+      for (const row of rows) {
+        try {
+          if (row.receipt) {
+            createdReceipts.push(await storage.createReceipt(row.receipt.data, userId, row.receipt.items));
+          } else if (row.cost) {
+            createdCostIds.push((await storage.createCost(row.cost, userId)).id);
+          }
+        } catch (error) {
+          for (const id of createdCostIds) await storage.deleteCost(id, userId);
+          for (const receipt of createdReceipts) await storage.deleteReceipt(receipt.id, userId);
+          return badRequest(res, `Row ${row.rowNumber}: ${(error as Error).message}`, [
+            { rowNumber: row.rowNumber, errors: [(error as Error).message] },
+          ]);
+        }
+      }
+
+      for (const receipt of createdReceipts) {
+        await autoDistributeReceipt(receipt, userId);
+      }
+      created(res, { receipts: createdReceipts.length, costs: createdCostIds.length });
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error committing spreadsheet import:", error);
+      serverError(res);
+    }
+  });
+
+  app.get("/api/import-mappings", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const kind = z.enum(spreadsheetImportKinds).optional().parse(req.query.kind || undefined);
+      const mappings = await storage.getImportMappings(userId, kind);
+      ok(res, mappings);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error fetching import mappings:", error);
+      serverError(res);
+    }
+  });
+
+  app.post("/api/import-mappings", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const validatedData = insertImportMappingSchema.parse(req.body);
+      const mapping = await storage.createImportMapping(validatedData, userId);
+      created(res, mapping);
+    } catch (error) {
+      if (handleValidationError(error, res)) return;
+      console.error("Error creating import mapping:", error);
+      serverError(res);
+    }
+  });
+
+  app.delete("/api/import-mappings/:id", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const deleted = await storage.deleteImportMapping(req.params.id, userId);
+      if (!deleted) {
+        return notFound(res);
+      }
+      noContent(res);
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      serverError(res);
+    }
+  });
+
   // Manual fund distribution routes
   app.get("/api/manual-fund-distributions", requireAuth, async (req: any, res) => {
     try {
@@ -740,9 +1517,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const distribution = await storage.createManualFundDistribution(validatedData, userId);
       created(res, distribution);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating manual fund distribution:", error);
       res.status(500).json({ error: "Ошибка при создании ручного распределения" });
     }
@@ -774,11 +1549,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dry run: what "distribute unallocated funds" would do, without saving anything.
+  // Both endpoints accept fromDate, toDate, incomeSourceId and receiptIds to distribute selectively
+  app.get("/api/distribute-unallocated-funds/preview", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const preview = await storage.previewUnallocatedDistribution(userId, parseDistributionFilter(req.query));
+      ok(res, preview);
+    } catch (error) {
+      console.error("Error previewing distribution:", error);
+      res.status(500).json({ error: "Ошибка при расчете распределения" });
+    }
+  });
+
   // Automatically distribute all unallocated funds based on income sources
   app.post("/api/distribute-unallocated-funds", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
-      await storage.distributeUnallocatedFunds(userId);
+      await storage.distributeUnallocatedFunds(userId, parseDistributionFilter(req.body));
       ok(res, { message: "Funds distributed successfully" });
     } catch (error) {
       console.error("Error distributing unallocated funds:", error);
@@ -786,11 +1574,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Fund balance routes
+  // Stale distributions: receipts changed after they were distributed, with the recalculated shares
+  app.get("/api/stale-distributions", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const preview = await storage.previewStaleDistributions(userId, parseDistributionFilter(req.query));
+      ok(res, preview);
+    } catch (error) {
+      console.error("Error fetching stale distributions:", error);
+      res.status(500).json({ error: "Ошибка при поиске устаревших распределений" });
+    }
+  });
+
+  // Redistribute stale distributions: the changes are recorded as a correction run in the distribution history
+  app.post("/api/stale-distributions/redistribute", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const correction = await storage.redistributeStaleDistributions(userId, parseDistributionFilter(req.body));
+      ok(res, { correction: correction ?? null });
+    } catch (error) {
+      console.error("Error redistributing stale distributions:", error);
+      res.status(500).json({ error: "Ошибка при пересчете распределений" });
+    }
+  });
+
+  // Integrity check: receipts whose amount differs from the sum of their sponsor items
+  app.get("/api/integrity/receipt-items", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const discrepancies = await storage.getReceiptItemDiscrepancies(userId);
+      ok(res, discrepancies);
+    } catch (error) {
+      console.error("Error fetching receipt item discrepancies:", error);
+      serverError(res);
+    }
+  });
+
+  // Set the receipt amount to the sum of its sponsor items; distributed receipts become stale
+  app.post("/api/integrity/receipt-items/:id/reconcile", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const existing = await storage.getReceipt(req.params.id, userId);
+      if (!existing) {
+        return notFound(res);
+      }
+
+      const items = await storage.getReceiptItems(existing.id);
+      if (items.length === 0) {
+        return badRequest(res, "Receipt has no sponsor items");
+      }
+
+      const receipt = await storage.updateReceipt(existing.id, { amount: receiptItemsAmount(items) }, userId);
+      if (!receipt) {
+        return notFound(res);
+      }
+      await autoDistributeReceipt(receipt, userId);
+
+      ok(res, receipt);
+    } catch (error) {
+      console.error("Error reconciling receipt with items:", error);
+      serverError(res);
+    }
+  });
+
+  // Fund balance routes (?asOf=YYYY-MM-DD gives balances at the end of that day)
   app.get("/api/funds-with-balances", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
-      const fundsWithBalances = await storage.getFundsWithBalances(userId);
+      const fundsWithBalances = await storage.getFundsWithBalances(userId, parseEndOfDayParam(req.query.asOf));
       ok(res, fundsWithBalances);
     } catch (error) {
       console.error("Error fetching funds with balances:", error);
@@ -800,7 +1651,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/funds/:id/balance", requireAuth, async (req: any, res) => {
     try {
-      const balance = await storage.getFundBalance(req.params.id);
+      const userId = validateUserId(req.user?.id);
+      const fund = await storage.getFund(req.params.id, userId);
+      if (!fund) {
+        return notFound(res, "Fund not found");
+      }
+      const balance = await storage.getFundBalance(fund.id, parseEndOfDayParam(req.query.asOf));
       ok(res, { balance });
     } catch (error) {
       console.error("Error fetching fund balance:", error);
@@ -808,6 +1664,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ledger entries, optionally filtered by account (fund:<id>, unallocated, ...) and dates
+  app.get("/api/ledger", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const entries = await storage.getLedgerEntries(userId, {
+        account: req.query.account as string | undefined,
+        fromDate: parseDateParam(req.query.fromDate),
+        toDate: parseEndOfDayParam(req.query.toDate),
+      });
+      ok(res, entries);
+    } catch (error) {
+      console.error("Error fetching ledger entries:", error);
+      serverError(res);
+    }
+  });
+
   // Distribution History endpoints
   app.get("/api/distribution-history", requireAuth, async (req: any, res) => {
     try {
@@ -837,18 +1709,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Receipts whose distributions were created by this run
+  app.get("/api/distribution-history/:id/receipts", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = validateUserId(req.user?.id);
+
+      const history = await storage.getDistributionHistoryById(id, userId);
+      if (!history) {
+        return notFound(res);
+      }
+      ok(res, await storage.getDistributionHistoryReceipts(id, userId));
+    } catch (error) {
+      console.error("Error fetching distribution history receipts:", error);
+      serverError(res);
+    }
+  });
+
+  // Undo a run; responds with the receipts that became unallocated again
   app.delete("/api/distribution-history/:id", requireAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = validateUserId(req.user?.id);
       
-      const deleted = await storage.deleteDistributionHistory(id, userId);
-      if (deleted) {
-        noContent(res);
+      const returnedReceipts = await storage.deleteDistributionHistory(id, userId);
+      if (returnedReceipts) {
+        ok(res, { receipts: returnedReceipts });
       } else {
         notFound(res);
       }
     } catch (error) {
+      if (error instanceof DistributionRunCorrectedError) {
+        return badRequest(res, error.message);
+      }
       console.error("Error deleting distribution history:", error);
       serverError(res);
     }
@@ -880,16 +1773,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Цена за единицу номенклатуры по позициям расходов, от старых к новым
+  app.get("/api/expense-nomenclature/:id/price-history", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const nomenclature = await storage.getExpenseNomenclatureById(req.params.id, userId);
+      if (!nomenclature) {
+        return notFound(res, "Nomenclature not found");
+      }
+      ok(res, await storage.getNomenclaturePriceHistory(nomenclature.id, userId));
+    } catch (error) {
+      handleError(error, res, "Failed to fetch price history");
+    }
+  });
+
+  // Статья и фонд для нового расхода: по умолчанию из номенклатуры, иначе самые частые в прошлых расходах
+  app.get("/api/expense-nomenclature/:id/cost-suggestion", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const nomenclature = await storage.getExpenseNomenclatureById(req.params.id, userId);
+      if (!nomenclature) {
+        return notFound(res, "Nomenclature not found");
+      }
+      const [costs, categories, funds] = await Promise.all([
+        storage.getCosts(userId),
+        storage.getExpenseCategories(userId),
+        storage.getFunds(userId),
+      ]);
+      ok(res, suggestCostDefaults(nomenclature, costs, {
+        activeExpenseCategoryIds: new Set(categories.filter(category => category.isActive !== false).map(category => category.id)),
+        activeFundIds: new Set(funds.filter(fund => fund.isActive !== false).map(fund => fund.id)),
+      }));
+    } catch (error) {
+      handleError(error, res, "Failed to suggest cost defaults");
+    }
+  });
+
   app.post("/api/expense-nomenclature", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertExpenseNomenclatureSchema.parse(req.body);
+      const defaultsError = await checkNomenclatureDefaults(validatedData, userId);
+      if (defaultsError) {
+        return badRequest(res, defaultsError);
+      }
       const nomenclature = await storage.createExpenseNomenclature(validatedData, userId);
       created(res, nomenclature);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating expense nomenclature:", error);
       serverError(res);
     }
@@ -899,15 +1830,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertExpenseNomenclatureSchema.partial().parse(req.body);
+      const defaultsError = await checkNomenclatureDefaults(validatedData, userId);
+      if (defaultsError) {
+        return badRequest(res, defaultsError);
+      }
       const nomenclature = await storage.updateExpenseNomenclature(req.params.id, validatedData, userId);
       if (!nomenclature) {
         return notFound(res);
       }
       ok(res, nomenclature);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating expense nomenclature:", error);
       serverError(res);
     }
@@ -957,12 +1890,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertExpenseCategorySchema.parse(req.body);
+      const parentError = await checkExpenseCategoryParent(null, validatedData.parentId, userId);
+      if (parentError) {
+        return badRequest(res, parentError);
+      }
       const category = await storage.createExpenseCategory(validatedData, userId);
       created(res, category);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error creating expense category:", error);
       serverError(res);
     }
@@ -972,15 +1907,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = validateUserId(req.user?.id);
       const validatedData = insertExpenseCategorySchema.partial().parse(req.body);
+      const parentError = await checkExpenseCategoryParent(req.params.id, validatedData.parentId, userId);
+      if (parentError) {
+        return badRequest(res, parentError);
+      }
       const category = await storage.updateExpenseCategory(req.params.id, validatedData, userId);
       if (!category) {
         return notFound(res);
       }
       ok(res, category);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
+      if (handleValidationError(error, res)) return;
       console.error("Error updating expense category:", error);
       serverError(res);
     }
@@ -995,6 +1932,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       noContent(res);
     } catch (error) {
+      if (error instanceof ExpenseCategoryLastAllowedError) {
+        return conflict(res, error.message);
+      }
       console.error("Error deleting expense category:", error);
       serverError(res);
     }
@@ -1006,57 +1946,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = validateUserId(req.user?.id);
       const { dateFrom, dateTo } = req.params;
       
-      // Get all funds for the user
-      const funds = await storage.getFundsWithBalances(userId);
-      
-      // Get distribution history to calculate period income
-      const distributionHistory = await storage.getDistributionHistoryWithItems(userId);
-      const costs = await storage.getCosts(userId);
-      
-      // Filter data by date range
       const startDate = new Date(dateFrom);
       const endDate = new Date(dateTo);
       endDate.setHours(23, 59, 59, 999); // End of day
-      
-      // Filter distributions within period
-      const periodDistributions = distributionHistory.filter((dist: any) => {
-        const distDate = new Date(dist.createdAt);
-        return distDate >= startDate && distDate <= endDate;
-      });
-      
-      // Filter costs within period
-      const periodCosts = costs.filter((cost: any) => {
-        const costDate = new Date(cost.date);
-        return costDate >= startDate && costDate <= endDate;
-      });
-      
-      // Calculate fund balances and movements
-      const fundBalanceReport = funds.map((fund: any) => {
-        // Calculate income from distributions in period
-        let periodIncome = 0;
-        periodDistributions.forEach((dist: any) => {
-          if (dist.items && Array.isArray(dist.items)) {
-            const fundItems = dist.items.filter((item: any) => item.fundId === fund.id);
-            periodIncome += fundItems.reduce((sum: number, item: any) => sum + parseFloat(item.amount), 0);
-          }
-        });
-        
-        // Calculate expenses in period
-        const fundCosts = periodCosts.filter((cost: any) => cost.fundId === fund.id);
-        const periodExpenses = fundCosts.reduce((sum: number, cost: any) => sum + parseFloat(cost.totalAmount), 0);
-        
-        // Current balance
-        const currentBalance = parseFloat(fund.balance);
-        
-        // Opening balance = current - period income + period expenses
-        const openingBalance = Math.max(0, currentBalance - periodIncome + periodExpenses);
-        
+
+      // Opening balance is the ledger balance just before the period starts
+      const openingDate = new Date(startDate.getTime() - 1);
+      const funds = await storage.getFundsWithBalances(userId, openingDate);
+      const periodEntries = await storage.getLedgerEntries(userId, { fromDate: startDate, toDate: endDate });
+      const splitShares = await storage.getCostFundShareLines(userId, startDate, endDate);
+
+      // Income is everything posted to the fund (distributions, transfers in),
+      // expenses is everything posted from it (costs, transfers out).
+      // Split costs are listed with the fund's share of each of them
+      const fundBalanceReport = funds.map((fund) => {
+        const openingBalance = toKopecks(fund.balance);
+        const { debit: periodIncome, credit: periodExpenses } = accountTurnover(periodEntries, fundAccount(fund.id));
+
         return {
           fundName: fund.name,
-          openingBalance: openingBalance,
-          income: periodIncome,
-          expenses: periodExpenses,
-          currentBalance: currentBalance
+          openingBalance: kopecksToRubles(openingBalance),
+          income: kopecksToRubles(periodIncome),
+          expenses: kopecksToRubles(periodExpenses),
+          currentBalance: kopecksToRubles(openingBalance + periodIncome - periodExpenses),
+          splitCosts: splitShares
+            .filter(share => share.fundId === fund.id)
+            .map(share => ({
+              costId: share.costId,
+              date: share.date,
+              expenseNomenclatureName: share.expenseNomenclatureName ?? null,
+              totalAmount: kopecksToRubles(toKopecks(share.totalAmount)),
+              shareAmount: kopecksToRubles(toKopecks(share.amount)),
+              percentage: share.percentage,
+            })),
         };
       });
       
@@ -1067,6 +1989,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Расходы, оплаченные фондами вне их разрешенных статей (в том числе записанные до ограничения)
+  app.get("/api/reports/fund-category-violations", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const rules = await storage.getFundExpenseCategories(userId);
+      if (rules.length === 0) {
+        return ok(res, []);
+      }
+      ok(res, findFundCategoryViolations(await storage.getCosts(userId), {
+        rules,
+        categories: await storage.getExpenseCategories(userId),
+        funds: await storage.getFunds(userId),
+      }));
+    } catch (error) {
+      console.error("Error generating fund category violations report:", error);
+      serverError(res);
+    }
+  });
+
   // Expense Report API
   app.get("/api/reports/expenses/:dateFrom/:dateTo", requireAuth, async (req: any, res) => {
     try {
@@ -1088,30 +2029,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Group by category
-      const categoryMap = new Map();
-      
-      categories.forEach((category: any) => {
-        categoryMap.set(category.id, {
-          categoryName: category.name,
-          expenses: []
-        });
-      });
+      const expensesByCategory = new Map<string, { name: string; amount: number }[]>();
       
       // Add costs to categories
       periodCosts.forEach((cost: any) => {
         const nomenclatureItem = nomenclature.find((n: any) => n.id === cost.expenseNomenclatureId);
         const nomenclatureName = nomenclatureItem ? nomenclatureItem.name : "Без номенклатуры";
         
-        if (categoryMap.has(cost.expenseCategoryId)) {
-          categoryMap.get(cost.expenseCategoryId).expenses.push({
-            name: nomenclatureName,
-            amount: parseFloat(cost.totalAmount)
-          });
-        }
+        expensesByCategory.set(cost.expenseCategoryId, [
+          ...(expensesByCategory.get(cost.expenseCategoryId) ?? []),
+          { name: nomenclatureName, amount: kopecksToRubles(toKopecks(cost.totalAmount)) },
+        ]);
       });
       
-      // Convert to array and filter out empty categories
-      const reportData = Array.from(categoryMap.values()).filter((category: any) => category.expenses.length > 0);
+      // Subtotals at every level of the category tree; categories without costs in their subtree are dropped
+      type ExpenseReportNode = {
+        categoryId: string;
+        categoryName: string;
+        depth: number;
+        total: number;
+        expenses: { name: string; amount: number }[];
+        children: ExpenseReportNode[];
+      };
+      const toReportNode = (node: CategoryTreeNode<(typeof categories)[number]>): ExpenseReportNode => {
+        const expenses = expensesByCategory.get(node.id) ?? [];
+        const children = node.children.map(toReportNode).filter(child => child.total > 0 || child.expenses.length > 0);
+        return {
+          categoryId: node.id,
+          categoryName: node.name,
+          depth: node.depth,
+          total: kopecksToRubles(sumMoney([...expenses.map(expense => expense.amount), ...children.map(child => child.total)])),
+          expenses,
+          children,
+        };
+      };
+      const reportData = buildCategoryTree(categories)
+        .map(toReportNode)
+        .filter(node => node.total > 0 || node.expenses.length > 0);
       
       ok(res, reportData);
     } catch (error) {
@@ -1121,6 +2075,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sponsor Report API
+  // Payment method report: receipt items and costs of the period by payment method
+  app.get("/api/reports/payment-methods/:dateFrom/:dateTo", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const { dateFrom, dateTo } = req.params;
+      
+      const startDate = new Date(dateFrom);
+      const endDate = new Date(dateTo);
+      endDate.setHours(23, 59, 59, 999);
+      
+      const totals = await storage.getPaymentMethodTotals(userId, startDate, endDate);
+      const reportData = totals.map(row => ({
+        paymentMethod: row.paymentMethod,
+        receiptsAmount: kopecksToRubles(toKopecks(row.receiptsAmount)),
+        costsAmount: kopecksToRubles(toKopecks(row.costsAmount)),
+        netAmount: kopecksToRubles(toKopecks(row.receiptsAmount) - toKopecks(row.costsAmount)),
+      }));
+      
+      ok(res, reportData);
+    } catch (error) {
+      console.error("Error generating payment method report:", error);
+      serverError(res);
+    }
+  });
+
+  // Unmatched report: statement lines without a document and bank documents without a statement line
+  app.get("/api/reports/bank-reconciliation/:dateFrom/:dateTo", requireAuth, async (req: any, res) => {
+    try {
+      const userId = validateUserId(req.user?.id);
+      const period = parseReconciliationPeriod(req.params);
+      if (!period) {
+        return badRequest(res, "Invalid date range");
+      }
+      const { lines, documents } = await loadReconciliationDocuments(userId, period);
+      const reconciliation = buildBankReconciliation(lines, documents, period);
+      ok(res, {
+        lines: reconciliation.lines
+          .filter(line => line.status === "unmatched")
+          .map(({ candidates, ...line }) => ({ ...line, candidateCount: candidates.length })),
+        receipts: reconciliation.receipts.filter(receipt => receipt.status === "unmatched"),
+        costs: reconciliation.costs.filter(cost => cost.status === "unmatched"),
+      });
+    } catch (error) {
+      console.error("Error generating bank reconciliation report:", error);
+      serverError(res);
+    }
+  });
+
   app.get("/api/reports/sponsors/:dateFrom/:dateTo", requireAuth, async (req: any, res) => {
     try {
       const userId = validateUserId(req.user?.id);
@@ -1141,6 +2143,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get receipt items for these receipts
       const sponsorMap = new Map();
+      // Строки без спонсора показываются отдельно как анонимные поступления, по плательщику
+      const anonymousMap = new Map<string | null, number>();
       
       // Initialize sponsors map
       sponsors.forEach((sponsor: any) => {
@@ -1154,19 +2158,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const receipt of periodReceipts) {
         const receiptItems = await storage.getReceiptItems(receipt.id);
         
-        receiptItems.forEach((item: any) => {
-          if (sponsorMap.has(item.sponsorId)) {
+        receiptItems.forEach((item) => {
+          if (!item.sponsorId) {
+            anonymousMap.set(item.payerName, (anonymousMap.get(item.payerName) || 0) + toKopecks(item.amount));
+          } else if (sponsorMap.has(item.sponsorId)) {
             const sponsorData = sponsorMap.get(item.sponsorId);
-            sponsorData.totalAmount += parseFloat(item.amount);
+            sponsorData.totalAmount += toKopecks(item.amount);
           }
         });
       }
       
       // Filter out sponsors with no donations and convert to array
-      const reportData = Array.from(sponsorMap.values())
-        .filter((sponsor: any) => sponsor.totalAmount > 0);
+      const sponsorTotals = Array.from(sponsorMap.values())
+        .filter((sponsor: any) => sponsor.totalAmount > 0)
+        .map((sponsor: any) => ({ ...sponsor, totalAmount: kopecksToRubles(sponsor.totalAmount) }));
       
-      ok(res, reportData);
+      const payers = Array.from(anonymousMap.entries())
+        .map(([payerName, totalAmount]) => ({ payerName, totalAmount: kopecksToRubles(totalAmount) }));
+      
+      ok(res, {
+        sponsors: sponsorTotals,
+        anonymous: {
+          totalAmount: kopecksToRubles(sumMoney(payers.map(payer => payer.totalAmount))),
+          payers,
+        },
+      });
     } catch (error) {
       console.error("Error generating sponsor report:", error);
       serverError(res);
@@ -0,0 +1,22 @@
+/**
+ * Применение миграций из командной строки
+ *
+ * npm run db:migrate                 - проверить схему и применить недостающие миграции
+ * npm run db:migrate -- --baseline   - сначала пометить начальную миграцию примененной
+ *                                      (для базы, созданной через drizzle-kit push)
+ */
+
+import { pool } from "../db";
+import { baselineMigrations, runMigrations, SchemaMismatchError } from "../migrate";
+
+const task = process.argv.includes("--baseline")
+  ? baselineMigrations().then(runMigrations)
+  : runMigrations();
+
+task
+  .then(() => console.log("Migrations are up to date"))
+  .catch((error) => {
+    console.error(error instanceof SchemaMismatchError ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,40 @@
+/**
+ * Заполнение базы стартовыми данными для пользователя
+ *
+ * npm run db:seed -- <логин>
+ *
+ * Пользователь должен быть уже зарегистрирован. Данные пишутся в PostgreSQL
+ * через DatabaseStorage, перед этим применяются миграции.
+ */
+
+import { pool } from "../db";
+import { runMigrations } from "../migrate";
+import { seedStarterData } from "../seed";
+import { DatabaseStorage } from "../storage";
+
+async function main(): Promise<void> {
+  const username = process.argv[2];
+  if (!username) {
+    throw new Error("Usage: npm run db:seed -- <username>");
+  }
+
+  await runMigrations();
+
+  const storage = new DatabaseStorage();
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new Error(`User "${username}" not found, register in the app first`);
+  }
+
+  const seeded = await seedStarterData(storage, user.id);
+  console.log(seeded
+    ? `Starter data created for "${username}"`
+    : `"${username}" already has funds, nothing to seed`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
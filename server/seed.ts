@@ -0,0 +1,94 @@
+/**
+ * Стартовый набор данных для нового пользователя LakshmiApp
+ *
+ * Создает через IStorage фонды, источники поступлений с правилами
+ * распределения, статьи расходов и номенклатуру, чтобы с приложением
+ * можно было работать сразу после регистрации.
+ */
+
+import type { IStorage } from "./storage";
+
+/** Фонды: ключ используется для ссылок из правил распределения */
+const starterFunds = [
+  { key: "general", name: "Общий фонд", description: "Текущие расходы" },
+  { key: "reserve", name: "Резервный фонд", description: "Непредвиденные расходы" },
+  { key: "building", name: "Строительный фонд", description: "Строительство и ремонт" },
+] as const;
+
+type StarterFundKey = typeof starterFunds[number]["key"];
+
+/** Источники поступлений и доли фондов (в процентах, сумма 100) */
+const starterIncomeSources: { name: string; description: string; distribution: [StarterFundKey, string][] }[] = [
+  {
+    name: "Пожертвования",
+    description: "Разовые пожертвования",
+    distribution: [["general", "70"], ["reserve", "30"]],
+  },
+  {
+    name: "Ежемесячные взносы",
+    description: "Регулярные ежемесячные взносы",
+    distribution: [["general", "60"], ["reserve", "10"], ["building", "30"]],
+  },
+  {
+    name: "Целевые сборы на строительство",
+    description: "Сборы на строительство и ремонт",
+    distribution: [["building", "100"]],
+  },
+];
+
+const starterExpenseCategories = [
+  { name: "Коммунальные услуги", description: "Электричество, вода, отопление" },
+  { name: "Продукты", description: "Продукты питания" },
+  { name: "Хозяйственные нужды", description: "Бытовая химия и инвентарь" },
+  { name: "Строительство", description: "Материалы и работы" },
+];
+
+const starterNomenclature = [
+  { name: "Электроэнергия", description: null },
+  { name: "Водоснабжение", description: null },
+  { name: "Рис", description: null },
+  { name: "Мука", description: null },
+  { name: "Моющие средства", description: null },
+  { name: "Стройматериалы", description: null },
+];
+
+/**
+ * Заполнение справочников пользователя стартовыми данными
+ *
+ * Повторный запуск ничего не создает, если у пользователя уже есть фонды.
+ *
+ * @param storage - Хранилище, в которое записываются данные
+ * @param userId - ID пользователя
+ * @returns true если данные созданы, false если пользователь уже настроен
+ */
+export async function seedStarterData(storage: IStorage, userId: string): Promise<boolean> {
+  const existingFunds = await storage.getFunds(userId);
+  if (existingFunds.length > 0) {
+    return false;
+  }
+
+  const fundIds = new Map<StarterFundKey, string>();
+  for (const { key, ...fund } of starterFunds) {
+    const created = await storage.createFund({ ...fund, initialBalance: "0", isActive: true }, userId);
+    fundIds.set(key, created.id);
+  }
+
+  for (const { distribution, ...source } of starterIncomeSources) {
+    const incomeSource = await storage.createIncomeSource({ ...source, isActive: true }, userId);
+    // Стартовые правила действуют с начала учета, чтобы распределялись и поступления задним числом
+    await storage.replaceIncomeSourceFundDistributions(incomeSource.id, {
+      validFrom: new Date(0),
+      rules: distribution.map(([fundKey, percentage]) => ({ fundId: fundIds.get(fundKey)!, ruleType: "percentage" as const, percentage })),
+    });
+  }
+
+  for (const category of starterExpenseCategories) {
+    await storage.createExpenseCategory({ ...category, isActive: true }, userId);
+  }
+
+  for (const nomenclature of starterNomenclature) {
+    await storage.createExpenseNomenclature({ ...nomenclature, isActive: true }, userId);
+  }
+
+  return true;
+}
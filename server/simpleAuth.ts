@@ -14,7 +14,7 @@ import bcrypt from "bcryptjs";
 import type { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { storage } from "./storage";
+import { storage } from "./storageBackend";
 import { generateUserId } from "./utils/idGenerator";
 import { handleValidationError, handleError, validateUserId } from "./utils/validation";
 import { ok, created, unauthorized, badRequest, noContent } from "./utils/responseHelpers";
@@ -83,11 +83,11 @@ export function getSession() {
 /**
  * Middleware для проверки аутентификации
  */
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (req.session && (req.session as any).userId) {
     // Получаем данные пользователя из хранилища
     const userId = (req.session as any).userId;
-    const user = storage.getUserById(userId);
+    const user = await storage.getUserById(userId);
     
     if (user) {
       req.user = {
@@ -135,7 +135,7 @@ export function setupSimpleAuth(app: Express) {
       const { username, password, firstName, lastName } = validatedData;
 
       // Проверяем, не существует ли уже пользователь с таким логином
-      const existingUser = storage.getUserByUsername(username);
+      const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return badRequest(res, "Пользователь с таким логином уже существует");
       }
@@ -182,7 +182,7 @@ export function setupSimpleAuth(app: Express) {
       const { username, password } = validatedData;
 
       // Находим пользователя
-      const user = storage.getUserByUsername(username);
+      const user = await storage.getUserByUsername(username);
       if (!user || !user.password) {
         return unauthorized(res, "Неправильный логин или пароль");
       }
@@ -0,0 +1,114 @@
+/**
+ * Чтение XLSX из загруженного файла: корректный архив и поврежденные файлы
+ *
+ * Запуск: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "zlib";
+import { SpreadsheetReadError, readSpreadsheet } from "./spreadsheetImport";
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;                         // Данные в том виде, как лежат в архиве
+  method?: 0 | 8;                       // 0 - stored, 8 - deflate
+}
+
+/** Zip-архив из записей: локальные заголовки, центральный каталог и end of central directory */
+function buildZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.method ?? 8, 8);
+    local.writeUInt32LE(entry.data.length, 18);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, entry.data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(entry.method ?? 8, 10);
+    header.writeUInt32LE(entry.data.length, 20);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    directory.push(header, name);
+    offset += local.length + name.length + entry.data.length;
+  }
+
+  const directoryBuffer = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directoryBuffer.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directoryBuffer, end]);
+}
+
+function deflated(name: string, xml: string): ZipEntry {
+  return { name, data: deflateRawSync(Buffer.from(xml, "utf8")) };
+}
+
+function workbookEntries(): ZipEntry[] {
+  return [
+    deflated("xl/workbook.xml", '<workbook><sheets><sheet name="Лист1" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+    deflated("xl/_rels/workbook.xml.rels", '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>'),
+    deflated("xl/worksheets/sheet1.xml", [
+      "<worksheet><sheetData>",
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Дата</t></is></c><c r="B1" t="inlineStr"><is><t>Сумма</t></is></c></row>',
+      '<row r="2"><c r="A2" t="inlineStr"><is><t>01.02.2025</t></is></c><c r="B2"><v>1500.5</v></c></row>',
+      "</sheetData></worksheet>",
+    ].join("")),
+  ];
+}
+
+function readXlsxFile(buffer: Buffer) {
+  return readSpreadsheet("import.xlsx", buffer.toString("base64"));
+}
+
+test("reads the first worksheet of an XLSX archive", () => {
+  assert.deepEqual(readXlsxFile(buildZip(workbookEntries())), {
+    headers: ["Дата", "Сумма"],
+    rows: [["01.02.2025", "1500.5"]],
+  });
+});
+
+test("a file shorter than a zip end record is rejected", () => {
+  assert.throws(() => readXlsxFile(Buffer.from("PK\x05\x06")), SpreadsheetReadError);
+  assert.throws(() => readXlsxFile(Buffer.alloc(0)), SpreadsheetReadError);
+});
+
+test("a truncated archive is rejected", () => {
+  const zip = buildZip(workbookEntries());
+  // Каталог и end record на месте, но данные записей обрезаны
+  const directoryStart = zip.readUInt32LE(zip.length - 6);
+  const truncated = Buffer.concat([zip.subarray(0, 40), zip.subarray(directoryStart)]);
+  truncated.writeUInt32LE(40, truncated.length - 6);
+  assert.throws(() => readXlsxFile(truncated), SpreadsheetReadError);
+
+  assert.throws(() => readXlsxFile(zip.subarray(0, zip.length - 10)), SpreadsheetReadError);
+});
+
+test("directory offsets outside the file are rejected", () => {
+  const zip = buildZip(workbookEntries());
+  zip.writeUInt32LE(0xfffffff0, zip.length - 6);
+  assert.throws(() => readXlsxFile(zip), SpreadsheetReadError);
+});
+
+test("a corrupt deflate stream is rejected", () => {
+  const entries = workbookEntries();
+  entries[2] = { name: entries[2].name, data: Buffer.from([0xff, 0xff, 0xff, 0xff, 0x00, 0x12]) };
+  assert.throws(() => readXlsxFile(buildZip(entries)), SpreadsheetReadError);
+});
+
+test("an archive that inflates past the size limit is rejected", () => {
+  const bomb = { name: "xl/worksheets/sheet1.xml", data: deflateRawSync(Buffer.alloc(60 * 1024 * 1024)) };
+  assert.throws(
+    () => readXlsxFile(buildZip([...workbookEntries().slice(0, 2), bomb])),
+    (error: unknown) => error instanceof SpreadsheetReadError && /too large/.test(error.message),
+  );
+});
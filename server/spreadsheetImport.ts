@@ -0,0 +1,533 @@
+/**
+ * Импорт поступлений и расходов из таблиц CSV/XLSX для LakshmiApp
+ *
+ * Таблица читается в заголовки и строки из текстовых ячеек, колонки сопоставляются
+ * с полями поступления или расхода (spreadsheetImportFields), формат дат и десятичный
+ * разделитель определяются по значениям колонки, если пользователь их не указал.
+ * Каждая строка проверяется отдельно, чтобы показать ошибки до загрузки пачки.
+ *
+ * XLSX - zip-архив с XML-листами: читается первый лист встроенным zlib,
+ * без сторонних библиотек.
+ */
+
+import { inflateRawSync } from "zlib";
+import {
+  type ExpenseCategory,
+  type ExpenseNomenclature,
+  type Fund,
+  type IncomeSource,
+  type InsertCost,
+  type InsertReceipt,
+  type MoneyAccount,
+  type PaymentMethod,
+  type ReceiptItemInput,
+  type Sponsor,
+  type SpreadsheetDateFormat,
+  type SpreadsheetDecimalSeparator,
+  type SpreadsheetImport,
+  type SpreadsheetImportField,
+  paymentMethods,
+  requiredSpreadsheetImportFields,
+  spreadsheetDateFormats,
+} from "@shared/schema";
+import { fromKopecks, toKopecks } from "@shared/money";
+
+/** Файл не удалось прочитать как таблицу */
+export class SpreadsheetReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetReadError";
+  }
+}
+
+/** Таблица: первая непустая строка - заголовки */
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// === CSV ===
+
+/**
+ * Разделитель CSV: тот из ";", ",", табуляции, который чаще встречается в первой строке
+ */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [";", ",", "\t"];
+  const counts = candidates.map(delimiter => firstLine.split(delimiter).length);
+  return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Разбор CSV с кавычками по RFC 4180 (кавычки внутри поля удваиваются)
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// === XLSX ===
+
+/** Размер файлов архива после распаковки, больше которого XLSX не читается (защита от zip-бомб) */
+const MAX_UNZIPPED_SIZE = 50 * 1024 * 1024;
+
+/** Минимальный размер zip-архива: одна запись end of central directory */
+const ZIP_END_RECORD_SIZE = 22;
+
+/**
+ * Файлы zip-архива по именам (только stored и deflate, как пишет Excel)
+ *
+ * Смещения и размеры берутся из загруженного файла, поэтому каждое проверяется
+ * по длине буфера; поврежденный архив дает SpreadsheetReadError, а не RangeError.
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  const damaged = () => new SpreadsheetReadError("XLSX archive is damaged");
+  const ensureInside = (start: number, length: number) => {
+    if (start < 0 || start + length > buffer.length) {
+      throw damaged();
+    }
+  };
+
+  if (buffer.length < ZIP_END_RECORD_SIZE) {
+    throw new SpreadsheetReadError("File is not a valid XLSX archive");
+  }
+
+  // End of central directory: последние 22 байта плюс возможный комментарий
+  let end = -1;
+  for (let i = buffer.length - ZIP_END_RECORD_SIZE; i >= Math.max(0, buffer.length - ZIP_END_RECORD_SIZE - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetReadError("File is not a valid XLSX archive");
+  }
+
+  const files = new Map<string, Buffer>();
+  let unzippedSize = 0;
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let entry = 0; entry < entryCount; entry++) {
+    ensureInside(offset, 46);
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetReadError("XLSX archive directory is damaged");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    ensureInside(offset + 46, nameLength);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    ensureInside(localOffset, 30);
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    ensureInside(dataStart, compressedSize);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      unzippedSize += data.length;
+      files.set(name, data);
+    } else if (method === 8) {
+      const inflated = inflateEntry(data, MAX_UNZIPPED_SIZE - unzippedSize);
+      unzippedSize += inflated.length;
+      files.set(name, inflated);
+    }
+    if (unzippedSize > MAX_UNZIPPED_SIZE) {
+      throw new SpreadsheetReadError("XLSX file is too large to import");
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+/**
+ * Распаковка deflate-записи архива не больше чем до maxSize байт
+ */
+function inflateEntry(data: Buffer, maxSize: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(maxSize, 1) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new SpreadsheetReadError("XLSX file is too large to import");
+    }
+    // Ошибки zlib: поврежденный поток deflate
+    throw new SpreadsheetReadError("XLSX archive is damaged");
+  }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Текст всех элементов <t> (строка может быть разбита на фрагменты с разным форматированием) */
+function xmlText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join("");
+}
+
+/** Номер колонки по ссылке ячейки: A1 -> 0, AB12 -> 27 */
+function columnIndex(cellRef: string): number {
+  const letters = /^[A-Z]+/.exec(cellRef)?.[0] ?? "A";
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Ячейки первого листа XLSX
+ *
+ * Числа и даты возвращаются как записаны в файле: даты Excel - порядковым номером дня.
+ */
+export function readXlsx(buffer: Buffer): string[][] {
+  const files = readZip(buffer);
+  const workbook = files.get("xl/workbook.xml")?.toString("utf8");
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8");
+  if (!workbook || !rels) {
+    throw new SpreadsheetReadError("XLSX file has no workbook");
+  }
+
+  const firstSheetRel = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const relTag = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+    .map(match => match[0])
+    .find(tag => tag.includes(`Id="${firstSheetRel}"`));
+  const target = relTag ? /Target="([^"]+)"/.exec(relTag)?.[1] : undefined;
+  const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml";
+  const sheet = files.get(sheetPath)?.toString("utf8");
+  if (!sheet) {
+    throw new SpreadsheetReadError("XLSX file has no worksheet");
+  }
+
+  const sharedStrings = Array.from(
+    (files.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => xmlText(match[1]),
+  );
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const row: string[] = [];
+    for (const cellMatch of Array.from((rowMatch[1] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1];
+      const type = /\bt="([^"]+)"/.exec(attributes)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = xmlText(body);
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Чтение таблицы из загруженного файла
+ *
+ * @param content - Текст CSV или содержимое XLSX в base64
+ * @throws SpreadsheetReadError если файл не читается или в нем нет строк с данными
+ */
+export function readSpreadsheet(fileName: string, content: string): Spreadsheet {
+  const cells = /\.xlsx$/i.test(fileName) ? readXlsx(Buffer.from(content, "base64")) : parseCsv(content);
+  const nonEmpty = cells
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ""));
+  if (nonEmpty.length < 2) {
+    throw new SpreadsheetReadError("Spreadsheet has no data rows");
+  }
+
+  const [headers, ...rows] = nonEmpty;
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")];
+  return {
+    headers: pad(headers).map((header, index) => header || `Колонка ${index + 1}`),
+    rows: rows.map(pad),
+  };
+}
+
+// === ФОРМАТЫ ДАТ И СУММ ===
+
+/** Дата Excel: число дней от 30.12.1899 */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Разбор даты в заданном формате
+ * @returns null, если значение не подходит под формат
+ */
+export function parseSpreadsheetDate(value: string, format: SpreadsheetDateFormat): Date | null {
+  const text = value.trim();
+  if (format === "excel") {
+    const serial = Number(text.replace(",", "."));
+    if (!/^\d+([.,]\d+)?$/.test(text) || serial < 1 || serial > 100000) return null;
+    return new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000);
+  }
+
+  // Время после даты (2025-01-31 00:00:00) отбрасывается
+  const datePart = text.split(/[\sT]/)[0];
+  const patterns: Record<Exclude<SpreadsheetDateFormat, "excel">, [RegExp, number, number, number]> = {
+    "dd.MM.yyyy": [/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, 1, 2, 3],
+    "yyyy-MM-dd": [/^(\d{4})-(\d{1,2})-(\d{1,2})$/, 3, 2, 1],
+    "dd/MM/yyyy": [/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, 1, 2, 3],
+    "MM/dd/yyyy": [/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, 2, 1, 3],
+  };
+  const [pattern, dayGroup, monthGroup, yearGroup] = patterns[format];
+  const match = pattern.exec(datePart);
+  if (!match) return null;
+
+  const [day, month, year] = [match[dayGroup], match[monthGroup], match[yearGroup]].map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day && date.getUTCMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Формат дат колонки: первый из spreadsheetDateFormats, под который подходят все значения
+ *
+ * dd/MM/yyyy идет раньше MM/dd/yyyy, поэтому неоднозначные даты читаются по-русски.
+ */
+export function detectDateFormat(values: string[]): SpreadsheetDateFormat | null {
+  const filled = values.filter(value => value.trim() !== "");
+  if (filled.length === 0) return null;
+  return spreadsheetDateFormats.find(format => filled.every(value => parseSpreadsheetDate(value, format))) ?? null;
+}
+
+/**
+ * Разбор суммы с заданным десятичным разделителем
+ *
+ * Пробелы (в том числе неразрывные), знак рубля и разделитель разрядов отбрасываются:
+ * "1 234,56 ₽" и "1,234.56" дают "1234.56".
+ * @returns Десятичная строка или null, если значение не является суммой
+ */
+export function parseSpreadsheetAmount(value: string, decimalSeparator: SpreadsheetDecimalSeparator): string | null {
+  const thousands = decimalSeparator === "," ? "." : ",";
+  const cleaned = value
+    .replace(/\s/g, "")
+    .replace(/(₽|руб\.?|р\.)$/i, "")
+    .split(thousands).join("")
+    .replace(decimalSeparator, ".");
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return fromKopecks(toKopecks(cleaned));
+}
+
+/**
+ * Десятичный разделитель колонки сумм
+ *
+ * Решает большинство значений: после десятичного разделителя в конце идут 1-2 цифры,
+ * после разделителя разрядов - ровно 3. Без подсказок принимается запятая.
+ */
+export function detectDecimalSeparator(values: string[]): SpreadsheetDecimalSeparator {
+  let comma = 0;
+  let dot = 0;
+  for (const value of values) {
+    const cleaned = value.replace(/\s/g, "").replace(/(₽|руб\.?|р\.)$/i, "");
+    // 1-2 цифры после знака - копейки, ровно 3 - разряды тысяч ("1,234" или "1.234")
+    const fraction = /([.,])\d{1,2}$/.exec(cleaned)?.[1];
+    const thousands = /\d([.,])\d{3}$/.exec(cleaned)?.[1];
+    if (fraction === "," || thousands === ".") comma++;
+    if (fraction === "." || thousands === ",") dot++;
+  }
+  return dot > comma ? "." : ",";
+}
+
+// === СТРОКИ ИМПОРТА ===
+
+/** Справочники пользователя для поиска ссылок по названию или ID */
+export interface SpreadsheetImportReferences {
+  incomeSources: IncomeSource[];
+  sponsors: Sponsor[];
+  moneyAccounts: MoneyAccount[];
+  nomenclature: ExpenseNomenclature[];
+  categories: ExpenseCategory[];
+  funds: Fund[];
+}
+
+/** Проверенная строка таблицы; номер считается без пустых строк, заголовок - строка 1 */
+export interface SpreadsheetImportRow {
+  rowNumber: number;
+  errors: string[];
+  date: Date | null;
+  amount: string | null;
+  label: string;                        // Описание поступления или номенклатура расхода
+  receipt?: { data: InsertReceipt; items: ReceiptItemInput[] };
+  cost?: InsertCost;
+}
+
+export interface SpreadsheetImportCheck {
+  dateFormat: SpreadsheetDateFormat | null;
+  decimalSeparator: SpreadsheetDecimalSeparator;
+  rows: SpreadsheetImportRow[];
+}
+
+const paymentMethodAliases: Record<string, PaymentMethod> = {
+  "наличные": "cash",
+  "нал": "cash",
+  "касса": "cash",
+  "карта": "card",
+  "банк": "bank",
+  "банковский перевод": "bank",
+  "безнал": "bank",
+  "перевод": "bank",
+  "сбп": "sbp",
+};
+
+function parsePaymentMethod(value: string): PaymentMethod | null | undefined {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  if ((paymentMethods as readonly string[]).includes(text)) return text as PaymentMethod;
+  return paymentMethodAliases[text];
+}
+
+/** Поиск записи справочника по ID или названию без учета регистра */
+function findReference<T extends { id: string; name: string }>(items: T[], value: string): T | undefined {
+  const text = value.trim().toLowerCase();
+  return items.find(item => item.id === value.trim()) ?? items.find(item => item.name.trim().toLowerCase() === text);
+}
+
+/**
+ * Проверка строк таблицы и подготовка данных для createReceipt/createCost
+ */
+export function checkSpreadsheetImport(input: SpreadsheetImport, references: SpreadsheetImportReferences): SpreadsheetImportCheck {
+  const columnOf = (field: SpreadsheetImportField): number => {
+    const header = input.columns[field];
+    return header === undefined ? -1 : input.headers.indexOf(header);
+  };
+  const valuesOf = (field: SpreadsheetImportField): string[] => {
+    const column = columnOf(field);
+    return column < 0 ? [] : input.rows.map(row => row[column] ?? "");
+  };
+
+  const amountField = input.kind === "receipts" ? "amount" : "totalAmount";
+  const dateFormat = input.dateFormat ?? detectDateFormat(valuesOf("date"));
+  const decimalSeparator = input.decimalSeparator ?? detectDecimalSeparator(valuesOf(amountField));
+
+  const missingColumns = requiredSpreadsheetImportFields[input.kind].filter(field => columnOf(field) < 0);
+
+  const rows = input.rows.map((row, index): SpreadsheetImportRow => {
+    const errors = missingColumns.map(field => `Column for "${field}" is not mapped`);
+    const cell = (field: SpreadsheetImportField) => {
+      const column = columnOf(field);
+      return column < 0 ? "" : (row[column] ?? "").trim();
+    };
+    const reference = <T extends { id: string; name: string }>(field: SpreadsheetImportField, items: T[], what: string, required: boolean) => {
+      const value = cell(field);
+      if (!value) {
+        if (required && columnOf(field) >= 0) errors.push(`${what} is empty`);
+        return undefined;
+      }
+      const found = findReference(items, value);
+      if (!found) errors.push(`${what} "${value}" not found`);
+      return found;
+    };
+
+    const date = cell("date") && dateFormat ? parseSpreadsheetDate(cell("date"), dateFormat) : null;
+    if (columnOf("date") >= 0 && !date) {
+      errors.push(cell("date") ? `Invalid date "${cell("date")}"` : "Date is empty");
+    }
+
+    const amount = cell(amountField) ? parseSpreadsheetAmount(cell(amountField), decimalSeparator) : null;
+    if (columnOf(amountField) >= 0 && (!amount || Number(amount) <= 0)) {
+      errors.push(cell(amountField) ? `Invalid amount "${cell(amountField)}"` : "Amount is empty");
+    }
+
+    const paymentMethod = parsePaymentMethod(cell("paymentMethod"));
+    if (paymentMethod === undefined) {
+      errors.push(`Unknown payment method "${cell("paymentMethod")}"`);
+    }
+    const moneyAccount = reference("moneyAccountId", references.moneyAccounts, "Account", true);
+    const rowNumber = index + 2;
+
+    if (input.kind === "receipts") {
+      const incomeSource = reference("incomeSourceId", references.incomeSources, "Income source", true);
+      const sponsorName = cell("sponsorName");
+      const sponsor = sponsorName ? findReference(references.sponsors, sponsorName) : undefined;
+      const description = cell("description") || sponsorName || "Импорт из таблицы";
+      const result: SpreadsheetImportRow = { rowNumber, errors, date, amount, label: description };
+      if (errors.length === 0 && date && amount && incomeSource && moneyAccount) {
+        result.receipt = {
+          data: {
+            date,
+            description: description.slice(0, 500),
+            amount,
+            incomeSourceId: incomeSource.id,
+            moneyAccountId: moneyAccount.id,
+          },
+          // Неизвестное имя сохраняется плательщиком анонимной строки
+          items: [{
+            sponsorId: sponsor?.id ?? null,
+            payerName: sponsor ? null : sponsorName.slice(0, 255) || null,
+            paymentMethod: paymentMethod ?? null,
+            amount,
+          }],
+        };
+      }
+      return result;
+    }
+
+    const nomenclature = reference("expenseNomenclatureId", references.nomenclature, "Nomenclature", true);
+    const category = reference("expenseCategoryId", references.categories, "Category", true);
+    const fund = reference("fundId", references.funds, "Fund", true);
+    const result: SpreadsheetImportRow = { rowNumber, errors, date, amount, label: nomenclature?.name ?? cell("expenseNomenclatureId") };
+    if (errors.length === 0 && date && amount && nomenclature && category && fund && moneyAccount) {
+      result.cost = {
+        date,
+        expenseNomenclatureId: nomenclature.id,
+        totalAmount: amount,
+        expenseCategoryId: category.id,
+        fundId: fund.id,
+        paymentMethod: paymentMethod ?? null,
+        moneyAccountId: moneyAccount.id,
+      };
+    }
+    return result;
+  });
+
+  return { dateFormat, decimalSeparator, rows };
+}
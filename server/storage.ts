@@ -5,12 +5,28 @@ import {
   receiptItems,
   costs,
   costItems,
+  costFundShares,
+  fundExpenseCategories,
   funds,
   fundDistributions,
   fundTransfers,
+  moneyAccounts,
+  moneyAccountTransfers,
   incomeSources,
   incomeSourceFundDistributions,
   manualFundDistributions,
+  distributionHistory,
+  distributionHistoryItems,
+  expenseNomenclature,
+  expenseCategories,
+  ledgerEntries,
+  bankStatementLines,
+  importMappings,
+  receiptItemsAmount,
+  costItemAmount,
+  costItemsAmount,
+  costItemStoredAmount,
+  paymentMethods,
   type User,
   type UpsertUser,
   type Sponsor,
@@ -19,67 +35,257 @@ import {
   type InsertReceipt,
   type ReceiptItem,
   type InsertReceiptItem,
+  type ReceiptItemInput,
   type Cost,
   type InsertCost,
   type CostItem,
   type InsertCostItem,
+  type CostItemInput,
+  type CostFundShare,
+  type CostFundShareInput,
+  type FundExpenseCategory,
   type Fund,
   type InsertFund,
   type FundDistribution,
   type InsertFundDistribution,
   type FundTransfer,
   type InsertFundTransfer,
+  type MoneyAccount,
+  type InsertMoneyAccount,
+  type MoneyAccountTransfer,
+  type InsertMoneyAccountTransfer,
   type IncomeSource,
   type InsertIncomeSource,
   type IncomeSourceFundDistribution,
-  type InsertIncomeSourceFundDistribution,
+  type IncomeSourceFundDistributionVersion,
   type ManualFundDistribution,
   type InsertManualFundDistribution,
+  type DistributionHistory,
+  type DistributionHistoryItem,
+  type DistributionHistoryKind,
+  type ExpenseNomenclature,
+  type InsertExpenseNomenclature,
+  type ExpenseCategory,
+  type InsertExpenseCategory,
+  type LedgerEntry,
+  type PaymentMethod,
+  type BankStatementLine,
+  type InsertBankStatementLine,
+  type ImportMapping,
+  type InsertImportMapping,
+  type SpreadsheetImportKind,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ilike, gte, lte, count, sum } from "drizzle-orm";
+import { eq, desc, asc, and, or, ilike, gt, gte, lte, count, sum, inArray, notInArray, isNull, isNotNull, sql } from "drizzle-orm";
+import { generateDistributionId, generateItemId } from "./utils/idGenerator";
+import {
+  type Kopecks,
+  toKopecks,
+  fromKopecks,
+  kopecksToRubles,
+  normalizeMoney,
+  percentageOf,
+  formatMoney,
+  sumMoney,
+} from "@shared/money";
+import {
+  type LedgerPosting,
+  EQUITY_ACCOUNT,
+  FundHasCostSharesError,
+  MONEY_OPENING_ACCOUNT,
+  MoneyAccountInUseError,
+  MoneyAccountRequiredError,
+  UNALLOCATED_ACCOUNT,
+  costMoneyPosting,
+  costPostings,
+  fundAccount,
+  fundDistributionPosting,
+  fundOpeningPosting,
+  fundTransferPosting,
+  manualFundDistributionPosting,
+  moneyAccount,
+  moneyAccountOpeningPosting,
+  moneyAccountTransferPosting,
+  receiptMoneyPosting,
+  receiptPosting,
+} from "./ledger";
+import { ExpenseCategoryLastAllowedError, assertFundsAllowCategory, fundsLimitedToCategory } from "./fundRestrictions";
+import {
+  type DistributionFilter,
+  type DistributionPlan,
+  type DistributionPreview,
+  type CapUsage,
+  type CorrectionPlan,
+  type DistributionContext,
+  type StaleDistributionPreview,
+  DistributionRunCorrectedError,
+  affectsDistribution,
+  buildCapUsage,
+  distributionRuleFields,
+  planCorrections,
+  planDistribution,
+  rulesInForce,
+  toDistributionPreview,
+  toStaleDistributionPreview,
+} from "./distribution";
+
+/** Поступление, сумма которого не совпадает с суммой строк спонсоров */
+export type ReceiptItemDiscrepancy = Receipt & {
+  itemsAmount: string;
+  itemCount: number;
+};
+
+/** Поступления и расходы за период по способу оплаты (null - способ не указан) */
+export type PaymentMethodTotals = {
+  paymentMethod: PaymentMethod | null;
+  receiptsAmount: string;
+  costsAmount: string;
+};
+
+/** Счет с остатком в рублях */
+export type MoneyAccountWithBalance = MoneyAccount & { balance: number };
+
+export type MoneyAccountTransferWithNames = MoneyAccountTransfer & {
+  fromAccountName: string;
+  toAccountName: string;
+};
+
+/**
+ * Строка банковской выписки с реквизитами связанного документа
+ *
+ * Поля документа (источник, первый спонсор поступления; номенклатура, статья
+ * и фонд расхода) пусты, если строка не связана с документом.
+ */
+export type BankStatementLineWithDocument = BankStatementLine & {
+  incomeSourceId: string | null;
+  sponsorId: string | null;
+  expenseNomenclatureId: string | null;
+  expenseCategoryId: string | null;
+  fundId: string | null;
+};
+
+/** Документ, с которым сверена строка выписки */
+export type BankStatementLineDocument = Pick<BankStatementLine, "receiptId" | "costId">;
+
+/**
+ * Сверка счетов с фондами (суммы в рублях)
+ *
+ * Деньги на счетах должны совпадать с деньгами в фондах и нераспределенными:
+ * difference = accountsTotal - fundsTotal - unallocated. Поступления и расходы
+ * всегда проводятся по счету, поэтому расхождение объясняется разницей
+ * начальных остатков счетов и фондов.
+ */
+export type MoneyAccountReconciliation = {
+  accountsTotal: number;
+  fundsTotal: number;
+  unallocated: number;
+  difference: number;
+  openingBalancesDifference: number;  // Начальные остатки счетов минус начальные остатки фондов
+};
+
+export type DistributionHistoryWithItems = DistributionHistory & {
+  items: (DistributionHistoryItem & { fundName: string })[];
+};
+
+export type CostWithDetails = Cost & {
+  expenseCategoryName?: string;
+  expenseNomenclatureName?: string;
+  fundName?: string;
+  items?: (CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[];
+  fundShares?: CostFundShareWithName[];
+};
+
+export type CostFundShareWithName = CostFundShare & { fundName?: string };
+
+/** Доля фонда в разделенном расходе вместе с расходом - строка отчета по фондам */
+export type CostFundShareLine = CostFundShareWithName & {
+  date: Date;                   // Дата расхода
+  totalAmount: string;          // Сумма всего расхода
+  expenseNomenclatureName?: string;
+};
+
+/** Цена номенклатуры в позиции расхода */
+export type NomenclaturePricePoint = {
+  costId: string;
+  costItemId: string;
+  date: Date;              // Дата расхода
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  description: string | null;
+};
+
+/** Отбор проводок журнала */
+export type LedgerFilter = {
+  account?: string;   // Счет по дебету или кредиту, например fund:<id>
+  fromDate?: Date;    // Проводки с датой не раньше
+  toDate?: Date;      // Проводки с датой не позже
+};
+
+export type Paginated<T> = {
+  data: T[];
+  pagination: { page: number; limit: number; total: number; totalPages: number; };
+};
+
+/** db или открытая транзакция */
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 // Interface for storage operations
 export interface IStorage {
   // User operations (required for Replit Auth and simple auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  
+
   // Simple auth methods
-  getUserById?(id: string): User | undefined;
-  getUserByUsername?(username: string): User | undefined;
-  
+  getUserById(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+
   // Sponsor operations
   getSponsors(userId: string, search?: string): Promise<Sponsor[]>;
   getSponsor(id: string, userId: string): Promise<Sponsor | undefined>;
   createSponsor(sponsor: InsertSponsor, userId: string): Promise<Sponsor>;
   updateSponsor(id: string, sponsor: Partial<InsertSponsor>, userId: string): Promise<Sponsor | undefined>;
   deleteSponsor(id: string, userId: string): Promise<boolean>;
-  
+
   // Receipt operations
-  getReceipts(userId: string, search?: string, fromDate?: Date, toDate?: Date): Promise<(Receipt & { sponsorName?: string })[]>;
+  /** paymentMethod keeps receipts that have at least one item paid that way */
+  getReceipts(userId: string, search?: string, fromDate?: Date, toDate?: Date, paymentMethod?: PaymentMethod): Promise<(Receipt & { sponsorName?: string })[]>;
+  getReceiptsPaginated(userId: string, search?: string, fromDate?: Date, toDate?: Date, page?: number, limit?: number, paymentMethod?: PaymentMethod): Promise<Paginated<Receipt & { sponsorName?: string }>>;
   getReceipt(id: string, userId: string): Promise<Receipt | undefined>;
-  createReceipt(receipt: InsertReceipt, userId: string): Promise<Receipt>;
-  updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string): Promise<Receipt | undefined>;
+  /** With items the receipt amount is their sum, and the items replace the existing ones in the same transaction */
+  createReceipt(receipt: InsertReceipt, userId: string, items?: ReceiptItemInput[]): Promise<Receipt>;
+  updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string, items?: ReceiptItemInput[]): Promise<Receipt | undefined>;
+  /** Receipts whose amount differs from the sum of their sponsor items */
+  getReceiptItemDiscrepancies(userId: string): Promise<ReceiptItemDiscrepancy[]>;
   deleteReceipt(id: string, userId: string): Promise<boolean>;
-  
+
   // Cost operations - новая структура
-  getCosts(userId: string, search?: string, expenseCategoryId?: string, fromDate?: Date, toDate?: Date): Promise<(Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string })[] })[]>;
-  getCostsPaginated(userId: string, search?: string, expenseCategoryId?: string, fromDate?: Date, toDate?: Date, page?: number, limit?: number): Promise<{
-    data: (Cost & { expenseCategoryName?: string; items?: (CostItem & { nomenclatureName?: string })[] })[];
-    pagination: { page: number; limit: number; total: number; totalPages: number; };
-  }>;
+  getCosts(userId: string, search?: string, expenseCategoryId?: string, fromDate?: Date, toDate?: Date, paymentMethod?: PaymentMethod): Promise<CostWithDetails[]>;
+  getCostsPaginated(userId: string, search?: string, expenseCategoryId?: string, fromDate?: Date, toDate?: Date, page?: number, limit?: number, paymentMethod?: PaymentMethod): Promise<Paginated<CostWithDetails>>;
   getCost(id: string, userId: string): Promise<Cost | undefined>;
-  createCost(cost: InsertCost, userId: string): Promise<Cost>;
-  updateCost(id: string, cost: Partial<InsertCost>, userId: string): Promise<Cost | undefined>;
+  /**
+   * With items the cost total is their sum, and the items replace the existing ones in the same transaction.
+   * With fund shares the cost is split across the funds (the first share's fund becomes the cost fund)
+   * and every fund must cover its own share; null on update removes the split.
+   * Every fund of the cost must be allowed to pay for its expense category (FundCategoryNotAllowedError)
+   */
+  createCost(cost: InsertCost, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[]): Promise<Cost>;
+  updateCost(id: string, cost: Partial<InsertCost>, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[] | null): Promise<Cost | undefined>;
   deleteCost(id: string, userId: string): Promise<boolean>;
-  
+  /** Fund shares of a split cost in split order; empty for a cost paid from one fund */
+  getCostFundShares(costId: string): Promise<CostFundShareWithName[]>;
+  /** Fund shares of the user's split costs dated within the period, by cost date */
+  getCostFundShareLines(userId: string, fromDate: Date, toDate: Date): Promise<CostFundShareLine[]>;
+
   // Cost Items operations
-  getCostItems(costId: string): Promise<(CostItem & { nomenclatureName?: string })[]>;
+  getCostItems(costId: string): Promise<(CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]>;
+  /** With quantity and unit price the item amount is their product */
   createCostItem(costItem: InsertCostItem, costId: string): Promise<CostItem>;
   updateCostItem(id: string, costItem: Partial<InsertCostItem>): Promise<CostItem | undefined>;
   deleteCostItem(id: string): Promise<boolean>;
-  
+  /** Cost items of the nomenclature that have a quantity and unit price, oldest first */
+  getNomenclaturePriceHistory(nomenclatureId: string, userId: string): Promise<NomenclaturePricePoint[]>;
+
   // Dashboard statistics
   getDashboardStats(userId: string): Promise<{
     totalReceipts: number;
@@ -89,18 +295,53 @@ export interface IStorage {
     activeFunds: number;
     totalFundPercentage: number;
   }>;
-  
+
   getRecentActivity(userId: string, limit?: number): Promise<{
-    recentReceipts: (Receipt & { sponsorName?: string })[];
-    recentCosts: Cost[];
+    recentReceipts: (Receipt & { sponsorName?: string; incomeSourceName?: string })[];
+    recentCosts: (Cost & { expenseNomenclatureName?: string; expenseCategoryName?: string })[];
   }>;
 
+  /** Receipt items and costs dated within the period, summed by payment method */
+  getPaymentMethodTotals(userId: string, fromDate: Date, toDate: Date): Promise<PaymentMethodTotals[]>;
+
   // Fund operations
   getFunds(userId: string): Promise<Fund[]>;
   createFund(fund: InsertFund, userId: string): Promise<Fund>;
   updateFund(id: string, fund: Partial<InsertFund>, userId: string): Promise<Fund | undefined>;
+  /** @throws FundHasCostSharesError if the fund pays shares of split costs */
   deleteFund(id: string, userId: string): Promise<boolean>;
   getFund(id: string, userId: string): Promise<Fund | undefined>;
+  /** Allowed expense categories of the user's funds; a fund without rows pays for any category */
+  getFundExpenseCategories(userId: string): Promise<FundExpenseCategory[]>;
+  /** Replaces the fund's allowed categories; an empty list lifts the restriction */
+  setFundExpenseCategories(fundId: string, expenseCategoryIds: string[], userId: string): Promise<FundExpenseCategory[] | undefined>;
+
+  // Money account operations (касса, банковский счет, карта)
+  getMoneyAccounts(userId: string): Promise<MoneyAccount[]>;
+  getMoneyAccount(id: string, userId: string): Promise<MoneyAccount | undefined>;
+  createMoneyAccount(account: InsertMoneyAccount, userId: string): Promise<MoneyAccount>;
+  updateMoneyAccount(id: string, account: Partial<InsertMoneyAccount>, userId: string): Promise<MoneyAccount | undefined>;
+  /** @throws MoneyAccountInUseError если по счету есть документы */
+  deleteMoneyAccount(id: string, userId: string): Promise<boolean>;
+  getMoneyAccountsWithBalances(userId: string, asOf?: Date): Promise<MoneyAccountWithBalance[]>;
+  getMoneyAccountReconciliation(userId: string, asOf?: Date): Promise<MoneyAccountReconciliation>;
+
+  // Money account transfer operations
+  createMoneyAccountTransfer(transfer: InsertMoneyAccountTransfer, userId: string): Promise<MoneyAccountTransfer>;
+  getMoneyAccountTransfers(userId: string): Promise<MoneyAccountTransferWithNames[]>;
+  deleteMoneyAccountTransfer(id: string, userId: string): Promise<boolean>;
+
+  // Bank statement operations (строки импортированных выписок)
+  /** Строки выписок пользователя, от новых к старым */
+  getBankStatementLines(userId: string): Promise<BankStatementLineWithDocument[]>;
+  createBankStatementLine(line: InsertBankStatementLine, userId: string): Promise<BankStatementLine>;
+  /** Связь строки с поступлением или расходом при сверке; null в обоих полях снимает связь */
+  setBankStatementLineDocument(id: string, document: BankStatementLineDocument, userId: string): Promise<BankStatementLine | undefined>;
+
+  // Import mapping operations (сохраненные сопоставления колонок таблиц)
+  getImportMappings(userId: string, kind?: SpreadsheetImportKind): Promise<ImportMapping[]>;
+  createImportMapping(mapping: InsertImportMapping, userId: string): Promise<ImportMapping>;
+  deleteImportMapping(id: string, userId: string): Promise<boolean>;
 
   // Fund distribution operations
   createFundDistribution(distribution: InsertFundDistribution): Promise<FundDistribution>;
@@ -113,46 +354,90 @@ export interface IStorage {
   deleteIncomeSource(id: string, userId: string): Promise<boolean>;
   getIncomeSource(id: string, userId: string): Promise<IncomeSource | undefined>;
 
-  // Income source fund distribution operations
-  createIncomeSourceFundDistribution(distribution: InsertIncomeSourceFundDistribution): Promise<IncomeSourceFundDistribution>;
-  getIncomeSourceFundDistributions(incomeSourceId: string): Promise<(IncomeSourceFundDistribution & { fundName: string })[]>;
-  deleteIncomeSourceFundDistributions(incomeSourceId: string): Promise<boolean>;
+  // Income source fund distribution operations (правила версионируются по датам действия)
+  getIncomeSourceFundDistributions(incomeSourceId: string, asOf?: Date): Promise<(IncomeSourceFundDistribution & { fundName: string })[]>;
+  getIncomeSourceFundDistributionHistory(incomeSourceId: string): Promise<(IncomeSourceFundDistribution & { fundName: string })[]>;
+  replaceIncomeSourceFundDistributions(incomeSourceId: string, version: IncomeSourceFundDistributionVersion): Promise<IncomeSourceFundDistribution[]>;
 
   // Receipt item operations
   createReceiptItem(receiptItem: InsertReceiptItem): Promise<ReceiptItem>;
-  getReceiptItems(receiptId: string): Promise<(ReceiptItem & { sponsorName: string })[]>;
-  deleteReceiptItems(receiptId: string): Promise<boolean>;
+  getReceiptItems(receiptId: string): Promise<(ReceiptItem & { sponsorName: string | null })[]>;
+  deleteReceiptItems(receiptId: string): Promise<void>;
   deleteFundDistributionsByReceipt(receiptId: string): Promise<void>;
-  distributeFundsForReceipt(receiptId: string, receiptAmount: string, userId: string): Promise<void>;
 
   // Fund transfer operations
-  createFundTransfer(transfer: InsertFundTransfer): Promise<FundTransfer>;
+  createFundTransfer(transfer: InsertFundTransfer, userId: string): Promise<FundTransfer>;
   getFundTransfers(userId: string): Promise<(FundTransfer & { fromFundName: string; toFundName: string })[]>;
   deleteFundTransfer(id: string): Promise<boolean>;
 
-  // Fund balance operations
-  getFundBalance(fundId: string): Promise<number>;
-  getFundsWithBalances(userId: string): Promise<(Fund & { balance: number })[]>;
+  // Ledger and balance operations (balances are computed from ledger entries only)
+  getLedgerEntries(userId: string, filter?: LedgerFilter): Promise<LedgerEntry[]>;
+  getAccountBalance(userId: string, account: string, asOf?: Date): Promise<number>;
+  getFundBalance(fundId: string, asOf?: Date): Promise<number>;
+  getFundsWithBalances(userId: string, asOf?: Date): Promise<(Fund & { balance: number })[]>;
 
   // Manual fund distribution operations
   getManualFundDistributions(userId: string): Promise<ManualFundDistribution[]>;
   createManualFundDistribution(distribution: InsertManualFundDistribution, userId: string): Promise<ManualFundDistribution>;
   deleteManualFundDistribution(id: string, userId: string): Promise<boolean>;
   getUnallocatedFunds(userId: string): Promise<number>;
-  getFundBalanceDetailed(fundId: string): Promise<number>;
-  
+
   // Distribution History operations
-  getDistributionHistory(userId: string): Promise<any[]>;
-  getDistributionHistoryWithItems(userId: string): Promise<any[]>;
-  getDistributionHistoryById(id: string, userId: string): Promise<any | undefined>;
-  deleteDistributionHistory(id: string, userId: string): Promise<boolean>;
-  
+  getDistributionHistory(userId: string): Promise<DistributionHistory[]>;
+  getDistributionHistoryWithItems(userId: string): Promise<DistributionHistoryWithItems[]>;
+  getDistributionHistoryById(id: string, userId: string): Promise<DistributionHistoryWithItems | undefined>;
+  getDistributionHistoryReceipts(id: string, userId: string): Promise<Receipt[]>;
+  /**
+   * Undo a run: removes exactly its fund distributions; returns the receipts that became unallocated (the rest are marked stale), undefined if not found
+   * @throws DistributionRunCorrectedError if a later correction run adjusted the run's receipts
+   */
+  deleteDistributionHistory(id: string, userId: string): Promise<Receipt[] | undefined>;
+
   // Distribution functions
-  distributeUnallocatedFunds(userId: string): Promise<void>;
-  distributeFundsForReceiptByIncomeSource(receiptId: string, receiptAmount: number, incomeSourceId: string, userId: string): Promise<void>;
+  previewUnallocatedDistribution(userId: string, filter?: DistributionFilter): Promise<DistributionPreview>;
+  distributeUnallocatedFunds(userId: string, filter?: DistributionFilter): Promise<void>;
+  /** Stale distributions (receipt changed after it was distributed) with their recalculation */
+  previewStaleDistributions(userId: string, filter?: DistributionFilter): Promise<StaleDistributionPreview>;
+  /** Recalculate stale distributions; the changes are recorded as a correction run, undefined if nothing changed */
+  redistributeStaleDistributions(userId: string, filter?: DistributionFilter): Promise<DistributionHistory | undefined>;
+  /** Redistribute one receipt by its source rules; records a history entry, undefined if nothing was distributed */
+  distributeFundsForReceiptByIncomeSource(receiptId: string, receiptAmount: Kopecks, incomeSourceId: string, userId: string): Promise<DistributionHistory | undefined>;
+
+  // Expense Nomenclature operations
+  getExpenseNomenclature(userId: string): Promise<ExpenseNomenclature[]>;
+  getExpenseNomenclatureById(id: string, userId: string): Promise<ExpenseNomenclature | undefined>;
+  createExpenseNomenclature(nomenclature: InsertExpenseNomenclature, userId: string): Promise<ExpenseNomenclature>;
+  updateExpenseNomenclature(id: string, nomenclature: Partial<InsertExpenseNomenclature>, userId: string): Promise<ExpenseNomenclature | undefined>;
+  deleteExpenseNomenclature(id: string, userId: string): Promise<boolean>;
+
+  // Expense Categories operations
+  getExpenseCategories(userId: string): Promise<ExpenseCategory[]>;
+  getExpenseCategoryById(id: string, userId: string): Promise<ExpenseCategory | undefined>;
+  createExpenseCategory(category: InsertExpenseCategory, userId: string): Promise<ExpenseCategory>;
+  updateExpenseCategory(id: string, category: Partial<InsertExpenseCategory>, userId: string): Promise<ExpenseCategory | undefined>;
+  /** @throws ExpenseCategoryLastAllowedError if the category is the only one some fund is allowed */
+  deleteExpenseCategory(id: string, userId: string): Promise<boolean>;
 }
 
+/**
+ * Хранилище на PostgreSQL через Drizzle ORM
+ *
+ * Повторяет поведение NewMemStorage, но хранит данные в базе,
+ * поэтому они переживают перезапуск и деплой. Суммы считаются
+ * агрегатами SQL, операции распределения выполняются в транзакциях.
+ */
 export class DatabaseStorage implements IStorage {
+  /**
+   * Запись проводок документа
+   * @param executor - db или транзакция, в которой создается документ
+   * @param postings - Проводки; null (например, нулевой начальный остаток) пропускается
+   */
+  private async post(executor: DbExecutor, postings: (LedgerPosting | null)[]): Promise<void> {
+    const values = postings.filter((posting): posting is LedgerPosting => posting !== null);
+    if (values.length > 0) {
+      await executor.insert(ledgerEntries).values(values);
+    }
+  }
   // User operations (required for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -174,14 +459,23 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserById(id: string): Promise<User | undefined> {
+    return this.getUser(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
   // Sponsor operations
   async getSponsors(userId: string, search?: string): Promise<Sponsor[]> {
     const conditions = [eq(sponsors.userId, userId)];
-    
+
     if (search) {
       conditions.push(ilike(sponsors.name, `%${search}%`));
     }
-    
+
     return await db
       .select()
       .from(sponsors)
@@ -223,48 +517,63 @@ export class DatabaseStorage implements IStorage {
 
   // Receipt operations
   async getReceipts(
-    userId: string, 
-    search?: string, 
-    fromDate?: Date, 
-    toDate?: Date
+    userId: string,
+    search?: string,
+    fromDate?: Date,
+    toDate?: Date,
+    paymentMethod?: PaymentMethod
   ): Promise<(Receipt & { sponsorName?: string })[]> {
     const conditions = [eq(receipts.userId, userId)];
-    
+
     if (search) {
       conditions.push(ilike(receipts.description, `%${search}%`));
     }
-    
+
     if (fromDate) {
       conditions.push(gte(receipts.date, fromDate));
     }
-    
+
     if (toDate) {
       conditions.push(lte(receipts.date, toDate));
     }
-    
+
+    if (paymentMethod) {
+      conditions.push(inArray(
+        receipts.id,
+        db.select({ receiptId: receiptItems.receiptId }).from(receiptItems).where(eq(receiptItems.paymentMethod, paymentMethod))
+      ));
+    }
+
+    // Like NewMemStorage, sponsorName carries the income source name
     const result = await db
       .select({
-        id: receipts.id,
-        date: receipts.date,
-        description: receipts.description,
-        amount: receipts.amount,
-        sponsorId: receipts.sponsorId,
-        userId: receipts.userId,
-        createdAt: receipts.createdAt,
-        updatedAt: receipts.updatedAt,
-        sponsorName: sponsors.name,
+        receipt: receipts,
+        sponsorName: incomeSources.name,
       })
       .from(receipts)
-      .leftJoin(sponsors, eq(receipts.sponsorId, sponsors.id))
+      .leftJoin(incomeSources, eq(receipts.incomeSourceId, incomeSources.id))
       .where(and(...conditions))
       .orderBy(desc(receipts.date));
-    
-    return result.map(item => ({
-      ...item,
-      sponsorName: item.sponsorName ?? undefined
+
+    return result.map(row => ({
+      ...row.receipt,
+      sponsorName: row.sponsorName ?? undefined
     }));
   }
 
+  async getReceiptsPaginated(
+    userId: string,
+    search?: string,
+    fromDate?: Date,
+    toDate?: Date,
+    page: number = 1,
+    limit: number = 20,
+    paymentMethod?: PaymentMethod
+  ): Promise<Paginated<Receipt & { sponsorName?: string }>> {
+    const allReceipts = await this.getReceipts(userId, search, fromDate, toDate, paymentMethod);
+    return paginate(allReceipts, page, limit);
+  }
+
   async getReceipt(id: string, userId: string): Promise<Receipt | undefined> {
     const [receipt] = await db
       .select()
@@ -273,24 +582,96 @@ export class DatabaseStorage implements IStorage {
     return receipt;
   }
 
-  async createReceipt(receipt: InsertReceipt, userId: string): Promise<Receipt> {
-    const [newReceipt] = await db
-      .insert(receipts)
-      .values({ ...receipt, userId })
-      .returning();
-    return newReceipt;
+  async createReceipt(receipt: InsertReceipt, userId: string, items?: ReceiptItemInput[]): Promise<Receipt> {
+    if (!receipt.moneyAccountId) throw new MoneyAccountRequiredError();
+    return await db.transaction(async (tx) => {
+      const [newReceipt] = await tx
+        .insert(receipts)
+        .values({ ...receipt, amount: items ? receiptItemsAmount(items) : normalizeMoney(receipt.amount), userId })
+        .returning();
+      if (items) {
+        await tx.insert(receiptItems).values(items.map(item => ({ ...item, receiptId: newReceipt.id })));
+      }
+      await this.post(tx, [receiptPosting(newReceipt), receiptMoneyPosting(newReceipt)]);
+      return newReceipt;
+    });
   }
 
-  async updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string): Promise<Receipt | undefined> {
-    const [updatedReceipt] = await db
-      .update(receipts)
-      .set({ ...receipt, updatedAt: new Date() })
-      .where(and(eq(receipts.id, id), eq(receipts.userId, userId)))
-      .returning();
-    return updatedReceipt;
+  async updateReceipt(id: string, receipt: Partial<InsertReceipt>, userId: string, items?: ReceiptItemInput[]): Promise<Receipt | undefined> {
+    if ("moneyAccountId" in receipt && !receipt.moneyAccountId) throw new MoneyAccountRequiredError();
+    if (items) {
+      receipt = { ...receipt, amount: receiptItemsAmount(items) };
+    }
+
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(receipts)
+        .where(and(eq(receipts.id, id), eq(receipts.userId, userId)));
+      if (!existing) return undefined;
+
+      // Distributions made before the change no longer match the receipt
+      const [{ distributed }] = await tx
+        .select({ distributed: count() })
+        .from(fundDistributions)
+        .where(eq(fundDistributions.receiptId, id));
+      const distributionStale = existing.distributionStale || (distributed > 0 && affectsDistribution(existing, receipt));
+
+      const [updatedReceipt] = await tx
+        .update(receipts)
+        .set({
+          ...receipt,
+          ...(receipt.amount !== undefined && { amount: normalizeMoney(receipt.amount) }),
+          distributionStale,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(receipts.id, id), eq(receipts.userId, userId)))
+        .returning();
+      if (!updatedReceipt) return undefined;
+
+      if (items) {
+        await tx.delete(receiptItems).where(eq(receiptItems.receiptId, id));
+        await tx.insert(receiptItems).values(items.map(item => ({ ...item, receiptId: id })));
+      }
+
+      // Date and amount change the receipt posting; distributions are posted on the receipt date
+      await tx.delete(ledgerEntries).where(eq(ledgerEntries.receiptId, id));
+      await this.post(tx, [receiptPosting(updatedReceipt), receiptMoneyPosting(updatedReceipt)]);
+      await tx
+        .update(ledgerEntries)
+        .set({ date: updatedReceipt.date })
+        .where(inArray(
+          ledgerEntries.fundDistributionId,
+          tx.select({ id: fundDistributions.id }).from(fundDistributions).where(eq(fundDistributions.receiptId, id))
+        ));
+      return updatedReceipt;
+    });
+  }
+
+  async getReceiptItemDiscrepancies(userId: string): Promise<ReceiptItemDiscrepancy[]> {
+    const itemsAmount = sql<string>`coalesce(sum(${receiptItems.amount}), 0)`;
+    const rows = await db
+      .select({
+        receipt: receipts,
+        itemsAmount,
+        itemCount: count(receiptItems.id),
+      })
+      .from(receipts)
+      .leftJoin(receiptItems, eq(receiptItems.receiptId, receipts.id))
+      .where(eq(receipts.userId, userId))
+      .groupBy(receipts.id)
+      .having(sql`${itemsAmount} <> ${receipts.amount}`)
+      .orderBy(desc(receipts.date));
+
+    return rows.map(row => ({
+      ...row.receipt,
+      itemsAmount: normalizeMoney(row.itemsAmount),
+      itemCount: row.itemCount,
+    }));
   }
 
   async deleteReceipt(id: string, userId: string): Promise<boolean> {
+    // Receipt items, fund distributions and their ledger entries are removed by ON DELETE CASCADE
     const result = await db
       .delete(receipts)
       .where(and(eq(receipts.id, id), eq(receipts.userId, userId)));
@@ -299,35 +680,74 @@ export class DatabaseStorage implements IStorage {
 
   // Cost operations
   async getCosts(
-    userId: string, 
-    search?: string, 
-    category?: string, 
-    fromDate?: Date, 
-    toDate?: Date
-  ): Promise<Cost[]> {
+    userId: string,
+    search?: string,
+    expenseCategoryId?: string,
+    fromDate?: Date,
+    toDate?: Date,
+    paymentMethod?: PaymentMethod
+  ): Promise<CostWithDetails[]> {
     const conditions = [eq(costs.userId, userId)];
-    
+
     if (search) {
-      conditions.push(ilike(costs.description, `%${search}%`));
+      conditions.push(ilike(expenseNomenclature.name, `%${search}%`));
     }
-    
-    if (category) {
-      conditions.push(eq(costs.category, category));
+
+    if (expenseCategoryId) {
+      conditions.push(eq(costs.expenseCategoryId, expenseCategoryId));
     }
-    
+
     if (fromDate) {
       conditions.push(gte(costs.date, fromDate));
     }
-    
+
     if (toDate) {
       conditions.push(lte(costs.date, toDate));
     }
-    
-    return await db
-      .select()
+
+    if (paymentMethod) {
+      conditions.push(eq(costs.paymentMethod, paymentMethod));
+    }
+
+    const rows = await db
+      .select({
+        cost: costs,
+        expenseCategoryName: expenseCategories.name,
+        expenseNomenclatureName: expenseNomenclature.name,
+        fundName: funds.name,
+      })
       .from(costs)
+      .leftJoin(expenseCategories, eq(costs.expenseCategoryId, expenseCategories.id))
+      .leftJoin(expenseNomenclature, eq(costs.expenseNomenclatureId, expenseNomenclature.id))
+      .leftJoin(funds, eq(costs.fundId, funds.id))
       .where(and(...conditions))
       .orderBy(desc(costs.date));
+
+    const itemsByCost = await this.getCostItemsByCostIds(rows.map(row => row.cost.id));
+    const sharesByCost = await this.getCostFundSharesByCostIds(rows.map(row => row.cost.id));
+
+    return rows.map(row => ({
+      ...row.cost,
+      expenseCategoryName: row.expenseCategoryName ?? undefined,
+      expenseNomenclatureName: row.expenseNomenclatureName ?? undefined,
+      fundName: row.fundName ?? undefined,
+      items: itemsByCost.get(row.cost.id) ?? [],
+      fundShares: sharesByCost.get(row.cost.id) ?? [],
+    }));
+  }
+
+  async getCostsPaginated(
+    userId: string,
+    search?: string,
+    expenseCategoryId?: string,
+    fromDate?: Date,
+    toDate?: Date,
+    page: number = 1,
+    limit: number = 20,
+    paymentMethod?: PaymentMethod
+  ): Promise<Paginated<CostWithDetails>> {
+    const allCosts = await this.getCosts(userId, search, expenseCategoryId, fromDate, toDate, paymentMethod);
+    return paginate(allCosts, page, limit);
   }
 
   async getCost(id: string, userId: string): Promise<Cost | undefined> {
@@ -338,30 +758,317 @@ export class DatabaseStorage implements IStorage {
     return cost;
   }
 
-  async createCost(cost: InsertCost, userId: string): Promise<Cost> {
-    const [newCost] = await db
-      .insert(costs)
-      .values({ ...cost, userId })
-      .returning();
-    return newCost;
+  async createCost(cost: InsertCost, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[]): Promise<Cost> {
+    if (!cost.moneyAccountId) throw new MoneyAccountRequiredError();
+    if (items) {
+      cost = { ...cost, totalAmount: costItemsAmount(items) };
+    }
+    if (fundShares) {
+      cost = { ...cost, fundId: fundShares[0].fundId };
+    }
+
+    const shares = fundShares ?? [{ fundId: cost.fundId, amount: normalizeMoney(cost.totalAmount), percentage: null }];
+
+    return await db.transaction(async (tx) => {
+      // Check fund restrictions and balances on the expense date in the transaction that writes the cost
+      const costFunds = await this.lockFunds(tx, shares.map(share => share.fundId), userId);
+      await this.checkCostFundCategories(tx, costFunds, cost.expenseCategoryId, userId);
+      await this.checkCostFundBalances(tx, costFunds, shares, new Date(cost.date));
+
+      const [newCost] = await tx
+        .insert(costs)
+        .values({ ...cost, totalAmount: normalizeMoney(cost.totalAmount), userId })
+        .returning();
+      if (items) {
+        await tx.insert(costItems).values(items.map(item => ({ ...item, amount: costItemAmount(item), costId: newCost.id })));
+      }
+      if (fundShares) {
+        await tx.insert(costFundShares).values(fundShares.map((share, position) => ({ ...share, position, costId: newCost.id })));
+      }
+      await this.post(tx, [...costPostings(newCost, fundShares), costMoneyPosting(newCost)]);
+      return newCost;
+    });
   }
 
-  async updateCost(id: string, cost: Partial<InsertCost>, userId: string): Promise<Cost | undefined> {
-    const [updatedCost] = await db
-      .update(costs)
-      .set({ ...cost, updatedAt: new Date() })
-      .where(and(eq(costs.id, id), eq(costs.userId, userId)))
-      .returning();
-    return updatedCost;
+  async updateCost(id: string, cost: Partial<InsertCost>, userId: string, items?: CostItemInput[], fundShares?: CostFundShareInput[] | null): Promise<Cost | undefined> {
+    if ("moneyAccountId" in cost && !cost.moneyAccountId) throw new MoneyAccountRequiredError();
+    if (items) {
+      cost = { ...cost, totalAmount: costItemsAmount(items) };
+    }
+    if (fundShares) {
+      cost = { ...cost, fundId: fundShares[0].fundId };
+    }
+
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(costs)
+        .where(and(eq(costs.id, id), eq(costs.userId, userId)))
+        .for("update");
+      if (!existing) return undefined;
+
+      // Without new shares a split cost keeps its shares
+      const existingShares = await tx
+        .select()
+        .from(costFundShares)
+        .where(eq(costFundShares.costId, id))
+        .orderBy(asc(costFundShares.position));
+      const shares = fundShares === undefined && existingShares.length > 0 ? existingShares : fundShares ?? null;
+      const fundIds = shares ? shares.map(share => share.fundId) : [cost.fundId || existing.fundId];
+
+      // If the split, fundId or expense category is being updated, check that the funds may pay for the category
+      const checkCategory = fundShares !== undefined || Boolean(cost.fundId || cost.expenseCategoryId);
+      // If the split, fundId, totalAmount or date is being updated, check fund balances on the expense date
+      const checkBalance = fundShares !== undefined || Boolean(cost.fundId || cost.totalAmount || cost.date);
+      if (checkCategory || checkBalance) {
+        const costFunds = await this.lockFunds(tx, fundIds, userId);
+        if (checkCategory) {
+          await this.checkCostFundCategories(tx, costFunds, cost.expenseCategoryId || existing.expenseCategoryId, userId);
+        }
+        if (checkBalance) {
+          const totalAmount = normalizeMoney(cost.totalAmount ?? existing.totalAmount);
+          await this.checkCostFundBalances(
+            tx,
+            costFunds,
+            shares ?? [{ fundId: cost.fundId || existing.fundId, amount: totalAmount, percentage: null }],
+            new Date(cost.date ?? existing.date),
+            {
+              date: new Date(existing.date),
+              shares: existingShares.length > 0 ? existingShares : [{ fundId: existing.fundId, amount: existing.totalAmount, percentage: null }],
+            },
+          );
+        }
+      }
+
+      const [updatedCost] = await tx
+        .update(costs)
+        .set({
+          ...cost,
+          ...(cost.totalAmount !== undefined && { totalAmount: normalizeMoney(cost.totalAmount) }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(costs.id, id), eq(costs.userId, userId)))
+        .returning();
+
+      if (items) {
+        await tx.delete(costItems).where(eq(costItems.costId, id));
+        await tx.insert(costItems).values(items.map(item => ({ ...item, amount: costItemAmount(item), costId: id })));
+      }
+      if (fundShares !== undefined) {
+        await tx.delete(costFundShares).where(eq(costFundShares.costId, id));
+        if (fundShares) {
+          await tx.insert(costFundShares).values(fundShares.map((share, position) => ({ ...share, position, costId: id })));
+        }
+      }
+
+      await tx.delete(ledgerEntries).where(eq(ledgerEntries.costId, id));
+      await this.post(tx, [...costPostings(updatedCost, shares ?? []), costMoneyPosting(updatedCost)]);
+      return updatedCost;
+    });
+  }
+
+  /**
+   * Блокировка фондов расхода до конца транзакции
+   *
+   * Расходы и изменения разрешенных статей по тем же фондам ждут друг друга,
+   * поэтому проверки видят уже записанные остатки и разрешения.
+   * @throws Error если фонд не найден
+   */
+  private async lockFunds(tx: DbExecutor, fundIds: string[], userId: string): Promise<Fund[]> {
+    const ids = Array.from(new Set(fundIds)).sort();
+    const locked = await tx
+      .select()
+      .from(funds)
+      .where(and(inArray(funds.id, ids), eq(funds.userId, userId)))
+      .orderBy(asc(funds.id))
+      .for("update");
+    if (locked.length !== ids.length) {
+      throw new Error("Фонд не найден");
+    }
+    return locked;
+  }
+
+  /**
+   * Проверка, что фонды расхода могут оплачивать его статью
+   * @param costFunds - Заблокированные фонды расхода
+   * @throws FundCategoryNotAllowedError
+   */
+  private async checkCostFundCategories(tx: DbExecutor, costFunds: Fund[], expenseCategoryId: string, userId: string): Promise<void> {
+    const rules = await tx
+      .select()
+      .from(fundExpenseCategories)
+      .where(inArray(fundExpenseCategories.fundId, costFunds.map(fund => fund.id)));
+    if (rules.length === 0) return;
+    assertFundsAllowCategory(costFunds.map(fund => fund.id), expenseCategoryId, {
+      rules,
+      categories: await tx.select().from(expenseCategories).where(eq(expenseCategories.userId, userId)),
+      funds: costFunds,
+    });
+  }
+
+  /**
+   * Проверка, что каждый фонд покрывает свою долю расхода на дату расхода
+   *
+   * @param costFunds - Заблокированные фонды расхода
+   * @param shares - Доли фондов (у неразделенного расхода - одна доля на всю сумму)
+   * @param previous - Прежние доли и дата изменяемого расхода: они уже списаны с фондов
+   */
+  private async checkCostFundBalances(
+    tx: DbExecutor,
+    costFunds: Fund[],
+    shares: CostFundShareInput[],
+    expenseDate: Date,
+    previous?: { shares: CostFundShareInput[]; date: Date },
+  ): Promise<void> {
+    for (const share of shares) {
+      const fund = costFunds.find(item => item.id === share.fundId)!;
+
+      // The old share is already deducted if it was in the same fund on or before the new date
+      const oldAmount = previous && previous.date <= expenseDate
+        ? sumMoney(previous.shares.filter(old => old.fundId === share.fundId).map(old => old.amount))
+        : 0;
+      const available = await this.getAccountBalanceKopecks(fundAccount(share.fundId), undefined, expenseDate, tx) + oldAmount;
+      const required = toKopecks(share.amount);
+
+      if (available < required) {
+        throw new Error(`Недостаточно средств в фонде "${fund.name}" на дату ${expenseDate.toLocaleDateString('ru-RU')}. Доступно: ${formatMoney(fromKopecks(available))}, требуется: ${formatMoney(fromKopecks(required))}`);
+      }
+    }
   }
 
   async deleteCost(id: string, userId: string): Promise<boolean> {
+    // Cost items, fund shares and the cost ledger entries are removed by ON DELETE CASCADE
     const result = await db
       .delete(costs)
       .where(and(eq(costs.id, id), eq(costs.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getCostFundShares(costId: string): Promise<CostFundShareWithName[]> {
+    const sharesByCost = await this.getCostFundSharesByCostIds([costId]);
+    return sharesByCost.get(costId) ?? [];
+  }
+
+  private async getCostFundSharesByCostIds(costIds: string[]): Promise<Map<string, CostFundShareWithName[]>> {
+    const sharesByCost = new Map<string, CostFundShareWithName[]>();
+    if (costIds.length === 0) return sharesByCost;
+
+    const rows = await db
+      .select({ share: costFundShares, fundName: funds.name })
+      .from(costFundShares)
+      .leftJoin(funds, eq(costFundShares.fundId, funds.id))
+      .where(inArray(costFundShares.costId, costIds))
+      .orderBy(asc(costFundShares.position));
+
+    for (const row of rows) {
+      const shares = sharesByCost.get(row.share.costId) ?? [];
+      shares.push({ ...row.share, fundName: row.fundName ?? undefined });
+      sharesByCost.set(row.share.costId, shares);
+    }
+    return sharesByCost;
+  }
+
+  async getCostFundShareLines(userId: string, fromDate: Date, toDate: Date): Promise<CostFundShareLine[]> {
+    const rows = await db
+      .select({
+        share: costFundShares,
+        fundName: funds.name,
+        date: costs.date,
+        totalAmount: costs.totalAmount,
+        expenseNomenclatureName: expenseNomenclature.name,
+      })
+      .from(costFundShares)
+      .innerJoin(costs, eq(costFundShares.costId, costs.id))
+      .leftJoin(funds, eq(costFundShares.fundId, funds.id))
+      .leftJoin(expenseNomenclature, eq(costs.expenseNomenclatureId, expenseNomenclature.id))
+      .where(and(eq(costs.userId, userId), gte(costs.date, fromDate), lte(costs.date, toDate)))
+      .orderBy(asc(costs.date), asc(costFundShares.costId), asc(costFundShares.position));
+
+    return rows.map(row => ({
+      ...row.share,
+      fundName: row.fundName ?? undefined,
+      date: row.date,
+      totalAmount: row.totalAmount,
+      expenseNomenclatureName: row.expenseNomenclatureName ?? undefined,
+    }));
+  }
+
+  // Cost Items operations
+  async getCostItems(costId: string): Promise<(CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]> {
+    const itemsByCost = await this.getCostItemsByCostIds([costId]);
+    return itemsByCost.get(costId) ?? [];
+  }
+
+  private async getCostItemsByCostIds(costIds: string[]): Promise<Map<string, (CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]>> {
+    const itemsByCost = new Map<string, (CostItem & { nomenclatureName?: string; nomenclatureUnit?: string })[]>();
+    if (costIds.length === 0) return itemsByCost;
+
+    const rows = await db
+      .select({
+        item: costItems,
+        nomenclatureName: expenseNomenclature.name,
+        nomenclatureUnit: expenseNomenclature.unit,
+      })
+      .from(costItems)
+      .leftJoin(expenseNomenclature, eq(costItems.expenseNomenclatureId, expenseNomenclature.id))
+      .where(inArray(costItems.costId, costIds));
+
+    for (const row of rows) {
+      const items = itemsByCost.get(row.item.costId) ?? [];
+      items.push({ ...row.item, nomenclatureName: row.nomenclatureName ?? undefined, nomenclatureUnit: row.nomenclatureUnit ?? undefined });
+      itemsByCost.set(row.item.costId, items);
+    }
+    return itemsByCost;
+  }
+
+  async createCostItem(costItem: InsertCostItem, costId: string): Promise<CostItem> {
+    const [newCostItem] = await db
+      .insert(costItems)
+      .values({ ...costItem, amount: costItemStoredAmount(costItem), costId })
+      .returning();
+    return newCostItem;
+  }
+
+  async updateCostItem(id: string, costItem: Partial<InsertCostItem>): Promise<CostItem | undefined> {
+    const [existing] = await db.select().from(costItems).where(eq(costItems.id, id));
+    if (!existing) return undefined;
+
+    const [updatedCostItem] = await db
+      .update(costItems)
+      .set({ ...costItem, amount: costItemStoredAmount({ ...existing, ...costItem }), updatedAt: new Date() })
+      .where(eq(costItems.id, id))
+      .returning();
+    return updatedCostItem;
+  }
+
+  async deleteCostItem(id: string): Promise<boolean> {
+    const result = await db.delete(costItems).where(eq(costItems.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getNomenclaturePriceHistory(nomenclatureId: string, userId: string): Promise<NomenclaturePricePoint[]> {
+    const rows = await db
+      .select({ item: costItems, date: costs.date })
+      .from(costItems)
+      .innerJoin(costs, eq(costItems.costId, costs.id))
+      .where(and(
+        eq(costItems.expenseNomenclatureId, nomenclatureId),
+        eq(costs.userId, userId),
+        isNotNull(costItems.quantity),
+        isNotNull(costItems.unitPrice),
+      ))
+      .orderBy(asc(costs.date), asc(costItems.createdAt));
+    return rows.map(({ item, date }) => ({
+      costId: item.costId,
+      costItemId: item.id,
+      date,
+      quantity: item.quantity!,
+      unitPrice: item.unitPrice!,
+      amount: item.amount,
+      description: item.description,
+    }));
+  }
+
   // Dashboard statistics
   async getDashboardStats(userId: string): Promise<{
     totalReceipts: number;
@@ -371,31 +1078,31 @@ export class DatabaseStorage implements IStorage {
     activeFunds: number;
     totalFundPercentage: number;
   }> {
+    // Total receipts are the receipt amounts, the same that are posted to the funds
     const [receiptStats] = await db
-      .select({ 
-        total: sum(receipts.amount).mapWith(Number) 
+      .select({
+        total: sum(receipts.amount).mapWith(toKopecks)
       })
       .from(receipts)
       .where(eq(receipts.userId, userId));
 
     const [costStats] = await db
-      .select({ 
-        total: sum(costs.amount).mapWith(Number) 
+      .select({
+        total: sum(costs.totalAmount).mapWith(toKopecks)
       })
       .from(costs)
       .where(eq(costs.userId, userId));
 
     const [sponsorStats] = await db
-      .select({ 
-        count: count() 
+      .select({
+        count: count()
       })
       .from(sponsors)
       .where(and(eq(sponsors.userId, userId), eq(sponsors.isActive, true)));
 
     const [fundStats] = await db
-      .select({ 
+      .select({
         count: count(),
-        totalPercentage: sum(funds.percentage).mapWith(Number)
       })
       .from(funds)
       .where(and(eq(funds.userId, userId), eq(funds.isActive, true)));
@@ -404,80 +1111,129 @@ export class DatabaseStorage implements IStorage {
     const totalCosts = costStats?.total || 0;
 
     return {
-      totalReceipts,
-      totalCosts,
-      netBalance: totalReceipts - totalCosts,
+      totalReceipts: kopecksToRubles(totalReceipts),
+      totalCosts: kopecksToRubles(totalCosts),
+      netBalance: kopecksToRubles(totalReceipts - totalCosts),
       activeSponsors: sponsorStats?.count || 0,
       activeFunds: fundStats?.count || 0,
-      totalFundPercentage: fundStats?.totalPercentage || 0,
+      totalFundPercentage: 0 // Not applicable in new architecture
     };
   }
 
-  async getRecentActivity(userId: string, limit = 5): Promise<{
-    recentReceipts: (Receipt & { sponsorName?: string })[];
-    recentCosts: Cost[];
+  async getRecentActivity(userId: string, limit = 10): Promise<{
+    recentReceipts: (Receipt & { sponsorName?: string; incomeSourceName?: string })[];
+    recentCosts: (Cost & { expenseNomenclatureName?: string; expenseCategoryName?: string })[];
   }> {
     const recentReceipts = await db
       .select({
-        id: receipts.id,
-        date: receipts.date,
-        description: receipts.description,
-        amount: receipts.amount,
-        sponsorId: receipts.sponsorId,
-        userId: receipts.userId,
-        createdAt: receipts.createdAt,
-        updatedAt: receipts.updatedAt,
-        sponsorName: sponsors.name,
+        receipt: receipts,
+        incomeSourceName: incomeSources.name,
       })
       .from(receipts)
-      .leftJoin(sponsors, eq(receipts.sponsorId, sponsors.id))
+      .leftJoin(incomeSources, eq(receipts.incomeSourceId, incomeSources.id))
       .where(eq(receipts.userId, userId))
       .orderBy(desc(receipts.createdAt))
       .limit(limit);
 
     const recentCosts = await db
-      .select()
+      .select({
+        cost: costs,
+        expenseNomenclatureName: expenseNomenclature.name,
+        expenseCategoryName: expenseCategories.name,
+      })
       .from(costs)
+      .leftJoin(expenseNomenclature, eq(costs.expenseNomenclatureId, expenseNomenclature.id))
+      .leftJoin(expenseCategories, eq(costs.expenseCategoryId, expenseCategories.id))
       .where(eq(costs.userId, userId))
       .orderBy(desc(costs.createdAt))
       .limit(limit);
 
     return {
-      recentReceipts: recentReceipts.map(item => ({
-        ...item,
-        sponsorName: item.sponsorName ?? undefined
+      recentReceipts: recentReceipts.map(row => ({
+        ...row.receipt,
+        incomeSourceName: row.incomeSourceName ?? undefined
+      })),
+      recentCosts: recentCosts.map(row => ({
+        ...row.cost,
+        expenseNomenclatureName: row.expenseNomenclatureName ?? undefined,
+        expenseCategoryName: row.expenseCategoryName ?? undefined
       })),
-      recentCosts,
     };
   }
 
+  async getPaymentMethodTotals(userId: string, fromDate: Date, toDate: Date): Promise<PaymentMethodTotals[]> {
+    const receiptRows = await db
+      .select({ paymentMethod: receiptItems.paymentMethod, amount: sum(receiptItems.amount) })
+      .from(receiptItems)
+      .innerJoin(receipts, eq(receiptItems.receiptId, receipts.id))
+      .where(and(eq(receipts.userId, userId), gte(receipts.date, fromDate), lte(receipts.date, toDate)))
+      .groupBy(receiptItems.paymentMethod);
+    const costRows = await db
+      .select({ paymentMethod: costs.paymentMethod, amount: sum(costs.totalAmount) })
+      .from(costs)
+      .where(and(eq(costs.userId, userId), gte(costs.date, fromDate), lte(costs.date, toDate)))
+      .groupBy(costs.paymentMethod);
+
+    const totals = new Map<string | null, PaymentMethodTotals>();
+    const totalsOf = (paymentMethod: string | null) => {
+      if (!totals.has(paymentMethod)) {
+        totals.set(paymentMethod, { paymentMethod: paymentMethod as PaymentMethod | null, receiptsAmount: "0.00", costsAmount: "0.00" });
+      }
+      return totals.get(paymentMethod)!;
+    };
+    receiptRows.forEach(row => { totalsOf(row.paymentMethod).receiptsAmount = normalizeMoney(row.amount ?? 0); });
+    costRows.forEach(row => { totalsOf(row.paymentMethod).costsAmount = normalizeMoney(row.amount ?? 0); });
+
+    // В порядке paymentMethods, не указанный способ - последним
+    const position = (method: PaymentMethod | null) => method ? paymentMethods.indexOf(method) : paymentMethods.length;
+    return Array.from(totals.values()).sort((a, b) => position(a.paymentMethod) - position(b.paymentMethod));
+  }
+
   // Fund operations
   async getFunds(userId: string): Promise<Fund[]> {
     return await db
       .select()
       .from(funds)
       .where(eq(funds.userId, userId))
-      .orderBy(desc(funds.createdAt));
+      .orderBy(asc(funds.createdAt));
   }
 
   async createFund(fund: InsertFund, userId: string): Promise<Fund> {
-    const [newFund] = await db
-      .insert(funds)
-      .values({ ...fund, userId })
-      .returning();
-    return newFund;
+    return await db.transaction(async (tx) => {
+      const [newFund] = await tx
+        .insert(funds)
+        .values({ ...fund, userId })
+        .returning();
+      await this.post(tx, [fundOpeningPosting(newFund)]);
+      return newFund;
+    });
   }
 
   async updateFund(id: string, fund: Partial<InsertFund>, userId: string): Promise<Fund | undefined> {
-    const [updatedFund] = await db
-      .update(funds)
-      .set({ ...fund, updatedAt: new Date() })
-      .where(and(eq(funds.id, id), eq(funds.userId, userId)))
-      .returning();
-    return updatedFund;
+    return await db.transaction(async (tx) => {
+      const [updatedFund] = await tx
+        .update(funds)
+        .set({ ...fund, updatedAt: new Date() })
+        .where(and(eq(funds.id, id), eq(funds.userId, userId)))
+        .returning();
+      if (!updatedFund) return undefined;
+
+      await tx.delete(ledgerEntries).where(eq(ledgerEntries.fundId, id));
+      await this.post(tx, [fundOpeningPosting(updatedFund)]);
+      return updatedFund;
+    });
   }
 
   async deleteFund(id: string, userId: string): Promise<boolean> {
+    const [share] = await db
+      .select({ id: costFundShares.id })
+      .from(costFundShares)
+      .where(eq(costFundShares.fundId, id))
+      .limit(1);
+    if (share) {
+      throw new FundHasCostSharesError();
+    }
+
     const result = await db
       .delete(funds)
       .where(and(eq(funds.id, id), eq(funds.userId, userId)));
@@ -492,64 +1248,1004 @@ export class DatabaseStorage implements IStorage {
     return fund;
   }
 
+  async getFundExpenseCategories(userId: string): Promise<FundExpenseCategory[]> {
+    const rows = await db
+      .select({ rule: fundExpenseCategories })
+      .from(fundExpenseCategories)
+      .innerJoin(funds, eq(fundExpenseCategories.fundId, funds.id))
+      .where(eq(funds.userId, userId))
+      .orderBy(asc(fundExpenseCategories.createdAt));
+    return rows.map(row => row.rule);
+  }
+
+  async setFundExpenseCategories(fundId: string, expenseCategoryIds: string[], userId: string): Promise<FundExpenseCategory[] | undefined> {
+    return await db.transaction(async (tx) => {
+      // The fund row lock makes costs of this fund wait for the new allowed categories
+      const [fund] = await tx
+        .select({ id: funds.id })
+        .from(funds)
+        .where(and(eq(funds.id, fundId), eq(funds.userId, userId)))
+        .for("update");
+      if (!fund) return undefined;
+
+      await tx.delete(fundExpenseCategories).where(eq(fundExpenseCategories.fundId, fundId));
+      if (expenseCategoryIds.length === 0) return [];
+      return await tx
+        .insert(fundExpenseCategories)
+        .values(expenseCategoryIds.map(expenseCategoryId => ({ fundId, expenseCategoryId })))
+        .returning();
+    });
+  }
+
+  // Money account operations
+  async getMoneyAccounts(userId: string): Promise<MoneyAccount[]> {
+    return await db
+      .select()
+      .from(moneyAccounts)
+      .where(eq(moneyAccounts.userId, userId))
+      .orderBy(asc(moneyAccounts.createdAt));
+  }
+
+  async getMoneyAccount(id: string, userId: string): Promise<MoneyAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(moneyAccounts)
+      .where(and(eq(moneyAccounts.id, id), eq(moneyAccounts.userId, userId)));
+    return account;
+  }
+
+  async createMoneyAccount(account: InsertMoneyAccount, userId: string): Promise<MoneyAccount> {
+    return await db.transaction(async (tx) => {
+      const [newAccount] = await tx
+        .insert(moneyAccounts)
+        .values({ ...account, userId })
+        .returning();
+      await this.post(tx, [moneyAccountOpeningPosting(newAccount)]);
+      return newAccount;
+    });
+  }
+
+  async updateMoneyAccount(id: string, account: Partial<InsertMoneyAccount>, userId: string): Promise<MoneyAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedAccount] = await tx
+        .update(moneyAccounts)
+        .set({ ...account, updatedAt: new Date() })
+        .where(and(eq(moneyAccounts.id, id), eq(moneyAccounts.userId, userId)))
+        .returning();
+      if (!updatedAccount) return undefined;
+
+      await tx.delete(ledgerEntries).where(eq(ledgerEntries.moneyAccountId, id));
+      await this.post(tx, [moneyAccountOpeningPosting(updatedAccount)]);
+      return updatedAccount;
+    });
+  }
+
+  async deleteMoneyAccount(id: string, userId: string): Promise<boolean> {
+    const [{ documents }] = await db
+      .select({ documents: count() })
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.userId, userId),
+        or(eq(ledgerEntries.debitAccount, moneyAccount(id)), eq(ledgerEntries.creditAccount, moneyAccount(id))),
+        isNull(ledgerEntries.moneyAccountId)
+      ));
+    if (documents > 0) {
+      throw new MoneyAccountInUseError();
+    }
+
+    // The opening balance entry is removed by ON DELETE CASCADE
+    const result = await db
+      .delete(moneyAccounts)
+      .where(and(eq(moneyAccounts.id, id), eq(moneyAccounts.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getMoneyAccountsWithBalances(userId: string, asOf?: Date): Promise<MoneyAccountWithBalance[]> {
+    const userAccounts = await this.getMoneyAccounts(userId);
+
+    return await Promise.all(
+      userAccounts.map(async (account) => ({
+        ...account,
+        balance: kopecksToRubles(await this.getAccountBalanceKopecks(moneyAccount(account.id), userId, asOf)),
+      }))
+    );
+  }
+
+  async getMoneyAccountReconciliation(userId: string, asOf?: Date): Promise<MoneyAccountReconciliation> {
+    const [accounts, userFunds, unallocated, equity, moneyOpening] = await Promise.all([
+      this.getMoneyAccountsWithBalances(userId, asOf),
+      this.getFundsWithBalances(userId, asOf),
+      this.getAccountBalanceKopecks(UNALLOCATED_ACCOUNT, userId, asOf),
+      this.getAccountBalanceKopecks(EQUITY_ACCOUNT, userId, asOf),
+      this.getAccountBalanceKopecks(MONEY_OPENING_ACCOUNT, userId, asOf),
+    ]);
+
+    const accountsTotal = sumMoney(accounts.map(account => account.balance));
+    const fundsTotal = sumMoney(userFunds.map(fund => fund.balance));
+
+    return {
+      accountsTotal: kopecksToRubles(accountsTotal),
+      fundsTotal: kopecksToRubles(fundsTotal),
+      unallocated: kopecksToRubles(unallocated),
+      difference: kopecksToRubles(accountsTotal - fundsTotal - unallocated),
+      // Opening entries credit equity and money_opening, so their balances are negated totals
+      openingBalancesDifference: kopecksToRubles(equity - moneyOpening),
+    };
+  }
+
+  // Money account transfer operations
+  async createMoneyAccountTransfer(transfer: InsertMoneyAccountTransfer, userId: string): Promise<MoneyAccountTransfer> {
+    return await db.transaction(async (tx) => {
+      const [newTransfer] = await tx
+        .insert(moneyAccountTransfers)
+        .values({ ...transfer, amount: normalizeMoney(transfer.amount), userId })
+        .returning();
+      await this.post(tx, [moneyAccountTransferPosting(newTransfer)]);
+      return newTransfer;
+    });
+  }
+
+  async getMoneyAccountTransfers(userId: string): Promise<MoneyAccountTransferWithNames[]> {
+    const userTransfers = await db
+      .select()
+      .from(moneyAccountTransfers)
+      .where(eq(moneyAccountTransfers.userId, userId))
+      .orderBy(desc(moneyAccountTransfers.date), desc(moneyAccountTransfers.createdAt));
+
+    const accountNames = new Map((await this.getMoneyAccounts(userId)).map(account => [account.id, account.name]));
+
+    return userTransfers.map(transfer => ({
+      ...transfer,
+      fromAccountName: accountNames.get(transfer.fromAccountId) || 'Unknown Account',
+      toAccountName: accountNames.get(transfer.toAccountId) || 'Unknown Account',
+    }));
+  }
+
+  async deleteMoneyAccountTransfer(id: string, userId: string): Promise<boolean> {
+    // The transfer ledger entry is removed by ON DELETE CASCADE
+    const result = await db
+      .delete(moneyAccountTransfers)
+      .where(and(eq(moneyAccountTransfers.id, id), eq(moneyAccountTransfers.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Bank statement operations
+  async getBankStatementLines(userId: string): Promise<BankStatementLineWithDocument[]> {
+    const rows = await db
+      .select({
+        line: bankStatementLines,
+        incomeSourceId: receipts.incomeSourceId,
+        expenseNomenclatureId: costs.expenseNomenclatureId,
+        expenseCategoryId: costs.expenseCategoryId,
+        fundId: costs.fundId,
+      })
+      .from(bankStatementLines)
+      .leftJoin(receipts, eq(bankStatementLines.receiptId, receipts.id))
+      .leftJoin(costs, eq(bankStatementLines.costId, costs.id))
+      .where(eq(bankStatementLines.userId, userId))
+      .orderBy(desc(bankStatementLines.date), desc(bankStatementLines.createdAt));
+
+    // First sponsor of each linked receipt
+    const receiptIds = rows.map(row => row.line.receiptId).filter((id): id is string => id !== null);
+    const sponsorByReceipt = new Map<string, string>();
+    if (receiptIds.length > 0) {
+      const items = await db
+        .select({ receiptId: receiptItems.receiptId, sponsorId: receiptItems.sponsorId })
+        .from(receiptItems)
+        .where(and(inArray(receiptItems.receiptId, receiptIds), isNotNull(receiptItems.sponsorId)))
+        .orderBy(asc(receiptItems.createdAt));
+      for (const item of items) {
+        if (item.sponsorId && !sponsorByReceipt.has(item.receiptId)) {
+          sponsorByReceipt.set(item.receiptId, item.sponsorId);
+        }
+      }
+    }
+
+    return rows.map(row => ({
+      ...row.line,
+      incomeSourceId: row.incomeSourceId,
+      sponsorId: row.line.receiptId ? sponsorByReceipt.get(row.line.receiptId) ?? null : null,
+      expenseNomenclatureId: row.expenseNomenclatureId,
+      expenseCategoryId: row.expenseCategoryId,
+      fundId: row.fundId,
+    }));
+  }
+
+  async createBankStatementLine(line: InsertBankStatementLine, userId: string): Promise<BankStatementLine> {
+    const [newLine] = await db
+      .insert(bankStatementLines)
+      .values({ ...line, amount: normalizeMoney(line.amount), userId })
+      .returning();
+    return newLine;
+  }
+
+  async setBankStatementLineDocument(id: string, document: BankStatementLineDocument, userId: string): Promise<BankStatementLine | undefined> {
+    const [updatedLine] = await db
+      .update(bankStatementLines)
+      .set({ receiptId: document.receiptId, costId: document.costId })
+      .where(and(eq(bankStatementLines.id, id), eq(bankStatementLines.userId, userId)))
+      .returning();
+    return updatedLine;
+  }
+
+  // Import mapping operations
+  async getImportMappings(userId: string, kind?: SpreadsheetImportKind): Promise<ImportMapping[]> {
+    return await db
+      .select()
+      .from(importMappings)
+      .where(and(eq(importMappings.userId, userId), kind ? eq(importMappings.kind, kind) : undefined))
+      .orderBy(asc(importMappings.name));
+  }
+
+  async createImportMapping(mapping: InsertImportMapping, userId: string): Promise<ImportMapping> {
+    const [newMapping] = await db
+      .insert(importMappings)
+      .values({ ...mapping, userId })
+      .returning();
+    return newMapping;
+  }
+
+  async deleteImportMapping(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(importMappings)
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Income source operations
+  async getIncomeSources(userId: string): Promise<IncomeSource[]> {
+    return await db
+      .select()
+      .from(incomeSources)
+      .where(eq(incomeSources.userId, userId))
+      .orderBy(asc(incomeSources.createdAt));
+  }
+
+  async createIncomeSource(incomeSource: InsertIncomeSource, userId: string): Promise<IncomeSource> {
+    const [newIncomeSource] = await db
+      .insert(incomeSources)
+      .values({ ...incomeSource, userId })
+      .returning();
+    return newIncomeSource;
+  }
+
+  async updateIncomeSource(id: string, incomeSource: Partial<InsertIncomeSource>, userId: string): Promise<IncomeSource | undefined> {
+    const [updatedIncomeSource] = await db
+      .update(incomeSources)
+      .set({ ...incomeSource, updatedAt: new Date() })
+      .where(and(eq(incomeSources.id, id), eq(incomeSources.userId, userId)))
+      .returning();
+    return updatedIncomeSource;
+  }
+
+  async deleteIncomeSource(id: string, userId: string): Promise<boolean> {
+    // Fund distribution rules are removed by ON DELETE CASCADE
+    const result = await db
+      .delete(incomeSources)
+      .where(and(eq(incomeSources.id, id), eq(incomeSources.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getIncomeSource(id: string, userId: string): Promise<IncomeSource | undefined> {
+    const [incomeSource] = await db
+      .select()
+      .from(incomeSources)
+      .where(and(eq(incomeSources.id, id), eq(incomeSources.userId, userId)));
+    return incomeSource;
+  }
+
+  // Income source fund distribution operations
+  async getIncomeSourceFundDistributions(incomeSourceId: string, asOf: Date = new Date()): Promise<(IncomeSourceFundDistribution & { fundName: string })[]> {
+    const history = await this.getIncomeSourceFundDistributionHistory(incomeSourceId);
+    return rulesInForce(history, incomeSourceId, asOf);
+  }
+
+  async getIncomeSourceFundDistributionHistory(incomeSourceId: string): Promise<(IncomeSourceFundDistribution & { fundName: string })[]> {
+    const rows = await db
+      .select({
+        distribution: incomeSourceFundDistributions,
+        fundName: funds.name,
+      })
+      .from(incomeSourceFundDistributions)
+      .leftJoin(funds, eq(incomeSourceFundDistributions.fundId, funds.id))
+      .where(eq(incomeSourceFundDistributions.incomeSourceId, incomeSourceId))
+      .orderBy(desc(incomeSourceFundDistributions.validFrom), asc(incomeSourceFundDistributions.position));
+
+    return rows.map(row => ({
+      ...row.distribution,
+      fundName: row.fundName || 'Unknown Fund'
+    }));
+  }
+
+  /**
+   * Новая версия правил источника, действующая с version.validFrom
+   *
+   * Версии, начинающиеся с этой даты или позже, заменяются; действующая
+   * на эту дату версия закрывается датой validFrom. Пустой список правил
+   * просто прекращает действие правил с этой даты.
+   */
+  async replaceIncomeSourceFundDistributions(incomeSourceId: string, version: IncomeSourceFundDistributionVersion): Promise<IncomeSourceFundDistribution[]> {
+    const { validFrom, rules } = version;
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(incomeSourceFundDistributions)
+        .where(and(
+          eq(incomeSourceFundDistributions.incomeSourceId, incomeSourceId),
+          gte(incomeSourceFundDistributions.validFrom, validFrom)
+        ));
+      await tx
+        .update(incomeSourceFundDistributions)
+        .set({ validTo: validFrom, updatedAt: new Date() })
+        .where(and(
+          eq(incomeSourceFundDistributions.incomeSourceId, incomeSourceId),
+          or(isNull(incomeSourceFundDistributions.validTo), gt(incomeSourceFundDistributions.validTo, validFrom))
+        ));
+
+      if (rules.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(incomeSourceFundDistributions)
+        .values(rules.map((rule, position) => ({ ...distributionRuleFields(rule), position, incomeSourceId, validFrom, validTo: null })))
+        .returning();
+    });
+  }
+
+  // Receipt item operations
+  async createReceiptItem(receiptItem: InsertReceiptItem): Promise<ReceiptItem> {
+    const [newReceiptItem] = await db
+      .insert(receiptItems)
+      .values(receiptItem)
+      .returning();
+    return newReceiptItem;
+  }
+
+  async getReceiptItems(receiptId: string): Promise<(ReceiptItem & { sponsorName: string | null })[]> {
+    const rows = await db
+      .select({
+        item: receiptItems,
+        sponsorName: sponsors.name,
+      })
+      .from(receiptItems)
+      .leftJoin(sponsors, eq(receiptItems.sponsorId, sponsors.id))
+      .where(eq(receiptItems.receiptId, receiptId));
+
+    // Анонимные строки остаются без имени спонсора
+    return rows.map(row => ({
+      ...row.item,
+      sponsorName: row.item.sponsorId ? row.sponsorName || 'Unknown Sponsor' : null
+    }));
+  }
+
+  async deleteReceiptItems(receiptId: string): Promise<void> {
+    await db.delete(receiptItems).where(eq(receiptItems.receiptId, receiptId));
+  }
+
   // Fund distribution operations
   async createFundDistribution(distribution: InsertFundDistribution): Promise<FundDistribution> {
-    const [newDistribution] = await db
-      .insert(fundDistributions)
-      .values(distribution)
-      .returning();
-    return newDistribution;
+    return await db.transaction(async (tx) => {
+      const [newDistribution] = await tx
+        .insert(fundDistributions)
+        .values({ ...distribution, amount: normalizeMoney(distribution.amount) })
+        .returning();
+
+      const [receipt] = await tx.select().from(receipts).where(eq(receipts.id, newDistribution.receiptId));
+      if (receipt) {
+        await this.post(tx, [fundDistributionPosting(newDistribution, receipt)]);
+      }
+      return newDistribution;
+    });
   }
 
   async getFundDistributionsByReceipt(receiptId: string): Promise<(FundDistribution & { fundName: string })[]> {
-    return await db
+    const rows = await db
       .select({
-        id: fundDistributions.id,
-        receiptId: fundDistributions.receiptId,
-        fundId: fundDistributions.fundId,
-        amount: fundDistributions.amount,
-        percentage: fundDistributions.percentage,
-        createdAt: fundDistributions.createdAt,
+        distribution: fundDistributions,
         fundName: funds.name,
       })
       .from(fundDistributions)
-      .innerJoin(funds, eq(fundDistributions.fundId, funds.id))
+      .leftJoin(funds, eq(fundDistributions.fundId, funds.id))
       .where(eq(fundDistributions.receiptId, receiptId));
+
+    return rows.map(row => ({
+      ...row.distribution,
+      fundName: row.fundName || 'Unknown Fund'
+    }));
   }
 
   async deleteFundDistributionsByReceipt(receiptId: string): Promise<void> {
+    // Ledger entries are removed by ON DELETE CASCADE
     await db
       .delete(fundDistributions)
       .where(eq(fundDistributions.receiptId, receiptId));
   }
 
-  async distributeFundsForReceipt(receiptId: string, receiptAmount: string, userId: string): Promise<void> {
-    // Get all active funds for the user
-    const activeFunds = await db
+  async distributeFundsForReceiptByIncomeSource(receiptId: string, amount: Kopecks, incomeSourceId: string, userId: string): Promise<DistributionHistory | undefined> {
+    // Remove existing distributions for this receipt
+    await this.deleteFundDistributionsByReceipt(receiptId);
+
+    const [receipt] = await db.select().from(receipts).where(eq(receipts.id, receiptId));
+    if (!receipt) {
+      return undefined;
+    }
+
+    const rules = await db
       .select()
-      .from(funds)
-      .where(and(eq(funds.userId, userId), eq(funds.isActive, true)));
+      .from(incomeSourceFundDistributions)
+      .where(eq(incomeSourceFundDistributions.incomeSourceId, incomeSourceId));
 
-    // Delete existing distributions for this receipt
-    await this.deleteFundDistributionsByReceipt(receiptId);
+    // The receipt is distributed anew, so its distributions are up to date
+    if (receipt.distributionStale) {
+      await db.update(receipts).set({ distributionStale: false }).where(eq(receipts.id, receiptId));
+    }
 
-    // Calculate and create new distributions
-    const amount = parseFloat(receiptAmount);
-    
-    for (const fund of activeFunds) {
-      const percentage = parseFloat(fund.percentage);
-      const distributionAmount = (amount * percentage) / 100;
-      
-      await this.createFundDistribution({
-        receiptId,
-        fundId: fund.id,
-        amount: distributionAmount.toString(),
-        percentage: fund.percentage,
-      });
+    // Steps in force on the receipt date, the same engine as the batch distribution
+    const plan = planDistribution([{ ...receipt, amount: fromKopecks(amount) }], rules, await this.getDistributionContext(rules, userId));
+    if (plan.total === 0) {
+      // No distribution configured for this income source on the receipt date
+      return undefined;
     }
+
+    return await db.transaction(async (tx) => this.recordDistribution(tx, plan, userId));
+  }
+
+  // Fund transfer operations
+  async createFundTransfer(transfer: InsertFundTransfer, userId: string): Promise<FundTransfer> {
+    return await db.transaction(async (tx) => {
+      const [newTransfer] = await tx
+        .insert(fundTransfers)
+        .values({ ...transfer, amount: normalizeMoney(transfer.amount), userId })
+        .returning();
+      await this.post(tx, [fundTransferPosting(newTransfer)]);
+      return newTransfer;
+    });
+  }
+
+  async getFundTransfers(userId: string): Promise<(FundTransfer & { fromFundName: string; toFundName: string })[]> {
+    const userTransfers = await db
+      .select()
+      .from(fundTransfers)
+      .where(eq(fundTransfers.userId, userId))
+      .orderBy(desc(fundTransfers.createdAt));
+
+    const fundNames = new Map((await this.getFunds(userId)).map(fund => [fund.id, fund.name]));
+
+    return userTransfers.map(transfer => ({
+      ...transfer,
+      fromFundName: fundNames.get(transfer.fromFundId) || 'Unknown Fund',
+      toFundName: fundNames.get(transfer.toFundId) || 'Unknown Fund'
+    }));
+  }
+
+  async deleteFundTransfer(id: string): Promise<boolean> {
+    const result = await db.delete(fundTransfers).where(eq(fundTransfers.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Ledger and balances
+  async getLedgerEntries(userId: string, filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const { account, fromDate, toDate } = filter;
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.userId, userId),
+        account ? or(eq(ledgerEntries.debitAccount, account), eq(ledgerEntries.creditAccount, account)) : undefined,
+        fromDate ? gte(ledgerEntries.date, fromDate) : undefined,
+        toDate ? lte(ledgerEntries.date, toDate) : undefined
+      ))
+      .orderBy(asc(ledgerEntries.date), asc(ledgerEntries.createdAt));
+  }
+
+  async getAccountBalance(userId: string, account: string, asOf?: Date): Promise<number> {
+    return kopecksToRubles(await this.getAccountBalanceKopecks(account, userId, asOf));
+  }
+
+  /**
+   * Остаток счета в копейках: дебетовые проводки минус кредитовые
+   * @param account - Счет журнала
+   * @param userId - ID пользователя; для счетов фондов не нужен, их ID уникальны
+   * @param asOf - Учитывать проводки с датой не позже указанной
+   */
+  private async getAccountBalanceKopecks(account: string, userId?: string, asOf?: Date, executor: DbExecutor = db): Promise<Kopecks> {
+    const [row] = await executor
+      .select({
+        debit: sum(sql`case when ${ledgerEntries.debitAccount} = ${account} then ${ledgerEntries.amount} else 0 end`).mapWith(toKopecks),
+        credit: sum(sql`case when ${ledgerEntries.creditAccount} = ${account} then ${ledgerEntries.amount} else 0 end`).mapWith(toKopecks),
+      })
+      .from(ledgerEntries)
+      .where(and(
+        or(eq(ledgerEntries.debitAccount, account), eq(ledgerEntries.creditAccount, account)),
+        userId ? eq(ledgerEntries.userId, userId) : undefined,
+        asOf ? lte(ledgerEntries.date, asOf) : undefined
+      ));
+
+    return (row?.debit || 0) - (row?.credit || 0);
+  }
+
+  async getFundBalance(fundId: string, asOf?: Date): Promise<number> {
+    return kopecksToRubles(await this.getAccountBalanceKopecks(fundAccount(fundId), undefined, asOf));
+  }
+
+  async getFundsWithBalances(userId: string, asOf?: Date): Promise<(Fund & { balance: number })[]> {
+    const userFunds = await this.getFunds(userId);
+
+    return await Promise.all(
+      userFunds.map(async (fund) => ({
+        ...fund,
+        balance: await this.getFundBalance(fund.id, asOf)
+      }))
+    );
+  }
+
+  // Manual fund distributions operations
+  async getManualFundDistributions(userId: string): Promise<ManualFundDistribution[]> {
+    return await db
+      .select()
+      .from(manualFundDistributions)
+      .where(eq(manualFundDistributions.userId, userId))
+      .orderBy(desc(manualFundDistributions.date));
+  }
+
+  async createManualFundDistribution(distribution: InsertManualFundDistribution, userId: string): Promise<ManualFundDistribution> {
+    return await db.transaction(async (tx) => {
+      const [newDistribution] = await tx
+        .insert(manualFundDistributions)
+        .values({ ...distribution, amount: normalizeMoney(distribution.amount), userId })
+        .returning();
+      await this.post(tx, [manualFundDistributionPosting(newDistribution)]);
+      return newDistribution;
+    });
+  }
+
+  async deleteManualFundDistribution(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(manualFundDistributions)
+      .where(and(eq(manualFundDistributions.id, id), eq(manualFundDistributions.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Calculate total unallocated funds
+  async getUnallocatedFunds(userId: string): Promise<number> {
+    return this.getAccountBalance(userId, UNALLOCATED_ACCOUNT);
+  }
+
+  /**
+   * План распределения нераспределенных поступлений пользователя
+   * @param filter - Отбор поступлений (период, источник, конкретные поступления)
+   * @returns План и нераспределенный остаток; план пуст, если распределять нечего
+   */
+  private async planUnallocatedDistribution(userId: string, filter: DistributionFilter): Promise<{ plan: DistributionPlan; unallocated: Kopecks }> {
+    const unallocated = await this.getAccountBalanceKopecks(UNALLOCATED_ACCOUNT, userId);
+    if (unallocated <= 0 || filter.receiptIds?.length === 0) {
+      return { plan: planDistribution([], []), unallocated }; // Nothing to distribute
+    }
+
+    // Receipts that don't have fund distributions yet
+    const undistributedReceipts = await db
+      .select()
+      .from(receipts)
+      .where(and(
+        eq(receipts.userId, userId),
+        sql`not exists (select 1 from ${fundDistributions} where ${fundDistributions.receiptId} = ${receipts.id})`,
+        filter.fromDate ? gte(receipts.date, filter.fromDate) : undefined,
+        filter.toDate ? lte(receipts.date, filter.toDate) : undefined,
+        filter.incomeSourceId ? eq(receipts.incomeSourceId, filter.incomeSourceId) : undefined,
+        filter.receiptIds ? inArray(receipts.id, filter.receiptIds) : undefined
+      ))
+      .orderBy(asc(receipts.date));
+
+    const sourceIds = Array.from(new Set(undistributedReceipts.map(receipt => receipt.incomeSourceId)));
+    const rules = sourceIds.length > 0
+      ? await db
+          .select()
+          .from(incomeSourceFundDistributions)
+          .where(inArray(incomeSourceFundDistributions.incomeSourceId, sourceIds))
+      : [];
+
+    return { plan: planDistribution(undistributedReceipts, rules, await this.getDistributionContext(rules, userId)), unallocated };
+  }
+
+  /**
+   * Месячные лимиты и фонды округления для расчета распределения
+   * @param rules - Правила распределяемых источников
+   * @param userId - Владелец источников
+   * @param excludeReceiptIds - Пересчитываемые поступления (их распределения не учитываются в лимитах)
+   */
+  private async getDistributionContext(rules: IncomeSourceFundDistribution[], userId: string, excludeReceiptIds: string[] = []): Promise<DistributionContext> {
+    const sources = await this.getIncomeSources(userId);
+    return {
+      capUsage: await this.getCapUsage(rules, excludeReceiptIds),
+      roundingFunds: new Map(sources.flatMap(source => source.roundingFundId ? [[source.id, source.roundingFundId]] : [])),
+    };
+  }
+
+  /**
+   * Уже распределенные суммы по источникам с месячными лимитами
+   * @param rules - Правила источников (учитываются только источники с capped-шагами)
+   * @param excludeReceiptIds - Поступления, распределения которых не учитываются
+   */
+  private async getCapUsage(rules: IncomeSourceFundDistribution[], excludeReceiptIds: string[] = []): Promise<CapUsage> {
+    const cappedSourceIds = Array.from(new Set(rules.filter(rule => rule.ruleType === "capped").map(rule => rule.incomeSourceId)));
+    if (cappedSourceIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .select({
+        incomeSourceId: receipts.incomeSourceId,
+        fundId: fundDistributions.fundId,
+        amount: fundDistributions.amount,
+        date: receipts.date,
+      })
+      .from(fundDistributions)
+      .innerJoin(receipts, eq(fundDistributions.receiptId, receipts.id))
+      .where(and(
+        inArray(receipts.incomeSourceId, cappedSourceIds),
+        excludeReceiptIds.length > 0 ? notInArray(receipts.id, excludeReceiptIds) : undefined
+      ));
+    return buildCapUsage(rows);
+  }
+
+  async previewUnallocatedDistribution(userId: string, filter: DistributionFilter = {}): Promise<DistributionPreview> {
+    const { plan, unallocated } = await this.planUnallocatedDistribution(userId, filter);
+    const fundNames = new Map((await this.getFunds(userId)).map(fund => [fund.id, fund.name]));
+    const sourceNames = new Map((await this.getIncomeSources(userId)).map(source => [source.id, source.name]));
+    return toDistributionPreview(plan, unallocated, fundNames, sourceNames);
+  }
+
+  // Automatically distribute all unallocated funds based on income sources
+  async distributeUnallocatedFunds(userId: string, filter: DistributionFilter = {}): Promise<void> {
+    const { plan } = await this.planUnallocatedDistribution(userId, filter);
+
+    // The history total is what the funds actually received, so it always equals the sum of its items
+    if (plan.total === 0) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      await this.recordDistribution(tx, plan, userId);
+    });
+  }
+
+  /**
+   * Пересчет устаревших распределений по правилам на дату поступления
+   * @param filter - Отбор поступлений (по умолчанию все устаревшие)
+   */
+  private async planStaleCorrections(userId: string, filter: DistributionFilter): Promise<CorrectionPlan> {
+    const staleReceipts = filter.receiptIds?.length === 0 ? [] : await db
+      .select()
+      .from(receipts)
+      .where(and(
+        eq(receipts.userId, userId),
+        eq(receipts.distributionStale, true),
+        sql`exists (select 1 from ${fundDistributions} where ${fundDistributions.receiptId} = ${receipts.id})`,
+        filter.fromDate ? gte(receipts.date, filter.fromDate) : undefined,
+        filter.toDate ? lte(receipts.date, filter.toDate) : undefined,
+        filter.incomeSourceId ? eq(receipts.incomeSourceId, filter.incomeSourceId) : undefined,
+        filter.receiptIds ? inArray(receipts.id, filter.receiptIds) : undefined
+      ))
+      .orderBy(asc(receipts.date));
+    if (staleReceipts.length === 0) {
+      return planCorrections([], [], []);
+    }
+
+    const receiptIds = staleReceipts.map(receipt => receipt.id);
+    const sourceIds = Array.from(new Set(staleReceipts.map(receipt => receipt.incomeSourceId)));
+    const distributions = await db.select().from(fundDistributions).where(inArray(fundDistributions.receiptId, receiptIds));
+    const rules = await db
+      .select()
+      .from(incomeSourceFundDistributions)
+      .where(inArray(incomeSourceFundDistributions.incomeSourceId, sourceIds));
+
+    return planCorrections(staleReceipts, distributions, rules, await this.getDistributionContext(rules, userId, receiptIds));
+  }
+
+  async previewStaleDistributions(userId: string, filter: DistributionFilter = {}): Promise<StaleDistributionPreview> {
+    const { corrections } = await this.planStaleCorrections(userId, filter);
+    const fundNames = new Map((await this.getFunds(userId)).map(fund => [fund.id, fund.name]));
+    const sourceNames = new Map((await this.getIncomeSources(userId)).map(source => [source.id, source.name]));
+    return toStaleDistributionPreview(corrections, fundNames, sourceNames);
+  }
+
+  async redistributeStaleDistributions(userId: string, filter: DistributionFilter = {}): Promise<DistributionHistory | undefined> {
+    const { corrections, plan } = await this.planStaleCorrections(userId, filter);
+    if (corrections.length === 0) {
+      return undefined;
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(receipts)
+        .set({ distributionStale: false })
+        .where(inArray(receipts.id, corrections.map(({ receipt }) => receipt.id)));
+
+      // Receipts whose recalculated shares did not change only lose the flag
+      return plan.planned.length > 0 ? await this.recordDistribution(tx, plan, userId, "correction") : undefined;
+    });
+  }
+
+  /**
+   * Запись распределения по плану: запуск в истории, распределения по фондам со ссылкой на него и их проводки
+   * @param kind - Вид запуска (для корректировки строки плана - изменения долей, в том числе отрицательные)
+   */
+  private async recordDistribution(executor: DbExecutor, plan: DistributionPlan, userId: string, kind: DistributionHistoryKind = "distribution"): Promise<DistributionHistory> {
+    const now = new Date();
+    const [history] = await executor.insert(distributionHistory).values({
+      id: generateDistributionId(),
+      userId,
+      totalAmount: fromKopecks(plan.total),
+      kind,
+      distributionDate: now,
+      createdAt: now,
+    }).returning();
+
+    const newDistributions = plan.planned.flatMap(({ receipt, allocations }) => allocations.map(allocation => ({
+      receiptId: receipt.id,
+      fundId: allocation.fundId,
+      amount: fromKopecks(allocation.amount),
+      percentage: allocation.percentage,
+      distributionHistoryId: history.id,
+      createdAt: now,
+    })));
+    const created = await executor.insert(fundDistributions).values(newDistributions).returning();
+
+    const receiptsById = new Map(plan.planned.map(({ receipt }) => [receipt.id, receipt]));
+    await this.post(executor, created.map(dist => fundDistributionPosting(dist, receiptsById.get(dist.receiptId)!)));
+
+    // Shares of the moved amount: for a distribution it is the total, for a correction the sum of changes in both directions
+    const fundTotals = Array.from(plan.fundTotals.entries()).filter(([, amount]) => amount !== 0);
+    const moved = fundTotals.reduce((total, [, amount]) => total + Math.abs(amount), 0);
+    if (fundTotals.length > 0) {
+      await executor.insert(distributionHistoryItems).values(
+        fundTotals.map(([fundId, amount]) => ({
+          id: generateItemId(),
+          distributionId: history.id,
+          fundId,
+          amount: fromKopecks(amount),
+          percentage: percentageOf(amount, moved),
+          createdAt: now,
+        }))
+      );
+    }
+    return history;
+  }
+
+  // Distribution History operations
+  async getDistributionHistory(userId: string): Promise<DistributionHistory[]> {
+    return await db
+      .select()
+      .from(distributionHistory)
+      .where(eq(distributionHistory.userId, userId))
+      .orderBy(desc(distributionHistory.distributionDate));
+  }
+
+  async getDistributionHistoryWithItems(userId: string): Promise<DistributionHistoryWithItems[]> {
+    const histories = await this.getDistributionHistory(userId);
+    const itemsByHistory = await this.getDistributionHistoryItems(histories.map(history => history.id));
+
+    return histories.map(history => ({
+      ...history,
+      items: itemsByHistory.get(history.id) ?? []
+    }));
+  }
+
+  async getDistributionHistoryById(id: string, userId: string): Promise<DistributionHistoryWithItems | undefined> {
+    const [history] = await db
+      .select()
+      .from(distributionHistory)
+      .where(and(eq(distributionHistory.id, id), eq(distributionHistory.userId, userId)));
+    if (!history) return undefined;
+
+    const itemsByHistory = await this.getDistributionHistoryItems([id]);
+    return {
+      ...history,
+      items: itemsByHistory.get(id) ?? []
+    };
+  }
+
+  private async getDistributionHistoryItems(historyIds: string[]): Promise<Map<string, (DistributionHistoryItem & { fundName: string })[]>> {
+    const itemsByHistory = new Map<string, (DistributionHistoryItem & { fundName: string })[]>();
+    if (historyIds.length === 0) return itemsByHistory;
+
+    const rows = await db
+      .select({
+        item: distributionHistoryItems,
+        fundName: funds.name,
+      })
+      .from(distributionHistoryItems)
+      .leftJoin(funds, eq(distributionHistoryItems.fundId, funds.id))
+      .where(inArray(distributionHistoryItems.distributionId, historyIds));
+
+    for (const row of rows) {
+      const items = itemsByHistory.get(row.item.distributionId) ?? [];
+      items.push({ ...row.item, fundName: row.fundName || 'Unknown Fund' });
+      itemsByHistory.set(row.item.distributionId, items);
+    }
+    return itemsByHistory;
+  }
+
+  async getDistributionHistoryReceipts(id: string, userId: string): Promise<Receipt[]> {
+    return await db
+      .selectDistinct({ receipt: receipts })
+      .from(fundDistributions)
+      .innerJoin(receipts, eq(fundDistributions.receiptId, receipts.id))
+      .where(and(eq(fundDistributions.distributionHistoryId, id), eq(receipts.userId, userId)))
+      .orderBy(asc(receipts.date))
+      .then(rows => rows.map(row => row.receipt));
+  }
+
+  async deleteDistributionHistory(id: string, userId: string): Promise<Receipt[] | undefined> {
+    const [history] = await db
+      .select()
+      .from(distributionHistory)
+      .where(and(eq(distributionHistory.id, id), eq(distributionHistory.userId, userId)));
+    if (!history) {
+      return undefined;
+    }
+
+    const affectedReceipts = await this.getDistributionHistoryReceipts(id, userId);
+
+    return await db.transaction(async (tx) => {
+      // A later run on the same receipts can only be a correction of these shares (a new distribution replaces them)
+      if (affectedReceipts.length > 0) {
+        const [laterRun] = await tx
+          .select({ id: distributionHistory.id })
+          .from(fundDistributions)
+          .innerJoin(distributionHistory, eq(fundDistributions.distributionHistoryId, distributionHistory.id))
+          .where(and(
+            inArray(fundDistributions.receiptId, affectedReceipts.map(receipt => receipt.id)),
+            gt(distributionHistory.sequence, history.sequence)
+          ))
+          .limit(1);
+        if (laterRun) {
+          throw new DistributionRunCorrectedError();
+        }
+      }
+
+      // History items, the run's fund distributions and their ledger entries are removed by ON DELETE CASCADE
+      await tx.delete(distributionHistory).where(eq(distributionHistory.id, id));
+      if (affectedReceipts.length === 0) {
+        return [];
+      }
+
+      // Receipts with distributions of other runs left (a correction or the run it corrected) no longer add up
+      const stillDistributed = new Set((await tx
+        .selectDistinct({ receiptId: fundDistributions.receiptId })
+        .from(fundDistributions)
+        .where(inArray(fundDistributions.receiptId, affectedReceipts.map(receipt => receipt.id))))
+        .map(row => row.receiptId));
+      const returnedReceipts = affectedReceipts.filter(receipt => !stillDistributed.has(receipt.id));
+      if (stillDistributed.size > 0) {
+        await tx.update(receipts).set({ distributionStale: true }).where(inArray(receipts.id, Array.from(stillDistributed)));
+      }
+      if (returnedReceipts.length > 0) {
+        await tx.update(receipts).set({ distributionStale: false }).where(inArray(receipts.id, returnedReceipts.map(receipt => receipt.id)));
+      }
+
+      return returnedReceipts;
+    });
+  }
+
+  // Expense Nomenclature operations
+  async getExpenseNomenclature(userId: string): Promise<ExpenseNomenclature[]> {
+    return await db
+      .select()
+      .from(expenseNomenclature)
+      .where(eq(expenseNomenclature.userId, userId))
+      .orderBy(asc(expenseNomenclature.name));
+  }
+
+  async getExpenseNomenclatureById(id: string, userId: string): Promise<ExpenseNomenclature | undefined> {
+    const [nomenclature] = await db
+      .select()
+      .from(expenseNomenclature)
+      .where(and(eq(expenseNomenclature.id, id), eq(expenseNomenclature.userId, userId)));
+    return nomenclature;
+  }
+
+  async createExpenseNomenclature(nomenclature: InsertExpenseNomenclature, userId: string): Promise<ExpenseNomenclature> {
+    const [newNomenclature] = await db
+      .insert(expenseNomenclature)
+      .values({ ...nomenclature, userId })
+      .returning();
+    return newNomenclature;
+  }
+
+  async updateExpenseNomenclature(id: string, nomenclature: Partial<InsertExpenseNomenclature>, userId: string): Promise<ExpenseNomenclature | undefined> {
+    const [updatedNomenclature] = await db
+      .update(expenseNomenclature)
+      .set({ ...nomenclature, updatedAt: new Date() })
+      .where(and(eq(expenseNomenclature.id, id), eq(expenseNomenclature.userId, userId)))
+      .returning();
+    return updatedNomenclature;
+  }
+
+  async deleteExpenseNomenclature(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(expenseNomenclature)
+      .where(and(eq(expenseNomenclature.id, id), eq(expenseNomenclature.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Expense Categories operations
+  async getExpenseCategories(userId: string): Promise<ExpenseCategory[]> {
+    return await db
+      .select()
+      .from(expenseCategories)
+      .where(eq(expenseCategories.userId, userId))
+      .orderBy(asc(expenseCategories.name));
+  }
+
+  async getExpenseCategoryById(id: string, userId: string): Promise<ExpenseCategory | undefined> {
+    const [category] = await db
+      .select()
+      .from(expenseCategories)
+      .where(and(eq(expenseCategories.id, id), eq(expenseCategories.userId, userId)));
+    return category;
+  }
+
+  async createExpenseCategory(category: InsertExpenseCategory, userId: string): Promise<ExpenseCategory> {
+    const [newCategory] = await db
+      .insert(expenseCategories)
+      .values({ ...category, userId })
+      .returning();
+    return newCategory;
+  }
+
+  async updateExpenseCategory(id: string, category: Partial<InsertExpenseCategory>, userId: string): Promise<ExpenseCategory | undefined> {
+    const [updatedCategory] = await db
+      .update(expenseCategories)
+      .set({ ...category, updatedAt: new Date() })
+      .where(and(eq(expenseCategories.id, id), eq(expenseCategories.userId, userId)))
+      .returning();
+    return updatedCategory;
+  }
+
+  async deleteExpenseCategory(id: string, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Funds allowed this category are locked, so their allowed categories cannot change until the delete commits
+      const restrictedFunds = await tx
+        .select({ id: funds.id, name: funds.name })
+        .from(funds)
+        .innerJoin(fundExpenseCategories, eq(fundExpenseCategories.fundId, funds.id))
+        .where(and(eq(funds.userId, userId), eq(fundExpenseCategories.expenseCategoryId, id)))
+        .for("update", { of: funds });
+      if (restrictedFunds.length > 0) {
+        const rules = await tx
+          .select()
+          .from(fundExpenseCategories)
+          .where(inArray(fundExpenseCategories.fundId, restrictedFunds.map(fund => fund.id)));
+        const limitedFundIds = fundsLimitedToCategory(id, rules);
+        if (limitedFundIds.length > 0) {
+          throw new ExpenseCategoryLastAllowedError(restrictedFunds.filter(fund => limitedFundIds.includes(fund.id)).map(fund => fund.name));
+        }
+      }
+
+      // The category's remaining fund rules are removed by ON DELETE CASCADE
+      const result = await tx
+        .delete(expenseCategories)
+        .where(and(eq(expenseCategories.id, id), eq(expenseCategories.userId, userId)));
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 }
 
-// Use new memory storage with updated architecture
-import { newMemStorage } from "./newMemStorage";
-export const storage = newMemStorage;
+/**
+ * Разбивка уже отфильтрованного списка на страницы
+ */
+function paginate<T>(items: T[], page: number, limit: number): Paginated<T> {
+  const total = items.length;
+  const offset = (page - 1) * limit;
+
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
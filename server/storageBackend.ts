@@ -0,0 +1,14 @@
+/**
+ * Выбор хранилища данных для LakshmiApp
+ *
+ * STORAGE_DRIVER=database - данные в PostgreSQL (DatabaseStorage),
+ * иначе - хранилище в памяти NewMemStorage. Оба класса реализуют IStorage,
+ * остальной сервер работает только с экспортируемым здесь storage.
+ */
+
+import { DatabaseStorage, type IStorage } from "./storage";
+import { newMemStorage } from "./newMemStorage";
+
+export const storage: IStorage = process.env.STORAGE_DRIVER === "database"
+  ? new DatabaseStorage()
+  : newMemStorage;
@@ -90,4 +90,29 @@ export function generateSourceId(): string {
 /** Генерация ID для распределений (сокращенная версия) */
 export function generateDistId(): string {
   return generateId('dist');
-}
\ No newline at end of file
+}
+
+/** Генерация ID для проводок журнала движения средств */
+export function generateLedgerEntryId(): string {
+  return generateId('ledger');
+}
+
+/** Генерация ID для счетов (касса, банковский счет, карта) */
+export function generateMoneyAccountId(): string {
+  return generateId('money_account');
+}
+
+/** Генерация ID для перемещений денег между счетами */
+export function generateMoneyAccountTransferId(): string {
+  return generateId('money_transfer');
+}
+
+/** Генерация ID для строк банковских выписок */
+export function generateBankStatementLineId(): string {
+  return generateId('bank_line');
+}
+
+/** Генерация ID для сохраненных сопоставлений колонок импорта */
+export function generateImportMappingId(): string {
+  return generateId('import_mapping');
+}
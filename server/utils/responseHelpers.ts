@@ -52,6 +52,19 @@ export function badRequest(res: Response, message: string, errors?: any): void {
   res.status(400).json(response);
 }
 
+/**
+ * Ответ 409 - Конфликт
+ * 
+ * Используется когда запрос корректен, но противоречит
+ * текущему состоянию данных (например, удаление используемой записи).
+ * 
+ * @param res - Express Response объект
+ * @param message - Сообщение о причине конфликта
+ */
+export function conflict(res: Response, message: string): void {
+  res.status(409).json({ message });
+}
+
 /**
  * Ответ 500 - Внутренняя ошибка сервера
  * 
@@ -1,5 +1,8 @@
 import { z } from "zod";
 import type { Response } from "express";
+import type { DistributionFilter } from "../distribution";
+import { costFundShareAmounts, costFundSplitSchema, costItemsAmount, costItemsInputSchema, paymentMethods, receiptItemsAmount, receiptItemsInputSchema, type CostFundShareInput, type CostItemInput, type PaymentMethod, type ReceiptItemInput } from "@shared/schema";
+import { InvalidMoneyError, normalizeMoney, toKopecks } from "@shared/money";
 
 /**
  * Утилиты для валидации запросов и обработки ошибок в LakshmiApp
@@ -14,14 +17,15 @@ import type { Response } from "express";
  */
 
 /**
- * Обработчик ошибок валидации Zod схем
+ * Обработчик ошибок валидации Zod схем и некорректных сумм
  * 
- * Проверяет, является ли ошибка результатом неудачной валидации Zod,
- * и возвращает структурированный ответ с детальной информацией об ошибках.
+ * Проверяет, является ли ошибка результатом неудачной валидации Zod
+ * или разбора суммы (InvalidMoneyError), и возвращает ответ 400
+ * с детальной информацией об ошибках.
  * 
  * @param error - Объект ошибки (может быть любого типа)
  * @param res - Express Response объект для отправки ответа
- * @returns true если ошибка была обработана, false если это не Zod ошибка
+ * @returns true если ошибка была обработана, false если это не ошибка входных данных
  */
 export function handleValidationError(error: unknown, res: Response): boolean {
   if (error instanceof z.ZodError) {
@@ -31,7 +35,11 @@ export function handleValidationError(error: unknown, res: Response): boolean {
     });
     return true;  // Ошибка была обработана
   }
-  return false;   // Это не Zod ошибка, нужна дальнейшая обработка
+  if (error instanceof InvalidMoneyError) {
+    res.status(400).json({ message: error.message });  // Сумма, которую не удалось разобрать
+    return true;
+  }
+  return false;   // Это не ошибка входных данных, нужна дальнейшая обработка
 }
 
 /**
@@ -95,4 +103,129 @@ export function parseDateParam(param: string | undefined): Date | undefined {
   if (!param) return undefined;
   const date = new Date(param);
   return isNaN(date.getTime()) ? undefined : date;
-}
\ No newline at end of file
+}
+
+/**
+ * Парсинг даты "на конец дня" для отчетов и остатков
+ * 
+ * Дата без времени (YYYY-MM-DD) означает конец этого дня, чтобы
+ * остаток на дату включал все операции этого дня.
+ * 
+ * @param param - Строковый параметр с датой (ISO формат)
+ * @returns Объект Date или undefined
+ */
+export function parseEndOfDayParam(param: string | undefined): Date | undefined {
+  const date = parseDateParam(param);
+  if (date && /^\d{4}-\d{2}-\d{2}$/.test(param!)) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Парсинг способа оплаты для фильтров
+ * 
+ * @param param - Строковый параметр (cash, card, bank, sbp)
+ * @returns Способ оплаты или undefined для пустого и неизвестного значения
+ */
+export function parsePaymentMethodParam(param: string | undefined): PaymentMethod | undefined {
+  return (paymentMethods as readonly string[]).includes(param ?? "") ? param as PaymentMethod : undefined;
+}
+
+/**
+ * Парсинг фильтра распределения из query или тела запроса
+ * 
+ * receiptIds принимается массивом или строкой через запятую,
+ * toDate без времени означает конец дня.
+ * 
+ * @param source - req.query или req.body
+ * @returns Фильтр; пустые и невалидные значения пропускаются
+ */
+export function parseDistributionFilter(source: Record<string, unknown> | undefined): DistributionFilter {
+  const { fromDate, toDate, incomeSourceId, receiptIds } = source ?? {};
+  const ids = typeof receiptIds === "string"
+    ? receiptIds.split(",").filter(Boolean)
+    : Array.isArray(receiptIds) ? receiptIds.filter((id): id is string => typeof id === "string") : undefined;
+
+  return {
+    fromDate: typeof fromDate === "string" ? parseDateParam(fromDate) : undefined,
+    toDate: typeof toDate === "string" ? parseEndOfDayParam(toDate) : undefined,
+    incomeSourceId: typeof incomeSourceId === "string" && incomeSourceId ? incomeSourceId : undefined,
+    receiptIds: ids,
+  };
+}
+
+/**
+ * Строки спонсоров из запроса создания или изменения поступления
+ *
+ * Если строки переданы, сумма поступления считается по ним, а переданная
+ * вместе с ними сумма должна с ней совпадать.
+ *
+ * @param body - req.body
+ * @returns Строки или undefined, если их нет в запросе
+ * @throws z.ZodError если строки некорректны или сумма поступления с ними не сходится
+ */
+export function parseReceiptItems(body: Record<string, unknown> | undefined): ReceiptItemInput[] | undefined {
+  if (body?.items === undefined) return undefined;
+
+  const items = receiptItemsInputSchema.parse(body.items);
+  const amount = body.amount;
+  if ((typeof amount === "string" || typeof amount === "number") && toKopecks(amount) !== toKopecks(receiptItemsAmount(items))) {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ["amount"],
+      message: `Сумма поступления не совпадает с суммой по спонсорам (${receiptItemsAmount(items)})`,
+    }]);
+  }
+  return items;
+}
+
+/**
+ * Позиции расхода из запроса создания или изменения расхода
+ *
+ * Если позиции переданы, сумма расхода считается по ним (количество на цену),
+ * а переданная вместе с ними сумма должна с ней совпадать.
+ *
+ * @param body - req.body
+ * @returns Позиции или undefined, если их нет в запросе
+ * @throws z.ZodError если позиции некорректны или сумма расхода с ними не сходится
+ */
+export function parseCostItems(body: Record<string, unknown> | undefined): CostItemInput[] | undefined {
+  if (body?.items === undefined) return undefined;
+
+  const items = costItemsInputSchema.parse(body.items);
+  const totalAmount = body.totalAmount;
+  if ((typeof totalAmount === "string" || typeof totalAmount === "number") && toKopecks(totalAmount) !== toKopecks(costItemsAmount(items))) {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ["totalAmount"],
+      message: `Сумма расхода не совпадает с суммой по позициям (${costItemsAmount(items)})`,
+    }]);
+  }
+  return items;
+}
+
+/**
+ * Разделение расхода между фондами из запроса создания или изменения расхода
+ *
+ * Доли задаются суммами (в итоге - сумма расхода) или процентами (в итоге - 100%).
+ *
+ * @param body - req.body
+ * @param totalAmount - Сумма расхода (с позициями - сумма по позициям)
+ * @returns Доли фондов; null - разделение снято; undefined - его нет в запросе
+ * @throws z.ZodError если доли некорректны или не сходятся с суммой расхода
+ */
+export function parseCostFundShares(body: Record<string, unknown> | undefined, totalAmount: string): CostFundShareInput[] | null | undefined {
+  if (body?.fundSplit === undefined) return undefined;
+  if (body.fundSplit === null) return null;
+
+  const shares = costFundShareAmounts(totalAmount, costFundSplitSchema.parse(body.fundSplit));
+  if (!shares) {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ["fundSplit"],
+      message: `Сумма долей фондов не совпадает с суммой расхода (${normalizeMoney(totalAmount)})`,
+    }]);
+  }
+  return shares;
+}
@@ -0,0 +1,92 @@
+/**
+ * Дерево статей расходов для LakshmiApp
+ *
+ * Статьи хранятся плоским списком со ссылкой parentId на родителя.
+ * Модуль собирает из списка дерево, путь статьи ("Коммунальные > Электричество")
+ * и множество потомков - для формы статьи, отчета по расходам и проверок сервера.
+ *
+ * Модуль общий для сервера и клиента.
+ */
+
+/** Минимум полей статьи, нужный для построения дерева */
+export interface CategoryTreeItem {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+export type CategoryTreeNode<T extends CategoryTreeItem> = T & {
+  depth: number;                        // 0 - статья верхнего уровня
+  children: CategoryTreeNode<T>[];
+};
+
+/** Разделитель уровней в пути статьи */
+export const CATEGORY_PATH_SEPARATOR = " > ";
+
+/**
+ * Дерево статей, на каждом уровне по названию
+ *
+ * Статья с отсутствующим родителем (или попавшая в цикл) становится статьей верхнего уровня.
+ */
+export function buildCategoryTree<T extends CategoryTreeItem>(categories: T[]): CategoryTreeNode<T>[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const children = new Map<string | null, T[]>();
+  for (const category of categories) {
+    const parentId = category.parentId && byId.has(category.parentId) && !isInCycle(byId, category.id)
+      ? category.parentId
+      : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const build = (parentId: string | null, depth: number): CategoryTreeNode<T>[] =>
+    (children.get(parentId) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name, "ru"))
+      .map(category => ({ ...category, depth, children: build(category.id, depth + 1) }));
+  return build(null, 0);
+}
+
+function isInCycle<T extends CategoryTreeItem>(byId: Map<string, T>, id: string): boolean {
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current?.parentId) {
+    if (current.parentId === id || seen.has(current.parentId)) return true;
+    seen.add(current.parentId);
+    current = byId.get(current.parentId);
+  }
+  return false;
+}
+
+/** Дерево в порядке обхода: родитель, затем его потомки */
+export function flattenCategoryTree<T extends CategoryTreeItem>(nodes: CategoryTreeNode<T>[]): CategoryTreeNode<T>[] {
+  return nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/** Статья и все ее потомки */
+export function categoryDescendantIds(categories: CategoryTreeItem[], id: string): Set<string> {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/** Путь статьи от верхнего уровня: ["Коммунальные", "Электричество"] */
+export function categoryPath(categories: CategoryTreeItem[], id: string): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,48 @@
+/**
+ * Разрешенные статьи расходов фондов для LakshmiApp
+ *
+ * Фонд с целевым назначением оплачивает только разрешенные статьи и их подстатьи
+ * (разрешение "Строительство" покрывает "Строительство > Материалы").
+ * Фонд без разрешенных статей оплачивает любые расходы.
+ *
+ * Модуль общий для сервера и клиента.
+ */
+
+import { type CategoryTreeItem, categoryDescendantIds } from "./expenseCategoryTree";
+
+/** Разрешение статьи фонду (строка fund_expense_categories) */
+export interface FundCategoryRule {
+  fundId: string;
+  expenseCategoryId: string;
+}
+
+/**
+ * Статьи, которые может оплачивать фонд
+ *
+ * @returns Разрешенные статьи с подстатьями или null, если фонд не ограничен
+ */
+export function fundAllowedCategoryIds(
+  fundId: string,
+  rules: FundCategoryRule[],
+  categories: CategoryTreeItem[],
+): Set<string> | null {
+  const allowed = rules.filter(rule => rule.fundId === fundId);
+  if (allowed.length === 0) return null;
+
+  const ids = new Set<string>();
+  for (const rule of allowed) {
+    categoryDescendantIds(categories, rule.expenseCategoryId).forEach(id => ids.add(id));
+  }
+  return ids;
+}
+
+/** Может ли фонд оплачивать статью */
+export function fundAllowsCategory(
+  fundId: string,
+  expenseCategoryId: string,
+  rules: FundCategoryRule[],
+  categories: CategoryTreeItem[],
+): boolean {
+  const allowed = fundAllowedCategoryIds(fundId, rules, categories);
+  return !allowed || allowed.has(expenseCategoryId);
+}
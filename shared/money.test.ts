@@ -0,0 +1,91 @@
+/**
+ * Денежные суммы в копейках: разбор, округление, проценты и произведения
+ *
+ * Запуск: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { InvalidMoneyError, fromKopecks, multiplyMoney, normalizeMoney, percentOf, sumMoney, toKopecks, tryToKopecks } from "./money";
+
+test("toKopecks parses decimal strings and numbers", () => {
+  assert.equal(toKopecks("1234.56"), 123456);
+  assert.equal(toKopecks("1234.5"), 123450);
+  assert.equal(toKopecks("1234"), 123400);
+  assert.equal(toKopecks(".5"), 50);
+  assert.equal(toKopecks("+7"), 700);
+  assert.equal(toKopecks(1234.56), 123456);
+  assert.equal(toKopecks(0.1 + 0.2), 30);
+});
+
+test("toKopecks accepts a comma separator and digit group spaces", () => {
+  assert.equal(toKopecks("1234,56"), 123456);
+  assert.equal(toKopecks("1 234 567,8"), 123456780);
+  assert.equal(toKopecks("1 234,56"), 123456);
+});
+
+test("toKopecks rounds extra fraction digits half away from zero", () => {
+  assert.equal(toKopecks("1.005"), 101);
+  assert.equal(toKopecks("1.0049"), 100);
+  assert.equal(toKopecks("-1.005"), -101);
+  assert.equal(toKopecks("-1.0049"), -100);
+  assert.equal(toKopecks(2.675), 268);
+});
+
+test("toKopecks keeps the sign of negative values", () => {
+  assert.equal(toKopecks("-12.34"), -1234);
+  assert.equal(toKopecks(-0.01), -1);
+  assert.equal(toKopecks("-0.00"), 0);
+  assert.equal(fromKopecks(-1234), "-12.34");
+  assert.equal(normalizeMoney("-5,5"), "-5.50");
+});
+
+test("toKopecks treats empty values as zero", () => {
+  assert.equal(toKopecks(""), 0);
+  assert.equal(toKopecks(null), 0);
+  assert.equal(toKopecks(undefined), 0);
+});
+
+test("toKopecks rejects input that is not a number", () => {
+  for (const value of ["12.3.4", "abc", "1,234.56", "12a", ".", "-", "1e5", Number.NaN, Number.POSITIVE_INFINITY]) {
+    assert.throws(() => toKopecks(value), InvalidMoneyError, `value ${value}`);
+    assert.equal(tryToKopecks(value), null);
+  }
+});
+
+test("sumMoney adds mixed inputs to the kopeck", () => {
+  assert.equal(sumMoney(["0.10", 0.2, "0,30", null]), 60);
+  assert.throws(() => sumMoney(["1", "abc"]), InvalidMoneyError);
+});
+
+test("percentOf rounds the share to the kopeck", () => {
+  assert.equal(percentOf(10000, "33.33"), 3333);
+  assert.equal(percentOf(10001, "33.33"), 3333);
+  assert.equal(percentOf(10, "25"), 3);
+  assert.equal(percentOf(99999, 100), 99999);
+  assert.equal(percentOf(12345, "0"), 0);
+});
+
+test("percentOf handles negative amounts and rejects invalid percentages", () => {
+  assert.equal(percentOf(-10000, "30"), -3000);
+  assert.equal(percentOf(10000, "-30"), -3000);
+  assert.throws(() => percentOf(10000, "30%"), InvalidMoneyError);
+});
+
+test("multiplyMoney rounds price times quantity to the kopeck", () => {
+  assert.equal(multiplyMoney("10.00", "2.5"), 2500);
+  assert.equal(multiplyMoney("0.33", 3), 99);
+  assert.equal(multiplyMoney("1.99", "0.5"), 100);
+  assert.equal(multiplyMoney("100", "0.125"), 1250);
+  assert.equal(multiplyMoney("33.33", "0.001"), 3);
+});
+
+test("multiplyMoney accepts comma separators and negative prices", () => {
+  assert.equal(multiplyMoney("12,50", "0,5"), 625);
+  assert.equal(multiplyMoney("-10.00", "2.5"), -2500);
+});
+
+test("multiplyMoney rejects an invalid price or quantity", () => {
+  assert.throws(() => multiplyMoney("abc", 2), InvalidMoneyError);
+  assert.throws(() => multiplyMoney("10", "two"), InvalidMoneyError);
+});
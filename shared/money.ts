@@ -0,0 +1,158 @@
+/**
+ * Денежные суммы для LakshmiApp
+ *
+ * Все вычисления с деньгами выполняются в целых копейках (Kopecks),
+ * чтобы итоги сходились до копейки и не появлялись значения вида
+ * 33.333333333333336. Снаружи суммы остаются в привычном виде:
+ * - в базе данных и API - десятичная строка с двумя знаками ("1234.56")
+ * - в числовых полях API (балансы, отчеты) - число рублей (1234.56)
+ *
+ * Модуль общий для сервера и клиента.
+ */
+
+/** Денежная сумма в копейках (всегда целое число) */
+export type Kopecks = number;
+
+/** Сумма в любом внешнем представлении: десятичная строка или число рублей */
+export type MoneyInput = string | number | null | undefined;
+
+/** Значение не является суммой (или количеством) - ошибка входных данных, а не сервера */
+export class InvalidMoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMoneyError";
+  }
+}
+
+/**
+ * Перевод суммы в копейки
+ *
+ * Строки разбираются посимвольно, без перевода в число с плавающей точкой.
+ * Допускаются пробелы между разрядами и запятая как десятичный разделитель.
+ * Дробная часть длиннее двух знаков округляется до копейки (половина - от нуля).
+ *
+ * @param value - Десятичная строка или число рублей; пустое значение - 0
+ * @returns Сумма в копейках
+ * @throws InvalidMoneyError если строка не является числом
+ */
+export function toKopecks(value: MoneyInput): Kopecks {
+  if (value === null || value === undefined || value === "") return 0;
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new InvalidMoneyError(`Некорректная сумма: ${value}`);
+    }
+    // toFixed убирает ошибку представления вроде 0.1 + 0.2
+    return toKopecks(value.toFixed(6));
+  }
+
+  const normalized = value.replace(/\s/g, "").replace(",", ".");
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(normalized);
+  if (!match || (match[2] === "" && !match[3])) {
+    throw new InvalidMoneyError(`Некорректная сумма: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  let kopecks = parseInt(whole || "0", 10) * 100 + parseInt((fraction + "00").slice(0, 2), 10);
+  if (fraction.length > 2 && fraction[2] >= "5") {
+    kopecks += 1;
+  }
+  return sign === "-" && kopecks !== 0 ? -kopecks : kopecks;
+}
+
+/**
+ * Перевод введенной пользователем суммы в копейки без исключений
+ *
+ * @returns Сумма в копейках или null, если значение не является числом
+ */
+export function tryToKopecks(value: MoneyInput): Kopecks | null {
+  try {
+    return toKopecks(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Перевод копеек в десятичную строку для хранения ("1234.56")
+ */
+export function fromKopecks(kopecks: Kopecks): string {
+  const sign = kopecks < 0 ? "-" : "";
+  const abs = Math.abs(kopecks);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Перевод копеек в число рублей для числовых полей API
+ */
+export function kopecksToRubles(kopecks: Kopecks): number {
+  return kopecks / 100;
+}
+
+/**
+ * Приведение суммы к каноническому виду десятичной строки
+ *
+ * @example normalizeMoney(33.333333333333336) // "33.33"
+ */
+export function normalizeMoney(value: MoneyInput): string {
+  return fromKopecks(toKopecks(value));
+}
+
+/**
+ * Сумма списка значений в копейках
+ */
+export function sumMoney(values: MoneyInput[]): Kopecks {
+  return values.reduce<Kopecks>((total, value) => total + toKopecks(value), 0);
+}
+
+/**
+ * Доля суммы в процентах, округленная до копейки
+ *
+ * @param kopecks - Исходная сумма в копейках
+ * @param percentage - Процент (строка из базы или число), например "33.33"
+ */
+export function percentOf(kopecks: Kopecks, percentage: MoneyInput): Kopecks {
+  // Процент хранится с двумя знаками, поэтому считаем в сотых долях процента
+  const basisPoints = toKopecks(percentage);
+  return Math.round((kopecks * basisPoints) / 10000);
+}
+
+/**
+ * Стоимость количества по цене за единицу, округленная до копейки
+ *
+ * @param unitPrice - Цена за единицу
+ * @param quantity - Количество с точностью до тысячных ("2.5", "0.125")
+ * @throws InvalidMoneyError если цена или количество не являются числом
+ */
+export function multiplyMoney(unitPrice: MoneyInput, quantity: string | number): Kopecks {
+  // Количество считаем в тысячных долях, чтобы произведение оставалось целым
+  const thousandths = Math.round(Number(String(quantity).replace(",", ".")) * 1000);
+  if (!Number.isFinite(thousandths)) {
+    throw new InvalidMoneyError(`Некорректное количество: ${quantity}`);
+  }
+  return Math.round((toKopecks(unitPrice) * thousandths) / 1000);
+}
+
+/**
+ * Процент, который часть составляет от целого, с точностью до сотых
+ *
+ * @returns Десятичная строка процента ("33.33") или "0.00" если целое равно нулю
+ */
+export function percentageOf(part: Kopecks, whole: Kopecks): string {
+  if (whole === 0) return "0.00";
+  return fromKopecks(Math.round((part * 10000) / whole));
+}
+
+const rubleFormatter = new Intl.NumberFormat("ru-RU", {
+  style: "currency",
+  currency: "RUB",
+});
+
+/**
+ * Форматирование суммы для отображения ("1 234,56 ₽")
+ *
+ * @param value - Десятичная строка или число рублей
+ */
+export function formatMoney(value: MoneyInput): string {
+  return rubleFormatter.format(kopecksToRubles(toKopecks(value)));
+}
@@ -25,10 +25,13 @@ import {
   decimal,        // Денежные суммы с точностью
   boolean,        // Логические поля
   integer,        // Целые числа
+  serial,         // Автоинкрементные номера
+  type AnyPgColumn, // Тип колонки для ссылок таблицы на саму себя
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";                // Определение связей между таблицами
 import { createInsertSchema } from "drizzle-zod";       // Автогенерация Zod схем из Drizzle
 import { z } from "zod";                                // Библиотека валидации схем
+import { fromKopecks, multiplyMoney, normalizeMoney, sumMoney, toKopecks } from "./money";             // Денежные суммы в копейках
 
 // === ТАБЛИЦЫ СИСТЕМЫ ===
 
@@ -87,6 +90,10 @@ export const receipts = pgTable("receipts", {
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   incomeSourceId: varchar("income_source_id").notNull().references(() => incomeSources.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Распределение устарело: сумма, дата или источник изменились после распределения
+  distributionStale: boolean("distribution_stale").notNull().default(false),
+  // Счет, на который поступили деньги (касса, банк, карта)
+  moneyAccountId: varchar("money_account_id").notNull().references(() => moneyAccounts.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -95,7 +102,10 @@ export const receipts = pgTable("receipts", {
 export const receiptItems = pgTable("receipt_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   receiptId: varchar("receipt_id").notNull().references(() => receipts.id, { onDelete: "cascade" }),
-  sponsorId: varchar("sponsor_id").notNull().references(() => sponsors.id, { onDelete: "cascade" }),
+  // Без спонсора - анонимное поступление (ящик для пожертвований, перевод без отправителя)
+  sponsorId: varchar("sponsor_id").references(() => sponsors.id, { onDelete: "cascade" }),
+  payerName: varchar("payer_name", { length: 255 }), // Плательщик в свободной форме для строк без спонсора
+  paymentMethod: varchar("payment_method", { length: 20 }), // Способ оплаты (paymentMethods), пусто - не указан
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   comment: varchar("comment", { length: 500 }),
   createdAt: timestamp("created_at").defaultNow(),
@@ -108,6 +118,10 @@ export const expenseNomenclature = pgTable("expense_nomenclature", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name", { length: 255 }).notNull(),
   description: varchar("description", { length: 500 }),
+  unit: varchar("unit", { length: 20 }), // Единица измерения ("кг", "шт", "л"), пусто - не указана
+  // Статья и фонд, которые подставляются в новый расход по этой номенклатуре
+  expenseCategoryId: varchar("expense_category_id").references(() => expenseCategories.id, { onDelete: "set null" }),
+  fundId: varchar("fund_id").references(() => funds.id, { onDelete: "set null" }),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -119,6 +133,9 @@ export const expenseCategories = pgTable("expense_categories", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name", { length: 255 }).notNull(),
   description: varchar("description", { length: 500 }),
+  // Родительская статья ("Коммунальные > Электричество"), пусто - статья верхнего уровня.
+  // При удалении родителя дочерние статьи поднимаются на верхний уровень
+  parentId: varchar("parent_id").references((): AnyPgColumn => expenseCategories.id, { onDelete: "set null" }),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -131,7 +148,10 @@ export const costs = pgTable("costs", {
   expenseNomenclatureId: varchar("expense_nomenclature_id").notNull().references(() => expenseNomenclature.id, { onDelete: "cascade" }),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
   expenseCategoryId: varchar("expense_category_id").notNull().references(() => expenseCategories.id, { onDelete: "cascade" }),
+  // Фонд расхода; у расхода, разделенного между фондами, - фонд первой доли (cost_fund_shares)
   fundId: varchar("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  paymentMethod: varchar("payment_method", { length: 20 }), // Способ оплаты (paymentMethods), пусто - не указан
+  moneyAccountId: varchar("money_account_id").notNull().references(() => moneyAccounts.id), // Счет, с которого оплачено
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -142,18 +162,36 @@ export const costItems = pgTable("cost_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   costId: varchar("cost_id").notNull().references(() => costs.id, { onDelete: "cascade" }),
   expenseNomenclatureId: varchar("expense_nomenclature_id").notNull().references(() => expenseNomenclature.id, { onDelete: "cascade" }),
+  // Количество в единицах номенклатуры и цена за единицу; сумма позиции - их произведение.
+  // У позиций, введенных до появления количества, заполнена только сумма
+  quantity: decimal("quantity", { precision: 12, scale: 3 }),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   description: varchar("description", { length: 500 }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Доли фондов в расходе, разделенном между фондами (общая аренда по договоренности).
+// Сумма долей равна сумме расхода; у неразделенного расхода долей нет
+export const costFundShares = pgTable("cost_fund_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  costId: varchar("cost_id").notNull().references(() => costs.id, { onDelete: "cascade" }),
+  // Фонд с долями не удаляется: без доли расход перестал бы сходиться с суммой
+  fundId: varchar("fund_id").notNull().references(() => funds.id, { onDelete: "restrict" }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  percentage: decimal("percentage", { precision: 5, scale: 2 }), // Если доля задана процентом
+  position: integer("position").notNull().default(0),             // Порядок долей в расходе
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   sponsors: many(sponsors),
   receipts: many(receipts),
   costs: many(costs),
   funds: many(funds),
+  moneyAccounts: many(moneyAccounts),
   incomeSources: many(incomeSources),
   expenseNomenclature: many(expenseNomenclature),
   expenseCategories: many(expenseCategories),
@@ -176,6 +214,10 @@ export const receiptsRelations = relations(receipts, ({ one, many }) => ({
     fields: [receipts.incomeSourceId],
     references: [incomeSources.id],
   }),
+  moneyAccount: one(moneyAccounts, {
+    fields: [receipts.moneyAccountId],
+    references: [moneyAccounts.id],
+  }),
   receiptItems: many(receiptItems),
   distributions: many(fundDistributions),
 }));
@@ -192,6 +234,15 @@ export const funds = pgTable("funds", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Разрешенные статьи фонда с целевым назначением (строительный фонд - только строительные статьи).
+// Разрешение статьи распространяется на ее подстатьи; фонд без разрешенных статей оплачивает любые расходы
+export const fundExpenseCategories = pgTable("fund_expense_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fundId: varchar("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  expenseCategoryId: varchar("expense_category_id").notNull().references(() => expenseCategories.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Income sources table with custom fund distribution
 export const incomeSources = pgTable("income_sources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -199,16 +250,27 @@ export const incomeSources = pgTable("income_sources", {
   name: varchar("name", { length: 255 }).notNull(),
   description: varchar("description", { length: 500 }),
   isActive: boolean("is_active").default(true),
+  // Фонд, получающий копейки округления при распределении (null - по наибольшему остатку)
+  roundingFundId: varchar("rounding_fund_id").references(() => funds.id, { onDelete: "set null" }),
+  // Режим распределения: auto - поступления распределяются сразу при создании и изменении, manual - вручную
+  distributionMode: varchar("distribution_mode", { length: 10 }).notNull().default("manual"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Fund distribution for income sources
+// Правила версионируются: версия действует с validFrom включительно до validTo (null - по настоящее время)
+// Правила версии - шаги каскада, применяемые к поступлению по порядку position
 export const incomeSourceFundDistributions = pgTable("income_source_fund_distributions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   incomeSourceId: varchar("income_source_id").notNull().references(() => incomeSources.id, { onDelete: "cascade" }),
   fundId: varchar("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
-  percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(),
+  ruleType: varchar("rule_type", { length: 20 }).notNull().default("percentage"), // fixed, percentage, capped, remainder
+  position: integer("position").notNull().default(0),
+  percentage: decimal("percentage", { precision: 5, scale: 2 }), // Для percentage и capped
+  amount: decimal("amount", { precision: 12, scale: 2 }),        // Сумма для fixed, месячный лимит для capped
+  validFrom: timestamp("valid_from").notNull().defaultNow(),
+  validTo: timestamp("valid_to"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -220,6 +282,8 @@ export const fundDistributions = pgTable("fund_distributions", {
   fundId: varchar("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(),
+  // Запуск распределения, создавший строку (null - распределение при создании поступления)
+  distributionHistoryId: varchar("distribution_history_id").references(() => distributionHistory.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -246,6 +310,36 @@ export const manualFundDistributions = pgTable("manual_fund_distributions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+/**
+ * Счета - где деньги лежат физически: касса, банковский счет, карта
+ *
+ * Фонды отвечают на вопрос "на что эти деньги", счета - "где они".
+ * Сумма остатков счетов равна сумме остатков фондов и нераспределенных средств.
+ */
+export const moneyAccounts = pgTable("money_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull().default("cash"), // Вид счета (moneyAccountKinds)
+  description: varchar("description", { length: 500 }),
+  initialBalance: decimal("initial_balance", { precision: 12, scale: 2 }).default("0"),
+  isActive: boolean("is_active").default(true),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Перемещения денег между счетами (снятие наличных, внесение в кассу банка)
+export const moneyAccountTransfers = pgTable("money_account_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fromAccountId: varchar("from_account_id").notNull().references(() => moneyAccounts.id, { onDelete: "cascade" }),
+  toAccountId: varchar("to_account_id").notNull().references(() => moneyAccounts.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  date: timestamp("date").notNull(),
+  description: varchar("description", { length: 500 }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const costsRelations = relations(costs, ({ one, many }) => ({
   user: one(users, {
     fields: [costs.userId],
@@ -259,7 +353,23 @@ export const costsRelations = relations(costs, ({ one, many }) => ({
     fields: [costs.fundId],
     references: [funds.id],
   }),
+  moneyAccount: one(moneyAccounts, {
+    fields: [costs.moneyAccountId],
+    references: [moneyAccounts.id],
+  }),
   costItems: many(costItems),
+  fundShares: many(costFundShares),
+}));
+
+export const costFundSharesRelations = relations(costFundShares, ({ one }) => ({
+  cost: one(costs, {
+    fields: [costFundShares.costId],
+    references: [costs.id],
+  }),
+  fund: one(funds, {
+    fields: [costFundShares.fundId],
+    references: [funds.id],
+  }),
 }));
 
 export const costItemsRelations = relations(costItems, ({ one }) => ({
@@ -302,6 +412,19 @@ export const fundsRelations = relations(funds, ({ one, many }) => ({
   transfersTo: many(fundTransfers, { relationName: "toFund" }),
   manualDistributions: many(manualFundDistributions),
   costs: many(costs),
+  costShares: many(costFundShares),
+  allowedExpenseCategories: many(fundExpenseCategories),
+}));
+
+export const fundExpenseCategoriesRelations = relations(fundExpenseCategories, ({ one }) => ({
+  fund: one(funds, {
+    fields: [fundExpenseCategories.fundId],
+    references: [funds.id],
+  }),
+  expenseCategory: one(expenseCategories, {
+    fields: [fundExpenseCategories.expenseCategoryId],
+    references: [expenseCategories.id],
+  }),
 }));
 
 export const fundDistributionsRelations = relations(fundDistributions, ({ one }) => ({
@@ -313,6 +436,10 @@ export const fundDistributionsRelations = relations(fundDistributions, ({ one })
     fields: [fundDistributions.fundId],
     references: [funds.id],
   }),
+  distributionHistory: one(distributionHistory, {
+    fields: [fundDistributions.distributionHistoryId],
+    references: [distributionHistory.id],
+  }),
 }));
 
 // Income sources relations
@@ -321,6 +448,10 @@ export const incomeSourcesRelations = relations(incomeSources, ({ one, many }) =
     fields: [incomeSources.userId],
     references: [users.id],
   }),
+  roundingFund: one(funds, {
+    fields: [incomeSources.roundingFundId],
+    references: [funds.id],
+  }),
   receipts: many(receipts),
   fundDistributions: many(incomeSourceFundDistributions),
 }));
@@ -367,6 +498,34 @@ export const fundTransfersRelations = relations(fundTransfers, ({ one }) => ({
   }),
 }));
 
+export const moneyAccountsRelations = relations(moneyAccounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [moneyAccounts.userId],
+    references: [users.id],
+  }),
+  receipts: many(receipts),
+  costs: many(costs),
+  transfersFrom: many(moneyAccountTransfers, { relationName: "fromAccount" }),
+  transfersTo: many(moneyAccountTransfers, { relationName: "toAccount" }),
+}));
+
+export const moneyAccountTransfersRelations = relations(moneyAccountTransfers, ({ one }) => ({
+  fromAccount: one(moneyAccounts, {
+    fields: [moneyAccountTransfers.fromAccountId],
+    references: [moneyAccounts.id],
+    relationName: "fromAccount",
+  }),
+  toAccount: one(moneyAccounts, {
+    fields: [moneyAccountTransfers.toAccountId],
+    references: [moneyAccounts.id],
+    relationName: "toAccount",
+  }),
+  user: one(users, {
+    fields: [moneyAccountTransfers.userId],
+    references: [users.id],
+  }),
+}));
+
 // Manual fund distributions relations
 export const manualFundDistributionsRelations = relations(manualFundDistributions, ({ one }) => ({
   fund: one(funds, {
@@ -379,6 +538,19 @@ export const manualFundDistributionsRelations = relations(manualFundDistribution
   }),
 }));
 
+/**
+ * Денежная сумма во входящих данных: строка или число,
+ * приводится к десятичной строке с точностью до копейки
+ */
+export const moneySchema = z.union([z.string(), z.number()]).transform((val, ctx) => {
+  try {
+    return normalizeMoney(val);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Некорректная сумма" });
+    return z.NEVER;
+  }
+});
+
 // Insert schemas
 export const insertSponsorSchema = createInsertSchema(sponsors).omit({
   id: true,
@@ -390,17 +562,36 @@ export const insertSponsorSchema = createInsertSchema(sponsors).omit({
 export const insertReceiptSchema = createInsertSchema(receipts).omit({
   id: true,
   userId: true,
+  distributionStale: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Способы оплаты поступлений и расходов
+export const paymentMethods = ["cash", "card", "bank", "sbp"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+
 export const insertCostSchema = createInsertSchema(costs).omit({
   id: true,
   userId: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  totalAmount: z.union([z.string(), z.number()]).transform((val) => String(val)),
+  totalAmount: moneySchema,
+  paymentMethod: z.enum(paymentMethods).nullish(),
+});
+
+/**
+ * Количество во входящих данных: положительное число с точностью до тысячных,
+ * приводится к десятичной строке ("10.000")
+ */
+export const quantitySchema = z.union([z.string(), z.number()]).transform((val, ctx) => {
+  const quantity = typeof val === "number" ? val : Number(val.replace(/\s/g, "").replace(",", "."));
+  if (!Number.isFinite(quantity) || val === "" || quantity <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Количество должно быть больше нуля" });
+    return z.NEVER;
+  }
+  return quantity.toFixed(3);
 });
 
 export const insertCostItemSchema = createInsertSchema(costItems).omit({
@@ -408,8 +599,103 @@ export const insertCostItemSchema = createInsertSchema(costItems).omit({
   costId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  quantity: quantitySchema.nullish(),
+  unitPrice: moneySchema.nullish(),
 });
 
+// Позиции, передаваемые вместе с расходом: сумма позиции - количество на цену,
+// сумма расхода - сумма позиций
+export const costItemsInputSchema = z.array(z.object({
+  expenseNomenclatureId: z.string().min(1, "Выберите номенклатуру"),
+  quantity: quantitySchema,
+  unitPrice: moneySchema.refine((price) => Number(price) > 0, "Цена должна быть больше нуля"),
+  description: z.string().trim().max(500).nullish().transform((text) => text || null),
+})).min(1, "Добавьте хотя бы одну позицию");
+
+/**
+ * Сумма позиции расхода: количество на цену за единицу, до копейки
+ */
+export function costItemAmount(item: { quantity: string; unitPrice: string }): string {
+  return fromKopecks(multiplyMoney(item.unitPrice, item.quantity));
+}
+
+/**
+ * Сумма сохраняемой позиции: при количестве и цене - их произведение, иначе введенная сумма
+ */
+export function costItemStoredAmount(item: { quantity?: string | null; unitPrice?: string | null; amount: string }): string {
+  return item.quantity && item.unitPrice
+    ? costItemAmount({ quantity: item.quantity, unitPrice: item.unitPrice })
+    : normalizeMoney(item.amount);
+}
+
+/**
+ * Сумма расхода по позициям
+ */
+export function costItemsAmount(items: { quantity: string; unitPrice: string }[]): string {
+  return fromKopecks(sumMoney(items.map(costItemAmount)));
+}
+
+// Как задано разделение расхода между фондами: суммами или процентами от суммы расхода
+export const costSplitModes = ["amount", "percentage"] as const;
+export type CostSplitMode = typeof costSplitModes[number];
+
+// Разделение расхода между фондами, передаваемое вместе с расходом
+export const costFundSplitSchema = z.object({
+  mode: z.enum(costSplitModes),
+  shares: z.array(z.object({
+    fundId: z.string().min(1),
+    value: moneySchema.refine((value) => Number(value) > 0, "Share must be positive"),
+  })).min(2, "Split a cost across at least two funds"),
+}).refine(
+  (split) => new Set(split.shares.map(share => share.fundId)).size === split.shares.length,
+  { message: "Each fund can appear only once", path: ["shares"] }
+).refine(
+  (split) => split.mode !== "percentage" || sumMoney(split.shares.map(share => share.value)) === 10000,
+  { message: "Percentages must total exactly 100", path: ["shares"] }
+);
+
+/**
+ * Доли фондов в сумме расхода
+ *
+ * Доли-суммы берутся как есть, доли-проценты переводятся в копейки методом
+ * наибольшего остатка, чтобы в сумме дать ровно сумму расхода.
+ *
+ * @returns Доли в порядке разделения или null, если доли не сходятся с суммой расхода
+ */
+export function costFundShareAmounts(
+  totalAmount: string,
+  split: { mode: CostSplitMode; shares: { fundId: string; value: string }[] },
+): CostFundShareInput[] | null {
+  const total = toKopecks(totalAmount);
+  const values = split.shares.map(share => toKopecks(share.value));
+  const valuesTotal = values.reduce((sum, value) => sum + value, 0);
+
+  if (split.mode === "amount") {
+    if (valuesTotal !== total) return null;
+    return split.shares.map((share, index) => ({ fundId: share.fundId, amount: fromKopecks(values[index]), percentage: null }));
+  }
+
+  // Проценты хранятся с двумя знаками, поэтому считаем в сотых долях процента
+  if (valuesTotal !== 10000) return null;
+  const exact = values.map(value => total * value);
+  const amounts = exact.map(value => Math.floor(value / 10000));
+  let leftover = total - amounts.reduce((sum, amount) => sum + amount, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value % 10000 }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    amounts[index]++;
+    leftover--;
+  }
+  return split.shares.map((share, index) => ({
+    fundId: share.fundId,
+    amount: fromKopecks(amounts[index]),
+    percentage: fromKopecks(values[index]),
+  }));
+}
+
 export const insertFundSchema = createInsertSchema(funds).omit({
   id: true,
   userId: true,
@@ -417,16 +703,57 @@ export const insertFundSchema = createInsertSchema(funds).omit({
   updatedAt: true,
 });
 
+// Разрешенные статьи фонда; пустой список снимает ограничение
+export const fundExpenseCategoriesInputSchema = z.object({
+  expenseCategoryIds: z.array(z.string().min(1)).refine(
+    (ids) => new Set(ids).size === ids.length,
+    "Each expense category can appear only once"
+  ),
+});
+
+// Виды счетов
+export const moneyAccountKinds = ["cash", "bank", "card"] as const;
+export type MoneyAccountKind = typeof moneyAccountKinds[number];
+
+export const insertMoneyAccountSchema = createInsertSchema(moneyAccounts).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Укажите название счета").max(255),
+  kind: z.enum(moneyAccountKinds),
+  initialBalance: moneySchema.optional(),
+});
+
+export const insertMoneyAccountTransferSchema = createInsertSchema(moneyAccountTransfers).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  amount: moneySchema,
+  date: z.coerce.date(),
+}).refine(transfer => transfer.fromAccountId !== transfer.toAccountId, {
+  message: "Счета списания и зачисления должны различаться",
+  path: ["toAccountId"],
+});
+
 export const insertFundDistributionSchema = createInsertSchema(fundDistributions).omit({
   id: true,
   createdAt: true,
 });
 
+// Режимы распределения поступлений источника
+export const distributionModes = ["auto", "manual"] as const;
+export type DistributionMode = typeof distributionModes[number];
+
 export const insertIncomeSourceSchema = createInsertSchema(incomeSources).omit({
   id: true,
   userId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  distributionMode: z.enum(distributionModes).optional(),
 });
 
 export const insertIncomeSourceFundDistributionSchema = createInsertSchema(incomeSourceFundDistributions).omit({
@@ -435,12 +762,98 @@ export const insertIncomeSourceFundDistributionSchema = createInsertSchema(incom
   updatedAt: true,
 });
 
+// Типы шагов каскадного распределения
+export const distributionRuleTypes = ["fixed", "percentage", "capped", "remainder"] as const;
+export type DistributionRuleType = typeof distributionRuleTypes[number];
+
+// Шаг версии правил (порядок шагов - порядок в массиве)
+export const distributionRuleStepSchema = z.object({
+  fundId: z.string().min(1),
+  ruleType: z.enum(distributionRuleTypes).default("percentage"),
+  percentage: z.string().nullish(),
+  amount: z.string().nullish(),
+}).refine(
+  (step) => !["percentage", "capped"].includes(step.ruleType) || (Number(step.percentage) > 0 && Number(step.percentage) <= 100),
+  { message: "Percentage must be between 0.01 and 100", path: ["percentage"] }
+).refine(
+  (step) => !["fixed", "capped"].includes(step.ruleType) || Number(step.amount) > 0,
+  { message: "Amount must be positive", path: ["amount"] }
+);
+
+/**
+ * Суммы процентов по участкам каскада в сотых долях процента
+ *
+ * Каждый fixed-шаг начинает новый участок: проценты следующих шагов
+ * считаются от суммы, оставшейся после него.
+ */
+export function distributionPercentageSegments(rules: Pick<DistributionRuleStep, "ruleType" | "percentage">[]): number[] {
+  const segments = [0];
+  for (const rule of rules) {
+    if (rule.ruleType === "fixed") {
+      segments.push(0);
+    } else if (rule.ruleType === "percentage" || rule.ruleType === "capped") {
+      segments[segments.length - 1] += Math.round(Number(rule.percentage) * 100);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Распределяет ли версия правил поступление целиком
+ *
+ * Да, если последний шаг - остаток, или если нет шагов с лимитом и проценты
+ * после последнего fixed-шага составляют ровно 100%.
+ */
+export function distributesWholeReceipt(rules: Pick<DistributionRuleStep, "ruleType" | "percentage">[]): boolean {
+  if (rules.some(rule => rule.ruleType === "remainder")) return true;
+  if (rules.some(rule => rule.ruleType === "capped")) return false;
+  const segments = distributionPercentageSegments(rules);
+  return segments[segments.length - 1] === 10000;
+}
+
+// Новая версия правил распределения источника: заменяет действующие правила начиная с validFrom
+// Пустой список правил прекращает распределение; иначе правила должны распределять поступление целиком
+export const incomeSourceFundDistributionVersionSchema = z.object({
+  validFrom: z.date(),
+  rules: z.array(distributionRuleStepSchema),
+}).refine(
+  (version) => new Set(version.rules.map(rule => rule.fundId)).size === version.rules.length,
+  { message: "Each fund can appear only once", path: ["rules"] }
+).refine(
+  (version) => version.rules.every((rule, index) => rule.ruleType !== "remainder" || index === version.rules.length - 1),
+  { message: "Remainder step must be the last one", path: ["rules"] }
+).refine(
+  (version) => distributionPercentageSegments(version.rules).every(total => total <= 10000),
+  { message: "Total percentage must not exceed 100", path: ["rules"] }
+).refine(
+  (version) => version.rules.length === 0 || distributesWholeReceipt(version.rules),
+  { message: "Rules must total exactly 100% or end with a remainder step", path: ["rules"] }
+);
+
 export const insertReceiptItemSchema = createInsertSchema(receiptItems).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  paymentMethod: z.enum(paymentMethods).nullish(),
 });
 
+// Строки спонсоров, передаваемые вместе с поступлением: сумма поступления - их сумма.
+// Строка без спонсора - анонимное поступление, плательщик можно указать текстом
+export const receiptItemsInputSchema = z.array(z.object({
+  sponsorId: z.string().min(1).nullish(),
+  payerName: z.string().trim().max(255).nullish().transform((name) => name || null),
+  paymentMethod: z.enum(paymentMethods).nullish(),
+  amount: moneySchema.refine((amount) => Number(amount) > 0, "Сумма должна быть больше нуля"),
+})).min(1, "Добавьте хотя бы одну строку с суммой");
+
+/**
+ * Сумма поступления по строкам спонсоров
+ */
+export function receiptItemsAmount(items: Pick<ReceiptItemInput, "amount">[]): string {
+  return fromKopecks(sumMoney(items.map(item => item.amount)));
+}
+
 export const insertFundTransferSchema = createInsertSchema(fundTransfers).omit({
   id: true,
   userId: true,
@@ -458,6 +871,10 @@ export const insertExpenseNomenclatureSchema = createInsertSchema(expenseNomencl
   userId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  unit: z.string().trim().max(20).nullish().transform((unit) => unit || null).optional(),
+  expenseCategoryId: z.string().min(1).nullish(),
+  fundId: z.string().min(1).nullish(),
 });
 
 export const insertExpenseCategorySchema = createInsertSchema(expenseCategories).omit({
@@ -465,6 +882,8 @@ export const insertExpenseCategorySchema = createInsertSchema(expenseCategories)
   userId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  parentId: z.string().min(1).nullish(),
 });
 
 // Types
@@ -479,14 +898,21 @@ export type Cost = typeof costs.$inferSelect;
 export type InsertCost = z.infer<typeof insertCostSchema>;
 export type Fund = typeof funds.$inferSelect;
 export type InsertFund = z.infer<typeof insertFundSchema>;
+export type MoneyAccount = typeof moneyAccounts.$inferSelect;
+export type InsertMoneyAccount = z.infer<typeof insertMoneyAccountSchema>;
+export type MoneyAccountTransfer = typeof moneyAccountTransfers.$inferSelect;
+export type InsertMoneyAccountTransfer = z.infer<typeof insertMoneyAccountTransferSchema>;
 export type FundDistribution = typeof fundDistributions.$inferSelect;
 export type InsertFundDistribution = z.infer<typeof insertFundDistributionSchema>;
 export type IncomeSource = typeof incomeSources.$inferSelect;
 export type InsertIncomeSource = z.infer<typeof insertIncomeSourceSchema>;
 export type IncomeSourceFundDistribution = typeof incomeSourceFundDistributions.$inferSelect;
 export type InsertIncomeSourceFundDistribution = z.infer<typeof insertIncomeSourceFundDistributionSchema>;
+export type DistributionRuleStep = z.infer<typeof distributionRuleStepSchema>;
+export type IncomeSourceFundDistributionVersion = z.infer<typeof incomeSourceFundDistributionVersionSchema>;
 export type ReceiptItem = typeof receiptItems.$inferSelect;
 export type InsertReceiptItem = z.infer<typeof insertReceiptItemSchema>;
+export type ReceiptItemInput = z.infer<typeof receiptItemsInputSchema>[number];
 export type FundTransfer = typeof fundTransfers.$inferSelect;
 export type InsertFundTransfer = z.infer<typeof insertFundTransferSchema>;
 export type ManualFundDistribution = typeof manualFundDistributions.$inferSelect;
@@ -496,12 +922,23 @@ export type InsertExpenseNomenclature = z.infer<typeof insertExpenseNomenclature
 export type ExpenseCategory = typeof expenseCategories.$inferSelect;
 export type InsertExpenseCategory = z.infer<typeof insertExpenseCategorySchema>;
 export type InsertCostItem = z.infer<typeof insertCostItemSchema>;
+export type CostItemInput = z.infer<typeof costItemsInputSchema>[number];
+export type CostFundShare = typeof costFundShares.$inferSelect;
+export type CostFundSplit = z.infer<typeof costFundSplitSchema>;
+export type CostFundShareInput = Pick<CostFundShare, "fundId" | "amount" | "percentage">;
+export type FundExpenseCategory = typeof fundExpenseCategories.$inferSelect;
 
 // Distribution History table - tracks all fund distributions
 export const distributionHistory = pgTable("distribution_history", {
   id: varchar("id").primaryKey(),
   userId: varchar("user_id").notNull(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  // distribution - распределение поступлений, correction - пересчет устаревших распределений
+  // (строки корректировки - разница между пересчитанными и записанными долями фондов)
+  kind: varchar("kind", { length: 20 }).notNull().default("distribution"),
+  // Порядковый номер запуска: корректировка всегда получает номер больше, чем исправляемые ею запуски
+  // (даты запусков могут совпадать до миллисекунды)
+  sequence: serial("sequence").notNull(),
   distributionDate: timestamp("distribution_date").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -522,6 +959,7 @@ export const distributionHistoryRelations = relations(distributionHistory, ({ on
     references: [users.id],
   }),
   items: many(distributionHistoryItems),
+  fundDistributions: many(fundDistributions),
 }));
 
 export const distributionHistoryItemsRelations = relations(distributionHistoryItems, ({ one }) => ({
@@ -535,9 +973,14 @@ export const distributionHistoryItemsRelations = relations(distributionHistoryIt
   }),
 }));
 
+// Виды запусков распределения
+export const distributionHistoryKinds = ["distribution", "correction"] as const;
+export type DistributionHistoryKind = typeof distributionHistoryKinds[number];
+
 export const insertDistributionHistorySchema = createInsertSchema(distributionHistory).omit({
   id: true,
   userId: true,
+  sequence: true,
   createdAt: true,
 });
 
@@ -550,3 +993,235 @@ export type DistributionHistory = typeof distributionHistory.$inferSelect;
 export type InsertDistributionHistory = z.infer<typeof insertDistributionHistorySchema>;
 export type DistributionHistoryItem = typeof distributionHistoryItems.$inferSelect;
 export type InsertDistributionHistoryItem = z.infer<typeof insertDistributionHistoryItemSchema>;
+
+/**
+ * Журнал движения средств (двойная запись)
+ *
+ * Каждое поступление, распределение (автоматическое и ручное), перевод
+ * между фондами, расход и начальный остаток фонда порождает проводку:
+ * сумма списывается со счета creditAccount и зачисляется на debitAccount.
+ * Остаток любого счета на дату - сумма дебетовых проводок минус сумма
+ * кредитовых, поэтому баланс фондов считается в одном месте.
+ *
+ * Счета: `fund:<id>` - фонд, `unallocated` - нераспределенные поступления,
+ * `income` - доходы, `expenses` - расходы, `equity` - начальные остатки.
+ * Отдельное измерение - где лежат деньги: `money:<id>` - счет (касса, банк, карта),
+ * `money_in`, `money_out`, `money_opening` - его корреспонденция для поступлений,
+ * расходов и начальных остатков.
+ * Ссылка на документ-основание хранится в одной из колонок *_id,
+ * чтобы проводки удалялись каскадно вместе с документом.
+ */
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    date: timestamp("date").notNull(),                                       // Дата, на которую учитывается движение
+    debitAccount: varchar("debit_account", { length: 100 }).notNull(),       // Счет зачисления
+    creditAccount: varchar("credit_account", { length: 100 }).notNull(),     // Счет списания
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),        // Всегда положительная сумма
+    sourceType: varchar("source_type", { length: 50 }).notNull(),            // Тип документа-основания
+    receiptId: varchar("receipt_id").references(() => receipts.id, { onDelete: "cascade" }),
+    fundDistributionId: varchar("fund_distribution_id").references(() => fundDistributions.id, { onDelete: "cascade" }),
+    manualFundDistributionId: varchar("manual_fund_distribution_id").references(() => manualFundDistributions.id, { onDelete: "cascade" }),
+    fundTransferId: varchar("fund_transfer_id").references(() => fundTransfers.id, { onDelete: "cascade" }),
+    costId: varchar("cost_id").references(() => costs.id, { onDelete: "cascade" }),
+    fundId: varchar("fund_id").references(() => funds.id, { onDelete: "cascade" }), // Начальный остаток фонда
+    moneyAccountId: varchar("money_account_id").references(() => moneyAccounts.id, { onDelete: "cascade" }), // Начальный остаток счета
+    moneyAccountTransferId: varchar("money_account_transfer_id").references(() => moneyAccountTransfers.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_ledger_debit_account").on(table.debitAccount, table.date),
+    index("IDX_ledger_credit_account").on(table.creditAccount, table.date),
+  ],
+);
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+
+// Направления строк банковской выписки: поступление на счет или списание с него
+export const bankStatementDirections = ["incoming", "outgoing"] as const;
+export type BankStatementDirection = typeof bankStatementDirections[number];
+
+/**
+ * Строки загруженных банковских выписок
+ *
+ * Сохраняются при подтверждении импорта, чтобы повторная загрузка той же выписки
+ * не создавала документы второй раз (externalId), а следующий импорт мог
+ * подсказать источник, спонсора, номенклатуру и статью по прошлым документам
+ * того же контрагента. Строка связана с созданным поступлением или расходом,
+ * пропущенная при импорте строка остается без связи.
+ */
+export const bankStatementLines = pgTable(
+  "bank_statement_lines",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    moneyAccountId: varchar("money_account_id").references(() => moneyAccounts.id, { onDelete: "set null" }),
+    externalId: varchar("external_id", { length: 255 }).notNull(),           // Ключ документа в выписке: счет, номер, дата, сумма
+    direction: varchar("direction", { length: 10 }).notNull(),               // bankStatementDirections
+    documentNumber: varchar("document_number", { length: 50 }),
+    date: timestamp("date").notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    counterpartyName: varchar("counterparty_name", { length: 500 }),
+    counterpartyInn: varchar("counterparty_inn", { length: 12 }),
+    counterpartyAccount: varchar("counterparty_account", { length: 34 }),
+    purpose: varchar("purpose", { length: 1000 }),                           // Назначение платежа
+    receiptId: varchar("receipt_id").references(() => receipts.id, { onDelete: "set null" }),
+    costId: varchar("cost_id").references(() => costs.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_bank_statement_lines_external").on(table.userId, table.externalId),
+  ],
+);
+
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  direction: z.enum(bankStatementDirections),
+  amount: moneySchema,
+});
+
+// Строка выписки, подтвержденная пользователем: create - создать документ, skip - только запомнить строку
+export const bankImportLineSchema = insertBankStatementLineSchema.omit({
+  moneyAccountId: true,
+  receiptId: true,
+  costId: true,
+}).extend({
+  date: z.coerce.date(),
+  action: z.enum(["create", "skip"]),
+  incomeSourceId: z.string().min(1).nullish(),
+  sponsorId: z.string().min(1).nullish(),
+  expenseNomenclatureId: z.string().min(1).nullish(),
+  expenseCategoryId: z.string().min(1).nullish(),
+  fundId: z.string().min(1).nullish(),
+}).refine(
+  (line) => line.action === "skip" || line.direction === "outgoing" || Boolean(line.incomeSourceId),
+  { message: "Income source is required for incoming payments", path: ["incomeSourceId"] }
+).refine(
+  (line) => line.action === "skip" || line.direction === "incoming" ||
+    Boolean(line.expenseNomenclatureId && line.expenseCategoryId && line.fundId),
+  { message: "Nomenclature, category and fund are required for outgoing payments", path: ["fundId"] }
+);
+
+export const bankImportConfirmSchema = z.object({
+  moneyAccountId: z.string().min(1),
+  lines: z.array(bankImportLineSchema).min(1),
+});
+
+// Ручная сверка: строка выписки связывается ровно с одним поступлением или расходом
+export const bankStatementMatchSchema = z.object({
+  receiptId: z.string().min(1).nullish(),
+  costId: z.string().min(1).nullish(),
+}).refine(match => Boolean(match.receiptId) !== Boolean(match.costId), {
+  message: "Specify either receiptId or costId",
+});
+
+export type BankImportLine = z.infer<typeof bankImportLineSchema>;
+
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+
+// === ИМПОРТ ИЗ ТАБЛИЦ (CSV/XLSX) ===
+
+// Что загружается из таблицы
+export const spreadsheetImportKinds = ["receipts", "costs"] as const;
+export type SpreadsheetImportKind = typeof spreadsheetImportKinds[number];
+
+// Поля, на которые сопоставляются колонки таблицы. Ссылки (*Id) можно указывать
+// названием или ID; sponsorName - спонсор строки поступления (неизвестное имя становится плательщиком)
+export const receiptImportFields = [
+  "date",
+  "description",
+  "amount",
+  "incomeSourceId",
+  "sponsorName",
+  "paymentMethod",
+  "moneyAccountId",
+] as const;
+export const costImportFields = [
+  "date",
+  "expenseNomenclatureId",
+  "totalAmount",
+  "expenseCategoryId",
+  "fundId",
+  "paymentMethod",
+  "moneyAccountId",
+] as const;
+export type SpreadsheetImportField = typeof receiptImportFields[number] | typeof costImportFields[number];
+
+/** Поля таблицы для вида импорта */
+export function spreadsheetImportFields(kind: SpreadsheetImportKind): readonly SpreadsheetImportField[] {
+  return kind === "receipts" ? receiptImportFields : costImportFields;
+}
+
+// Поля, без которых документ не создать
+export const requiredSpreadsheetImportFields: Record<SpreadsheetImportKind, readonly SpreadsheetImportField[]> = {
+  receipts: ["date", "amount", "incomeSourceId", "moneyAccountId"],
+  costs: ["date", "expenseNomenclatureId", "totalAmount", "expenseCategoryId", "fundId", "moneyAccountId"],
+};
+
+// Форматы дат в таблицах; excel - порядковый номер дня, как даты хранятся в XLSX
+export const spreadsheetDateFormats = ["dd.MM.yyyy", "yyyy-MM-dd", "dd/MM/yyyy", "MM/dd/yyyy", "excel"] as const;
+export type SpreadsheetDateFormat = typeof spreadsheetDateFormats[number];
+
+// Десятичный разделитель сумм: "1 234,56" или "1,234.56"
+export const spreadsheetDecimalSeparators = [",", "."] as const;
+export type SpreadsheetDecimalSeparator = typeof spreadsheetDecimalSeparators[number];
+
+/**
+ * Сохраненные сопоставления колонок для повторных импортов
+ *
+ * columns: поле импорта -> заголовок колонки таблицы. Пустые форматы
+ * означают автоопределение по значениям колонки.
+ */
+export const importMappings = pgTable("import_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(),                         // spreadsheetImportKinds
+  columns: jsonb("columns").$type<Partial<Record<SpreadsheetImportField, string>>>().notNull(),
+  dateFormat: varchar("date_format", { length: 20 }),                      // spreadsheetDateFormats
+  decimalSeparator: varchar("decimal_separator", { length: 1 }),           // spreadsheetDecimalSeparators
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Колонки можно сопоставить только с полями своего вида импорта
+const spreadsheetColumnsSchema = z.record(z.string(), z.string().min(1));
+
+function columnsMatchKind(mapping: { kind: SpreadsheetImportKind; columns: Record<string, string> }): boolean {
+  const fields: readonly string[] = spreadsheetImportFields(mapping.kind);
+  return Object.keys(mapping.columns).every(field => fields.includes(field));
+}
+
+export const insertImportMappingSchema = createInsertSchema(importMappings).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Укажите название сопоставления").max(255),
+  kind: z.enum(spreadsheetImportKinds),
+  columns: spreadsheetColumnsSchema,
+  dateFormat: z.enum(spreadsheetDateFormats).nullish(),
+  decimalSeparator: z.enum(spreadsheetDecimalSeparators).nullish(),
+}).refine(columnsMatchKind, { message: "Unknown import field", path: ["columns"] });
+
+// Разобранная таблица с сопоставлением колонок для проверки и загрузки
+export const spreadsheetImportSchema = z.object({
+  kind: z.enum(spreadsheetImportKinds),
+  headers: z.array(z.string()),
+  rows: z.array(z.array(z.string())).min(1, "Таблица пуста").max(5000, "Не больше 5000 строк за раз"),
+  columns: spreadsheetColumnsSchema,
+  dateFormat: z.enum(spreadsheetDateFormats).nullish(),
+  decimalSeparator: z.enum(spreadsheetDecimalSeparators).nullish(),
+}).refine(columnsMatchKind, { message: "Unknown import field", path: ["columns"] });
+
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
+export type SpreadsheetImport = z.infer<typeof spreadsheetImportSchema>;